@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { applyAlertUpdate, assertAlertAccess, redactAlert, requireAlertStore } from '@/lib/alerts'
+import { Alert } from '@/lib/types'
+
+type AlertParams = { params: { id: string } }
+
+/**
+ * Alert by id, for a request holding its access token (Authorization: Bearer <token>)
+ */
+const loadAlert = async (request: NextRequest, id: string): Promise<Alert> => {
+  const alert = /^[a-f0-9-]{36}$/i.test(id) ? await requireAlertStore().getAlert(id) : null
+  if (!alert) {
+    throw new APIError(`Alert ${id} not found`, ErrorType.NOT_FOUND, 404)
+  }
+  assertAlertAccess(alert, request.headers.get('authorization'))
+  return alert
+}
+
+/**
+ * GET /api/alerts/[id]
+ * Sink targets are masked, here and in the PATCH response
+ */
+async function getAlertHandler(request: NextRequest, { params }: AlertParams): Promise<NextResponse> {
+  return NextResponse.json(redactAlert(await loadAlert(request, params.id)))
+}
+
+/**
+ * PATCH /api/alerts/[id]
+ * Body: any of { condition, sinks, cooldownSeconds, active }
+ */
+async function updateAlertHandler(request: NextRequest, { params }: AlertParams): Promise<NextResponse> {
+  const alert = applyAlertUpdate(await loadAlert(request, params.id), await InputValidator.readJsonBody(request))
+  await requireAlertStore().saveAlert(alert)
+
+  return NextResponse.json(redactAlert(alert))
+}
+
+/**
+ * DELETE /api/alerts/[id]
+ */
+async function deleteAlertHandler(request: NextRequest, { params }: AlertParams): Promise<NextResponse> {
+  const alert = await loadAlert(request, params.id)
+  await requireAlertStore().deleteAlert(alert.id)
+  console.log(`[API] Deleted alert ${alert.id}`)
+
+  return NextResponse.json({ deleted: alert.id })
+}
+
+// Export the wrapped handlers with global error handling
+export const GET = withErrorHandler(getAlertHandler)
+export const PATCH = withErrorHandler(updateAlertHandler)
+export const DELETE = withErrorHandler(deleteAlertHandler)
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandler, InputValidator } from '@/lib/errorHandler'
+import { requireAlertStore } from '@/lib/alerts'
+
+/**
+ * GET /api/alerts/notifications
+ * In-app notification feed of one owner, newest first (kept for 7 days)
+ * Query: owner (required), limit (1-200, default 50)
+ */
+async function notificationsHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const owner = InputValidator.validateOwner(searchParams.get('owner'))
+  const limit = Math.floor(InputValidator.validateNumberRange(searchParams.get('limit'), 'limit', 1, 200) ?? 50)
+
+  const notifications = await requireAlertStore().getNotifications(owner, limit)
+
+  return NextResponse.json({ owner, notifications })
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(notificationsHandler)
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { issueAlertToken, MAX_ALERTS_PER_OWNER, parseAlertInput, redactAlert, requireAlertStore } from '@/lib/alerts'
+
+/**
+ * GET /api/alerts
+ * Alerts of one owner, newest first, with sink targets masked
+ * Query: owner (required)
+ */
+async function listAlertsHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const owner = InputValidator.validateOwner(searchParams.get('owner'))
+
+  const alerts = (await requireAlertStore().getAlerts())
+    .filter(alert => alert.owner === owner)
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(redactAlert)
+
+  return NextResponse.json({ alerts })
+}
+
+/**
+ * POST /api/alerts
+ * Create an alert on a tokenId or marketId
+ * Body: { owner, tokenId | marketId, condition, sinks?, cooldownSeconds? }
+ * The response carries the alert's access token, needed for /api/alerts/[id] and never shown again
+ */
+async function createAlertHandler(request: NextRequest): Promise<NextResponse> {
+  const store = requireAlertStore()
+  const { token, tokenHash } = issueAlertToken()
+  const alert = { ...parseAlertInput(await InputValidator.readJsonBody(request)), tokenHash }
+
+  const existing = (await store.getAlerts()).filter(other => other.owner === alert.owner)
+  if (existing.length >= MAX_ALERTS_PER_OWNER) {
+    throw new APIError(`Too many alerts. At most ${MAX_ALERTS_PER_OWNER} per owner`, ErrorType.VALIDATION, 400)
+  }
+
+  await store.saveAlert(alert)
+  console.log(`[API] Created ${alert.condition.type} alert ${alert.id} for ${alert.owner}`)
+
+  return NextResponse.json({ ...redactAlert(alert), token }, { status: 201 })
+}
+
+// Export the wrapped handlers with global error handling
+export const GET = withErrorHandler(listAlertsHandler)
+export const POST = withErrorHandler(createAlertHandler)
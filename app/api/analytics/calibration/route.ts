@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import cache from '@/lib/cache'
+import { withErrorHandler, InputValidator } from '@/lib/errorHandler'
+import { computeCalibration } from '@/lib/calibration'
+import { filterResolvedMarkets, requireResolvedStore } from '@/lib/resolution'
+import { CalibrationResponse } from '@/lib/types'
+
+/**
+ * GET /api/analytics/calibration
+ * Brier score, log loss, reliability by price decile and per volume tier scores of resolved market prices
+ * 1d, 7d and 30d before cutoff, from the resolved market archive
+ * Query: type=0|1, from/to (resolvedAt, unix seconds)
+ */
+async function calibrationHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const marketType = InputValidator.validateMarketType(searchParams.get('type'))
+  const from = InputValidator.validateNumberRange(searchParams.get('from'), 'from', 0, 1e10)
+  const to = InputValidator.validateNumberRange(searchParams.get('to'), 'to', 0, 1e10)
+
+  const cacheKey = `calibration:${marketType ?? 'all'}:${from ?? ''}:${to ?? ''}`
+  const cached = cache.get<CalibrationResponse>(cacheKey)
+  if (cached) {
+    return NextResponse.json(cached)
+  }
+
+  const store = requireResolvedStore()
+  const markets = filterResolvedMarkets(await store.getResolvedMarkets(), { status: 'resolved', marketType, from, to })
+  const paths = await store.getResolvedPricePaths(markets.map(market => market.id))
+  const response = computeCalibration(markets, paths)
+
+  // Scores only move when a resolution pass archives new markets
+  cache.set(cacheKey, response, 300)
+  return NextResponse.json(response)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(calibrationHandler)
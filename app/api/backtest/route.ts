@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandler, InputValidator } from '@/lib/errorHandler'
+import { backtest, parseBacktestConfig } from '@/lib/backtest'
+
+/**
+ * POST /api/backtest
+ * Replay a trading rule over resolved markets and report PnL, hit rate, exposure and the trade log
+ * Body: { rule, stakeUsd?, feePct?, slippage?: { model: 'fixed', bps } | { model: 'book', fallbackBps }, from?, to? }
+ */
+async function backtestHandler(request: NextRequest): Promise<NextResponse> {
+  const config = parseBacktestConfig(await InputValidator.readJsonBody(request))
+  const report = await backtest(config)
+
+  return NextResponse.json(report)
+}
+
+// Export the wrapped handler with global error handling
+export const POST = withErrorHandler(backtestHandler)
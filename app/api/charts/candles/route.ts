@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { redis, getSeriesTiers } from '@/lib/redis'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import {
+  buildCandles,
+  planCandleSources,
+  CandleResolution,
+  CandleSource,
+  GapPolicy,
+  CANDLE_SECONDS,
+  DEFAULT_CANDLE_COUNT,
+  MAX_CANDLES
+} from '@/lib/candles'
+import { CandleResponse, PriceHistoryPoint } from '@/lib/types'
+
+const RESOLUTIONS = Object.keys(CANDLE_SECONDS) as CandleResolution[]
+const GAP_POLICIES: GapPolicy[] = ['ffill', 'skip']
+
+/**
+ * Read the points for one source; synced series failures fall through to the next source
+ */
+const readSource = async (
+  source: CandleSource,
+  tokenId: string,
+  from: number,
+  to: number
+): Promise<PriceHistoryPoint[]> => {
+  if (source.kind === 'upstream') {
+    return opinionClient.getPriceHistory(tokenId, source.interval)
+  }
+
+  if (!redis.client) {
+    return []
+  }
+
+  try {
+    return await redis.client.getPriceSeries(tokenId, { from, to, resolution: source.tier.resolution })
+  } catch (error) {
+    console.warn(`[API] Price series read failed for token ${tokenId}:`, error instanceof Error ? error.message : error)
+    return []
+  }
+}
+
+/**
+ * GET /api/charts/candles
+ * OHLC candles for one token built from the finest available source: synced series tiers, then upstream history
+ * Query: tokenId, resolution (1m|5m|15m|1h|4h|1d, default 1h), from/to (unix seconds), gap (ffill|skip, default skip)
+ * Defaults to the last 300 candles; at most 2000 candles per request
+ */
+async function candlesHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const tokenId = InputValidator.validateTokenId(searchParams.get('tokenId'), 'tokenId')
+
+  const resolution = (searchParams.get('resolution') || '1h').trim().toLowerCase() as CandleResolution
+  if (!RESOLUTIONS.includes(resolution)) {
+    throw new APIError(`Invalid resolution. Must be one of: ${RESOLUTIONS.join(', ')}`, ErrorType.VALIDATION, 400)
+  }
+
+  const gap = (searchParams.get('gap') || 'skip').trim().toLowerCase() as GapPolicy
+  if (!GAP_POLICIES.includes(gap)) {
+    throw new APIError('Invalid gap parameter. Must be "ffill" or "skip"', ErrorType.VALIDATION, 400)
+  }
+
+  const bucketSeconds = CANDLE_SECONDS[resolution]
+  const nowSeconds = Math.floor(Date.now() / 1000)
+  const to = Math.floor(InputValidator.validateNumberRange(searchParams.get('to'), 'to', 0, Number.MAX_SAFE_INTEGER) ?? nowSeconds)
+  const from = Math.floor(
+    InputValidator.validateNumberRange(searchParams.get('from'), 'from', 0, Number.MAX_SAFE_INTEGER) ?? to - bucketSeconds * DEFAULT_CANDLE_COUNT
+  )
+
+  if (from >= to) {
+    throw new APIError('Invalid range. from must be before to', ErrorType.VALIDATION, 400)
+  }
+  if ((to - from) / bucketSeconds > MAX_CANDLES) {
+    throw new APIError(
+      `Range too large for ${resolution} candles. At most ${MAX_CANDLES} candles per request`,
+      ErrorType.VALIDATION,
+      400
+    )
+  }
+
+  const cacheKey = `candles:${tokenId}:${resolution}:${gap}:${from}:${to}`
+  const cachedData = cache.get<CandleResponse>(cacheKey)
+
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  for (const source of planCandleSources(resolution, from, getSeriesTiers(), nowSeconds)) {
+    const points = await readSource(source, tokenId, from, to)
+    const candles = buildCandles(points, resolution, { gap, from, to })
+    if (candles.length === 0) {
+      continue
+    }
+
+    const result: CandleResponse = {
+      tokenId,
+      resolution,
+      gap,
+      source: source.kind === 'series' ? 'snapshot' : 'upstream',
+      sourceResolution: source.kind === 'series' ? source.tier.resolution : source.interval,
+      candles
+    }
+
+    // Synced series refresh every sync, upstream history is cached like the other chart routes
+    cache.set(cacheKey, result, source.kind === 'series' ? 15 : 60)
+
+    return NextResponse.json(result)
+  }
+
+  throw new APIError(
+    `No price data available to build ${resolution} candles for the specified range`,
+    ErrorType.NOT_FOUND,
+    404
+  )
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(candlesHandler)
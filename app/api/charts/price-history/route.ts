@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { opinionClient } from '@/lib/opinionClient'
+import { getTokenHistory } from '@/lib/historySource'
 import cache from '@/lib/cache'
 import { transformNoPrice } from '@/lib/analytics'
 import { parsePrice } from '@/lib/utils'
@@ -32,8 +32,8 @@ async function priceHistoryHandler(request: NextRequest): Promise<NextResponse>
 
   // Requirement 4.1: Fetch price history for both tokens with specified interval
   const [yesHistory, noHistory] = await Promise.all([
-    opinionClient.getPriceHistory(validatedYesTokenId, interval),
-    opinionClient.getPriceHistory(validatedNoTokenId, interval)
+    getTokenHistory(validatedYesTokenId, interval),
+    getTokenHistory(validatedNoTokenId, interval)
   ])
 
   // Validate that we have data for both tokens
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import cache from '@/lib/cache'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { buildSparkline, getTokenHistories, SPARKLINE_RANGES, HISTORY_CACHE_SECONDS } from '@/lib/historySource'
+import { SparklinesResponse } from '@/lib/types'
+
+const MAX_SPARKLINE_TOKENS = 50
+const DEFAULT_SPARKLINE_POINTS = 30
+const MAX_SPARKLINE_POINTS = 200
+
+/**
+ * GET /api/charts/sparklines
+ * Downsampled recent price history for many tokens in one request, from the same source as /api/charts/price-history
+ * Query: tokenIds (comma-separated, up to 50), range (24h|7d|30d, default 7d), points (2-200, default 30)
+ * Tokens without history come back with empty series
+ */
+async function sparklinesHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+
+  const tokenIds = Array.from(new Set((searchParams.get('tokenIds') || '')
+    .split(',')
+    .map(tokenId => tokenId.trim())
+    .filter(Boolean)))
+  if (tokenIds.length === 0) {
+    throw new APIError('Missing tokenIds parameter', ErrorType.VALIDATION, 400)
+  }
+  if (tokenIds.length > MAX_SPARKLINE_TOKENS) {
+    throw new APIError(`Too many tokenIds. At most ${MAX_SPARKLINE_TOKENS} per request`, ErrorType.VALIDATION, 400)
+  }
+  tokenIds.forEach(tokenId => InputValidator.validateTokenId(tokenId, 'tokenIds'))
+
+  const range = (searchParams.get('range') || '7d').trim().toLowerCase()
+  const span = SPARKLINE_RANGES[range]
+  if (!span) {
+    throw new APIError(`Invalid range. Must be one of: ${Object.keys(SPARKLINE_RANGES).join(', ')}`, ErrorType.VALIDATION, 400)
+  }
+
+  const points = Math.floor(
+    InputValidator.validateNumberRange(searchParams.get('points'), 'points', 2, MAX_SPARKLINE_POINTS) ?? DEFAULT_SPARKLINE_POINTS
+  )
+
+  const cacheKey = `sparklines:${range}:${points}:${tokenIds.join(',')}`
+  const cachedData = cache.get<SparklinesResponse>(cacheKey)
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  const histories = await getTokenHistories(tokenIds, span.interval)
+  const to = Math.floor(Date.now() / 1000)
+  const from = to - span.seconds
+
+  const result: SparklinesResponse = {
+    range,
+    points,
+    sparklines: tokenIds.map(tokenId => buildSparkline(tokenId, histories.get(tokenId) || [], from, to, points))
+  }
+
+  cache.set(cacheKey, result, HISTORY_CACHE_SECONDS)
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(sparklinesHandler)
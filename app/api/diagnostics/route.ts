@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandler } from '@/lib/errorHandler'
+import { opinionClient } from '@/lib/opinionClient'
+import { getSchemaDiagnostics } from '@/lib/opinionSchemas'
+import { DiagnosticsResponse } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/diagnostics
+ * Opinion API health as seen by this server process: schema validations and violations per endpoint
+ * (with the field shapes of the latest offending payloads) and the rate limiter's circuit breaker state
+ */
+async function diagnosticsHandler(_request: NextRequest): Promise<NextResponse> {
+  const { since, endpoints } = getSchemaDiagnostics()
+
+  const result: DiagnosticsResponse = {
+    since,
+    schema: endpoints,
+    totalViolations: endpoints.reduce((sum, endpoint) => sum + endpoint.violations, 0),
+    circuitBreakerState: opinionClient.getRateLimiterStatus().circuitBreakerState
+  }
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(diagnosticsHandler)
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandler, APIError, ErrorType, InputValidator } from '@/lib/errorHandler'
+import { requireWhaleStore, WHALE_EVENT_KINDS } from '@/lib/whales'
+import { WhaleEventKind } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/events/whales
+ * Whale events recorded by the sync service, newest first (kept for 7 days)
+ * Query: marketId, kind (volume_spike | book_level | large_trade), since (ms, default 24h ago),
+ * minNotional (USD), limit (1-200, default 50)
+ */
+async function whalesHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const now = Date.now()
+
+  const marketParam = searchParams.get('marketId')
+  if (marketParam !== null && (!/^\d+$/.test(marketParam.trim()) || parseInt(marketParam, 10) <= 0)) {
+    throw new APIError('Invalid marketId parameter. Must be a positive market ID', ErrorType.VALIDATION, 400)
+  }
+  const marketId = marketParam !== null ? parseInt(marketParam, 10) : undefined
+
+  const kind = searchParams.get('kind')
+  if (kind !== null && !WHALE_EVENT_KINDS.includes(kind as WhaleEventKind)) {
+    throw new APIError(`Invalid kind. Must be one of: ${WHALE_EVENT_KINDS.join(', ')}`, ErrorType.VALIDATION, 400)
+  }
+
+  const since = InputValidator.validateNumberRange(searchParams.get('since'), 'since', 0, now) ?? now - 86400 * 1000
+  const minNotional = InputValidator.validateNumberRange(searchParams.get('minNotional'), 'minNotional', 0, 1e12) ?? 0
+  const limit = Math.floor(InputValidator.validateNumberRange(searchParams.get('limit'), 'limit', 1, 200) ?? 50)
+
+  const events = (await requireWhaleStore().getWhaleEvents(since))
+    .filter(event => marketId === undefined || event.marketId === marketId)
+    .filter(event => kind === null || event.kind === kind)
+    .filter(event => event.notional >= minNotional)
+    .slice(0, limit)
+
+  return NextResponse.json({ since, events })
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(whalesHandler)
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { getTokenHistoryBatch } from '@/lib/historySource'
+import { HistoryBatchResponse } from '@/lib/types'
+
+const MAX_BATCH_TOKENS = 100
+
+/**
+ * GET /api/history/batch?tokenIds=a,b,c&interval=1h
+ * Price history for many tokens in one request, keyed by tokenId
+ * Tokens whose upstream fetch fails are listed under errors; the rest are still returned
+ */
+async function historyBatchHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+
+  const tokenIds = Array.from(new Set((searchParams.get('tokenIds') || '')
+    .split(',')
+    .map(tokenId => tokenId.trim())
+    .filter(Boolean)))
+  if (tokenIds.length === 0) {
+    throw new APIError('Missing tokenIds parameter', ErrorType.VALIDATION, 400)
+  }
+  if (tokenIds.length > MAX_BATCH_TOKENS) {
+    throw new APIError(`Too many tokenIds. At most ${MAX_BATCH_TOKENS} per request`, ErrorType.VALIDATION, 400)
+  }
+  tokenIds.forEach(tokenId => InputValidator.validateTokenId(tokenId, 'tokenIds'))
+
+  const interval = InputValidator.validateInterval(searchParams.get('interval'))
+
+  const result: HistoryBatchResponse = {
+    interval,
+    ...(await getTokenHistoryBatch(tokenIds, interval))
+  }
+
+  const failed = Object.keys(result.errors).length
+  if (failed > 0) {
+    console.warn(`[API] History batch: ${failed} of ${tokenIds.length} tokens failed`)
+  }
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(historyBatchHandler)
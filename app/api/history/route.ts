@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { opinionClient } from '@/lib/opinionClient'
+import { getTokenHistory } from '@/lib/historySource'
 import { withErrorHandler, InputValidator } from '@/lib/errorHandler'
 
 /**
@@ -15,7 +15,7 @@ async function historyHandler(request: NextRequest): Promise<NextResponse> {
     const tokenId = InputValidator.validateTokenId(tokenIdParam, 'tokenId')
     const interval = InputValidator.validateInterval(intervalParam)
 
-    const history = await opinionClient.getPriceHistory(tokenId, interval)
+    const history = await getTokenHistory(tokenId, interval)
 
     return NextResponse.json({ history })
 }
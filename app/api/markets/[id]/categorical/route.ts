@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { withErrorHandler, APIError, ErrorType } from '@/lib/errorHandler'
+import { isMarketInvalid } from '@/lib/invalidMarkets'
+import { loadSyncedMarket, loadTokenPrices } from '@/lib/snapshot'
+import { analyzeCategorical, isCategoricalMarket, loadOutcomeHistory, openOutcomes } from '@/lib/categorical'
+import { CategoricalAnalytics, PriceData } from '@/lib/types'
+
+/**
+ * GET /api/markets/[id]/categorical
+ * Categorical analytics for one parent market, see /api/markets/categorical
+ * Prices and history the sync does not cover are fetched live
+ */
+async function marketCategoricalHandler(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const marketId = parseInt(params.id)
+  if (isNaN(marketId) || marketId <= 0) {
+    throw new APIError('Invalid market ID', ErrorType.VALIDATION, 400)
+  }
+  if (isMarketInvalid(marketId)) {
+    throw new APIError('Market not found', ErrorType.NOT_FOUND, 404)
+  }
+
+  const cacheKey = `market-categorical:${marketId}`
+  const cachedData = cache.get<CategoricalAnalytics>(cacheKey)
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  const market = await loadSyncedMarket(marketId) ?? await opinionClient.getMarketDetail(marketId, true)
+  if (!market) {
+    throw new APIError('Market not found', ErrorType.NOT_FOUND, 404)
+  }
+  if (!isCategoricalMarket(market)) {
+    throw new APIError(`Market ${marketId} is not categorical`, ErrorType.VALIDATION, 400)
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000)
+  const tokenIds = openOutcomes(market, nowSeconds).map(child => child.yesTokenId)
+
+  const { prices } = await loadTokenPrices(tokenIds)
+  const missing = tokenIds.filter(tokenId => !prices.has(tokenId))
+  let livePrices = new Map<string, PriceData>()
+  if (missing.length > 0) {
+    try {
+      livePrices = await opinionClient.getMultiplePrices(missing)
+    } catch (error) {
+      console.warn(`[API] Live prices unavailable for categorical market ${marketId}:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  const history = await loadOutcomeHistory(tokenIds, nowSeconds, true)
+  const analytics = analyzeCategorical(market, new Map([...livePrices, ...prices]), history, nowSeconds)
+  if (!analytics) {
+    throw new APIError(`Market ${marketId} has no open outcomes`, ErrorType.NOT_FOUND, 404)
+  }
+
+  cache.set(cacheKey, analytics, 30)
+
+  return NextResponse.json(analytics)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(marketCategoricalHandler)
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { isMarketInvalid } from '@/lib/invalidMarkets'
+import { loadSyncedMarket } from '@/lib/snapshot'
+import { DEFAULT_NOTIONAL, fetchOrderbooks, summarizeOrderbook } from '@/lib/liquidity'
+import { Market, MarketLiquidityResponse } from '@/lib/types'
+
+const MAX_OUTCOMES = 10
+
+/**
+ * Tokens whose books describe the market: YES and NO for binary, open outcome YES tokens for categorical
+ */
+const liquidityTokens = (market: Market, nowSeconds: number): Array<{ tokenId: string; label: string }> => {
+  if (market.childMarkets && market.childMarkets.length > 0) {
+    return market.childMarkets
+      .filter(child => child.yesTokenId && !(child.cutoffAt && child.cutoffAt <= nowSeconds))
+      .sort((a, b) => (parseFloat(b.volume24h) || 0) - (parseFloat(a.volume24h) || 0))
+      .slice(0, MAX_OUTCOMES)
+      .map(child => ({ tokenId: child.yesTokenId, label: child.title || `Outcome ${child.id}` }))
+  }
+
+  return [
+    { tokenId: market.yesTokenId, label: market.yesLabel || 'YES' },
+    { tokenId: market.noTokenId, label: market.noLabel || 'NO' }
+  ].filter(token => token.tokenId)
+}
+
+/**
+ * GET /api/markets/[id]/liquidity
+ * Best bid/ask, mid, spread, depth within 1/2/5 cents and slippage for a notional, from live orderbooks
+ * Query: notional (USD, 1-1000000, default 100)
+ */
+async function marketLiquidityHandler(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const marketId = parseInt(params.id)
+  if (isNaN(marketId) || marketId <= 0) {
+    throw new APIError('Invalid market ID', ErrorType.VALIDATION, 400)
+  }
+  if (isMarketInvalid(marketId)) {
+    throw new APIError('Market not found', ErrorType.NOT_FOUND, 404)
+  }
+
+  const { searchParams } = new URL(request.url)
+  const notional = InputValidator.validateNumberRange(searchParams.get('notional'), 'notional', 1, 1_000_000) ?? DEFAULT_NOTIONAL
+
+  const cacheKey = `market-liquidity:${marketId}:${notional}`
+  const cachedData = cache.get<MarketLiquidityResponse>(cacheKey)
+
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  // Registry first, then Opinion API (binary, then categorical)
+  const market = await loadSyncedMarket(marketId)
+    ?? await opinionClient.getMarketDetail(marketId, false)
+    ?? await opinionClient.getMarketDetail(marketId, true)
+
+  if (!market) {
+    throw new APIError('Market not found', ErrorType.NOT_FOUND, 404)
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000)
+  const tokens = liquidityTokens(market, nowSeconds)
+  const books = await fetchOrderbooks(tokens.map(token => token.tokenId))
+
+  const result: MarketLiquidityResponse = {
+    marketId,
+    marketTitle: market.title || `Market ${marketId}`,
+    notional,
+    tokens: tokens.map(({ tokenId, label }) => ({
+      label,
+      // A missing book is reported as empty, matching /api/orderbook
+      ...summarizeOrderbook(books.get(tokenId) ?? { market: '', tokenId, timestamp: Date.now(), bids: [], asks: [] }, notional)
+    }))
+  }
+
+  // Same freshness as the orderbook cache
+  cache.set(cacheKey, result, 10)
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(marketLiquidityHandler)
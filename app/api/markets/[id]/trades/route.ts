@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { opinionClient } from '@/lib/opinionClient'
+import { redis } from '@/lib/redis'
+import cache from '@/lib/cache'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { isMarketInvalid } from '@/lib/invalidMarkets'
+import { summarizeTrades } from '@/lib/trades'
+import { MarketTradesResponse } from '@/lib/types'
+
+/**
+ * GET /api/markets/[id]/trades
+ * Recent trades in a market, newest first; summary (count, volume, VWAP) covers the returned page only
+ * Served from the trades stored by the sync (kept for 7 days); markets the sync does not cover are
+ * fetched live from Opinion
+ * Query: page (default 1), limit (1-100, default 50), since (ms; on live pages it filters the page
+ * fetched and total counts what is left of it)
+ */
+async function marketTradesHandler(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const marketId = parseInt(params.id)
+  if (isNaN(marketId) || marketId <= 0) {
+    throw new APIError('Invalid market ID', ErrorType.VALIDATION, 400)
+  }
+  if (isMarketInvalid(marketId)) {
+    throw new APIError('Market not found', ErrorType.NOT_FOUND, 404)
+  }
+
+  const { searchParams } = new URL(request.url)
+  const page = InputValidator.validatePage(searchParams.get('page'))
+  const limit = Math.floor(InputValidator.validateNumberRange(searchParams.get('limit'), 'limit', 1, 100) ?? 50)
+  const since = InputValidator.validateNumberRange(searchParams.get('since'), 'since', 0, Number.MAX_SAFE_INTEGER) ?? 0
+
+  const cacheKey = `market-trades:${marketId}:${page}:${limit}:${since}`
+  const cachedData = cache.get<MarketTradesResponse>(cacheKey)
+
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  // Any stored trade means the sync covers the market, so since narrows the stored list even down to nothing
+  const stored = redis.client ? await redis.client.getTrades(marketId, 0) : []
+
+  let result: MarketTradesResponse
+  if (stored.length > 0) {
+    const matching = stored.filter(trade => trade.timestamp >= since)
+    const trades = matching.slice((page - 1) * limit, page * limit)
+    result = { marketId, source: 'stored', trades, total: matching.length, page, limit, summary: summarizeTrades(trades) }
+  } else {
+    const live = await opinionClient.getMarketTrades(marketId, page, limit)
+    const trades = live.trades.filter(trade => trade.timestamp >= since)
+    const total = since > 0 ? trades.length : live.total
+    result = { marketId, source: 'live', ...live, trades, total, summary: summarizeTrades(trades) }
+  }
+
+  // Trades are refreshed every sync cycle
+  cache.set(cacheKey, result, 15)
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(marketTradesHandler)
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { withErrorHandler, APIError, ErrorType } from '@/lib/errorHandler'
+import { isMarketInvalid } from '@/lib/invalidMarkets'
+import { loadSyncedMarket } from '@/lib/snapshot'
+import { computeVolatility, loadVolatilityHistory } from '@/lib/volatility'
+import { Market, MarketVolatilityResponse } from '@/lib/types'
+
+const MAX_OUTCOMES = 20
+
+/**
+ * Tokens whose prices describe the market: YES for binary, open outcome YES tokens for categorical
+ */
+const volatilityTokens = (market: Market, nowSeconds: number): Array<{ tokenId: string; marketId: number; label: string }> => {
+  if (market.childMarkets && market.childMarkets.length > 0) {
+    return market.childMarkets
+      .filter(child => child.yesTokenId && !(child.cutoffAt && child.cutoffAt <= nowSeconds))
+      .sort((a, b) => (parseFloat(b.volume24h) || 0) - (parseFloat(a.volume24h) || 0))
+      .slice(0, MAX_OUTCOMES)
+      .map(child => ({ tokenId: child.yesTokenId, marketId: child.id, label: child.title || `Outcome ${child.id}` }))
+  }
+
+  return market.yesTokenId ? [{ tokenId: market.yesTokenId, marketId: market.id, label: market.yesLabel || 'YES' }] : []
+}
+
+/**
+ * GET /api/markets/[id]/volatility
+ * Realized logit volatility over 1h/24h/7d, max drawdown, jump frequency and average hourly move
+ * Computed from the synced 5m series; tokens the sync does not cover use hourly Opinion history
+ */
+async function marketVolatilityHandler(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const marketId = parseInt(params.id)
+  if (isNaN(marketId) || marketId <= 0) {
+    throw new APIError('Invalid market ID', ErrorType.VALIDATION, 400)
+  }
+  if (isMarketInvalid(marketId)) {
+    throw new APIError('Market not found', ErrorType.NOT_FOUND, 404)
+  }
+
+  const cacheKey = `market-volatility:${marketId}`
+  const cachedData = cache.get<MarketVolatilityResponse>(cacheKey)
+
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  // Registry first, then Opinion API (binary, then categorical)
+  const market = await loadSyncedMarket(marketId)
+    ?? await opinionClient.getMarketDetail(marketId, false)
+    ?? await opinionClient.getMarketDetail(marketId, true)
+
+  if (!market) {
+    throw new APIError('Market not found', ErrorType.NOT_FOUND, 404)
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000)
+  const tokens = volatilityTokens(market, nowSeconds)
+  const history = await loadVolatilityHistory(tokens.map(token => token.tokenId), nowSeconds, true)
+
+  const result: MarketVolatilityResponse = {
+    marketId,
+    marketTitle: market.title || `Market ${marketId}`,
+    tokens: tokens.map(({ tokenId, marketId: tokenMarketId, label }) => ({
+      marketId: tokenMarketId,
+      label,
+      ...computeVolatility(tokenId, history.get(tokenId) || [], nowSeconds)
+    }))
+  }
+
+  // Same lifetime as the upstream history cache
+  cache.set(cacheKey, result, 60)
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(marketVolatilityHandler)
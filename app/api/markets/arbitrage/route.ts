@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import cache from '@/lib/cache'
+import { config } from '@/lib/config'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { loadMarketUniverse } from '@/lib/snapshot'
+import { scanArbitrage, executableSize, rankOpportunities, selectBookChecks, ArbitrageSort } from '@/lib/arbitrage'
+import { fetchOrderbooks } from '@/lib/liquidity'
+import { ArbitrageOpportunity, ArbitrageScanResponse } from '@/lib/types'
+
+const SORT_KEYS: ArbitrageSort[] = ['edge', 'size']
+const MAX_BOOK_TOKENS = 50 // orderbooks fetched per scan, whatever the mix of binary and categorical candidates
+
+/**
+ * GET /api/markets/arbitrage
+ * Scans synced binary markets for YES + NO mispricing and categorical markets whose outcome prices do not sum to 1
+ * Query: fee (percent per leg, 0-10), minEdge (percent, 0-100), limit (1-100), books (0-25), sort (edge|size)
+ * Only the top `books` candidates by edge get an orderbook check, and no more than MAX_BOOK_TOKENS books
+ * are fetched across their legs, to keep the request budget bounded
+ */
+async function arbitrageHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+
+  const feePct = InputValidator.validateNumberRange(searchParams.get('fee'), 'fee', 0, 10) ?? config.ARBITRAGE_FEE_PCT
+  const minEdgePct = InputValidator.validateNumberRange(searchParams.get('minEdge'), 'minEdge', 0, 100) ?? 0
+  const limit = Math.floor(InputValidator.validateNumberRange(searchParams.get('limit'), 'limit', 1, 100) ?? 50)
+  const bookCount = Math.floor(InputValidator.validateNumberRange(searchParams.get('books'), 'books', 0, 25) ?? 10)
+
+  const sortParam = (searchParams.get('sort') || 'edge').trim().toLowerCase()
+  if (!SORT_KEYS.includes(sortParam as ArbitrageSort)) {
+    throw new APIError(`Invalid sort parameter. Must be one of: ${SORT_KEYS.join(', ')}`, ErrorType.VALIDATION, 400)
+  }
+  const sortBy = sortParam as ArbitrageSort
+
+  const cacheKey = `arbitrage:${feePct}:${minEdgePct}:${limit}:${bookCount}:${sortBy}`
+  const cachedData = cache.get<ArbitrageScanResponse>(cacheKey)
+
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000)
+  const universe = await loadMarketUniverse(nowSeconds)
+  const candidates = scanArbitrage(universe.markets, universe.prices, { feePct, minEdgePct }, nowSeconds)
+
+  // Candidates are ordered by edge, so the book budget goes to the widest mispricings
+  const checked = new Set(selectBookChecks(candidates, bookCount, MAX_BOOK_TOKENS))
+  const tokenIds = new Set(Array.from(checked).flatMap(opportunity => opportunity.legs.map(leg => leg.tokenId)))
+  const books = await fetchOrderbooks(Array.from(tokenIds))
+  const sized: ArbitrageOpportunity[] = candidates.map(opportunity => checked.has(opportunity)
+    ? { ...opportunity, bestLevelSize: executableSize(opportunity, books) }
+    : opportunity)
+
+  const result: ArbitrageScanResponse = {
+    opportunities: rankOpportunities(sized, sortBy).slice(0, limit),
+    scanned: universe.markets.length,
+    feePct,
+    source: universe.source,
+    snapshotAgeMs: universe.snapshotAgeMs
+  }
+
+  console.log(`[API] Arbitrage scan: ${candidates.length} opportunities across ${universe.markets.length} markets`)
+
+  // Prices move quickly, keep the scan short-lived
+  cache.set(cacheKey, result, 15)
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(arbitrageHandler)
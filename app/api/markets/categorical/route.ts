@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import cache from '@/lib/cache'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { loadMarketUniverse } from '@/lib/snapshot'
+import { analyzeCategorical, isCategoricalMarket, loadOutcomeHistory, openOutcomes } from '@/lib/categorical'
+import { CategoricalAnalytics, CategoricalAnalyticsResponse } from '@/lib/types'
+
+const MAX_IDS = 100
+
+/**
+ * GET /api/markets/categorical
+ * Implied probabilities, overround, entropy, favourite margin and 1h/24h distribution shifts for categorical parents
+ * Query: ids (comma-separated market IDs, up to 100) or limit (1-100, default 50 by volume)
+ * Shifts come from synced price series only; /api/markets/[id]/categorical also falls back to Opinion history
+ */
+async function categoricalHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+
+  const idsParam = (searchParams.get('ids') || '').trim()
+  const ids = idsParam
+    ? Array.from(new Set(idsParam.split(',').map(id => Number(id.trim()))))
+    : null
+  if (ids && (ids.length > MAX_IDS || ids.some(id => !Number.isInteger(id) || id <= 0))) {
+    throw new APIError(`Invalid ids. Must be up to ${MAX_IDS} positive integer market IDs`, ErrorType.VALIDATION, 400)
+  }
+  const limit = Math.floor(InputValidator.validateNumberRange(searchParams.get('limit'), 'limit', 1, 100) ?? 50)
+
+  const cacheKey = `categorical:${ids ? ids.slice().sort((a, b) => a - b).join(',') : `top:${limit}`}`
+  const cachedData = cache.get<CategoricalAnalyticsResponse>(cacheKey)
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000)
+  const universe = await loadMarketUniverse(nowSeconds)
+  const parents = universe.markets
+    .filter(market => isCategoricalMarket(market) && (!ids || ids.includes(market.id)))
+    .slice(0, ids ? MAX_IDS : limit)
+
+  const tokenIds = parents.flatMap(market => openOutcomes(market, nowSeconds).map(child => child.yesTokenId))
+  const history = await loadOutcomeHistory(tokenIds, nowSeconds, false)
+
+  const result: CategoricalAnalyticsResponse = {
+    markets: parents
+      .map(market => analyzeCategorical(market, universe.prices, history, nowSeconds))
+      .filter((analytics): analytics is CategoricalAnalytics => analytics !== null),
+    source: universe.source,
+    snapshotAgeMs: universe.snapshotAgeMs
+  }
+
+  cache.set(cacheKey, result, 30)
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(categoricalHandler)
@@ -5,14 +5,17 @@ import {
   filterEndingSoon,
   createEndingSoonMarket
 } from '@/lib/analytics'
-import { parsePrice } from '@/lib/utils'
-import { EndingSoonMarket, Market } from '@/lib/types'
+import { knownPrice } from '@/lib/prices'
+import { EndingSoonMarket } from '@/lib/types'
 import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { loadMarketPage } from '@/lib/snapshot'
 
 /**
  * GET /api/markets/ending-soon
  * Returns markets ending within specified hours
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5
+ * Answered from the cutoff index of the SyncService registry when the snapshot is fresh
+ * Markets without a known YES price are left out; carried-over (stale) prices are flagged with priceStatus
  */
 async function endingSoonHandler(request: NextRequest): Promise<NextResponse> {
   const { searchParams } = new URL(request.url)
@@ -29,9 +32,42 @@ async function endingSoonHandler(request: NextRequest): Promise<NextResponse> {
     return NextResponse.json(cachedData)
   }
 
+  // Registry path: activated markets with cutoff in (now, now + hours], already ordered by cutoff
+  const nowSeconds = Math.floor(Date.now() / 1000)
+  const snapshot = await loadMarketPage({
+    sortBy: 'cutoff',
+    order: 'asc',
+    status: 'activated',
+    cutoffFrom: nowSeconds + 1,
+    cutoffTo: nowSeconds + hours * 3600
+  })
+
+  if (snapshot) {
+    const snapshotResults: EndingSoonMarket[] = []
+
+    filterEndingSoon(snapshot.markets, hours).forEach(market => {
+      const yesPriceData = snapshot.prices.get(market.yesTokenId)
+      const yesPrice = knownPrice(yesPriceData)
+
+      // Skip markets without a known synced price, the live path drops markets whose price fetch fails
+      if (yesPrice === null) {
+        console.warn(`[API] Skipping ending soon market ${market.id}: no known YES price (${yesPriceData?.status ?? 'missing'})`)
+        return
+      }
+
+      snapshotResults.push({
+        ...createEndingSoonMarket(market.id, market.title, market.cutoffAt, yesPrice, market.volume24h),
+        ...(yesPriceData?.status === 'stale' && { priceStatus: 'stale' as const })
+      })
+    })
+
+    cache.set(cacheKey, snapshotResults, 60)
+
+    return NextResponse.json(snapshotResults)
+  }
+
   // Requirement 3.1: Fetch markets and filter by time and status
-  const marketsResponse = await opinionClient.getMarkets(1, 2) as { markets?: Market[]; total?: number } | Market[] | null // Use ending soon sort
-  const markets = Array.isArray(marketsResponse) ? marketsResponse : marketsResponse?.markets ?? []
+  const { markets } = await opinionClient.getMarkets(1, 2) // Use ending soon sort
   
   if (!markets || markets.length === 0) {
     console.warn('No markets available for ending-soon analysis, returning empty array')
@@ -49,7 +85,10 @@ async function endingSoonHandler(request: NextRequest): Promise<NextResponse> {
     try {
       // Get current YES price for the market
       const yesCurrentPrice = await opinionClient.getLatestPrice(market.yesTokenId)
-      const yesPrice = parsePrice(yesCurrentPrice.price)
+      const yesPrice = knownPrice(yesCurrentPrice)
+      if (yesPrice === null) {
+        throw new APIError(`No YES price for market ${market.id} (${yesCurrentPrice.status})`, ErrorType.EXTERNAL_API, 502)
+      }
 
       // Validate price data
       if (yesPrice < 0 || yesPrice > 1) {
@@ -1,39 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { opinionClient } from '@/lib/opinionClient'
 import cache from '@/lib/cache'
-import { parsePrice } from '@/lib/utils'
-import { withErrorHandler, InputValidator } from '@/lib/errorHandler'
-import { Market } from '@/lib/types'
-import { isMarketInvalid } from '@/lib/invalidMarkets'
-
-interface MarketWithPrices {
-  id: number
-  title: string
-  yesTokenId: string
-  noTokenId: string
-  yesPrice: number
-  noPrice: number
-  volume24h: string
-  priceChangePct?: number
-  cutoffAt: number
-  marketType: number
-  childMarkets?: Market[]
-  childMarketsPreview?: ChildMarketPreview[]
-}
-
-interface ChildMarketPreview {
-  id: number
-  title: string
-  yesTokenId: string
-  yesPrice: number
-  volume24h: string
-}
-
-
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { MarketListResponse } from '@/lib/types'
+import { toLiquidityColumns } from '@/lib/liquidity'
+import { VOLATILITY_SORT_KEYS, VolatilitySort, sortByVolatility, toVolatilityColumns } from '@/lib/volatility'
+import {
+  loadMarketPage,
+  loadLiquidity,
+  loadVolatility,
+  filterListableMarkets,
+  buildMarketsWithPrices,
+  getTopChildren
+} from '@/lib/snapshot'
 
 /**
  * GET /api/markets/list
  * Returns paginated list of markets with current prices
+ * Served from the SyncService market registry in Redis, falls back to Opinion API when it is missing or stale
+ * Optional type=0|1 restricts the list to binary or categorical markets; Opinion cannot filter by type, so the
+ * live fallback filters one upstream page and marks the result partial
+ * Snapshot results carry spread/depth/slippage columns for markets whose orderbook was summarised by the sync,
+ * and volatility columns for markets whose price series was summarised
+ * Optional sort=volume|vol1h|vol24h|vol7d|maxDrawdown|jumpsPerDay|avgAbsMovePerHour with order=asc|desc (default desc);
+ * volatility sorts apply to the snapshot only, markets without a summary go last
+ * Unknown prices are null and flagged with priceStatus (error or missing); stale marks prices carried over a failed fetch
  * Uses cache to stay within 30 req/s limit
  */
 async function marketsListHandler(request: NextRequest): Promise<NextResponse> {
@@ -42,122 +33,130 @@ async function marketsListHandler(request: NextRequest): Promise<NextResponse> {
 
   // Validate page parameter
   const page = InputValidator.validatePage(pageParam)
+  const marketType = InputValidator.validateMarketType(searchParams.get('type'))
   const sortBy = 3 // Volume Descending (default per requirements)
   const limit = 100 // Request more markets per page
 
+  const sortParam = (searchParams.get('sort') || 'volume').trim()
+  if (sortParam !== 'volume' && !VOLATILITY_SORT_KEYS.includes(sortParam as VolatilitySort)) {
+    throw new APIError(`Invalid sort parameter. Must be one of: volume, ${VOLATILITY_SORT_KEYS.join(', ')}`, ErrorType.VALIDATION, 400)
+  }
+  const volatilitySort = sortParam === 'volume' ? null : sortParam as VolatilitySort
+  const orderParam = (searchParams.get('order') || 'desc').trim().toLowerCase()
+  if (orderParam !== 'asc' && orderParam !== 'desc') {
+    throw new APIError('Invalid order parameter. Must be "asc" or "desc"', ErrorType.VALIDATION, 400)
+  }
+
   // Check cache first (30s TTL for market list to balance freshness and rate limiting)
-  const cacheKey = `markets-list:${page}:${sortBy}:${limit}`
-  const cachedData = cache.get<{ markets: MarketWithPrices[], total: number }>(cacheKey)
+  const sortKey = volatilitySort ? `:${volatilitySort}:${orderParam}` : ''
+  const cacheKey = `markets-list:${page}:${sortBy}:${limit}:${marketType ?? 'all'}${sortKey}`
+  const cachedData = cache.get<MarketListResponse>(cacheKey)
 
   if (cachedData) {
     return NextResponse.json(cachedData)
   }
 
-  // CRITICAL FIX (C1): Fetch only ONE page instead of 8 parallel pages
-  // This prevents massive rate limit breach (was causing 320 req/s vs 30 limit)
-  const marketsResponse = await opinionClient.getMarkets(page, sortBy, limit) as { markets?: Market[]; total?: number } | Market[] | null
   const nowSeconds = Math.floor(Date.now() / 1000)
-  const rawMarkets = Array.isArray(marketsResponse) ? marketsResponse : marketsResponse?.markets ?? []
-  const markets = rawMarkets.filter(market => {
-    if (isMarketInvalid(market.id)) return false
-    if (market.cutoffAt && market.cutoffAt <= nowSeconds) return false
-    return true
+
+  // Prefer the SyncService registry: one indexed page query, no Opinion API calls while it is fresh
+  // Volatility sorts read every matching market and paginate after sorting
+  const snapshot = await loadMarketPage({
+    sortBy: 'volume',
+    order: 'desc',
+    cutoffFrom: nowSeconds + 1,
+    marketType,
+    ...(volatilitySort ? {} : { offset: (page - 1) * limit, limit })
   })
-  const total = Array.isArray(marketsResponse) ? markets.length : marketsResponse?.total ?? 0
+
+  if (snapshot) {
+    const listable = filterListableMarkets(snapshot.markets, nowSeconds)
+    const { markets: built, errors } = buildMarketsWithPrices(listable, snapshot.prices, nowSeconds)
+
+    if (errors.length > 0) {
+      console.warn(`Processed ${built.length} snapshot markets successfully, ${errors.length} errors`)
+    }
+
+    // Volatility columns from the YES series summaries stored by the sync (top markets only)
+    const volatility = await loadVolatility(built.map(market => market.yesTokenId).filter(Boolean))
+    built.forEach(market => {
+      const stats = volatility.get(market.yesTokenId)
+      if (stats) {
+        market.volatility = toVolatilityColumns(stats)
+      }
+    })
+
+    const marketsWithPrices = volatilitySort
+      ? sortByVolatility(built, volatilitySort, orderParam).slice((page - 1) * limit, page * limit)
+      : built
+
+    // Liquidity columns from the YES book summaries stored by the sync (top markets only)
+    const liquidity = await loadLiquidity(marketsWithPrices.map(market => market.yesTokenId).filter(Boolean))
+    marketsWithPrices.forEach(market => {
+      const summary = liquidity.get(market.yesTokenId)
+      if (summary) {
+        market.liquidity = toLiquidityColumns(summary)
+      }
+    })
+
+    const result: MarketListResponse = {
+      markets: marketsWithPrices,
+      total: snapshot.total,
+      source: 'snapshot',
+      snapshotAgeMs: snapshot.ageMs
+    }
+
+    // Snapshot reads are cheap, keep the cache short so new syncs show up quickly
+    cache.set(cacheKey, result, 10)
+
+    return NextResponse.json(result)
+  }
+
+  // Fallback: snapshot missing or stale, fetch live from Opinion API
+  // CRITICAL FIX (C1): Fetch only ONE page instead of 8 parallel pages
+  // This prevents massive rate limit breach (was causing 320 req/s vs 30 limit)
+  const { markets: rawMarkets, total: upstreamTotal } = await opinionClient.getMarkets(page, sortBy, limit)
+  const markets = filterListableMarkets(rawMarkets, nowSeconds)
+    .filter(market => marketType === undefined || (market.marketType || 0) === marketType)
+  // The upstream total counts every type, so a filtered page only knows its own count
+  const typeFiltered = marketType !== undefined
 
   if (!markets || markets.length === 0) {
-    return NextResponse.json({ markets: [], total: 0 })
+    return NextResponse.json({ markets: [], total: 0, source: 'live', ...(typeFiltered && { partial: true }) })
   }
 
-  console.log(`[API] Fetched ${markets.length} markets from OpinionAPI (Total available: ${total})`)
+  console.log(`[API] Fetched ${markets.length} markets from OpinionAPI (Total available: ${upstreamTotal})`)
 
   // CRITICAL FIX (M1): Use batch pricing API instead of individual requests
   // Collect all unique token IDs
   const allTokenIds: string[] = []
-  const childMarketPreviewMap = new Map<number, Market[]>()
   markets.forEach(market => {
     if (market.yesTokenId) allTokenIds.push(market.yesTokenId)
     if (market.noTokenId) allTokenIds.push(market.noTokenId)
 
-    if (market.childMarkets && market.childMarkets.length > 0) {
-      const filteredChildren = market.childMarkets.filter(child => {
-        if (child.cutoffAt && child.cutoffAt <= nowSeconds) return false
-        return true
-      })
-      const sortedChildren = [...filteredChildren].sort((a, b) => {
-        const volumeA = Number(a.volume24h ?? 0)
-        const volumeB = Number(b.volume24h ?? 0)
-        return volumeB - volumeA
-      })
-      const topChildren = sortedChildren.slice(0, 3)
-      childMarketPreviewMap.set(market.id, topChildren)
-      topChildren.forEach(child => {
-        if (child.yesTokenId) allTokenIds.push(child.yesTokenId)
-      })
-    }
+    getTopChildren(market, nowSeconds).forEach(child => {
+      if (child.yesTokenId) allTokenIds.push(child.yesTokenId)
+    })
   })
 
   // Fetch ALL prices in batch (2 requests total instead of 2N)
   const priceMap = await opinionClient.getMultiplePrices(allTokenIds)
 
   // Build markets with prices
-  const marketsWithPrices: MarketWithPrices[] = []
-  const errors: string[] = []
-
-  for (const market of markets) {
-    try {
-      const yesPriceData = priceMap.get(market.yesTokenId)
-      const noPriceData = priceMap.get(market.noTokenId)
-
-      const yesPrice = parsePrice(yesPriceData?.price || '0')
-      const noPrice = parsePrice(noPriceData?.price || '0')
-
-      // Validate prices
-      if (yesPrice < 0 || yesPrice > 1 || noPrice < 0 || noPrice > 1) {
-        errors.push(`Market ${market.id}: Invalid prices`)
-        continue
-      }
-
-      marketsWithPrices.push({
-        id: market.id,
-        title: market.title || `Market ${market.id}`,
-        yesTokenId: market.yesTokenId,
-        noTokenId: market.noTokenId,
-        yesPrice,
-        noPrice,
-        volume24h: market.volume24h || '0',
-        cutoffAt: market.cutoffAt || 0,
-        marketType: market.marketType || 0,
-        childMarkets: market.childMarkets,
-        childMarketsPreview: (childMarketPreviewMap.get(market.id) || []).map(child => {
-          const yesPriceData = priceMap.get(child.yesTokenId)
-          return {
-            id: child.id,
-            title: child.title || `Market ${child.id}`,
-            yesTokenId: child.yesTokenId,
-            yesPrice: parsePrice(yesPriceData?.price || '0'),
-            volume24h: child.volume24h || '0',
-          }
-        }),
-      })
-
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      errors.push(`Market ${market.id}: ${errorMessage}`)
-      console.error(`Error processing market ${market.id}:`, error)
-      continue
-    }
-  }
+  const { markets: marketsWithPrices, errors } = buildMarketsWithPrices(markets, priceMap, nowSeconds)
 
   console.log(`[API] Returning ${marketsWithPrices.length} markets after price fetching (Errors: ${errors.length})`)
 
-
   // Log processing summary
   if (errors.length > 0) {
     console.warn(`Processed ${marketsWithPrices.length} markets successfully, ${errors.length} errors`)
   }
 
-  const result = { markets: marketsWithPrices, total }
+  const result: MarketListResponse = {
+    markets: marketsWithPrices,
+    total: typeFiltered ? marketsWithPrices.length : upstreamTotal,
+    source: 'live',
+    ...(typeFiltered && { partial: true })
+  }
 
   // Cache the results for 30 seconds to balance freshness and rate limiting
   cache.set(cacheKey, result, 30)
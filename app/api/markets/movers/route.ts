@@ -1,145 +1,160 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { opinionClient } from '@/lib/opinionClient'
 import cache from '@/lib/cache'
-import { 
-  calculatePriceChange, 
-  getMarketPrice, 
-  createMarketMover, 
-  sortByPriceChangeAndVolume,
-  processMarket
-} from '@/lib/analytics'
-import { parsePrice } from '@/lib/utils'
-import { Market, MarketMover, TimeframePrices } from '@/lib/types'
+import {
+  MOVER_WINDOWS,
+  MoverCandidate,
+  MoverDirection,
+  MoverRank,
+  collectMoverCandidates,
+  computeMover,
+  filterMovers,
+  loadMoverHistory,
+  rankMovers
+} from '@/lib/movers'
+import { toLiquidityColumns } from '@/lib/liquidity'
+import { filterListableMarkets, loadLiquidity, loadMarketSnapshot } from '@/lib/snapshot'
+import { MarketMover, PriceData, PriceHistoryPoint } from '@/lib/types'
 import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
 
+const DIRECTIONS: MoverDirection[] = ['all', 'gainers', 'losers', 'absolute']
+const RANKS: MoverRank[] = ['change', 'zscore']
+
 /**
  * GET /api/markets/movers
  * Returns markets with the biggest price changes over specified timeframe
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6
+ * Query: timeframe (15m|1h|4h|24h|7d, default 24h), direction (all|gainers|losers|absolute), rank (change|zscore),
+ * minVolume, minLiquidity (USD), children (1 to include categorical outcomes), limit (1-100, default 50)
+ * Computed from the synced snapshot and price series; one live page of markets is used when the snapshot is stale
  */
 async function moversHandler(request: NextRequest): Promise<NextResponse> {
   const { searchParams } = new URL(request.url)
   const timeframeParam = searchParams.get('timeframe')
   
   // Requirement 1.2: Validate timeframe parameter with input sanitization
-  const timeframe = InputValidator.validateTimeframe(timeframeParam)
+  const timeframe = InputValidator.validateTimeframe(timeframeParam, Object.keys(MOVER_WINDOWS))
+  const moverWindow = MOVER_WINDOWS[timeframe]
+
+  const direction = (searchParams.get('direction') || 'all').trim().toLowerCase() as MoverDirection
+  if (!DIRECTIONS.includes(direction)) {
+    throw new APIError(`Invalid direction. Must be one of: ${DIRECTIONS.join(', ')}`, ErrorType.VALIDATION, 400)
+  }
+  const rank = (searchParams.get('rank') || 'change').trim().toLowerCase() as MoverRank
+  if (!RANKS.includes(rank)) {
+    throw new APIError(`Invalid rank. Must be one of: ${RANKS.join(', ')}`, ErrorType.VALIDATION, 400)
+  }
+
+  const minVolume = InputValidator.validateNumberRange(searchParams.get('minVolume'), 'minVolume', 0, 1e12) ?? 0
+  const minLiquidity = InputValidator.validateNumberRange(searchParams.get('minLiquidity'), 'minLiquidity', 0, 1e12) ?? 0
+  const includeChildren = ['1', 'true'].includes((searchParams.get('children') || '').trim().toLowerCase())
+  const limit = Math.floor(InputValidator.validateNumberRange(searchParams.get('limit'), 'limit', 1, 100) ?? 50)
 
-  // Check cache first (30s TTL for movers)
-  const cacheKey = `movers:${timeframe}`
+  // Check cache first (30s TTL for movers); the plain timeframe key serves the default options
+  const options = `${direction}:${rank}:${minVolume}:${minLiquidity}:${includeChildren ? 1 : 0}:${limit}`
+  const cacheKey = options === 'all:change:0:0:0:50' ? `movers:${timeframe}` : `movers:${timeframe}:${options}`
   const cachedData = cache.get<MarketMover[]>(cacheKey)
   
   if (cachedData) {
     return NextResponse.json(cachedData)
   }
 
-  // Fetch fresh data with error handling
-  const marketsResponse = await opinionClient.getMarkets(1, 5) as { markets?: Market[]; total?: number } | Market[] | null
-  const markets = Array.isArray(marketsResponse) ? marketsResponse : marketsResponse?.markets ?? [] // Use volume24h desc for movers
-  
-  if (!markets || markets.length === 0) {
-    console.warn('No markets available, returning empty array')
-    return NextResponse.json([])
-  }
+  const nowSeconds = Math.floor(Date.now() / 1000)
+  const snapshot = await loadMarketSnapshot()
+
+  let movers: MarketMover[]
+
+  if (snapshot) {
+    const candidates = collectMoverCandidates(filterListableMarkets(snapshot.markets, nowSeconds), includeChildren, nowSeconds)
+      .filter(({ market }) => (parseFloat(market.volume24h) || 0) >= minVolume)
+    const yesTokenIds = candidates.map(({ market }) => market.yesTokenId)
+
+    const [history, liquidity] = await Promise.all([
+      loadMoverHistory(candidates.flatMap(({ market }) => [market.yesTokenId, market.noTokenId].filter(Boolean)), moverWindow, nowSeconds),
+      loadLiquidity(yesTokenIds)
+    ])
+
+    movers = candidates
+      .map(candidate => {
+        const summary = liquidity.get(candidate.market.yesTokenId)
+        return computeMover(
+          candidate,
+          snapshot.prices,
+          history,
+          moverWindow.seconds,
+          nowSeconds,
+          summary ? toLiquidityColumns(summary).depthNotional : undefined
+        )
+      })
+      .filter((mover): mover is MarketMover => mover !== null)
 
-  // Calculate time period for historical data
-  const now = Date.now()
-  const timeframePeriod = timeframe === '1h' ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000
-  const historicalTime = now - timeframePeriod
+    console.log(`[API] Movers ${timeframe}: ${movers.length} of ${candidates.length} synced markets priced`)
+  } else {
+    movers = await liveMovers(moverWindow.interval, moverWindow.seconds, includeChildren, nowSeconds)
+  }
 
-  const movers: MarketMover[] = []
-  const errors: string[] = []
+  const result = rankMovers(filterMovers(movers, { minVolume, minLiquidity }), direction, rank).slice(0, limit)
 
-  // Process each market to calculate price changes
-  for (const market of markets) {
-    try {
-      // Get current prices with timeout handling
-      const [yesCurrentPrice, noCurrentPrice] = await Promise.all([
-        opinionClient.getLatestPrice(market.yesTokenId),
-        opinionClient.getLatestPrice(market.noTokenId)
-      ])
+  // Cache the results for 30 seconds
+  cache.set(cacheKey, result, 30)
 
-      const currentYesPrice = parsePrice(yesCurrentPrice?.price || '0')
-      const currentNoPrice = parsePrice(noCurrentPrice?.price || '0')
-      
-      // Validate price data
-      if (currentYesPrice < 0 || currentNoPrice < 0) {
-        throw new APIError(
-          `Invalid price data for market ${market.id}`,
-          ErrorType.VALIDATION,
-          400
-        )
-      }
-      
-      const currentMarketPrice = getMarketPrice(currentYesPrice, currentNoPrice)
+  return NextResponse.json(result)
+}
 
-      // Get historical prices with error handling
-      const [yesHistory, noHistory] = await Promise.all([
-        opinionClient.getPriceHistory(market.yesTokenId, timeframe === '1h' ? '1h' : '1d'),
-        opinionClient.getPriceHistory(market.noTokenId, timeframe === '1h' ? '1h' : '1d')
-      ])
+/**
+ * Live fallback: one page of markets by volume, with latest prices and history fetched per token
+ * Markets whose fetches fail are skipped
+ */
+async function liveMovers(
+  interval: string,
+  windowSeconds: number,
+  includeChildren: boolean,
+  nowSeconds: number
+): Promise<MarketMover[]> {
+  const { markets } = await opinionClient.getMarkets(1, 5) // Use volume24h desc for movers
 
-      // Find historical price closest to target time
-      // Requirement 1.4: Use nearest available data point if exact time not found
-      let historicalYesPrice = currentYesPrice
-      let historicalNoPrice = currentNoPrice
-
-      if (yesHistory && yesHistory.length > 0) {
-        const targetHistoricalPoint = yesHistory.find(point => 
-          point.t * 1000 <= historicalTime
-        ) || yesHistory[yesHistory.length - 1] // Use oldest available if none found
-        
-        historicalYesPrice = parsePrice(targetHistoricalPoint.p)
-      }
+  if (!markets || markets.length === 0) {
+    console.warn('No markets available, returning empty array')
+    return []
+  }
 
-      if (noHistory && noHistory.length > 0) {
-        const targetHistoricalPoint = noHistory.find(point => 
-          point.t * 1000 <= historicalTime
-        ) || noHistory[noHistory.length - 1] // Use oldest available if none found
-        
-        historicalNoPrice = parsePrice(targetHistoricalPoint.p)
-      }
+  const errors: string[] = []
+  const results = await Promise.all(collectMoverCandidates(markets, includeChildren, nowSeconds).map(async (candidate: MoverCandidate) => {
+    const { market } = candidate
+    try {
+      const tokenIds = [market.yesTokenId, market.noTokenId].filter(Boolean)
+      const [latest, histories] = await Promise.all([
+        Promise.all(tokenIds.map(tokenId => opinionClient.getLatestPrice(tokenId))),
+        Promise.all(tokenIds.map(tokenId => opinionClient.getPriceHistory(tokenId, interval)))
+      ])
 
-      const historicalMarketPrice = getMarketPrice(historicalYesPrice, historicalNoPrice)
-
-      // Requirement 1.3: Calculate price change using specified formula
-      const priceChange = calculatePriceChange(currentMarketPrice, historicalMarketPrice)
-
-      // Requirement 1.5: Create mover with all required fields
-      const mover = createMarketMover(
-        market.id,
-        market.title,
-        currentMarketPrice,
-        priceChange,
-        market.volume24h,
-        market.yesTokenId,
-        market.noTokenId,
-        currentYesPrice,
-        currentNoPrice
+      // Keyed by the requested token, the latest price payload does not always echo it back
+      const prices = new Map<string, PriceData>(
+        tokenIds.flatMap((tokenId, i): Array<[string, PriceData]> => (latest[i] ? [[tokenId, latest[i]]] : []))
       )
+      const history = new Map<string, PriceHistoryPoint[]>(tokenIds.map((tokenId, i) => [tokenId, histories[i] || []]))
 
-      movers.push(mover)
-
+      const mover = computeMover(candidate, prices, history, windowSeconds, nowSeconds)
+      if (!mover) {
+        throw new APIError(`Invalid price data for market ${market.id}`, ErrorType.VALIDATION, 400)
+      }
+      return mover
     } catch (error) {
       // Collect errors but continue processing other markets
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       errors.push(`Market ${market.id}: ${errorMessage}`)
-      console.error(`Error processing market ${market.id}:`, error)
-      continue
+      return null
     }
-  }
+  }))
+
+  const movers = results.filter((mover): mover is MarketMover => mover !== null)
 
   // Log processing summary
   if (errors.length > 0) {
     console.warn(`Processed ${movers.length} markets successfully, ${errors.length} errors:`, errors)
   }
 
-  // Requirement 1.1, 1.6: Sort by price change (primary) and volume (secondary)
-  const sortedMovers = sortByPriceChangeAndVolume(movers)
-
-  // Cache the results for 30 seconds
-  cache.set(cacheKey, sortedMovers, 30)
-
-  return NextResponse.json(sortedMovers)
+  return movers
 }
 
 // Export the wrapped handler with global error handling
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import cache from '@/lib/cache'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { filterResolvedMarkets, requireResolvedStore, ResolvedFilters } from '@/lib/resolution'
+import { ResolvedMarketsResponse } from '@/lib/types'
+
+/**
+ * GET /api/markets/resolved
+ * Archive of markets the sync followed through cutoff to resolution, newest resolution first
+ * Query: status=resolved|failed, type=0|1, q (title search), winner=yes|no (binary only), from/to (resolvedAt,
+ * unix seconds), page, limit (1-100, default 20), path=true to include each market's hourly price path
+ */
+async function resolvedMarketsHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+
+  const status = searchParams.get('status')
+  if (status !== null && status !== 'resolved' && status !== 'failed') {
+    throw new APIError('Invalid status parameter. Must be "resolved" or "failed"', ErrorType.VALIDATION, 400)
+  }
+  const winner = searchParams.get('winner')?.toLowerCase() ?? null
+  if (winner !== null && winner !== 'yes' && winner !== 'no') {
+    throw new APIError('Invalid winner parameter. Must be "yes" or "no"', ErrorType.VALIDATION, 400)
+  }
+
+  const filters: ResolvedFilters = {
+    status: status ?? undefined,
+    marketType: InputValidator.validateMarketType(searchParams.get('type')),
+    query: searchParams.get('q')?.slice(0, 200) || undefined,
+    winner: winner ?? undefined,
+    from: InputValidator.validateNumberRange(searchParams.get('from'), 'from', 0, 1e10),
+    to: InputValidator.validateNumberRange(searchParams.get('to'), 'to', 0, 1e10)
+  }
+  const page = InputValidator.validatePage(searchParams.get('page'))
+  const limit = Math.floor(InputValidator.validateNumberRange(searchParams.get('limit'), 'limit', 1, 100) ?? 20)
+  const includePath = ['1', 'true'].includes(searchParams.get('path') || '')
+
+  const cacheKey = `resolved-markets:${JSON.stringify(filters)}:${page}:${limit}:${includePath}`
+  const cached = cache.get<ResolvedMarketsResponse>(cacheKey)
+  if (cached) {
+    return NextResponse.json(cached)
+  }
+
+  const store = requireResolvedStore()
+  const matching = filterResolvedMarkets(await store.getResolvedMarkets(), filters)
+  const pageMarkets = matching.slice((page - 1) * limit, page * limit)
+  const paths = includePath
+    ? await store.getResolvedPricePaths(pageMarkets.map(market => market.id))
+    : new Map()
+
+  const response: ResolvedMarketsResponse = {
+    markets: pageMarkets.map(market => (includePath ? { ...market, pricePath: paths.get(market.id) || {} } : market)),
+    total: matching.length,
+    page,
+    limit
+  }
+
+  // The archive only grows once per resolution pass
+  cache.set(cacheKey, response, 60)
+  return NextResponse.json(response)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(resolvedMarketsHandler)
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import cache from '@/lib/cache'
+import { withErrorHandler } from '@/lib/errorHandler'
+import { Market, PriceData } from '@/lib/types'
+import { loadMarketUniverse, buildMarketsWithPrices } from '@/lib/snapshot'
+import {
+  parseMarketSearchParams,
+  searchMarkets,
+  MarketSearchParams,
+  MarketSearchResponse
+} from '@/lib/marketSearch'
+
+/**
+ * Score the page back onto the priced markets (markets with invalid prices are dropped by buildMarketsWithPrices)
+ */
+const buildSearchPage = (
+  matches: Array<{ market: Market; score: number }>,
+  priceMap: Map<string, PriceData>,
+  nowSeconds: number
+) => {
+  const scores = new Map(matches.map(({ market, score }) => [market.id, score]))
+  const { markets, errors } = buildMarketsWithPrices(matches.map(({ market }) => market), priceMap, nowSeconds)
+
+  if (errors.length > 0) {
+    console.warn(`[API] Search dropped ${errors.length} markets with invalid prices`)
+  }
+
+  return markets.map(market => ({ ...market, score: scores.get(market.id) ?? 0 }))
+}
+
+/**
+ * GET /api/markets/search
+ * Searches every synced market, not just the pages already loaded in the browser
+ * Query: q, type, minVolume, maxVolume, cutoffFrom, cutoffTo, minPrice, maxPrice, sort, order, limit, cursor
+ * Falls back to one live page from Opinion API when the snapshot is missing or stale
+ */
+async function marketSearchHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const params: MarketSearchParams = parseMarketSearchParams(searchParams)
+
+  const cacheKey = `markets-search:${JSON.stringify(params)}`
+  const cachedData = cache.get<MarketSearchResponse>(cacheKey)
+
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000)
+  const universe = await loadMarketUniverse(nowSeconds)
+  const { matches, total, nextCursor } = searchMarkets(universe.markets, universe.prices, params)
+
+  const result: MarketSearchResponse = {
+    markets: buildSearchPage(matches, universe.prices, nowSeconds),
+    total,
+    nextCursor,
+    source: universe.source,
+    snapshotAgeMs: universe.snapshotAgeMs
+  }
+
+  // Snapshot reads are cheap, live fallback results are kept longer to protect the rate limit
+  cache.set(cacheKey, result, universe.source === 'snapshot' ? 10 : 30)
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(marketSearchHandler)
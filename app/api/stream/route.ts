@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { redis } from '@/lib/redis'
+import { withErrorHandler, APIError, ErrorType } from '@/lib/errorHandler'
+import { filterStreamEvent, formatSSE, streamPoller, STREAM_MAX_MARKETS, STREAM_MAX_TOKENS } from '@/lib/stream'
+import { StreamEvent } from '@/lib/types'
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_INTERVAL_MS = 15000
+const RETRY_MS = 5000
+
+/**
+ * Parse the comma-separated market filter; null subscribes to every market
+ */
+const parseMarketIds = (param: string | null): Set<number> | null => {
+  if (!param || !param.trim()) {
+    return null
+  }
+
+  const ids = param.split(',').map(part => part.trim()).filter(Boolean)
+  if (ids.some(id => !/^\d+$/.test(id) || parseInt(id, 10) <= 0)) {
+    throw new APIError('Invalid markets parameter. Must be comma-separated positive market IDs', ErrorType.VALIDATION, 400)
+  }
+  if (ids.length > STREAM_MAX_MARKETS) {
+    throw new APIError(`Too many markets. At most ${STREAM_MAX_MARKETS} per stream`, ErrorType.VALIDATION, 400)
+  }
+
+  return new Set(ids.map(id => parseInt(id, 10)))
+}
+
+/**
+ * Parse the comma-separated token filter; null when absent
+ */
+const parseTokenIds = (param: string | null): Set<string> | null => {
+  if (!param || !param.trim()) {
+    return null
+  }
+
+  const ids = param.split(',').map(part => part.trim()).filter(Boolean)
+  if (ids.some(id => !/^[a-zA-Z0-9\-_]+$/.test(id))) {
+    throw new APIError('Invalid tokens parameter. Must be comma-separated token IDs', ErrorType.VALIDATION, 400)
+  }
+  if (ids.length > STREAM_MAX_TOKENS) {
+    throw new APIError(`Too many tokens. At most ${STREAM_MAX_TOKENS} per stream`, ErrorType.VALIDATION, 400)
+  }
+
+  return new Set(ids)
+}
+
+/**
+ * GET /api/stream
+ * Server-Sent Events stream of price and orderbook deltas published by the sync service
+ * Query: markets (comma-separated IDs) and/or tokens (comma-separated token IDs); default all
+ * Reconnects resume after the Last-Event-ID header. Live events come from the poller shared by all streams
+ */
+async function streamHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const marketIds = parseMarketIds(searchParams.get('markets'))
+  const tokenIds = parseTokenIds(searchParams.get('tokens'))
+  const client = redis.client
+
+  if (!client) {
+    throw new APIError('Streaming requires Redis', ErrorType.EXTERNAL_API, 503)
+  }
+
+  // Resume after the last delivered event, otherwise start from what is already in the feed
+  const lastEventId = parseInt(request.headers.get('last-event-id') || '', 10)
+  const resuming = Number.isFinite(lastEventId) && lastEventId >= 0
+  let cursor = resuming ? lastEventId : 0
+
+  const encoder = new TextEncoder()
+  let closed = false
+  let unsubscribe: (() => void) | undefined
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined
+
+  const stop = () => {
+    closed = true
+    unsubscribe?.()
+    clearInterval(heartbeatTimer)
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          stop()
+        }
+      }
+
+      const deliver = (event: StreamEvent) => {
+        if (event.seq <= cursor) return
+        cursor = event.seq
+        const filtered = filterStreamEvent(event, marketIds, tokenIds)
+        if (filtered) send(formatSSE('delta', filtered, filtered.seq))
+      }
+
+      request.signal.addEventListener('abort', () => {
+        stop()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      })
+
+      // Live events are held back until the backlog is sent, then go through the same cursor check
+      let backlog: StreamEvent[] | null = []
+      unsubscribe = streamPoller.subscribe(event => {
+        if (backlog) backlog.push(event)
+        else deliver(event)
+      })
+
+      let events: StreamEvent[] = []
+      try {
+        events = await client.getStreamEvents(cursor)
+      } catch (error) {
+        console.warn('[Stream] Failed to read change feed:', error instanceof Error ? error.message : error)
+      }
+      if (!resuming) {
+        cursor = events.reduce((max, event) => Math.max(max, event.seq), cursor)
+        events = []
+      }
+
+      send(`retry: ${RETRY_MS}\n\n`)
+      send(formatSSE('ready', { cursor, markets: marketIds ? marketIds.size : null, tokens: tokenIds ? tokenIds.size : null }))
+      events.forEach(deliver)
+      const held = backlog
+      backlog = null
+      held.forEach(deliver)
+
+      if (closed) return
+      heartbeatTimer = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS)
+    },
+    cancel() {
+      stop()
+    }
+  })
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(streamHandler)
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import cache from '@/lib/cache'
+import { redis } from '@/lib/redis'
+import { withErrorHandler, APIError, ErrorType } from '@/lib/errorHandler'
+import { parseWalletAddresses } from '@/lib/portfolio'
+import { buildHistorySeries, HISTORY_RANGES } from '@/lib/portfolioHistory'
+import { PortfolioHistoryResponse } from '@/lib/types'
+
+/**
+ * GET /api/user/portfolio/history
+ * Value, realized and unrealized PnL and drawdown over time for tracked wallets, summed across wallets
+ * Query: address (comma-separated, up to 10 wallets), range (24h|7d|30d|90d, default 7d)
+ */
+async function portfolioHistoryHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const wallets = parseWalletAddresses(searchParams.get('address')).map(wallet => wallet.toLowerCase())
+
+  const range = (searchParams.get('range') || '7d').trim().toLowerCase()
+  if (!HISTORY_RANGES[range]) {
+    throw new APIError(`Invalid range. Must be one of: ${Object.keys(HISTORY_RANGES).join(', ')}`, ErrorType.VALIDATION, 400)
+  }
+
+  const client = redis.client
+  if (!client) {
+    throw new APIError('Portfolio history requires Redis', ErrorType.EXTERNAL_API, 503)
+  }
+
+  const cacheKey = `portfolio-history:${[...wallets].sort().join(',')}:${range}`
+  const cachedData = cache.get<PortfolioHistoryResponse>(cacheKey)
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  const to = Date.now()
+  const from = to - HISTORY_RANGES[range] * 1000
+  const series = await Promise.all(wallets.map(wallet => client.getPortfolioHistory(wallet, from, to)))
+
+  const result: PortfolioHistoryResponse = {
+    wallets,
+    untracked: wallets.filter((_, index) => series[index].length === 0),
+    range,
+    ...buildHistorySeries(series)
+  }
+
+  // Snapshots land every few minutes
+  cache.set(cacheKey, result, 30)
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(portfolioHistoryHandler)
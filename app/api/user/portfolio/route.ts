@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import cache from '@/lib/cache'
+import { opinionClient } from '@/lib/opinionClient'
+import { withErrorHandler } from '@/lib/errorHandler'
+import { loadTokenPrices } from '@/lib/snapshot'
+import { isKnownPrice } from '@/lib/prices'
+import { buildPortfolio, parseWalletAddresses, valuePosition, WalletPositions } from '@/lib/portfolio'
+import { PortfolioResponse, PriceData, UserPosition } from '@/lib/types'
+
+/**
+ * Positions of one wallet, sharing the 15s cache with /api/user/positions
+ */
+const fetchWalletPositions = async (wallet: string): Promise<WalletPositions> => {
+  const cacheKey = `user-positions:${wallet}`
+  const cached = cache.get<UserPosition[]>(cacheKey)
+  if (cached) {
+    return { wallet, positions: cached }
+  }
+
+  const positions = await opinionClient.getUserPositions(wallet)
+  cache.set(cacheKey, positions, 15)
+  return { wallet, positions }
+}
+
+/**
+ * GET /api/user/portfolio
+ * Positions of one or more wallets valued at synced prices (live prices for tokens the sync does not cover),
+ * with exposure per market and per categorical parent, concentration, resolution payouts and totals
+ * Query: address (comma-separated, up to 10 wallets)
+ */
+async function portfolioHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const wallets = parseWalletAddresses(searchParams.get('address'))
+
+  const cacheKey = `portfolio:${wallets.map(wallet => wallet.toLowerCase()).sort().join(',')}`
+  const cachedData = cache.get<PortfolioResponse>(cacheKey)
+  if (cachedData) {
+    return NextResponse.json(cachedData)
+  }
+
+  // One failing wallet is reported instead of failing the whole portfolio
+  const errors: PortfolioResponse['errors'] = []
+  const results = await Promise.all(wallets.map(async wallet => {
+    try {
+      return await fetchWalletPositions(wallet)
+    } catch (error) {
+      console.error(`[API] Failed to fetch positions for ${wallet}:`, error)
+      errors.push({ wallet, message: error instanceof Error ? error.message : String(error) })
+      return { wallet, positions: [] }
+    }
+  }))
+
+  const tokenIds = Array.from(new Set(results.flatMap(result => result.positions.map(position => position.tokenId))))
+  const snapshot = await loadTokenPrices(tokenIds)
+
+  // Tokens the sync could not price are quoted live like tokens it does not cover
+  const synced = (tokenId: string) => isKnownPrice(snapshot.prices.get(tokenId))
+  const missing = tokenIds.filter(tokenId => !synced(tokenId))
+  let livePrices = new Map<string, PriceData>()
+  if (missing.length > 0) {
+    try {
+      livePrices = await opinionClient.getMultiplePrices(missing)
+    } catch (error) {
+      console.warn('[API] Live prices unavailable for portfolio, using reported values:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  const positions = results.flatMap(({ wallet, positions: walletPositions }) =>
+    walletPositions.map(position => synced(position.tokenId)
+      ? valuePosition(wallet, position, snapshot.prices, 'snapshot')
+      : valuePosition(wallet, position, livePrices, 'live')))
+
+  const result: PortfolioResponse = {
+    wallets,
+    positions,
+    ...buildPortfolio(positions),
+    errors,
+    snapshotAgeMs: snapshot.ageMs
+  }
+
+  // Same freshness as the positions endpoint; failed wallets are retried on the next request
+  if (errors.length === 0) {
+    cache.set(cacheKey, result, 15)
+  }
+
+  return NextResponse.json(result)
+}
+
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(portfolioHandler)
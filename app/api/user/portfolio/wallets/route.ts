@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { redis } from '@/lib/redis'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { parseWalletAddresses } from '@/lib/portfolio'
+import { MAX_TRACKED_WALLETS } from '@/lib/portfolioHistory'
+
+const requireStore = () => {
+  if (!redis.client) {
+    throw new APIError('Portfolio tracking requires Redis', ErrorType.EXTERNAL_API, 503)
+  }
+  return redis.client
+}
+
+/**
+ * GET /api/user/portfolio/wallets
+ * Wallets whose portfolio is snapshotted by the sync service
+ */
+async function listWalletsHandler(_request: NextRequest): Promise<NextResponse> {
+  return NextResponse.json({ wallets: await requireStore().getTrackedWallets() })
+}
+
+/**
+ * POST /api/user/portfolio/wallets
+ * Start tracking wallets. Body: { address: "0x..." } (comma-separated for several)
+ */
+async function addWalletsHandler(request: NextRequest): Promise<NextResponse> {
+  const store = requireStore()
+  const body = await InputValidator.readJsonBody(request) as { address?: unknown }
+  const wallets = parseWalletAddresses(typeof body?.address === 'string' ? body.address : null)
+    .map(wallet => wallet.toLowerCase())
+
+  const tracked = await store.getTrackedWallets()
+  const added = wallets.filter(wallet => !tracked.includes(wallet))
+  if (tracked.length + added.length > MAX_TRACKED_WALLETS) {
+    throw new APIError(`Too many tracked wallets. At most ${MAX_TRACKED_WALLETS}`, ErrorType.VALIDATION, 400)
+  }
+
+  await store.addTrackedWallets(added)
+  console.log(`[API] Tracking ${added.length} new wallets`)
+
+  return NextResponse.json({ wallets: await store.getTrackedWallets() }, { status: added.length > 0 ? 201 : 200 })
+}
+
+/**
+ * DELETE /api/user/portfolio/wallets?address=0x...
+ * Stop tracking a wallet; its recorded history expires with the retention window
+ */
+async function removeWalletHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const [wallet] = parseWalletAddresses(searchParams.get('address'))
+
+  const removed = await requireStore().removeTrackedWallet(wallet.toLowerCase())
+  if (!removed) {
+    throw new APIError(`Wallet ${wallet} is not tracked`, ErrorType.NOT_FOUND, 404)
+  }
+
+  return NextResponse.json({ removed: wallet.toLowerCase() })
+}
+
+// Export the wrapped handlers with global error handling
+export const GET = withErrorHandler(listWalletsHandler)
+export const POST = withErrorHandler(addWalletsHandler)
+export const DELETE = withErrorHandler(removeWalletHandler)
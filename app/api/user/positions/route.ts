@@ -1,20 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import cache from '@/lib/cache'
 import { opinionClient } from '@/lib/opinionClient'
+import { withErrorHandler, InputValidator } from '@/lib/errorHandler'
 import type { UserPosition } from '@/lib/types'
 
 /**
  * GET /api/user/positions?address=0x...
  * Cached wrapper around Opinion positions endpoint to avoid frontend-driven rate limiting.
  */
-export async function GET(request: NextRequest): Promise<NextResponse> {
+async function positionsHandler(request: NextRequest): Promise<NextResponse> {
   const { searchParams } = new URL(request.url)
-  const address = (searchParams.get('address') || '').trim()
+  const param = (searchParams.get('address') || '').trim()
 
-  if (!address) {
+  if (!param) {
     return NextResponse.json([])
   }
 
+  const address = InputValidator.validateAddress(param)
+
   const cacheKey = `user-positions:${address}`
   const cached = cache.get<UserPosition[]>(cacheKey)
   if (cached) {
@@ -23,17 +26,17 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
   try {
     const positions = await opinionClient.getUserPositions(address)
-    
+
     // TTL 15s per requirements
     cache.set(cacheKey, positions, 15)
     return NextResponse.json(positions)
   } catch (error) {
     // Log error for debugging but return empty array to keep UI functional
+    // Not cached: the key is shared with /api/user/portfolio, which must not read a failure as an empty wallet
     console.error(`[API] Failed to fetch positions for ${address}:`, error)
-    
-    // Cache empty result briefly to avoid hammering failing endpoint
-    cache.set(cacheKey, [], 15)
     return NextResponse.json([])
   }
 }
 
+// Export the wrapped handler with global error handling
+export const GET = withErrorHandler(positionsHandler)
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { applyWatchlistUpdate, requireWatchlistStore } from '@/lib/watchlists'
+import { Watchlist } from '@/lib/types'
+
+type WatchlistParams = { params: { id: string } }
+
+/**
+ * Lists are keyed by owner, so every call names the owner it acts for (?owner=)
+ */
+const loadWatchlist = async (request: NextRequest, id: string): Promise<Watchlist> => {
+  const owner = InputValidator.validateOwner(new URL(request.url).searchParams.get('owner'))
+  const watchlist = /^[a-f0-9-]{36}$/i.test(id) ? await requireWatchlistStore().getWatchlist(owner, id) : null
+  if (!watchlist) {
+    throw new APIError(`Watchlist ${id} not found`, ErrorType.NOT_FOUND, 404)
+  }
+  return watchlist
+}
+
+/**
+ * GET /api/watchlists/[id]?owner=
+ */
+async function getWatchlistHandler(request: NextRequest, { params }: WatchlistParams): Promise<NextResponse> {
+  return NextResponse.json(await loadWatchlist(request, params.id))
+}
+
+/**
+ * PATCH /api/watchlists/[id]?owner=
+ * Body: any of { name, wallets, marketIds }
+ */
+async function updateWatchlistHandler(request: NextRequest, { params }: WatchlistParams): Promise<NextResponse> {
+  const watchlist = applyWatchlistUpdate(await loadWatchlist(request, params.id), await InputValidator.readJsonBody(request))
+  await requireWatchlistStore().saveWatchlist(watchlist)
+
+  return NextResponse.json(watchlist)
+}
+
+/**
+ * DELETE /api/watchlists/[id]?owner=
+ */
+async function deleteWatchlistHandler(request: NextRequest, { params }: WatchlistParams): Promise<NextResponse> {
+  const watchlist = await loadWatchlist(request, params.id)
+  await requireWatchlistStore().deleteWatchlist(watchlist.owner, watchlist.id)
+  console.log(`[API] Deleted watchlist ${watchlist.id}`)
+
+  return NextResponse.json({ deleted: watchlist.id })
+}
+
+// Export the wrapped handlers with global error handling
+export const GET = withErrorHandler(getWatchlistHandler)
+export const PATCH = withErrorHandler(updateWatchlistHandler)
+export const DELETE = withErrorHandler(deleteWatchlistHandler)
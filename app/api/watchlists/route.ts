@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withErrorHandler, InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { MAX_WATCHLISTS_PER_OWNER, parseWatchlistInput, requireWatchlistStore } from '@/lib/watchlists'
+
+/**
+ * GET /api/watchlists
+ * Watchlists of one owner, oldest first
+ * Query: owner (required)
+ */
+async function listWatchlistsHandler(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url)
+  const owner = InputValidator.validateOwner(searchParams.get('owner'))
+
+  const watchlists = await requireWatchlistStore().getWatchlists(owner)
+
+  return NextResponse.json({ watchlists })
+}
+
+/**
+ * POST /api/watchlists
+ * Create a named watchlist
+ * Body: { owner, name, wallets?, marketIds? }
+ */
+async function createWatchlistHandler(request: NextRequest): Promise<NextResponse> {
+  const store = requireWatchlistStore()
+  const watchlist = parseWatchlistInput(await InputValidator.readJsonBody(request))
+
+  const existing = await store.getWatchlists(watchlist.owner)
+  if (existing.length >= MAX_WATCHLISTS_PER_OWNER) {
+    throw new APIError(`Too many watchlists. At most ${MAX_WATCHLISTS_PER_OWNER} per owner`, ErrorType.VALIDATION, 400)
+  }
+
+  await store.saveWatchlist(watchlist)
+  console.log(`[API] Created watchlist ${watchlist.id} for ${watchlist.owner}`)
+
+  return NextResponse.json(watchlist, { status: 201 })
+}
+
+// Export the wrapped handlers with global error handling
+export const GET = withErrorHandler(listWatchlistsHandler)
+export const POST = withErrorHandler(createWatchlistHandler)
@@ -0,0 +1,183 @@
+'use client'
+
+import { useState } from 'react'
+import useSWR from 'swr'
+import { ArrowLeft, Target } from 'lucide-react'
+import { CartesianGrid, ComposedChart, Line, ResponsiveContainer, Scatter, Tooltip, XAxis, YAxis } from 'recharts'
+import type { CalibrationResponse } from '@/lib/types'
+
+const fetcher = async <T,>(url: string): Promise<T> => {
+  const res = await fetch(url)
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => ({}))
+    throw new Error(errorData.error || `Request failed: ${res.status}`)
+  }
+  return res.json() as Promise<T>
+}
+
+const typeOptions = [
+  { label: 'All', value: '' },
+  { label: 'Binary', value: '0' },
+  { label: 'Categorical', value: '1' },
+] as const
+
+// Reference line for perfect calibration
+const diagonal = [{ x: 0, y: 0 }, { x: 1, y: 1 }]
+
+function formatScore(value: number | null) {
+  return value === null ? '—' : value.toFixed(3)
+}
+
+export default function CalibrationPage() {
+  const [horizon, setHorizon] = useState('7d')
+  const [marketType, setMarketType] = useState('')
+
+  const { data, error, isLoading } = useSWR<CalibrationResponse>(
+    `/api/analytics/calibration${marketType ? `?type=${marketType}` : ''}`,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
+  const selected = data?.horizons.find((entry) => entry.horizon === horizon)
+  const points = (selected?.reliability ?? [])
+    .filter((bucket) => bucket.meanForecast !== null && bucket.observedFrequency !== null)
+    .map((bucket) => ({ x: bucket.meanForecast, y: bucket.observedFrequency, count: bucket.count }))
+
+  return (
+    <main className="min-h-screen bg-slate-950 pb-20">
+      <div className="mx-auto w-full max-w-[1200px] px-4 py-8 sm:px-6 lg:px-8">
+        <header className="mb-8">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Target className="h-6 w-6 text-slate-300" />
+              <div>
+                <h1 className="text-2xl font-semibold tracking-tight text-slate-100">Calibration</h1>
+                <p className="mt-1 text-sm text-slate-400">How well Opinion prices before cutoff predicted resolved outcomes</p>
+              </div>
+            </div>
+            <a
+              href="/"
+              className="inline-flex items-center gap-2 rounded-xl bg-slate-900/60 px-4 py-2 text-xs font-semibold text-slate-200 ring-1 ring-white/10 transition-all hover:bg-slate-900/80"
+            >
+              <ArrowLeft className="h-3 w-3" />
+              Back to Markets
+            </a>
+          </div>
+
+          <div className="mt-6 flex flex-wrap items-center gap-2">
+            {(data?.horizons ?? []).map((entry) => (
+              <button
+                key={entry.horizon}
+                onClick={() => setHorizon(entry.horizon)}
+                className={`rounded-lg px-3 py-1.5 text-xs font-medium ring-1 transition ${
+                  entry.horizon === horizon
+                    ? 'bg-blue-500/15 text-blue-200 ring-blue-500/30'
+                    : 'bg-slate-900/40 text-slate-400 ring-white/10 hover:text-slate-200'
+                }`}
+              >
+                {entry.horizon} before cutoff
+              </button>
+            ))}
+            <div className="ml-auto flex items-center gap-1">
+              {typeOptions.map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => setMarketType(option.value)}
+                  className={`rounded-lg px-2.5 py-1 text-xs font-medium transition ${
+                    marketType === option.value ? 'bg-slate-700 text-slate-100' : 'text-slate-400 hover:text-slate-200'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </header>
+
+        {isLoading ? (
+          <div className="h-[420px] w-full animate-pulse rounded-2xl bg-slate-900/40 ring-1 ring-white/10" />
+        ) : error || !data ? (
+          <div className="flex h-40 items-center justify-center rounded-2xl bg-slate-900/40 p-6 text-sm text-slate-400 ring-1 ring-white/10">
+            Failed to load calibration{error ? `: ${error.message}` : ''}.
+          </div>
+        ) : !selected || selected.count === 0 ? (
+          <div className="flex h-40 items-center justify-center rounded-2xl bg-slate-900/40 p-6 text-sm text-slate-400 ring-1 ring-white/10">
+            No resolved markets with prices {horizon} before cutoff yet.
+          </div>
+        ) : (
+          <>
+            <div className="mb-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
+              {[
+                { label: 'Resolved markets', value: data.markets.toLocaleString('en-US') },
+                { label: 'Forecasts', value: selected.count.toLocaleString('en-US') },
+                { label: 'Brier score', value: formatScore(selected.brier) },
+                { label: 'Log loss', value: formatScore(selected.logLoss) },
+              ].map((stat) => (
+                <div key={stat.label} className="rounded-2xl bg-slate-900/40 p-4 ring-1 ring-white/10">
+                  <div className="text-xs text-slate-500">{stat.label}</div>
+                  <div className="mt-1 text-lg font-semibold text-slate-100">{stat.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Reliability diagram: mean price per decile against how often those outcomes won */}
+            <div className="mb-6 rounded-2xl bg-slate-900/40 p-5 ring-1 ring-white/10">
+              <h2 className="mb-4 text-sm font-semibold text-slate-100">Reliability</h2>
+              <div className="h-[360px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart margin={{ top: 8, right: 16, bottom: 16, left: 0 }}>
+                    <CartesianGrid stroke="rgba(148,163,184,0.1)" />
+                    <XAxis
+                      type="number"
+                      dataKey="x"
+                      domain={[0, 1]}
+                      tick={{ fill: '#94a3b8', fontSize: 12 }}
+                      label={{ value: 'Price', position: 'insideBottom', offset: -8, fill: '#64748b', fontSize: 12 }}
+                    />
+                    <YAxis type="number" dataKey="y" domain={[0, 1]} tick={{ fill: '#94a3b8', fontSize: 12 }} width={40} />
+                    <Tooltip
+                      contentStyle={{
+                        background: 'rgba(15,23,42,0.95)',
+                        border: '1px solid rgba(255,255,255,0.10)',
+                        borderRadius: 12,
+                        color: '#e2e8f0',
+                      }}
+                      formatter={(value: number | undefined) => (value === undefined ? '—' : value.toFixed(3))}
+                    />
+                    <Line data={diagonal} dataKey="y" name="Perfect" stroke="#475569" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+                    <Line data={points} dataKey="y" name="Observed" stroke="#60a5fa" strokeWidth={2} isAnimationActive={false} />
+                    <Scatter data={points} name="Observed" fill="#60a5fa" isAnimationActive={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div className="rounded-2xl bg-slate-900/40 p-5 ring-1 ring-white/10">
+              <h2 className="mb-4 text-sm font-semibold text-slate-100">By volume tier</h2>
+              <table className="w-full text-left text-xs">
+                <thead className="text-slate-500">
+                  <tr>
+                    <th className="pb-2 font-medium">24h volume</th>
+                    <th className="pb-2 text-right font-medium">Forecasts</th>
+                    <th className="pb-2 text-right font-medium">Brier</th>
+                    <th className="pb-2 text-right font-medium">Log loss</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5 text-slate-200">
+                  {selected.tiers.map((tier) => (
+                    <tr key={tier.tier}>
+                      <td className="py-2">{tier.tier}</td>
+                      <td className="py-2 text-right">{tier.count}</td>
+                      <td className="py-2 text-right">{formatScore(tier.brier)}</td>
+                      <td className="py-2 text-right">{formatScore(tier.logLoss)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
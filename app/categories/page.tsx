@@ -1,9 +1,9 @@
 'use client'
 
-import { useMemo, useState } from 'react'
+import { useEffect, useState } from 'react'
 import useSWR from 'swr'
 import { ArrowLeft, ArrowUpRight, Layers } from 'lucide-react'
-import type { Market } from '@/lib/types'
+import type { CategoricalAnalytics, CategoricalAnalyticsResponse, Market } from '@/lib/types'
 
 const fetcher = async <T,>(url: string): Promise<T> => {
   const res = await fetch(url)
@@ -18,7 +18,7 @@ interface ChildMarketPreview {
   id: number
   title: string
   yesTokenId: string
-  yesPrice: number
+  yesPrice: number | null // null when the price is unknown
   volume24h: string
 }
 
@@ -27,8 +27,9 @@ interface MarketWithPrices {
   title: string
   yesTokenId: string
   noTokenId: string
-  yesPrice: number
-  noPrice: number
+  yesPrice: number | null
+  noPrice: number | null
+  priceStatus?: 'stale' | 'error' | 'missing'
   volume24h: string
   cutoffAt: number
   marketType: number
@@ -40,26 +41,65 @@ function formatUsdCompact(value: number) {
   return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 }).format(value)
 }
 
+function formatShift(points: number | null) {
+  if (points === null) return '—'
+  return `${points > 0 ? '+' : ''}${points.toFixed(1)}pp`
+}
+
+function shiftClass(points: number | null) {
+  if (points === null || Math.abs(points) < 0.05) return 'text-slate-500'
+  return points > 0 ? 'text-emerald-400' : 'text-rose-400'
+}
+
+function AnalyticsSummary({ analytics }: { analytics: CategoricalAnalytics }) {
+  const stats = [
+    { label: analytics.overroundPct >= 0 ? 'Overround' : 'Underround', value: `${Math.abs(analytics.overroundPct).toFixed(1)}%` },
+    { label: 'Entropy', value: `${analytics.entropy.toFixed(2)} bits` },
+    { label: 'Margin', value: analytics.favouriteMarginPct === null ? '—' : `${analytics.favouriteMarginPct.toFixed(1)}pp` },
+    { label: '24h shift', value: analytics.shift24h === null ? '—' : `${analytics.shift24h.toFixed(1)}pp` }
+  ]
+
+  return (
+    <div className="mt-3 grid grid-cols-2 gap-1.5 text-[10px]">
+      {stats.map((stat) => (
+        <div key={stat.label} className="flex items-center justify-between rounded-lg bg-slate-900/60 px-2 py-1 ring-1 ring-white/5">
+          <span className="text-slate-500">{stat.label}</span>
+          <span className="font-semibold text-slate-200">{stat.value}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
 export default function CategoriesPage() {
   const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
 
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  // Categorical filter and search both run on the server over every synced market
   const { data, error, isLoading } = useSWR<{
     markets: MarketWithPrices[]
     total: number
   }>(
-    '/api/markets/list?page=1',
+    `/api/markets/search?${new URLSearchParams({ q: debouncedQuery, type: '1', limit: '100' }).toString()}`,
     fetcher,
     { refreshInterval: 30_000, revalidateOnFocus: false }
   )
 
-  const categoricalMarkets = useMemo(() => {
-    if (!data?.markets) return []
-    return data.markets.filter(market => {
-      const isCategorical = market.marketType === 1 || (market.childMarkets && market.childMarkets.length > 0)
-      const matchesSearch = market.title.toLowerCase().includes(searchQuery.toLowerCase())
-      return isCategorical && matchesSearch
-    })
-  }, [data, searchQuery])
+  const categoricalMarkets = data?.markets ?? []
+
+  // Normalized probabilities for every outcome; cards show the top 3 preview until these load
+  const analyticsIds = categoricalMarkets.map((market) => market.id).join(',')
+  const { data: analyticsData } = useSWR<CategoricalAnalyticsResponse>(
+    analyticsIds ? `/api/markets/categorical?ids=${analyticsIds}` : null,
+    fetcher,
+    { refreshInterval: 30_000, revalidateOnFocus: false }
+  )
+  const analyticsById = new Map((analyticsData?.markets ?? []).map((analytics) => [analytics.marketId, analytics]))
 
   return (
     <main className="min-h-screen bg-slate-950 pb-20">
@@ -70,7 +110,7 @@ export default function CategoriesPage() {
               <Layers className="h-6 w-6 text-slate-300" />
               <div>
                 <h1 className="text-2xl font-semibold tracking-tight text-slate-100">Categories</h1>
-                <p className="mt-1 text-sm text-slate-400">Multi-outcome markets with top scenarios</p>
+                <p className="mt-1 text-sm text-slate-400">Multi-outcome markets with implied probabilities across every outcome</p>
               </div>
             </div>
             <a
@@ -117,7 +157,7 @@ export default function CategoriesPage() {
           </div>
         ) : categoricalMarkets.length === 0 ? (
           <div className="flex h-40 items-center justify-center rounded-2xl bg-slate-900/40 backdrop-blur-sm ring-1 ring-white/10 p-6 text-sm text-slate-400">
-            No categorical markets available.
+            {debouncedQuery ? `No categorical markets match "${debouncedQuery}".` : 'No categorical markets available.'}
           </div>
         ) : (
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
@@ -136,20 +176,42 @@ export default function CategoriesPage() {
                   </div>
                 </div>
 
+                {analyticsById.has(market.id) ? (
+                  <>
+                    <div className="max-h-48 space-y-1.5 overflow-y-auto pr-1">
+                      {analyticsById.get(market.id)!.outcomes.map((outcome) => (
+                        <div
+                          key={`outcome-${market.id}-${outcome.marketId}`}
+                          className="flex items-center justify-between gap-2 rounded-xl bg-slate-900/60 px-3 py-1.5 text-xs text-slate-200 ring-1 ring-white/5"
+                        >
+                          <span className="truncate">{outcome.title}</span>
+                          <span className="flex shrink-0 items-center gap-2">
+                            <span className={`text-[10px] ${shiftClass(outcome.shift24h)}`}>{formatShift(outcome.shift24h)}</span>
+                            <span className="w-12 text-right font-semibold text-blue-200">
+                              {outcome.probability === null ? '—' : `${(outcome.probability * 100).toFixed(1)}%`}
+                            </span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <AnalyticsSummary analytics={analyticsById.get(market.id)!} />
+                  </>
+                ) : (
                 <div className="space-y-2">
                   {(market.childMarketsPreview || []).slice(0, 3).map((child) => {
-                    const chance = Math.max(0, Math.min(1, child.yesPrice)) * 100
+                    const chance = child.yesPrice === null ? null : Math.max(0, Math.min(1, child.yesPrice)) * 100
                     return (
                       <div
                         key={`child-${market.id}-${child.id}`}
                         className="flex items-center justify-between rounded-xl bg-slate-900/60 px-3 py-2 text-xs text-slate-200 ring-1 ring-white/5"
                       >
                         <span className="truncate">{child.title}</span>
-                        <span className="ml-3 shrink-0 font-semibold text-blue-200">{Math.round(chance)}%</span>
+                        <span className="ml-3 shrink-0 font-semibold text-blue-200">{chance === null ? '—' : `${Math.round(chance)}%`}</span>
                       </div>
                     )
                   })}
                 </div>
+                )}
 
                 <div className="mt-4 flex items-center justify-between text-xs text-slate-400">
                   <span>${formatUsdCompact(Number(market.volume24h) || 0)} Vol.</span>
@@ -16,8 +16,9 @@ import {
     TrendingUp,
     AlertCircle
 } from 'lucide-react'
-import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
-import { Market, Orderbook } from '@/lib/types'
+import { Bar, BarChart, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { Candle, CandleResponse, CategoricalAnalytics, HistoryBatchResponse, Market, Orderbook } from '@/lib/types'
+import { usePriceStream } from '@/lib/usePriceStream'
 
 function cn(...classes: ClassValue[]) {
     return twMerge(clsx(classes))
@@ -44,6 +45,17 @@ function formatUsdCompact(value: number) {
     return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 }).format(value)
 }
 
+function formatShiftPoints(points: number | null, signed: boolean = true) {
+    if (points === null) return '—'
+    const sign = signed && points > 0 ? '+' : ''
+    return `${sign}${points.toFixed(1)}pp`
+}
+
+function shiftColor(points: number | null) {
+    if (points === null || Math.abs(points) < 0.05) return 'text-slate-500'
+    return points > 0 ? 'text-emerald-400' : 'text-rose-400'
+}
+
 function formatDate(timestamp: number) {
     return new Date(timestamp * 1000).toLocaleDateString(undefined, {
         year: 'numeric',
@@ -94,9 +106,94 @@ function OrderbookTable({ orderbook, side }: { orderbook?: Orderbook, side: 'bid
     )
 }
 
-interface PricePoint {
-    t: number
-    p: string
+type CandleResolution = '1m' | '5m' | '15m' | '1h' | '4h' | '1d'
+
+const candleResolutions: CandleResolution[] = ['1m', '5m', '15m', '1h', '4h', '1d']
+
+/**
+ * Bar shape for a [low, high] range: the bar spans the wick, the body is drawn between open and close
+ */
+function CandleShape(props: { x?: number; y?: number; width?: number; height?: number; payload?: Candle }) {
+    const { x = 0, y = 0, width = 0, height = 0, payload } = props
+    if (!payload) return null
+
+    const range = payload.h - payload.l
+    const scale = range > 0 ? height / range : 0
+    const bodyTop = y + (payload.h - Math.max(payload.o, payload.c)) * scale
+    const bodyHeight = Math.max(1, Math.abs(payload.o - payload.c) * scale)
+    const color = payload.c >= payload.o ? '#10b981' : '#f43f5e'
+    const center = x + width / 2
+
+    return (
+        <g opacity={payload.n === 0 ? 0.4 : 1}>
+            <line x1={center} x2={center} y1={y} y2={y + Math.max(height, 1)} stroke={color} strokeWidth={1} />
+            <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} fill={color} />
+        </g>
+    )
+}
+
+function CandleChart({ tokenId, resolution }: { tokenId: string; resolution: CandleResolution }) {
+    const { data, error } = useSWR<CandleResponse>(
+        `/api/charts/candles?tokenId=${tokenId}&resolution=${resolution}&gap=ffill`,
+        fetcher,
+        { refreshInterval: 30000 }
+    )
+
+    const chartData = useMemo(
+        () => (data?.candles || []).map(candle => ({ ...candle, range: [candle.l, candle.h] })),
+        [data]
+    )
+
+    if (error || (data && chartData.length === 0)) {
+        return (
+            <div className="h-[300px] w-full flex items-center justify-center text-slate-500 text-sm">
+                No candle data for this resolution.
+            </div>
+        )
+    }
+
+    if (!data) {
+        return (
+            <div className="h-[300px] w-full flex items-center justify-center text-slate-500 text-sm">
+                Loading Chart...
+            </div>
+        )
+    }
+
+    const intraday = resolution !== '1d'
+
+    return (
+        <div className="h-[300px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 16, right: 16, bottom: 8, left: 0 }} barCategoryGap={1}>
+                    <XAxis
+                        dataKey="t"
+                        tick={{ fill: '#94a3b8', fontSize: 10 }}
+                        tickFormatter={(t) => intraday
+                            ? new Date(t * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                            : new Date(t * 1000).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                    />
+                    <YAxis domain={['auto', 'auto']} tick={{ fill: '#94a3b8', fontSize: 12 }} width={40} />
+                    <Tooltip
+                        cursor={{ fill: 'rgba(148,163,184,0.08)' }}
+                        contentStyle={{
+                            background: 'rgba(15,23,42,0.95)',
+                            border: '1px solid rgba(255,255,255,0.10)',
+                            borderRadius: 12,
+                            color: '#e2e8f0',
+                        }}
+                        labelStyle={{ color: '#94a3b8' }}
+                        labelFormatter={(t) => new Date(t * 1000).toLocaleString()}
+                        formatter={(_value, _name, item) => {
+                            const candle = item.payload as Candle
+                            return [`O ${candle.o.toFixed(3)} H ${candle.h.toFixed(3)} L ${candle.l.toFixed(3)} C ${candle.c.toFixed(3)}`, 'OHLC']
+                        }}
+                    />
+                    <Bar dataKey="range" shape={<CandleShape />} isAnimationActive={false} />
+                </BarChart>
+            </ResponsiveContainer>
+        </div>
+    )
 }
 
 function PriceChart({
@@ -119,41 +216,52 @@ function PriceChart({
         return { yes: market.yesTokenId, no: market.noTokenId, title: market.title }
     }, [market, selectedTokenId])
 
-    // Fetch history for both tokens
-    const { data: yesHistory } = useSWR<{ history: PricePoint[] }>(
-        pair.yes ? `/api/history?tokenId=${pair.yes}&interval=${interval}` : null,
-        fetcher
-    )
-
-    const { data: noHistory } = useSWR<{ history: PricePoint[] }>(
-        pair.no ? `/api/history?tokenId=${pair.no}&interval=${interval}` : null,
+    // One batch request for every token of the market, so switching outcomes does not refetch
+    const tokenIds = useMemo(() => {
+        const children = market.marketType === 1 ? market.childMarkets || [] : []
+        const tokens = children.length > 0
+            ? children.flatMap(child => [child.yesTokenId, child.noTokenId])
+            : [market.yesTokenId, market.noTokenId]
+        return Array.from(new Set(tokens.filter(Boolean))).sort()
+    }, [market])
+
+    const { data: batch, error } = useSWR<HistoryBatchResponse>(
+        tokenIds.length > 0 ? `/api/history/batch?tokenIds=${encodeURIComponent(tokenIds.join(','))}&interval=${interval}` : null,
         fetcher
     )
 
     // Merge data for chart
     const chartData = useMemo(() => {
-        if (!yesHistory?.history && !noHistory?.history) return []
+        if (!batch) return []
 
         // Create a map of timestamps to merged points
         const timeline = new Map<number, { time: number, yes?: number, no?: number }>()
 
-        yesHistory?.history.forEach(p => {
+        batch.histories[pair.yes]?.forEach(p => {
             if (!timeline.has(p.t)) timeline.set(p.t, { time: p.t })
             timeline.get(p.t)!.yes = parseFloat(p.p)
         })
 
-        noHistory?.history.forEach(p => {
+        batch.histories[pair.no]?.forEach(p => {
             if (!timeline.has(p.t)) timeline.set(p.t, { time: p.t })
             timeline.get(p.t)!.no = parseFloat(p.p)
         })
 
         return Array.from(timeline.values()).sort((a, b) => a.time - b.time)
-    }, [yesHistory, noHistory])
+    }, [batch, pair])
+
+    if (error || (batch && batch.errors[pair.yes] && batch.errors[pair.no])) {
+        return (
+            <div className="h-[300px] w-full flex items-center justify-center text-slate-500 text-sm">
+                Failed to load price history.
+            </div>
+        )
+    }
 
     if (!chartData || chartData.length === 0) {
         return (
             <div className="h-[300px] w-full flex items-center justify-center text-slate-500 text-sm">
-                Loading Chart...
+                {batch ? 'No price history for this outcome yet.' : 'Loading Chart...'}
             </div>
         )
     }
@@ -214,8 +322,17 @@ export default function MarketDetailPage({ params, searchParams }: { params: { i
         { refreshInterval: 10000 }
     )
 
+    // Subscribe to this market's own tokens (a categorical outcome's deltas carry its parent's id); price and
+    // orderbook deltas land in the SWR cache and the 10s polling below stays as the fallback
+    const streamTokenIds = useMemo(() => market
+        ? [market.yesTokenId, market.noTokenId, ...(market.childMarkets || []).flatMap(child => [child.yesTokenId, child.noTokenId])]
+        : [], [market])
+    usePriceStream([], { tokenIds: streamTokenIds })
+
     const [selectedTokenId, setSelectedTokenId] = useState<string | null>(null)
     const [historyInterval, setHistoryInterval] = useState<'1h' | '1d'>('1h')
+    const [chartMode, setChartMode] = useState<'line' | 'candles'>('line')
+    const [candleResolution, setCandleResolution] = useState<CandleResolution>('1h')
 
     // Set default selected token when market loads
     useEffect(() => {
@@ -229,6 +346,14 @@ export default function MarketDetailPage({ params, searchParams }: { params: { i
         }
     }, [market, selectedTokenId])
 
+    // Normalized probabilities and distribution shifts for every outcome of a categorical parent
+    const { data: analytics } = useSWR<CategoricalAnalytics>(
+        market?.childMarkets?.length ? `/api/markets/${id}/categorical` : null,
+        fetcher,
+        { refreshInterval: 30000 }
+    )
+    const outcomeAnalytics = new Map((analytics?.outcomes ?? []).map((outcome) => [outcome.marketId, outcome]))
+
     const { data: orderbook } = useSWR<Orderbook>(
         selectedTokenId ? `/api/orderbook?tokenId=${selectedTokenId}` : null,
         fetcher,
@@ -338,10 +463,45 @@ export default function MarketDetailPage({ params, searchParams }: { params: { i
                     <div className="space-y-6">
                         <h2 className="text-xl font-semibold text-slate-100">Outcomes</h2>
 
+                        {analytics && (
+                            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+                                {[
+                                    {
+                                        label: analytics.overroundPct >= 0 ? 'Overround' : 'Underround',
+                                        value: `${Math.abs(analytics.overroundPct).toFixed(1)}%`,
+                                        hint: `YES prices sum to ${analytics.priceSum.toFixed(3)}`
+                                    },
+                                    {
+                                        label: 'Entropy',
+                                        value: `${analytics.entropy.toFixed(2)} bits`,
+                                        hint: `${Math.round(analytics.normalizedEntropy * 100)}% of uniform`
+                                    },
+                                    {
+                                        label: 'Favourite Margin',
+                                        value: analytics.favouriteMarginPct === null ? '—' : `${analytics.favouriteMarginPct.toFixed(1)}pp`,
+                                        hint: 'Leader vs runner-up'
+                                    },
+                                    {
+                                        label: 'Shift 1h / 24h',
+                                        value: `${formatShiftPoints(analytics.shift1h, false)} / ${formatShiftPoints(analytics.shift24h, false)}`,
+                                        hint: 'Total variation distance'
+                                    }
+                                ].map((stat) => (
+                                    <div key={stat.label} className="rounded-xl bg-slate-900/40 p-3 ring-1 ring-white/10">
+                                        <div className="text-xs text-slate-500">{stat.label}</div>
+                                        <div className="mt-1 text-sm font-semibold text-slate-100">{stat.value}</div>
+                                        <div className="mt-0.5 text-[10px] text-slate-500">{stat.hint}</div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
                         <div className="grid gap-3">
                             {market.childMarkets ? (
                                 // Categorical Markets List
-                                market.childMarkets.map((child) => (
+                                market.childMarkets.map((child) => {
+                                    const outcome = outcomeAnalytics.get(child.id)
+                                    return (
                                     <button
                                         key={child.id}
                                         onClick={() => setSelectedTokenId(child.yesTokenId)}
@@ -353,12 +513,26 @@ export default function MarketDetailPage({ params, searchParams }: { params: { i
                                         )}
                                     >
                                         <span className="font-medium text-slate-200">{child.title || child.yesLabel}</span>
-                                        {/* We don't have prices in the detail object for children immediately unless we fetch them all.
-                                    For now just showing selection UI. Ideally we'd fetch prices.
-                                */}
-                                        <div className="text-xs text-slate-500 group-hover:text-blue-400">View Details &rarr;</div>
+                                        {outcome ? (
+                                            <div className="flex shrink-0 items-center gap-3 text-xs">
+                                                <span className={shiftColor(outcome.shift1h)}>
+                                                    1h {formatShiftPoints(outcome.shift1h)}
+                                                </span>
+                                                <span className={shiftColor(outcome.shift24h)}>
+                                                    24h {formatShiftPoints(outcome.shift24h)}
+                                                </span>
+                                                <span className="w-14 text-right text-base font-semibold text-blue-200">
+                                                    {outcome.probability === null
+                                                        ? '—'
+                                                        : `${(outcome.probability * 100).toFixed(1)}%`}
+                                                </span>
+                                            </div>
+                                        ) : (
+                                            <div className="text-xs text-slate-500 group-hover:text-blue-400">View Details &rarr;</div>
+                                        )}
                                     </button>
-                                ))
+                                    )
+                                })
                             ) : (
                                 // Binary Markets (Yes/No)
                                 <>
@@ -397,23 +571,58 @@ export default function MarketDetailPage({ params, searchParams }: { params: { i
                                     <LineChartIcon className="h-5 w-5 text-blue-400" />
                                     <h3 className="text-lg font-semibold text-slate-100">Price History</h3>
                                     <div className="ml-auto flex items-center gap-2 rounded-full bg-slate-900/60 p-1 ring-1 ring-white/10">
-                                        {(['1h', '1d'] as const).map((value) => (
+                                        {(['line', 'candles'] as const).map((value) => (
                                             <button
                                                 key={value}
-                                                onClick={() => setHistoryInterval(value)}
+                                                onClick={() => setChartMode(value)}
                                                 className={cn(
-                                                    'rounded-full px-3 py-1 text-xs font-semibold transition-all',
-                                                    historyInterval === value
+                                                    'rounded-full px-3 py-1 text-xs font-semibold capitalize transition-all',
+                                                    chartMode === value
                                                         ? 'bg-blue-500/20 text-blue-200'
                                                         : 'text-slate-400 hover:text-slate-200'
                                                 )}
                                             >
-                                                {value.toUpperCase()}
+                                                {value}
                                             </button>
                                         ))}
                                     </div>
+                                    <div className="flex items-center gap-2 rounded-full bg-slate-900/60 p-1 ring-1 ring-white/10">
+                                        {chartMode === 'line'
+                                            ? (['1h', '1d'] as const).map((value) => (
+                                                <button
+                                                    key={value}
+                                                    onClick={() => setHistoryInterval(value)}
+                                                    className={cn(
+                                                        'rounded-full px-3 py-1 text-xs font-semibold transition-all',
+                                                        historyInterval === value
+                                                            ? 'bg-blue-500/20 text-blue-200'
+                                                            : 'text-slate-400 hover:text-slate-200'
+                                                    )}
+                                                >
+                                                    {value.toUpperCase()}
+                                                </button>
+                                            ))
+                                            : candleResolutions.map((value) => (
+                                                <button
+                                                    key={value}
+                                                    onClick={() => setCandleResolution(value)}
+                                                    className={cn(
+                                                        'rounded-full px-3 py-1 text-xs font-semibold transition-all',
+                                                        candleResolution === value
+                                                            ? 'bg-blue-500/20 text-blue-200'
+                                                            : 'text-slate-400 hover:text-slate-200'
+                                                    )}
+                                                >
+                                                    {value.toUpperCase()}
+                                                </button>
+                                            ))}
+                                    </div>
                                 </div>
-                                <PriceChart market={market} selectedTokenId={selectedTokenId} interval={historyInterval} />
+                                {chartMode === 'line' ? (
+                                    <PriceChart market={market} selectedTokenId={selectedTokenId} interval={historyInterval} />
+                                ) : (
+                                    <CandleChart tokenId={selectedTokenId} resolution={candleResolution} />
+                                )}
                             </div>
                         )}
                     </div>
@@ -10,12 +10,17 @@ import {
   Activity,
   ArrowUpRight,
   LineChart as LineChartIcon,
+  Plus,
+  Star,
+  TrendingDown,
+  TrendingUp,
   Wallet,
   X,
 } from 'lucide-react'
 import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
 
-import type { Market, UserPosition } from '@/lib/types'
+import type { Market, PortfolioPosition, PortfolioResponse, Sparkline, SparklinesResponse, Watchlist, WhaleEvent } from '@/lib/types'
+import { applyPriceDeltas, usePriceStream } from '@/lib/usePriceStream'
 
 function cn(...classes: ClassValue[]) {
   return twMerge(clsx(classes))
@@ -34,35 +39,16 @@ function formatUsdCompact(value: number) {
   return new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 }).format(value)
 }
 
-function hashString(input: string) {
-  let h = 2166136261
-  for (let i = 0; i < input.length; i++) {
-    h ^= input.charCodeAt(i)
-    h = Math.imul(h, 16777619)
-  }
-  return h >>> 0
+function formatPct(value: number) {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`
 }
 
-function buildPlaceholderSeries(tokenId: string) {
-  const seed = hashString(tokenId || 'token')
-  let x = seed
-
-  const rand = () => {
-    // xorshift32
-    x ^= x << 13
-    x ^= x >>> 17
-    x ^= x << 5
-    return (x >>> 0) / 4294967296
-  }
+function formatBps(value: number | null) {
+  return value === null ? '—' : `${Math.round(value)}bps`
+}
 
-  const points = 36
-  let price = 0.45 + (seed % 30) / 100
-  const data = []
-  for (let i = 0; i < points; i++) {
-    price = Math.max(0.02, Math.min(0.98, price + (rand() - 0.5) * 0.06))
-    data.push({ idx: i, price: Number(price.toFixed(3)) })
-  }
-  return data
+function formatPrice(value: number | null) {
+  return value === null ? '—' : value.toFixed(2)
 }
 
 interface MarketWithPrices {
@@ -70,27 +56,62 @@ interface MarketWithPrices {
   title: string
   yesTokenId: string
   noTokenId: string
-  yesPrice: number
-  noPrice: number
+  yesPrice: number | null // null when the price is unknown
+  noPrice: number | null
+  priceStatus?: 'stale' | 'error' | 'missing'
   volume24h: string
   priceChangePct?: number
   cutoffAt: number
   marketType: number
   childMarkets?: Market[]
   childMarketsPreview?: ChildMarketPreview[]
+  liquidity?: LiquidityColumns
+}
+
+interface LiquidityColumns {
+  spreadBps: number | null
+  depthNotional: number
+  slippageBps: number | null
 }
 
 interface ChildMarketPreview {
   id: number
   title: string
   yesTokenId: string
-  yesPrice: number
+  yesPrice: number | null
   volume24h: string
 }
 
+interface PortfolioHistoryPoint {
+  t: number
+  value: number
+  realizedPnl: number
+  unrealizedPnl: number
+  totalPnl: number
+  drawdown: number
+}
+
+interface PortfolioHistoryResponse {
+  untracked: string[]
+  points: PortfolioHistoryPoint[]
+  maxDrawdown: number
+}
+
+const historyRanges = ['24h', '7d', '30d', '90d'] as const
+const sparklineRanges = ['24h', '7d', '30d'] as const
+
+// localStorage keys for the session that owns the server-side watchlists
+const watchlistOwnerKey = 'watchlist-owner'
+const activeWatchlistKey = 'watchlist-active'
+
+interface MarketSearchResponse {
+  markets: MarketWithPrices[]
+  total: number
+  nextCursor: string | null
 }
 
 const marketsPerPage = 100
+const searchDebounceMs = 300
 
 function SkeletonCard() {
   return (
@@ -113,6 +134,33 @@ const estimateColumns = (width: number) => {
   return 1
 }
 
+// Inline SVG price line for market cards; recharts is too heavy for one chart per card
+function SparklinePath({ sparkline }: { sparkline?: Sparkline }) {
+  if (!sparkline) return <div className="h-8" />
+  if (sparkline.prices.length < 2) {
+    return <div className="flex h-8 items-center text-[11px] text-slate-600">No price history</div>
+  }
+
+  const min = Math.min(...sparkline.prices)
+  const max = Math.max(...sparkline.prices)
+  const spread = max - min || 1
+  const path = sparkline.prices
+    .map((price, i) => `${(i / (sparkline.prices.length - 1)) * 100},${30 - ((price - min) / spread) * 28}`)
+    .join(' ')
+
+  return (
+    <svg viewBox="0 0 100 32" preserveAspectRatio="none" className="h-8 w-full">
+      <polyline
+        points={path}
+        fill="none"
+        stroke={(sparkline.change ?? 0) >= 0 ? '#34d399' : '#fb7185'}
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  )
+}
+
 function ChartModal({
   market,
   onClose,
@@ -120,11 +168,18 @@ function ChartModal({
   market: MarketWithPrices
   onClose: () => void
 }) {
-  // Use useMemo to prevent hydration mismatch - generate data on client side only
+  const [range, setRange] = useState<(typeof sparklineRanges)[number]>('7d')
+  const { data: history, error, isLoading } = useSWR<SparklinesResponse>(
+    `/api/charts/sparklines?tokenIds=${encodeURIComponent(market.yesTokenId)}&range=${range}&points=120`,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
   const data = useMemo(() => {
-    if (typeof window === 'undefined') return []
-    return buildPlaceholderSeries(market.yesTokenId)
-  }, [market.yesTokenId])
+    const sparkline = history?.sparklines[0]
+    if (!sparkline) return []
+    return sparkline.timestamps.map((t, i) => ({ time: new Date(t * 1000).toLocaleString(), price: sparkline.prices[i] }))
+  }, [history])
 
   return (
     <div
@@ -162,11 +217,33 @@ function ChartModal({
         </div>
 
         <div className="p-6">
+          <div className="mb-3 flex justify-end gap-1">
+            {sparklineRanges.map(option => (
+              <button
+                key={option}
+                onClick={() => setRange(option)}
+                className={cn(
+                  'rounded-lg px-2.5 py-1 text-xs font-medium transition',
+                  range === option ? 'bg-slate-700 text-slate-100' : 'text-slate-400 hover:text-slate-200'
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
           <div className="h-[360px] rounded-xl bg-slate-900/40 backdrop-blur-sm ring-1 ring-white/10 p-4">
-            {data.length > 0 && (
+            {isLoading ? (
+              <div className="h-full w-full animate-pulse rounded-lg bg-slate-800/40" />
+            ) : error ? (
+              <div className="flex h-full items-center justify-center text-sm text-slate-400">Failed to load price history.</div>
+            ) : data.length < 2 ? (
+              <div className="flex h-full items-center justify-center text-sm text-slate-400">
+                No price history for this market in the last {range}.
+              </div>
+            ) : (
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={data} margin={{ top: 16, right: 16, bottom: 8, left: 0 }}>
-                  <XAxis dataKey="idx" hide />
+                  <XAxis dataKey="time" hide />
                   <YAxis domain={[0, 1]} tick={{ fill: '#94a3b8', fontSize: 12 }} width={32} />
                   <Tooltip
                     contentStyle={{
@@ -195,10 +272,185 @@ function ChartModal({
   )
 }
 
+// Value and PnL of tracked wallets over time (comma-separated address); untracked wallets get a button to start tracking
+function PortfolioHistoryPanel({ address }: { address: string }) {
+  const [range, setRange] = useState<(typeof historyRanges)[number]>('7d')
+  const [tracking, setTracking] = useState(false)
+  const { data, error, mutate } = useSWR<PortfolioHistoryResponse>(
+    `/api/user/portfolio/history?address=${encodeURIComponent(address)}&range=${range}`,
+    fetcher,
+    { refreshInterval: 60_000, revalidateOnFocus: false }
+  )
+
+  const startTracking = useCallback(async (wallets: string[]) => {
+    setTracking(true)
+    try {
+      await Promise.all(wallets.map(wallet => fetch('/api/user/portfolio/wallets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address: wallet }),
+      })))
+      await mutate()
+    } finally {
+      setTracking(false)
+    }
+  }, [mutate])
+
+  if (error || !data) return null
+
+  const points = data.points.map(point => ({ ...point, time: new Date(point.t).toLocaleString() }))
+  const last = data.points[data.points.length - 1]
+
+  return (
+    <div className="mb-6 rounded-2xl bg-slate-900/40 backdrop-blur-sm ring-1 ring-white/10 p-5">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          {last ? (
+            <>
+              <span className="rounded-lg bg-slate-800/60 px-2.5 py-1 font-medium text-slate-300 ring-1 ring-white/5">
+                Value ${formatUsdCompact(last.value)}
+              </span>
+              <span className={cn('rounded-lg px-2.5 py-1 font-bold ring-1', last.totalPnl >= 0 ? 'bg-emerald-500/10 text-emerald-300 ring-emerald-500/20' : 'bg-rose-500/10 text-rose-300 ring-rose-500/20')}>
+                PnL {last.totalPnl >= 0 ? '+' : '-'}${formatUsdCompact(Math.abs(last.totalPnl))}
+              </span>
+              <span className="rounded-lg bg-slate-800/60 px-2.5 py-1 font-medium text-slate-400 ring-1 ring-white/5">
+                Realized ${formatUsdCompact(last.realizedPnl)}
+              </span>
+              <span className="rounded-lg bg-slate-800/60 px-2.5 py-1 font-medium text-slate-400 ring-1 ring-white/5">
+                Max DD ${formatUsdCompact(data.maxDrawdown)}
+              </span>
+            </>
+          ) : (
+            <span className="text-slate-400">No portfolio history yet for these wallets.</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {data.untracked.length > 0 && (
+            <button
+              onClick={() => startTracking(data.untracked)}
+              disabled={tracking}
+              className="mr-2 rounded-lg bg-blue-500 px-3 py-1 text-xs font-semibold text-white hover:bg-blue-400 disabled:opacity-50 transition"
+            >
+              {tracking ? 'Tracking…' : 'Track history'}
+            </button>
+          )}
+          {historyRanges.map(option => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={cn(
+                'rounded-lg px-2.5 py-1 text-xs font-medium transition',
+                range === option ? 'bg-slate-700 text-slate-100' : 'text-slate-400 hover:text-slate-200'
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {points.length > 1 && (
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={{ top: 8, right: 16, bottom: 8, left: 0 }}>
+              <XAxis dataKey="time" hide />
+              <YAxis tick={{ fill: '#94a3b8', fontSize: 12 }} width={48} />
+              <Tooltip
+                contentStyle={{
+                  background: 'rgba(15,23,42,0.95)',
+                  border: '1px solid rgba(255,255,255,0.10)',
+                  borderRadius: 12,
+                  color: '#e2e8f0',
+                }}
+                labelStyle={{ color: '#94a3b8' }}
+              />
+              <Line type="monotone" dataKey="value" name="Value" stroke="#60a5fa" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="totalPnl" name="Total PnL" stroke="#34d399" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const whaleKindLabels: Record<WhaleEvent['kind'], string> = {
+  volume_spike: 'Volume spike',
+  book_level: 'Book level',
+  large_trade: 'Large trade',
+}
+
+function formatAgo(timestamp: number) {
+  const minutes = Math.max(0, Math.round((Date.now() - timestamp) / 60_000))
+  if (minutes < 60) return `${minutes}m ago`
+  return minutes < 1440 ? `${Math.round(minutes / 60)}h ago` : `${Math.round(minutes / 1440)}d ago`
+}
+
+function describeWhale(event: WhaleEvent) {
+  if (event.kind === 'volume_spike') return `+$${formatUsdCompact(event.notional)} volume`
+  const shares = `${formatUsdCompact(event.size)} @ ${Math.round((event.price ?? 0) * 100)}¢`
+  return event.kind === 'book_level' ? `${event.action === 'pulled' ? 'Pulled' : 'Added'} ${event.side} ${shares}` : `${event.side} ${shares}`
+}
+
+// Latest whale events from the sync service; hidden when Redis is not configured or nothing was detected
+function WhaleFeed() {
+  const { data, error } = useSWR<{ events: WhaleEvent[] }>('/api/events/whales?limit=12', fetcher, {
+    refreshInterval: 30_000,
+    revalidateOnFocus: false,
+  })
+
+  if (error || !data || data.events.length === 0) return null
+
+  return (
+    <div className="mt-6 rounded-2xl bg-slate-900/40 backdrop-blur-sm ring-1 ring-white/10 p-4">
+      <div className="mb-3 flex items-center gap-2">
+        <Activity className="h-4 w-4 text-amber-300" />
+        <h2 className="text-sm font-semibold text-slate-100">Whale activity</h2>
+        <span className="text-xs text-slate-500">last 24h</span>
+      </div>
+      <div className="flex flex-col divide-y divide-white/5">
+        {data.events.map(event => (
+          <a
+            key={event.id}
+            href={`/market/${event.marketId}`}
+            className="flex items-center gap-3 py-2 text-xs hover:bg-slate-800/30 transition"
+          >
+            <span className="w-24 shrink-0 rounded-lg bg-amber-500/10 px-2 py-0.5 text-center font-medium text-amber-300 ring-1 ring-amber-500/20">
+              {whaleKindLabels[event.kind]}
+            </span>
+            <span className="min-w-0 flex-1 truncate text-slate-200">{event.marketTitle}</span>
+            <span
+              className={cn(
+                'shrink-0 font-medium',
+                event.side === 'buy' || event.side === 'bid' ? 'text-emerald-300' : event.side ? 'text-rose-300' : 'text-slate-400'
+              )}
+            >
+              {describeWhale(event)}
+            </span>
+            <span className="w-16 shrink-0 text-right text-slate-500">{formatAgo(event.timestamp)}</span>
+          </a>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Merge a fetched page into loaded rows by id, keeping the original order
+const mergeMarkets = (loaded: MarketWithPrices[], incoming: MarketWithPrices[]): MarketWithPrices[] => {
+  const byId = new Map(incoming.map(market => [market.id, market]))
+  const merged = loaded.map(market => byId.get(market.id) ?? market)
+  const loadedIds = new Set(loaded.map(market => market.id))
+  return [...merged, ...incoming.filter(market => !loadedIds.has(market.id))]
+}
+
 export default function Home() {
   const [walletInput, setWalletInput] = useState('')
   const [watchedAddress, setWatchedAddress] = useState<string>('')
-  // selectedMarket state removed as we navigate to new page
+  const [owner, setOwner] = useState('')
+  const [activeListId, setActiveListId] = useState('')
+  const [newListName, setNewListName] = useState('')
+  const [watchlistMessage, setWatchlistMessage] = useState<string | null>(null)
+  const [chartMarket, setChartMarket] = useState<MarketWithPrices | null>(null)
   const [page, setPage] = useState(1)
   const [allMarkets, setAllMarkets] = useState<MarketWithPrices[]>([])
   const [hasMore, setHasMore] = useState(true)
@@ -211,32 +463,156 @@ export default function Home() {
   })
 
   // Search State
-  // Search and Filter State
+  // Searches run on the server across every synced market, not just the loaded pages
   const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
+  const [searchCursor, setSearchCursor] = useState<string | null>(null)
+  const [searchResults, setSearchResults] = useState<MarketWithPrices[]>([])
+  const [searchNextCursor, setSearchNextCursor] = useState<string | null>(null)
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(searchQuery.trim())
+      setSearchCursor(null)
+    }, searchDebounceMs)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  const isSearching = debouncedQuery.length > 0
 
-  // Derived filtered markets
-  const filteredMarkets = useMemo(() => {
-    return allMarkets.filter(market => {
-      const matchesSearch = market.title.toLowerCase().includes(searchQuery.toLowerCase())
-      const isCategorical = market.marketType === 1 || (market.childMarkets && market.childMarkets.length > 0)
-      return matchesSearch && !isCategorical
+  // Watchlists are stored server-side under a random key kept in this browser
+  useEffect(() => {
+    let key = localStorage.getItem(watchlistOwnerKey)
+    if (!key) {
+      key = crypto.randomUUID()
+      localStorage.setItem(watchlistOwnerKey, key)
+    }
+    setOwner(key)
+    setActiveListId(localStorage.getItem(activeWatchlistKey) || '')
+  }, [])
+
+  const { data: watchlistData, error: watchlistError, mutate: mutateWatchlists } = useSWR<{ watchlists: Watchlist[] }>(
+    owner ? `/api/watchlists?owner=${encodeURIComponent(owner)}` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+  const watchlists = useMemo(() => watchlistData?.watchlists ?? [], [watchlistData])
+  const activeList = watchlists.find(list => list.id === activeListId) ?? watchlists[0]
+  const watchedMarketIds = useMemo(() => new Set(activeList?.marketIds ?? []), [activeList])
+
+  // Without watchlist storage (no Redis) the explorer falls back to watching a single wallet
+  const watchedWallets = useMemo(
+    () => (watchlistError ? (watchedAddress ? [watchedAddress] : []) : activeList?.wallets ?? []),
+    [watchlistError, watchedAddress, activeList]
+  )
+
+  const selectList = useCallback((id: string) => {
+    setActiveListId(id)
+    localStorage.setItem(activeWatchlistKey, id)
+  }, [])
+
+  const watchlistRequest = useCallback(async (url: string, method: string, body?: object): Promise<Watchlist | null> => {
+    setWatchlistMessage(null)
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || `Request failed: ${res.status}`)
+      await mutateWatchlists()
+      return data as Watchlist
+    } catch (error) {
+      setWatchlistMessage(error instanceof Error ? error.message : String(error))
+      return null
+    }
+  }, [mutateWatchlists])
+
+  const createList = useCallback(async (fields: Partial<Pick<Watchlist, 'name' | 'wallets' | 'marketIds'>>) => {
+    const created = await watchlistRequest('/api/watchlists', 'POST', { owner, name: 'My watchlist', ...fields })
+    if (created) selectList(created.id)
+    return created
+  }, [owner, watchlistRequest, selectList])
+
+  const updateList = useCallback((list: Watchlist, fields: Partial<Pick<Watchlist, 'name' | 'wallets' | 'marketIds'>>) =>
+    watchlistRequest(`/api/watchlists/${list.id}?owner=${encodeURIComponent(owner)}`, 'PATCH', fields),
+  [owner, watchlistRequest])
+
+  const deleteList = useCallback(async (list: Watchlist) => {
+    await watchlistRequest(`/api/watchlists/${list.id}?owner=${encodeURIComponent(owner)}`, 'DELETE')
+    selectList('')
+  }, [owner, watchlistRequest, selectList])
+
+  const onWatch = useCallback(async () => {
+    const address = walletInput.trim()
+    if (watchlistError) {
+      setWatchedAddress(address)
+      return
+    }
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      setWatchlistMessage('Invalid wallet address. Must be a 0x-prefixed 40 character hex address')
+      return
+    }
+
+    const saved = activeList
+      ? await updateList(activeList, { wallets: [...activeList.wallets, address] })
+      : await createList({ name: 'My wallets', wallets: [address] })
+    if (saved) setWalletInput('')
+  }, [walletInput, watchlistError, activeList, updateList, createList])
+
+  const toggleMarket = useCallback((marketId: number) => {
+    if (!activeList) {
+      createList({ marketIds: [marketId] })
+      return
+    }
+    updateList(activeList, {
+      marketIds: watchedMarketIds.has(marketId)
+        ? activeList.marketIds.filter(id => id !== marketId)
+        : [...activeList.marketIds, marketId],
     })
-  }, [allMarkets, searchQuery])
+  }, [activeList, watchedMarketIds, createList, updateList])
 
-  const onWatch = useCallback(() => {
-    setWatchedAddress(walletInput.trim())
-  }, [walletInput])
+  // Live prices for the markets on screen (set once the grid has rendered); polling slows down while the stream is up
+  const [streamedIds, setStreamedIds] = useState<number[]>([])
+  const { connected: streaming } = usePriceStream(streamedIds, {
+    onEvent: event => {
+      setAllMarkets(prev => applyPriceDeltas(prev, event.prices))
+      setSearchResults(prev => applyPriceDeltas(prev, event.prices))
+    }
+  })
 
-  // Fetch markets with pagination
-  const { data: marketsData, error: marketsError, isLoading: marketsLoading } = useSWR<{
+  // Fetch binary markets with pagination (categorical markets live on /categories)
+  const { data: marketsData, error: listError, isLoading: listLoading } = useSWR<{
     markets: MarketWithPrices[]
     total: number
   }>(
-    `/api/markets/list?page=${page}`,
+    `/api/markets/list?page=${page}&type=0`,
     fetcher,
-    { refreshInterval: 30_000, revalidateOnFocus: false }
+    { refreshInterval: streaming ? 120_000 : 30_000, revalidateOnFocus: false }
+  )
+
+  const searchParams = new URLSearchParams({ q: debouncedQuery, type: '0', limit: String(marketsPerPage) })
+  if (searchCursor) searchParams.set('cursor', searchCursor)
+
+  const { data: searchData, error: searchError, isLoading: searchLoading } = useSWR<MarketSearchResponse>(
+    isSearching ? `/api/markets/search?${searchParams.toString()}` : null,
+    fetcher,
+    { revalidateOnFocus: false }
   )
 
+  // Accumulate search pages; a new query resets the cursor and the results
+  useEffect(() => {
+    if (!searchData) return
+    setSearchResults(prev => (searchCursor ? mergeMarkets(prev, searchData.markets) : searchData.markets))
+    setSearchNextCursor(searchData.nextCursor)
+  }, [searchData, searchCursor])
+
+  const filteredMarkets = isSearching ? searchResults : allMarkets
+  const marketsError = isSearching ? searchError : listError
+  const marketsLoading = isSearching ? searchLoading : listLoading
+  const canLoadMore = isSearching ? searchNextCursor !== null : hasMore
+
   // Update allMarkets when new data arrives
   useEffect(() => {
     if (marketsData?.markets) {
@@ -246,9 +622,9 @@ export default function Home() {
         // Check if there are more pages
         setHasMore(marketsData.markets.length === marketsPerPage && marketsData.markets.length < marketsData.total)
       } else {
-        // Append new markets
+        // Append new markets; refreshes of an already loaded page replace its rows
         setAllMarkets(prev => {
-          const updated = [...prev, ...marketsData.markets]
+          const updated = mergeMarkets(prev, marketsData.markets)
           // Check if there are more pages
           setHasMore(marketsData.markets.length === marketsPerPage && updated.length < marketsData.total)
           return updated
@@ -258,10 +634,13 @@ export default function Home() {
   }, [marketsData, page])
 
   const loadMore = useCallback(() => {
-    if (!marketsLoading && hasMore) {
+    if (marketsLoading || !canLoadMore) return
+    if (isSearching) {
+      setSearchCursor(searchNextCursor)
+    } else {
       setPage(prev => prev + 1)
     }
-  }, [marketsLoading, hasMore])
+  }, [marketsLoading, canLoadMore, isSearching, searchNextCursor])
 
   useEffect(() => {
     const updateMetrics = () => {
@@ -291,7 +670,7 @@ export default function Home() {
     rowHeight,
   } = useMemo(() => {
     const columns = Math.max(1, gridMetrics.columns)
-    const rowHeight = 220
+    const rowHeight = 256
     const totalRows = Math.ceil(filteredMarkets.length / columns)
     const scrollOffset = gridMetrics.scrollTop - gridMetrics.gridTop
     const bufferRows = 2
@@ -309,17 +688,49 @@ export default function Home() {
     }
   }, [filteredMarkets, gridMetrics])
 
+  // Follow the rendered rows, settling after scrolling so the stream is not reopened on every frame
+  useEffect(() => {
+    const timer = setTimeout(() => setStreamedIds(visibleMarkets.map(market => market.id)), 500)
+    return () => clearTimeout(timer)
+  }, [visibleMarkets])
+
+  // Sparklines for the binary markets on screen, kept across scrolls so cards do not refetch or flicker
+  const [sparklines, setSparklines] = useState<Record<string, Sparkline>>({})
+  const missingSparklines = useMemo(
+    () => visibleMarkets
+      .filter(market => market.marketType !== 1 && !market.childMarkets?.length && market.yesTokenId)
+      .map(market => market.yesTokenId)
+      .filter(tokenId => !sparklines[tokenId])
+      .slice(0, 50)
+      .sort()
+      .join(','),
+    [visibleMarkets, sparklines]
+  )
+  const { data: sparklineData } = useSWR<SparklinesResponse>(
+    missingSparklines ? `/api/charts/sparklines?tokenIds=${encodeURIComponent(missingSparklines)}` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+  useEffect(() => {
+    if (!sparklineData) return
+    setSparklines(prev => ({
+      ...prev,
+      ...Object.fromEntries(sparklineData.sparklines.map(sparkline => [sparkline.tokenId, sparkline])),
+    }))
+  }, [sparklineData])
+
   useEffect(() => {
-    if (!hasMore || marketsLoading) return
+    if (!canLoadMore || marketsLoading) return
     const gridBottom = gridMetrics.gridTop + totalRows * rowHeight
     const nearEnd = gridMetrics.scrollTop + gridMetrics.viewportHeight >= gridBottom - rowHeight * 2
     if (nearEnd) {
       loadMore()
     }
-  }, [gridMetrics, hasMore, marketsLoading, loadMore, rowHeight, totalRows])
+  }, [gridMetrics, canLoadMore, marketsLoading, loadMore, rowHeight, totalRows])
 
-  const positions = useSWR<UserPosition[]>(
-    watchedAddress ? `/api/user/positions?address=${encodeURIComponent(watchedAddress)}` : null,
+  // Positions of every wallet in the active list, valued and totalled together
+  const portfolio = useSWR<PortfolioResponse>(
+    watchedWallets.length > 0 ? `/api/user/portfolio?address=${encodeURIComponent(watchedWallets.join(','))}` : null,
     fetcher,
     { refreshInterval: 30_000, revalidateOnFocus: false }
   )
@@ -367,6 +778,56 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Watchlists: switch between lists, create and delete them */}
+          {!watchlistError && owner && (
+            <div className="mt-4 flex flex-wrap items-center gap-2">
+              {watchlists.map(list => (
+                <button
+                  key={list.id}
+                  onClick={() => selectList(list.id)}
+                  className={cn(
+                    'rounded-lg px-3 py-1.5 text-xs font-medium ring-1 transition',
+                    list.id === activeList?.id
+                      ? 'bg-blue-500/15 text-blue-200 ring-blue-500/30'
+                      : 'bg-slate-900/40 text-slate-400 ring-white/10 hover:text-slate-200'
+                  )}
+                >
+                  {list.name}
+                  <span className="ml-1.5 text-slate-500">{list.wallets.length}w · {list.marketIds.length}m</span>
+                </button>
+              ))}
+              <div className="flex items-center gap-1">
+                <input
+                  value={newListName}
+                  onChange={(e) => setNewListName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && newListName.trim()) createList({ name: newListName.trim() }).then(() => setNewListName(''))
+                  }}
+                  placeholder="New list"
+                  className="w-28 rounded-lg bg-slate-900/40 px-2.5 py-1.5 text-xs text-slate-100 ring-1 ring-white/10 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+                <button
+                  onClick={() => newListName.trim() && createList({ name: newListName.trim() }).then(() => setNewListName(''))}
+                  className="rounded-lg bg-slate-900/40 p-1.5 text-slate-400 ring-1 ring-white/10 hover:text-slate-200 transition"
+                  aria-label="Create watchlist"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              {activeList && (
+                <button
+                  onClick={() => deleteList(activeList)}
+                  className="ml-auto text-xs text-slate-500 hover:text-rose-300 transition"
+                >
+                  Delete “{activeList.name}”
+                </button>
+              )}
+            </div>
+          )}
+          {watchlistMessage && <p className="mt-2 text-xs text-rose-300">{watchlistMessage}</p>}
+
+          <WhaleFeed />
+
 
           {/* Search Controls */}
           <div className="mt-6 flex flex-col gap-4 sm:flex-row sm:items-center">
@@ -391,12 +852,20 @@ export default function Home() {
               View Categories
               <ArrowUpRight className="h-3 w-3" />
             </a>
+
+            <a
+              href="/calibration"
+              className="inline-flex items-center justify-center gap-2 rounded-xl bg-slate-900/60 px-4 py-2 text-xs font-semibold text-slate-200 ring-1 ring-white/10 transition-all hover:bg-slate-900/80"
+            >
+              Calibration
+              <ArrowUpRight className="h-3 w-3" />
+            </a>
           </div>
         </header >
 
         {/* Markets Grid - Full Width */}
         < section className="mb-8" >
-          {marketsLoading && page === 1 ? (
+          {marketsLoading && (isSearching ? !searchCursor : page === 1) ? (
             <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
               {Array.from({ length: 8 }).map((_, i) => (
                 <SkeletonCard key={`skeleton-${i}`} />
@@ -410,8 +879,8 @@ export default function Home() {
                   : 'Failed to load markets. Please try again later.'
               }
             />
-          ) : allMarkets.length === 0 ? (
-            <EmptyState label="No markets available." />
+          ) : filteredMarkets.length === 0 ? (
+            <EmptyState label={isSearching ? `No markets match "${debouncedQuery}".` : 'No markets available.'} />
           ) : (
             <>
               <div ref={gridRef} className="relative">
@@ -419,7 +888,7 @@ export default function Home() {
                   <div style={{ transform: `translateY(${startRow * rowHeight}px)` }}>
                     <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
                       {visibleMarkets.map((market) => {
-                        const chance = Math.max(0, Math.min(1, market.yesPrice)) * 100
+                        const chance = market.yesPrice === null ? null : Math.max(0, Math.min(1, market.yesPrice)) * 100
                         // Calculate price change if possible (simplified - could be enhanced with historical data)
                         const hasTrending = market.priceChangePct !== undefined
                         const isPositive = market.priceChangePct !== undefined && market.priceChangePct >= 0
@@ -430,37 +899,80 @@ export default function Home() {
                         return (
                           <a
                             key={`market-${market.id}`}
-                            href={`/market/${market.id}?type=0`}
                             href={`/market/${market.id}?type=${isCategorical ? 1 : 0}`}
                             className="group relative block overflow-hidden rounded-2xl bg-slate-900/40 p-5 text-left ring-1 ring-white/10 transition-all hover:bg-slate-900/50 hover:ring-white/20"
                           >
                             {/* Market Title - Top */}
                             <div className="mb-4">
                               <div className="mb-2 flex items-center gap-2">
-                                <span className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-[10px] font-bold text-emerald-400 ring-1 ring-emerald-500/20">BINARY</span>
                                 {isCategorical ? (
                                   <span className="rounded-full bg-blue-500/10 px-2 py-0.5 text-[10px] font-bold text-blue-400 ring-1 ring-blue-500/20">CATEGORICAL</span>
                                 ) : (
                                   <span className="rounded-full bg-emerald-500/10 px-2 py-0.5 text-[10px] font-bold text-emerald-400 ring-1 ring-emerald-500/20">BINARY</span>
                                 )}
+                                {!isCategorical && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.preventDefault()
+                                      setChartMarket(market)
+                                    }}
+                                    className="ml-auto text-slate-500 hover:text-slate-200 transition"
+                                    aria-label="Price history"
+                                  >
+                                    <LineChartIcon className="h-4 w-4" />
+                                  </button>
+                                )}
+                                {!watchlistError && owner && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.preventDefault()
+                                      toggleMarket(market.id)
+                                    }}
+                                    className={cn('text-slate-500 hover:text-amber-300 transition', isCategorical && 'ml-auto')}
+                                    aria-label={watchedMarketIds.has(market.id) ? 'Remove from watchlist' : 'Add to watchlist'}
+                                  >
+                                    <Star className={cn('h-4 w-4', watchedMarketIds.has(market.id) && 'fill-amber-300 text-amber-300')} />
+                                  </button>
+                                )}
                               </div>
                               <div className="line-clamp-2 text-sm font-semibold text-slate-100 transition-colors group-hover:text-white">
                                 {market.title || `Market ${market.id}`}
                               </div>
                             </div>
 
+                            {/* 7 day YES price from /api/charts/sparklines */}
+                            {!isCategorical && (
+                              <div className="mb-3">
+                                <SparklinePath sparkline={sparklines[market.yesTokenId]} />
+                              </div>
+                            )}
+
                             {/* Prices and Info - Bottom as Tags */}
                             <div className="flex flex-wrap items-center gap-2">
-                              <span className="rounded-lg bg-slate-800/60 px-2.5 py-1 text-xs font-semibold text-slate-200 ring-1 ring-white/5">
-                                {Math.round(chance)}% chance
-                              </span>
+                              {chance !== null ? (
+                                <span className="rounded-lg bg-slate-800/60 px-2.5 py-1 text-xs font-semibold text-slate-200 ring-1 ring-white/5">
+                                  {Math.round(chance)}% chance
+                                </span>
+                              ) : !isCategorical && (
+                                <span className="rounded-lg bg-rose-500/10 px-2.5 py-1 text-xs font-semibold text-rose-300 ring-1 ring-rose-500/20">
+                                  Price unavailable
+                                </span>
+                              )}
+                              {market.priceStatus === 'stale' && (
+                                <span
+                                  className="rounded-lg bg-amber-500/10 px-2.5 py-1 text-xs font-semibold text-amber-300 ring-1 ring-amber-500/20"
+                                  title="Latest price fetch failed, showing the last known price"
+                                >
+                                  Stale
+                                </span>
+                              )}
                               {!isCategorical ? (
                                 <>
                                   <span className="rounded-lg bg-slate-800/60 px-2.5 py-1 text-xs font-medium text-slate-300 ring-1 ring-white/5">
-                                    YES {market.yesPrice.toFixed(2)}
+                                    YES {formatPrice(market.yesPrice)}
                                   </span>
                                   <span className="rounded-lg bg-slate-800/60 px-2.5 py-1 text-xs font-medium text-slate-300 ring-1 ring-white/5">
-                                    NO {market.noPrice.toFixed(2)}
+                                    NO {formatPrice(market.noPrice)}
                                   </span>
                                 </>
                               ) : (
@@ -490,6 +1002,21 @@ export default function Home() {
                                 ${formatUsdCompact(Number(market.volume24h) || 0)}
                               </span>
                             </div>
+
+                            {/* Liquidity from the synced YES orderbook (top markets only) */}
+                            {market.liquidity && (
+                              <div className="mt-3 flex items-center gap-3 text-[11px] text-slate-500">
+                                <span title="Best ask minus best bid, relative to mid">
+                                  Spread <span className="font-medium text-slate-300">{formatBps(market.liquidity.spreadBps)}</span>
+                                </span>
+                                <span title="Bid and ask notional within 2 cents of mid">
+                                  Depth ±2¢ <span className="font-medium text-slate-300">${formatUsdCompact(market.liquidity.depthNotional)}</span>
+                                </span>
+                                <span title="Slippage buying $100 of YES">
+                                  Slip <span className="font-medium text-slate-300">{formatBps(market.liquidity.slippageBps)}</span>
+                                </span>
+                              </div>
+                            )}
                           </a>
                         )
                       })}
@@ -499,7 +1026,7 @@ export default function Home() {
               </div>
 
               {/* Load More Button */}
-              {hasMore && (
+              {canLoadMore && (
                 <div className="mt-8 flex justify-center">
                   <button
                     onClick={loadMore}
@@ -525,41 +1052,65 @@ export default function Home() {
           }
         </section >
 
-        {/* User Positions Section - Only if wallet is watched */}
+        {/* User Positions Section - aggregate of every wallet in the active watchlist */}
         {
-          watchedAddress && (
+          watchedWallets.length > 0 && (
             <section className="mt-12">
-              <div className="mb-4 flex items-center gap-2">
+              <div className="mb-4 flex flex-wrap items-center gap-2">
                 <Wallet className="h-5 w-5 text-slate-300" />
                 <h2 className="text-lg font-semibold text-slate-100">User Positions</h2>
-                <span className="text-sm text-slate-400 font-mono">
-                  {watchedAddress.slice(0, 8)}…{watchedAddress.slice(-6)}
-                </span>
+                {activeList && <span className="text-sm text-slate-400">{activeList.name}</span>}
+                {watchedWallets.map(wallet => (
+                  <span
+                    key={wallet}
+                    className="inline-flex items-center gap-1 rounded-lg bg-slate-800/60 px-2 py-0.5 text-xs font-mono text-slate-400 ring-1 ring-white/5"
+                  >
+                    {wallet.slice(0, 8)}…{wallet.slice(-6)}
+                    {activeList && (
+                      <button
+                        onClick={() => updateList(activeList, { wallets: activeList.wallets.filter(other => other !== wallet) })}
+                        className="text-slate-500 hover:text-rose-300"
+                        aria-label="Remove wallet"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </span>
+                ))}
+                {portfolio.data && (
+                  <span className="ml-auto text-sm text-slate-400">
+                    ${formatUsdCompact(portfolio.data.totals.value)} across {portfolio.data.totals.positions} positions ·{' '}
+                    <span className={portfolio.data.totals.pnl >= 0 ? 'text-emerald-300' : 'text-rose-300'}>
+                      {portfolio.data.totals.pnl >= 0 ? '+' : '-'}${formatUsdCompact(Math.abs(portfolio.data.totals.pnl))}
+                    </span>
+                  </span>
+                )}
               </div>
 
-              {positions.isLoading ? (
+              {watchedWallets.every(wallet => /^0x[a-fA-F0-9]{40}$/.test(wallet)) && (
+                <PortfolioHistoryPanel address={watchedWallets.join(',')} />
+              )}
+
+              {portfolio.isLoading ? (
                 <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
                   {Array.from({ length: 4 }).map((_, i) => (
                     <SkeletonCard key={`position-skeleton-${i}`} />
                   ))}
                 </div>
-              ) : positions.error ? (
-                <EmptyState label="Failed to load positions. Check console for details." />
-              ) : (positions.data?.length || 0) === 0 ? (
-                <EmptyState label="No positions found for this wallet address." />
+              ) : portfolio.error ? (
+                <EmptyState label={`Failed to load positions: ${portfolio.error.message}`} />
+              ) : (portfolio.data?.positions.length || 0) === 0 ? (
+                <EmptyState label={watchedWallets.length > 1 ? 'No positions found for these wallets.' : 'No positions found for this wallet address.'} />
               ) : (
                 <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-                  {(positions.data || []).map((p: UserPosition, idx) => {
-                    const pnl = parseFloat(p.unrealizedPnl || '0')
-                    const pnlPercent = parseFloat(p.unrealizedPnlPercent || '0')
-                    const sharesOwned = parseFloat(p.sharesOwned || '0')
-                    const currentValue = parseFloat(p.currentValueInQuoteToken || '0')
+                  {(portfolio.data?.positions || []).map((p: PortfolioPosition, idx) => {
+                    const pnl = p.pnl
                     const isPositive = pnl >= 0
                     const outcomeColor = p.outcome === 'YES' ? 'text-emerald-300' : 'text-rose-300'
 
                     return (
                       <div
-                        key={`position-${p.tokenId || p.marketId || idx}`}
+                        key={`position-${p.wallet}-${p.tokenId || p.marketId || idx}`}
                         className="group relative overflow-hidden rounded-2xl bg-slate-900/40 backdrop-blur-sm ring-1 ring-white/10 p-5 transition-all hover:ring-white/20 hover:bg-slate-900/50"
                       >
                         {/* Market Title - Top */}
@@ -584,10 +1135,10 @@ export default function Home() {
                         {/* Info Tags - Bottom */}
                         <div className="flex flex-wrap items-center gap-2">
                           <span className="rounded-lg bg-slate-800/60 px-2.5 py-1 text-xs font-medium text-slate-300 ring-1 ring-white/5">
-                            Shares: {sharesOwned.toLocaleString('en-US', { maximumFractionDigits: 0 })}
+                            Shares: {p.shares.toLocaleString('en-US', { maximumFractionDigits: 0 })}
                           </span>
                           <span className="rounded-lg bg-slate-800/60 px-2.5 py-1 text-xs font-medium text-slate-300 ring-1 ring-white/5">
-                            ${currentValue.toLocaleString('en-US', { maximumFractionDigits: 0 })}
+                            ${p.value.toLocaleString('en-US', { maximumFractionDigits: 0 })}
                           </span>
                           <span
                             className={cn(
@@ -607,8 +1158,13 @@ export default function Home() {
                                 : 'bg-rose-500/10 text-rose-300 ring-rose-500/20'
                             )}
                           >
-                            {isPositive ? '+' : ''}{(pnlPercent * 100).toFixed(2)}%
+                            {p.pnlPct === null ? '—' : `${isPositive ? '+' : ''}${p.pnlPct.toFixed(2)}%`}
                           </span>
+                          {watchedWallets.length > 1 && (
+                            <span className="rounded-lg bg-slate-800/60 px-2.5 py-1 text-xs font-mono text-slate-500 ring-1 ring-white/5">
+                              {p.wallet.slice(0, 6)}…{p.wallet.slice(-4)}
+                            </span>
+                          )}
                           {p.sharesFrozen && parseFloat(p.sharesFrozen) > 0 && (
                             <span className="rounded-lg bg-amber-500/10 px-2.5 py-1 text-xs font-medium text-amber-300 ring-1 ring-amber-500/20">
                               🔒 {parseFloat(p.sharesFrozen).toLocaleString('en-US', { maximumFractionDigits: 0 })}
@@ -624,6 +1180,8 @@ export default function Home() {
           )
         }
       </div>
+
+      {chartMarket && <ChartModal market={chartMarket} onClose={() => setChartMarket(null)} />}
     </main>
   )
 }
@@ -0,0 +1,224 @@
+/**
+ * Alert notification sinks
+ * Each sink type delivers a triggered alert somewhere; registerAlertSink swaps or adds implementations
+ */
+
+import { createHmac } from 'crypto'
+import { lookup } from 'dns/promises'
+import { request } from 'https'
+import { BlockList, isIP, LookupFunction } from 'net'
+import { config } from './config'
+import { redis } from './redis'
+import { createSmtpTransport, EmailTransport } from './smtp'
+import { AlertNotification, AlertSinkConfig } from './types'
+
+const WEBHOOK_TIMEOUT_MS = 5000
+export const NOTIFICATION_RETENTION_SECONDS = 7 * 86400 // in-app feed keeps a week
+
+export interface AlertSink<C extends AlertSinkConfig = AlertSinkConfig> {
+  deliver(notification: AlertNotification, sink: C): Promise<void>
+}
+
+type SinkRegistry = { [K in AlertSinkConfig['type']]: AlertSink<Extract<AlertSinkConfig, { type: K }>> }
+
+// Loopback, private, link-local, shared, benchmarking, multicast and reserved ranges
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+]
+const BLOCKED_IPV6: Array<[string, number]> = [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+]
+const blockedAddresses = new BlockList()
+BLOCKED_IPV4.forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv4'))
+BLOCKED_IPV6.forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv6'))
+
+/**
+ * Whether an IP address is publicly routable (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 0) {
+    return false
+  }
+  return !blockedAddresses.check(address, version === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Hosts a webhook may never point at, whatever they resolve to
+ */
+export function isBlockedWebhookHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (isIP(host)) {
+    return !isPublicAddress(host)
+  }
+  return host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || !host.includes('.')
+}
+
+/**
+ * Resolve a webhook URL and refuse it unless it is https and every address it resolves to is public,
+ * so alerts cannot be used to reach the server's own network
+ * Returns the vetted addresses; delivery connects to those instead of resolving the host again
+ */
+export async function assertPublicWebhookUrl(target: string): Promise<{ url: URL; addresses: string[] }> {
+  const url = new URL(target)
+  if (url.protocol !== 'https:' || isBlockedWebhookHost(url.hostname)) {
+    throw new Error(`Webhook host ${url.hostname} is not allowed`)
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address)
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`Webhook host ${url.hostname} resolves to a non-public address`)
+  }
+  return { url, addresses }
+}
+
+/**
+ * DNS lookup that only ever answers with addresses already checked, so a rebinding resolver
+ * cannot swap in a private address between the check and the connect
+ */
+export const pinnedLookup = (addresses: string[]): LookupFunction => (_hostname, options, callback) => {
+  const entries = addresses.map(address => ({ address, family: isIP(address) }))
+  if (options.all) {
+    callback(null, entries)
+  } else {
+    callback(null, entries[0].address, entries[0].family)
+  }
+}
+
+/**
+ * POST a body over https to one of the given addresses; TLS is still verified against the URL's hostname
+ * Non-2xx answers (redirects included) are failures
+ */
+const postPinned = (url: URL, addresses: string[], headers: Record<string, string>, body: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: pinnedLookup(addresses)
+    }, response => {
+      clearTimeout(timer)
+      response.resume()
+      const status = response.statusCode ?? 0
+      if (status >= 200 && status < 300) {
+        resolve()
+      } else {
+        reject(new Error(`Webhook responded with HTTP ${status}`))
+      }
+    })
+    const timer = setTimeout(() => req.destroy(new Error('Webhook timed out')), WEBHOOK_TIMEOUT_MS)
+    req.on('error', error => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    req.end(body)
+  })
+
+/**
+ * Webhook signature: hex HMAC-SHA256 of "<timestamp>.<body>"
+ */
+export const signWebhookPayload = (body: string, timestamp: number, secret: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+
+/**
+ * POST the notification as JSON to a public https URL, pinned to the addresses that were vetted; redirects are not followed
+ * Signed with X-Alert-Signature (sha256=<hex>) and X-Alert-Timestamp when ALERT_WEBHOOK_SECRET is set
+ */
+export const webhookSink: AlertSink<Extract<AlertSinkConfig, { type: 'webhook' }>> = {
+  async deliver(notification, sink) {
+    const { url, addresses } = await assertPublicWebhookUrl(sink.url)
+    const body = JSON.stringify(notification)
+    const timestamp = Math.floor(Date.now() / 1000)
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Alert-Timestamp': String(timestamp)
+    }
+    if (config.ALERT_WEBHOOK_SECRET) {
+      headers['X-Alert-Signature'] = `sha256=${signWebhookPayload(body, timestamp, config.ALERT_WEBHOOK_SECRET)}`
+    }
+
+    await postPinned(url, addresses, headers, body)
+  }
+}
+
+/**
+ * Email sink over any transport; the default one talks SMTP and is skipped unless SMTP_HOST is set
+ */
+export const createEmailSink = (
+  transport: EmailTransport | null
+): AlertSink<Extract<AlertSinkConfig, { type: 'email' }>> => ({
+  async deliver(notification, sink) {
+    if (!transport) {
+      console.warn(`[Alerts] Email sink not configured, skipping alert ${notification.alertId}`)
+      return
+    }
+
+    await transport.send({
+      from: config.SMTP_FROM,
+      to: sink.to,
+      subject: `Price alert: ${notification.message}`,
+      text: [
+        notification.message,
+        '',
+        `Alert: ${notification.alertId}`,
+        `Condition: ${notification.conditionType}`,
+        `Value: ${notification.value}`,
+        `Triggered: ${new Date(notification.triggeredAt).toISOString()}`
+      ].join('\n')
+    })
+  }
+})
+
+/**
+ * In-app feed, read back through /api/alerts/notifications
+ */
+export const inAppSink: AlertSink<Extract<AlertSinkConfig, { type: 'in_app' }>> = {
+  async deliver(notification) {
+    if (!redis.client) {
+      throw new Error('Redis not configured')
+    }
+    await redis.client.addNotifications([notification], NOTIFICATION_RETENTION_SECONDS)
+  }
+}
+
+const sinks: SinkRegistry = {
+  webhook: webhookSink,
+  email: createEmailSink(config.SMTP_HOST
+    ? createSmtpTransport({
+        host: config.SMTP_HOST,
+        port: config.SMTP_PORT,
+        secure: config.SMTP_SECURE,
+        user: config.SMTP_USER || undefined,
+        pass: config.SMTP_PASS || undefined,
+        allowPlaintextAuth: config.SMTP_ALLOW_PLAINTEXT_AUTH
+      })
+    : null),
+  in_app: inAppSink
+}
+
+export function registerAlertSink<K extends AlertSinkConfig['type']>(type: K, sink: SinkRegistry[K]): void {
+  sinks[type] = sink
+}
+
+/**
+ * Deliver to every sink of an alert; one failing sink does not stop the others
+ */
+export async function dispatchNotification(
+  notification: AlertNotification,
+  targets: AlertSinkConfig[]
+): Promise<{ delivered: number; failed: number }> {
+  const results = await Promise.allSettled(targets.map(target =>
+    (sinks[target.type] as AlertSink).deliver(notification, target)))
+
+  let failed = 0
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      failed++
+      const reason = result.reason instanceof Error ? result.reason.message : String(result.reason)
+      console.error(`[Alerts] ${targets[index].type} sink failed for alert ${notification.alertId}:`, reason)
+    }
+  })
+
+  return { delivered: results.length - failed, failed }
+}
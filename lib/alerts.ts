@@ -0,0 +1,450 @@
+/**
+ * Price alerts
+ * Alerts are stored through RedisClient and evaluated by SyncService at the end of every cycle
+ */
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import pLimit from 'p-limit'
+import { APIError, ErrorType, InputValidator } from './errorHandler'
+import { fetchOrderbooks, summarizeOrderbook } from './liquidity'
+import { redis } from './redis'
+import { dispatchNotification, isBlockedWebhookHost } from './alertSinks'
+import { knownPrice } from './prices'
+import {
+  Alert,
+  AlertCondition,
+  AlertNotification,
+  AlertSinkConfig,
+  LiquiditySummary,
+  Market,
+  Orderbook,
+  PriceData,
+  PriceHistoryPoint
+} from './types'
+
+export const DEFAULT_ALERT_COOLDOWN_SECONDS = 3600
+export const MIN_ALERT_COOLDOWN_SECONDS = 60
+export const MAX_ALERTS_PER_OWNER = 50
+const MAX_WINDOW_MINUTES = 7 * 24 * 60
+const MAX_SPREAD_BOOKS = 25 // spread alerts outside the synced liquidity set fetch their own books
+const DELIVERY_CONCURRENCY = 5
+const MAX_QUEUED_DELIVERIES = 500
+
+const CONDITION_TYPES: AlertCondition['type'][] = ['price_cross', 'price_move', 'spread_wide', 'cutoff_near']
+const SINK_TYPES: AlertSinkConfig['type'][] = ['webhook', 'email', 'in_app']
+
+/**
+ * Everything one evaluation pass can look at
+ */
+export interface AlertContext {
+  nowMs: number
+  prices: Map<string, PriceData>
+  previousPrices: Map<string, string> // last cycle's prices, needed to detect crossings
+  liquidity: Map<string, LiquiditySummary>
+  history: Map<string, PriceHistoryPoint[]> // recent series points for price_move windows
+  markets: Map<number, Market>
+}
+
+export interface AlertTrigger {
+  value: number
+  message: string
+}
+
+const invalid = (message: string): never => {
+  throw new APIError(message, ErrorType.VALIDATION, 400)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const numberField = (input: Record<string, unknown>, field: string, min: number, max: number): number => {
+  const value = input[field]
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    return invalid(`Invalid ${field}. Must be a number between ${min} and ${max}`)
+  }
+  return value
+}
+
+const parseCondition = (input: unknown): AlertCondition => {
+  if (!isRecord(input) || !CONDITION_TYPES.includes(input.type as AlertCondition['type'])) {
+    return invalid(`Invalid condition.type. Must be one of: ${CONDITION_TYPES.join(', ')}`)
+  }
+
+  switch (input.type) {
+    case 'price_cross':
+      if (input.direction !== 'above' && input.direction !== 'below') {
+        return invalid('Invalid condition.direction. Must be "above" or "below"')
+      }
+      return { type: 'price_cross', direction: input.direction, threshold: numberField(input, 'threshold', 0, 1) }
+    case 'price_move':
+      return {
+        type: 'price_move',
+        pct: numberField(input, 'pct', 0.1, 1000),
+        windowMinutes: Math.floor(numberField(input, 'windowMinutes', 1, MAX_WINDOW_MINUTES))
+      }
+    case 'spread_wide':
+      return { type: 'spread_wide', bps: numberField(input, 'bps', 1, 20000) }
+    default:
+      return { type: 'cutoff_near', hours: numberField(input, 'hours', 0.1, 24 * 30) }
+  }
+}
+
+const parseSinks = (input: unknown): AlertSinkConfig[] => {
+  if (!Array.isArray(input) || input.length === 0 || input.length > 5) {
+    return invalid('Invalid sinks. Must be a list of 1-5 sinks')
+  }
+
+  return input.map((sink): AlertSinkConfig => {
+    if (!isRecord(sink) || !SINK_TYPES.includes(sink.type as AlertSinkConfig['type'])) {
+      return invalid(`Invalid sink type. Must be one of: ${SINK_TYPES.join(', ')}`)
+    }
+
+    if (sink.type === 'webhook') {
+      let url: URL | null = null
+      try {
+        url = new URL(String(sink.url))
+      } catch {
+        // reported below
+      }
+      // Delivery also checks what the host resolves to; this rejects what is wrong on its face
+      if (!url || url.protocol !== 'https:' || url.username || url.password || isBlockedWebhookHost(url.hostname)) {
+        return invalid('Invalid webhook url. Must be an https URL on a public host')
+      }
+      return { type: 'webhook', url: url.toString() }
+    }
+
+    if (sink.type === 'email') {
+      if (typeof sink.to !== 'string' || !/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(sink.to)) {
+        return invalid('Invalid email address')
+      }
+      return { type: 'email', to: sink.to }
+    }
+
+    return { type: 'in_app' }
+  })
+}
+
+const maskSink = (sink: AlertSinkConfig): AlertSinkConfig => {
+  if (sink.type === 'webhook') {
+    return { type: 'webhook', url: `${new URL(sink.url).origin}/***` }
+  }
+  if (sink.type === 'email') {
+    const [local, domain] = sink.to.split('@')
+    return { type: 'email', to: `${local.slice(0, 1)}***@${domain}` }
+  }
+  return sink
+}
+
+/**
+ * Alert as served by the API: alerts are listed by owner without auth, so sink targets
+ * (webhook URLs carry tokens, emails are personal) are masked and the token hash is dropped
+ */
+export const redactAlert = ({ tokenHash: _tokenHash, ...alert }: Alert): Omit<Alert, 'tokenHash'> =>
+  ({ ...alert, sinks: alert.sinks.map(maskSink) })
+
+const hashAlertToken = (token: string): string => createHash('sha256').update(token).digest('hex')
+
+/**
+ * Access token for a new alert; only the hash is stored, the token is shown once on creation
+ */
+export function issueAlertToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(24).toString('base64url')
+  return { token, tokenHash: hashAlertToken(token) }
+}
+
+/**
+ * 403 unless the request carries the alert's token as "Authorization: Bearer <token>"
+ * Alerts stored before tokens existed have none and can no longer be read or changed through the API
+ */
+export function assertAlertAccess(alert: Alert, authorization: string | null): void {
+  const token = /^Bearer\s+(\S+)$/i.exec(authorization?.trim() || '')?.[1]
+  const expected = Buffer.from(alert.tokenHash || '', 'hex')
+  const actual = Buffer.from(token ? hashAlertToken(token) : '', 'hex')
+  if (expected.length === 0 || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new APIError(`Missing or invalid token for alert ${alert.id}`, ErrorType.FORBIDDEN, 403)
+  }
+}
+
+const parseCooldown = (input: unknown): number => {
+  if (input === undefined) return DEFAULT_ALERT_COOLDOWN_SECONDS
+  return Math.floor(numberField({ cooldownSeconds: input }, 'cooldownSeconds', MIN_ALERT_COOLDOWN_SECONDS, 7 * 86400))
+}
+
+/**
+ * Alert storage, or 503 when Redis is not configured
+ */
+export const requireAlertStore = () => {
+  if (!redis.client) {
+    throw new APIError('Alerts require Redis', ErrorType.EXTERNAL_API, 503)
+  }
+  return redis.client
+}
+
+/**
+ * Validate a create request body into a new alert
+ * Exactly one of tokenId or marketId is required; sinks default to the in-app feed
+ */
+export function parseAlertInput(body: unknown, nowMs: number = Date.now()): Alert {
+  if (!isRecord(body)) {
+    return invalid('Request body must be a JSON object')
+  }
+
+  const tokenId = typeof body.tokenId === 'string' && body.tokenId.trim() ? body.tokenId.trim() : undefined
+  const marketId = body.marketId !== undefined ? Number(body.marketId) : undefined
+  if ((tokenId === undefined) === (marketId === undefined)) {
+    return invalid('Exactly one of tokenId or marketId is required')
+  }
+  if (marketId !== undefined && (!Number.isInteger(marketId) || marketId <= 0)) {
+    return invalid('Invalid marketId. Must be a positive integer')
+  }
+  if (tokenId !== undefined && !/^[a-zA-Z0-9_-]+$/.test(tokenId)) {
+    return invalid('Invalid tokenId format')
+  }
+
+  return {
+    id: randomUUID(),
+    owner: InputValidator.validateOwner(body.owner),
+    tokenId,
+    marketId,
+    condition: parseCondition(body.condition),
+    sinks: body.sinks === undefined ? [{ type: 'in_app' }] : parseSinks(body.sinks),
+    cooldownSeconds: parseCooldown(body.cooldownSeconds),
+    active: true,
+    createdAt: nowMs
+  }
+}
+
+/**
+ * Apply a PATCH body to an alert; only condition, sinks, cooldownSeconds and active can change
+ */
+export function applyAlertUpdate(alert: Alert, body: unknown): Alert {
+  if (!isRecord(body)) {
+    return invalid('Request body must be a JSON object')
+  }
+  if (body.active !== undefined && typeof body.active !== 'boolean') {
+    return invalid('Invalid active. Must be a boolean')
+  }
+
+  return {
+    ...alert,
+    condition: body.condition !== undefined ? parseCondition(body.condition) : alert.condition,
+    sinks: body.sinks !== undefined ? parseSinks(body.sinks) : alert.sinks,
+    cooldownSeconds: body.cooldownSeconds !== undefined ? parseCooldown(body.cooldownSeconds) : alert.cooldownSeconds,
+    active: body.active !== undefined ? body.active as boolean : alert.active
+  }
+}
+
+/**
+ * An alert that fired less than cooldownSeconds ago stays quiet
+ */
+export const isCoolingDown = (alert: Alert, nowMs: number): boolean =>
+  alert.lastTriggeredAt !== undefined && nowMs - alert.lastTriggeredAt < alert.cooldownSeconds * 1000
+
+/**
+ * Token a price condition watches: the alert's token, or the YES token of a binary market
+ */
+export const resolveAlertToken = (alert: Alert, markets: Map<number, Market>): string | undefined => {
+  if (alert.tokenId) return alert.tokenId
+  const market = alert.marketId !== undefined ? markets.get(alert.marketId) : undefined
+  return market && market.marketType !== 1 ? market.yesTokenId : undefined
+}
+
+const findTokenMarket = (tokenId: string, markets: Map<number, Market>): Market | undefined => {
+  for (const market of markets.values()) {
+    if (market.yesTokenId === tokenId || market.noTokenId === tokenId) return market
+    if (market.childMarkets?.some(child => child.yesTokenId === tokenId || child.noTokenId === tokenId)) return market
+  }
+  return undefined
+}
+
+const round = (value: number, decimals = 2): number => {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Check one alert against the context; null when its condition does not hold
+ * Crossings need the previous cycle's price on the other side of the threshold, so they fire once per crossing
+ */
+export function evaluateAlert(alert: Alert, context: AlertContext): AlertTrigger | null {
+  const condition = alert.condition
+
+  if (condition.type === 'cutoff_near') {
+    const market = alert.marketId !== undefined
+      ? context.markets.get(alert.marketId)
+      : alert.tokenId ? findTokenMarket(alert.tokenId, context.markets) : undefined
+    if (!market) return null
+
+    const hoursLeft = (market.cutoffAt - context.nowMs / 1000) / 3600
+    if (hoursLeft <= 0 || hoursLeft > condition.hours) return null
+    return { value: round(hoursLeft), message: `${market.title} closes in ${round(hoursLeft, 1)}h` }
+  }
+
+  const tokenId = resolveAlertToken(alert, context.markets)
+  if (!tokenId) return null
+
+  if (condition.type === 'spread_wide') {
+    const spreadBps = context.liquidity.get(tokenId)?.spreadBps
+    if (spreadBps === null || spreadBps === undefined || spreadBps < condition.bps) return null
+    return { value: spreadBps, message: `Spread on ${tokenId} widened to ${spreadBps} bps (limit ${condition.bps})` }
+  }
+
+  const current = knownPrice(context.prices.get(tokenId))
+  if (current === null) return null
+
+  if (condition.type === 'price_cross') {
+    const previous = parseFloat(context.previousPrices.get(tokenId) ?? '')
+    if (!Number.isFinite(previous)) return null
+
+    const crossed = condition.direction === 'above'
+      ? previous < condition.threshold && current >= condition.threshold
+      : previous > condition.threshold && current <= condition.threshold
+    if (!crossed) return null
+    return { value: current, message: `${tokenId} crossed ${condition.direction} ${condition.threshold} (now ${current})` }
+  }
+
+  const windowStart = context.nowMs / 1000 - condition.windowMinutes * 60
+  const base = (context.history.get(tokenId) || []).find(point => point.t >= windowStart)
+  const basePrice = base ? parseFloat(base.p) : NaN
+  if (!Number.isFinite(basePrice) || basePrice <= 0) return null
+
+  const movePct = ((current - basePrice) / basePrice) * 100
+  if (Math.abs(movePct) < condition.pct) return null
+  return {
+    value: round(movePct),
+    message: `${tokenId} moved ${movePct > 0 ? '+' : ''}${round(movePct)}% in ${condition.windowMinutes}m (${basePrice} -> ${current})`
+  }
+}
+
+/**
+ * Liquidity summaries for spread alerts: the books sync already fetched, then up to 25 more
+ */
+const loadSpreadSummaries = async (
+  tokenIds: string[],
+  books: Map<string, Orderbook>,
+  nowMs: number
+): Promise<Map<string, LiquiditySummary>> => {
+  const summaries = new Map<string, LiquiditySummary>()
+  const missing: string[] = []
+
+  tokenIds.forEach(tokenId => {
+    const book = books.get(tokenId)
+    if (book) summaries.set(tokenId, summarizeOrderbook(book, undefined, nowMs))
+    else missing.push(tokenId)
+  })
+
+  if (missing.length > 0) {
+    const fetched = await fetchOrderbooks(missing.slice(0, MAX_SPREAD_BOOKS))
+    fetched.forEach((book, tokenId) => {
+      if (book) summaries.set(tokenId, summarizeOrderbook(book, undefined, nowMs))
+    })
+  }
+
+  return summaries
+}
+
+const deliveryLimit = pLimit(DELIVERY_CONCURRENCY)
+const pendingDeliveries = new Set<Promise<void>>()
+
+/**
+ * Deliver a notification in the background, DELIVERY_CONCURRENCY at a time, so slow sinks never hold
+ * up the sync; notifications beyond MAX_QUEUED_DELIVERIES waiting are dropped
+ */
+function queueDelivery(notification: AlertNotification, sinks: AlertSinkConfig[]): void {
+  if (deliveryLimit.pendingCount >= MAX_QUEUED_DELIVERIES) {
+    console.warn(`[Alerts] Delivery queue full, dropping notification for alert ${notification.alertId}`)
+    return
+  }
+
+  const delivery: Promise<void> = deliveryLimit(() => dispatchNotification(notification, sinks))
+    .then(() => undefined, error => console.error(`[Alerts] Delivery failed for alert ${notification.alertId}:`, error))
+    .finally(() => pendingDeliveries.delete(delivery))
+  pendingDeliveries.add(delivery)
+}
+
+/**
+ * Wait for queued deliveries to finish (on shutdown)
+ */
+export async function flushAlertDeliveries(): Promise<void> {
+  await Promise.allSettled(Array.from(pendingDeliveries))
+}
+
+/**
+ * Evaluate every active alert after a sync cycle, record triggers and queue them for their sinks
+ * Delivery runs off the sync path; sink failures are logged and never fail the sync
+ */
+export async function runAlerts(input: {
+  markets: Market[]
+  prices: Map<string, PriceData>
+  previousPrices: Map<string, string>
+  books: Map<string, Orderbook>
+  nowMs: number
+}): Promise<AlertNotification[]> {
+  if (!redis.client) {
+    return []
+  }
+
+  const alerts = (await redis.client.getAlerts()).filter(alert => alert.active && !isCoolingDown(alert, input.nowMs))
+  if (alerts.length === 0) {
+    return []
+  }
+
+  const markets = new Map(input.markets.map(market => [market.id, market]))
+  const tokensFor = (type: AlertCondition['type']) => Array.from(new Set(
+    alerts
+      .filter(alert => alert.condition.type === type)
+      .map(alert => resolveAlertToken(alert, markets))
+      .filter((tokenId): tokenId is string => tokenId !== undefined)
+  ))
+
+  const moveTokens = tokensFor('price_move')
+  const longestWindow = Math.max(0, ...alerts.map(alert =>
+    alert.condition.type === 'price_move' ? alert.condition.windowMinutes : 0))
+  const history = moveTokens.length > 0
+    ? await redis.client.getPriceSeriesBatch(moveTokens, { from: Math.floor(input.nowMs / 1000) - longestWindow * 60 })
+    : new Map<string, PriceHistoryPoint[]>()
+
+  const spreadTokens = tokensFor('spread_wide')
+  const liquidity = spreadTokens.length > 0
+    ? await loadSpreadSummaries(spreadTokens, input.books, input.nowMs)
+    : new Map<string, LiquiditySummary>()
+
+  const context: AlertContext = {
+    nowMs: input.nowMs,
+    prices: input.prices,
+    previousPrices: input.previousPrices,
+    liquidity,
+    history,
+    markets
+  }
+
+  const notifications: AlertNotification[] = []
+  for (const alert of alerts) {
+    const trigger = evaluateAlert(alert, context)
+    if (!trigger) continue
+
+    const notification: AlertNotification = {
+      id: randomUUID(),
+      alertId: alert.id,
+      owner: alert.owner,
+      tokenId: alert.tokenId,
+      marketId: alert.marketId,
+      conditionType: alert.condition.type,
+      message: trigger.message,
+      value: trigger.value,
+      triggeredAt: input.nowMs
+    }
+
+    // Record the trigger before delivery so a slow sink cannot cause a duplicate next cycle
+    // Only the trigger time is written: an alert deleted or edited meanwhile keeps that change
+    if (!(await redis.client.markAlertTriggered(alert.id, input.nowMs))) continue
+    queueDelivery(notification, alert.sinks)
+    notifications.push(notification)
+  }
+
+  if (notifications.length > 0) {
+    console.log(`[Alerts] ${notifications.length} of ${alerts.length} alerts triggered`)
+  }
+
+  return notifications
+}
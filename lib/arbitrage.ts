@@ -0,0 +1,223 @@
+/**
+ * Arbitrage scanner
+ * Finds binary markets whose YES + NO prices, and categorical markets whose outcome YES prices, do not sum to 1
+ */
+
+import { arbitragePct, determineUnderpriced } from './utils'
+import { knownPrice } from './prices'
+import {
+  ArbitrageLeg,
+  ArbitrageOpportunity,
+  Market,
+  Orderbook,
+  OrderbookEntry,
+  PriceData
+} from './types'
+
+export interface ArbitrageScanOptions {
+  feePct: number // fee per leg, percent of notional
+  minEdgePct: number // only report opportunities whose net edge exceeds this
+}
+
+export type ArbitrageSort = 'edge' | 'size'
+
+const isCategorical = (market: Market): boolean =>
+  market.marketType === 1 || (market.childMarkets?.length ?? 0) > 0
+
+const legPrice = (tokenId: string, priceMap: Map<string, PriceData>): number | null =>
+  tokenId ? knownPrice(priceMap.get(tokenId)) : null
+
+const round = (value: number, decimals: number = 4): number => Number(value.toFixed(decimals))
+
+/**
+ * Build an opportunity from its legs, or null when the net edge does not clear the threshold
+ */
+const buildOpportunity = (
+  market: Market,
+  kind: ArbitrageOpportunity['kind'],
+  legs: ArbitrageLeg[],
+  underpriced: ArbitrageOpportunity['underpriced'],
+  options: ArbitrageScanOptions
+): ArbitrageOpportunity | null => {
+  const priceSum = legs.reduce((sum, leg) => sum + leg.price, 0)
+  const grossEdgePct = round(Math.abs((priceSum - 1) * 100))
+  const netEdgePct = round(grossEdgePct - options.feePct * legs.length)
+
+  if (netEdgePct <= options.minEdgePct) {
+    return null
+  }
+
+  return {
+    marketId: market.id,
+    marketTitle: market.title || `Market ${market.id}`,
+    kind,
+    legs,
+    priceSum: round(priceSum),
+    grossEdgePct,
+    netEdgePct,
+    strategy: priceSum < 1 ? 'BUY_ALL' : 'SELL_ALL',
+    underpriced,
+    bestLevelSize: null,
+    volume24h: market.volume24h || '0'
+  }
+}
+
+/**
+ * YES + NO mispricing on a binary market
+ * Markets with an unknown price on either side are skipped
+ */
+export function findBinaryArbitrage(
+  market: Market,
+  priceMap: Map<string, PriceData>,
+  options: ArbitrageScanOptions
+): ArbitrageOpportunity | null {
+  const yesPrice = legPrice(market.yesTokenId, priceMap)
+  const noPrice = legPrice(market.noTokenId, priceMap)
+  if (yesPrice === null || noPrice === null || arbitragePct(yesPrice, noPrice) === 0) {
+    return null
+  }
+
+  return buildOpportunity(
+    market,
+    'binary',
+    [
+      { tokenId: market.yesTokenId, label: market.yesLabel || 'YES', price: yesPrice },
+      { tokenId: market.noTokenId, label: market.noLabel || 'NO', price: noPrice }
+    ],
+    determineUnderpriced(yesPrice, noPrice),
+    options
+  )
+}
+
+/**
+ * Sum of child YES prices away from 1 on a categorical market
+ * Every open outcome must be priced, otherwise the sum is meaningless and the market is skipped
+ */
+export function findCategoricalArbitrage(
+  market: Market,
+  priceMap: Map<string, PriceData>,
+  options: ArbitrageScanOptions,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): ArbitrageOpportunity | null {
+  const openChildren = (market.childMarkets || [])
+    .filter(child => child.yesTokenId && !(child.cutoffAt && child.cutoffAt <= nowSeconds))
+  if (openChildren.length < 2) {
+    return null
+  }
+
+  const legs: ArbitrageLeg[] = []
+  for (const child of openChildren) {
+    const price = legPrice(child.yesTokenId, priceMap)
+    if (price === null) {
+      return null
+    }
+    legs.push({ tokenId: child.yesTokenId, label: child.title || `Outcome ${child.id}`, price })
+  }
+
+  const priceSum = legs.reduce((sum, leg) => sum + leg.price, 0)
+  return buildOpportunity(
+    market,
+    'categorical',
+    legs,
+    priceSum < 1 ? 'YES_UNDERPRICED' : 'NO_UNDERPRICED',
+    options
+  )
+}
+
+/**
+ * Scan every market, returning opportunities ordered by net edge
+ */
+export function scanArbitrage(
+  markets: Market[],
+  priceMap: Map<string, PriceData>,
+  options: ArbitrageScanOptions,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): ArbitrageOpportunity[] {
+  return markets
+    .map(market => isCategorical(market)
+      ? findCategoricalArbitrage(market, priceMap, options, nowSeconds)
+      : findBinaryArbitrage(market, priceMap, options))
+    .filter((opportunity): opportunity is ArbitrageOpportunity => opportunity !== null)
+    .sort((a, b) => b.netEdgePct - a.netEdgePct)
+}
+
+/**
+ * Shares resting at the best level of one book side (lowest ask or highest bid)
+ */
+export const bestLevelSize = (levels: OrderbookEntry[], side: 'bid' | 'ask'): number => {
+  const parsed = levels
+    .map(level => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+    .filter(level => Number.isFinite(level.price) && Number.isFinite(level.size) && level.size > 0)
+  if (parsed.length === 0) {
+    return 0
+  }
+
+  const bestPrice = side === 'ask'
+    ? Math.min(...parsed.map(level => level.price))
+    : Math.max(...parsed.map(level => level.price))
+
+  return parsed
+    .filter(level => level.price === bestPrice)
+    .reduce((total, level) => total + level.size, 0)
+}
+
+/**
+ * Candidates, in the given (edge) order, that get an orderbook check: at most maxCandidates, whose legs
+ * need at most maxTokens books in total; a candidate whose legs would exceed the budget is skipped
+ */
+export function selectBookChecks(
+  candidates: ArbitrageOpportunity[],
+  maxCandidates: number,
+  maxTokens: number
+): ArbitrageOpportunity[] {
+  const tokenIds = new Set<string>()
+  const checked: ArbitrageOpportunity[] = []
+
+  for (const opportunity of candidates) {
+    if (checked.length >= maxCandidates) break
+    const added = opportunity.legs.map(leg => leg.tokenId).filter(tokenId => !tokenIds.has(tokenId))
+    if (tokenIds.size + added.length > maxTokens) continue
+
+    added.forEach(tokenId => tokenIds.add(tokenId))
+    checked.push(opportunity)
+  }
+
+  return checked
+}
+
+/**
+ * Shares executable on every leg at the best level; the thinnest leg limits the trade
+ * Buying all legs takes asks, selling takes bids. Null when any book is unavailable
+ */
+export const executableSize = (
+  opportunity: ArbitrageOpportunity,
+  books: Map<string, Orderbook | null>
+): number | null => {
+  const side = opportunity.strategy === 'BUY_ALL' ? 'ask' : 'bid'
+  let size = Infinity
+
+  for (const leg of opportunity.legs) {
+    const book = books.get(leg.tokenId)
+    if (!book) {
+      return null
+    }
+    size = Math.min(size, bestLevelSize(side === 'ask' ? book.asks : book.bids, side))
+  }
+
+  return size === Infinity ? null : round(size, 2)
+}
+
+/**
+ * Order by net edge (ties broken by size) or by executable size (ties broken by edge)
+ * Opportunities whose books were not checked rank below any checked size
+ */
+export const rankOpportunities = (
+  opportunities: ArbitrageOpportunity[],
+  sortBy: ArbitrageSort = 'edge'
+): ArbitrageOpportunity[] => {
+  const sizeOf = (opportunity: ArbitrageOpportunity) => opportunity.bestLevelSize ?? -1
+
+  return [...opportunities].sort((a, b) => sortBy === 'size'
+    ? sizeOf(b) - sizeOf(a) || b.netEdgePct - a.netEdgePct
+    : b.netEdgePct - a.netEdgePct || sizeOf(b) - sizeOf(a))
+}
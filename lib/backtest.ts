@@ -0,0 +1,362 @@
+/**
+ * Backtesting
+ * Replays the archived price paths of resolved binary markets against a simple trading rule, charges a fee
+ * and slippage on entry and settles every position at the resolution outcome
+ */
+
+import { APIError, ErrorType } from './errorHandler'
+import { redis } from './redis'
+import { arbitragePct, determineUnderpriced } from './utils'
+import {
+  BacktestConfig,
+  BacktestReport,
+  BacktestRule,
+  BacktestTrade,
+  BookSnapshot,
+  PriceHistoryPoint,
+  ResolvedMarket,
+  ResolvedPricePath,
+  SlippageModel
+} from './types'
+
+export const BACKTEST_RULE_TYPES: BacktestRule['type'][] = ['momentum', 'arbitrage', 'fade']
+export const DEFAULT_STAKE_USD = 100
+export const DEFAULT_FEE_PCT = 1
+export const DEFAULT_SLIPPAGE_BPS = 50
+
+// A book snapshot older than this at entry is ignored in favour of the fallback slippage
+const MAX_BOOK_AGE_SECONDS = 3600
+// Fills are capped below 1 so a winning position always pays something
+const MAX_FILL_PRICE = 0.999
+const MAX_HOURS = 30 * 24
+
+/**
+ * Where and why a rule enters a market
+ */
+export interface BacktestEntry {
+  side: 'YES' | 'NO'
+  t: number
+  price: number
+  signal: string
+}
+
+const round = (value: number, decimals: number = 2): number => Number(value.toFixed(decimals))
+
+const invalid = (message: string): never => {
+  throw new APIError(message, ErrorType.VALIDATION, 400)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const numberField = (input: Record<string, unknown>, field: string, min: number, max: number, fallback?: number): number => {
+  const value = input[field] === undefined ? fallback : input[field]
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    return invalid(`Invalid ${field}. Must be a number between ${min} and ${max}`)
+  }
+  return value
+}
+
+const parseRule = (input: unknown, feePct: number): BacktestRule => {
+  if (!isRecord(input) || !BACKTEST_RULE_TYPES.includes(input.type as BacktestRule['type'])) {
+    return invalid(`Invalid rule.type. Must be one of: ${BACKTEST_RULE_TYPES.join(', ')}`)
+  }
+
+  switch (input.type) {
+    case 'momentum': {
+      const direction = input.direction ?? 'up'
+      if (direction !== 'up' && direction !== 'down' && direction !== 'both') {
+        return invalid('Invalid rule.direction. Must be "up", "down" or "both"')
+      }
+      return {
+        type: 'momentum',
+        lookbackHours: numberField(input, 'lookbackHours', 1, MAX_HOURS),
+        minMovePp: numberField(input, 'minMovePp', 0.1, 100),
+        direction
+      }
+    }
+    case 'arbitrage':
+      // Without an explicit edge, trade whenever the mispricing covers the fee
+      return { type: 'arbitrage', minEdgePct: numberField(input, 'minEdgePct', 0.1, 100, Math.max(0.1, feePct)) }
+    default:
+      return {
+        type: 'fade',
+        lookbackHours: numberField(input, 'lookbackHours', 1, MAX_HOURS),
+        minMovePp: numberField(input, 'minMovePp', 0.1, 100),
+        withinHours: numberField(input, 'withinHours', 1, MAX_HOURS)
+      }
+  }
+}
+
+const parseSlippage = (input: unknown): SlippageModel => {
+  if (input === undefined) {
+    return { model: 'fixed', bps: DEFAULT_SLIPPAGE_BPS }
+  }
+  if (!isRecord(input) || (input.model !== 'fixed' && input.model !== 'book')) {
+    return invalid('Invalid slippage.model. Must be "fixed" or "book"')
+  }
+  return input.model === 'fixed'
+    ? { model: 'fixed', bps: numberField(input, 'bps', 0, 5000, DEFAULT_SLIPPAGE_BPS) }
+    : { model: 'book', fallbackBps: numberField(input, 'fallbackBps', 0, 5000, DEFAULT_SLIPPAGE_BPS) }
+}
+
+const parseTime = (input: Record<string, unknown>, field: 'from' | 'to'): number | undefined => {
+  if (input[field] === undefined) {
+    return undefined
+  }
+  return Math.floor(numberField(input, field, 0, Number.MAX_SAFE_INTEGER))
+}
+
+/**
+ * Validate a backtest request body (or script arguments) into a config
+ * Only rule is required; stake, fee and slippage fall back to the defaults above
+ */
+export function parseBacktestConfig(body: unknown): BacktestConfig {
+  if (!isRecord(body)) {
+    return invalid('Request body must be a JSON object')
+  }
+
+  const feePct = numberField(body, 'feePct', 0, 50, DEFAULT_FEE_PCT)
+  const config: BacktestConfig = {
+    rule: parseRule(body.rule, feePct),
+    stakeUsd: numberField(body, 'stakeUsd', 1, 1_000_000, DEFAULT_STAKE_USD),
+    feePct,
+    slippage: parseSlippage(body.slippage),
+    from: parseTime(body, 'from'),
+    to: parseTime(body, 'to')
+  }
+  if (config.from !== undefined && config.to !== undefined && config.from > config.to) {
+    return invalid('Invalid time range. from must not be after to')
+  }
+
+  return config
+}
+
+/**
+ * Reader for the last price at or before t on a time-sorted path, or null before the path starts
+ * t must not decrease between calls, so a replay walks each path once
+ */
+const priceCursor = (points: PriceHistoryPoint[]) => {
+  let index = -1
+  return (t: number): number | null => {
+    while (index + 1 < points.length && points[index + 1].t <= t) {
+      index++
+    }
+    const price = index >= 0 ? parseFloat(points[index].p) : NaN
+    return Number.isFinite(price) ? price : null
+  }
+}
+
+/**
+ * YES price move in percentage points over the lookback, or null before the path covers it
+ */
+const moveOver = (priceAt: (t: number) => number | null, t: number, price: number, lookbackHours: number): number | null => {
+  const past = priceAt(t - lookbackHours * 3600)
+  return past === null ? null : round((price - past) * 100, 4)
+}
+
+/**
+ * First point before cutoff where the rule fires; a market is entered at most once
+ * NO prices come from the archived NO path and fall back to the YES complement
+ */
+export function findEntry(rule: BacktestRule, market: ResolvedMarket, path: ResolvedPricePath): BacktestEntry | null {
+  const [yes, no] = market.outcomes
+  const yesPoints = [...(path[yes?.tokenId] || [])].sort((a, b) => a.t - b.t)
+  const noPriceAt = priceCursor([...(path[no?.tokenId] || [])].sort((a, b) => a.t - b.t))
+  const yesPriceBefore = priceCursor(yesPoints)
+  const closesAt = market.cutoffAt > 0 ? market.cutoffAt : market.resolvedAt
+
+  for (const point of yesPoints) {
+    const yesPrice = parseFloat(point.p)
+    if (point.t >= closesAt || !Number.isFinite(yesPrice) || yesPrice <= 0 || yesPrice >= 1) {
+      continue
+    }
+    const noPrice = noPriceAt(point.t) ?? round(1 - yesPrice, 4)
+    const enter = (side: 'YES' | 'NO', signal: string): BacktestEntry | null => {
+      const price = side === 'YES' ? yesPrice : noPrice
+      return price > 0 && price < 1 ? { side, t: point.t, price, signal } : null
+    }
+
+    let entry: BacktestEntry | null = null
+    if (rule.type === 'momentum') {
+      const move = moveOver(yesPriceBefore, point.t, yesPrice, rule.lookbackHours)
+      if (move !== null && move >= rule.minMovePp && rule.direction !== 'down') {
+        entry = enter('YES', `YES up ${move}pp in ${rule.lookbackHours}h`)
+      } else if (move !== null && move <= -rule.minMovePp && rule.direction !== 'up') {
+        entry = enter('NO', `YES down ${-move}pp in ${rule.lookbackHours}h`)
+      }
+    } else if (rule.type === 'arbitrage') {
+      const edge = round(arbitragePct(yesPrice, noPrice), 4)
+      if (Math.abs(edge) >= rule.minEdgePct) {
+        const side = determineUnderpriced(yesPrice, noPrice) === 'YES_UNDERPRICED' ? 'YES' : 'NO'
+        entry = enter(side, `YES + NO off by ${edge}%`)
+      }
+    } else if (closesAt - point.t <= rule.withinHours * 3600) {
+      const move = moveOver(yesPriceBefore, point.t, yesPrice, rule.lookbackHours)
+      if (move !== null && Math.abs(move) >= rule.minMovePp) {
+        entry = enter(move > 0 ? 'NO' : 'YES', `Fading ${move > 0 ? '+' : ''}${move}pp move ${round((closesAt - point.t) / 3600, 1)}h before cutoff`)
+      }
+    }
+
+    if (entry) {
+      return entry
+    }
+  }
+
+  return null
+}
+
+/**
+ * Slippage charged on an entry at t: the fixed rate, or half the recorded spread plus the recorded
+ * slippage of the latest book snapshot no older than an hour
+ */
+export function slippageBpsAt(model: SlippageModel, books: BookSnapshot[], t: number): number {
+  if (model.model === 'fixed') {
+    return model.bps
+  }
+
+  const snapshot = books.reduce<BookSnapshot | null>(
+    (best, book) => (book.t <= t && t - book.t <= MAX_BOOK_AGE_SECONDS && (!best || book.t > best.t) ? book : best),
+    null
+  )
+  if (!snapshot || (snapshot.spreadBps === null && snapshot.slippageBps === null)) {
+    return model.fallbackBps
+  }
+  return round((snapshot.spreadBps ?? 0) / 2 + (snapshot.slippageBps ?? 0))
+}
+
+/**
+ * Fill an entry and settle it at resolution: winning shares pay 1, losing shares 0
+ * The fee is taken out of the stake, so the stake is the whole cash outlay
+ */
+export function settleTrade(
+  market: ResolvedMarket,
+  entry: BacktestEntry,
+  config: BacktestConfig,
+  slippageBps: number
+): BacktestTrade {
+  const fillPrice = Math.min(MAX_FILL_PRICE, entry.price * (1 + slippageBps / 10000))
+  const fee = config.stakeUsd * config.feePct / 100
+  const shares = (config.stakeUsd - fee) / fillPrice
+  const won = market.outcomes[entry.side === 'YES' ? 0 : 1]?.won ?? false
+  const payout = won ? shares : 0
+
+  return {
+    marketId: market.id,
+    marketTitle: market.title,
+    side: entry.side,
+    signal: entry.signal,
+    entryTime: entry.t,
+    entryPrice: entry.price,
+    fillPrice: round(fillPrice, 4),
+    slippageBps,
+    shares: round(shares, 4),
+    stake: config.stakeUsd,
+    fee: round(fee),
+    exitTime: market.resolvedAt,
+    payout: round(payout),
+    pnl: round(payout - config.stakeUsd),
+    won
+  }
+}
+
+/**
+ * Largest sum of stakes held at the same time; positions settled at t are closed before new ones open at t
+ */
+export const maxExposure = (trades: BacktestTrade[]): number => {
+  const events = trades
+    .flatMap(trade => [{ t: trade.entryTime, delta: trade.stake }, { t: trade.exitTime, delta: -trade.stake }])
+    .sort((a, b) => a.t - b.t || a.delta - b.delta)
+
+  let open = 0
+  let peak = 0
+  events.forEach(event => {
+    open += event.delta
+    peak = Math.max(peak, open)
+  })
+  return round(peak)
+}
+
+/**
+ * Resolved binary markets inside the config's resolvedAt window; failed and categorical markets are not tested
+ */
+export const backtestableMarkets = (markets: ResolvedMarket[], config: BacktestConfig): ResolvedMarket[] =>
+  markets.filter(market =>
+    market.status === 'resolved' &&
+    market.marketType === 0 &&
+    !!market.winningTokenId &&
+    market.outcomes.length === 2 &&
+    (config.from === undefined || market.resolvedAt >= config.from) &&
+    (config.to === undefined || market.resolvedAt <= config.to))
+
+/**
+ * Run a rule over the backtestable markets of an archive
+ */
+export function runBacktest(
+  markets: ResolvedMarket[],
+  paths: Map<number, ResolvedPricePath>,
+  books: Map<string, BookSnapshot[]>,
+  config: BacktestConfig,
+  nowMs: number = Date.now()
+): BacktestReport {
+  const tested = backtestableMarkets(markets, config)
+
+  const trades = tested
+    .flatMap(market => {
+      const entry = findEntry(config.rule, market, paths.get(market.id) || {})
+      if (!entry) {
+        return []
+      }
+      const tokenId = market.outcomes[entry.side === 'YES' ? 0 : 1].tokenId
+      const slippageBps = slippageBpsAt(config.slippage, books.get(tokenId) || [], entry.t)
+      return [settleTrade(market, entry, config, slippageBps)]
+    })
+    .sort((a, b) => a.entryTime - b.entryTime || a.marketId - b.marketId)
+
+  const wins = trades.filter(trade => trade.won).length
+  const totalStaked = trades.reduce((sum, trade) => sum + trade.stake, 0)
+  const pnl = trades.reduce((sum, trade) => sum + trade.pnl, 0)
+  const holdingHours = trades.reduce((sum, trade) => sum + (trade.exitTime - trade.entryTime) / 3600, 0)
+
+  return {
+    config,
+    marketsTested: tested.length,
+    trades: trades.length,
+    wins,
+    hitRate: trades.length > 0 ? round(wins / trades.length, 4) : null,
+    totalStaked: round(totalStaked),
+    totalFees: round(trades.reduce((sum, trade) => sum + trade.fee, 0)),
+    pnl: round(pnl),
+    roiPct: totalStaked > 0 ? round(pnl / totalStaked * 100) : null,
+    maxExposure: maxExposure(trades),
+    avgHoldingHours: trades.length > 0 ? round(holdingHours / trades.length, 1) : null,
+    tradeLog: trades,
+    generatedAt: nowMs
+  }
+}
+
+/**
+ * Resolved market archive and orderbook history, or 503 when Redis is not configured
+ */
+export const requireBacktestStore = () => {
+  if (!redis.client) {
+    throw new APIError('Backtesting requires Redis', ErrorType.EXTERNAL_API, 503)
+  }
+  return redis.client
+}
+
+/**
+ * Load the archive (and, for the book slippage model, the orderbook history of both outcomes) and run the backtest
+ */
+export async function backtest(config: BacktestConfig, nowMs: number = Date.now()): Promise<BacktestReport> {
+  const client = requireBacktestStore()
+  const markets = backtestableMarkets(await client.getResolvedMarkets(), config)
+  const paths = await client.getResolvedPricePaths(markets.map(market => market.id))
+  const books = config.slippage.model === 'book'
+    ? await client.getBookSnapshots(markets.flatMap(market => market.outcomes.map(outcome => outcome.tokenId)).filter(Boolean), 0, Number.MAX_SAFE_INTEGER)
+    : new Map<string, BookSnapshot[]>()
+
+  const report = runBacktest(markets, paths, books, config, nowMs)
+  console.log(`[Backtest] ${config.rule.type} rule: ${report.trades} trades over ${report.marketsTested} markets, PnL ${report.pnl}`)
+  return report
+}
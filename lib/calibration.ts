@@ -0,0 +1,154 @@
+/**
+ * Calibration analytics
+ * Scores archived prices of resolved markets as probability forecasts: Brier score and log loss at fixed
+ * horizons before cutoff, reliability by price decile and scores per volume tier
+ */
+
+import {
+  CalibrationHorizon,
+  CalibrationResponse,
+  CalibrationScore,
+  PriceHistoryPoint,
+  ReliabilityBucket,
+  ResolvedMarket,
+  ResolvedPricePath,
+  VolumeTierScore
+} from './types'
+
+export const CALIBRATION_HORIZONS = { '1d': 86400, '7d': 7 * 86400, '30d': 30 * 86400 } as const
+export type CalibrationHorizonKey = keyof typeof CALIBRATION_HORIZONS
+
+export const VOLUME_TIERS: Array<{ tier: string; minVolume: number; maxVolume: number | null }> = [
+  { tier: '<$1k', minVolume: 0, maxVolume: 1000 },
+  { tier: '$1k-10k', minVolume: 1000, maxVolume: 10000 },
+  { tier: '$10k-100k', minVolume: 10000, maxVolume: 100000 },
+  { tier: '$100k+', minVolume: 100000, maxVolume: null }
+]
+
+// A forecast must come from a price point no older than this before the horizon
+const MAX_FORECAST_AGE_SECONDS = 86400
+// Keeps log loss finite for forecasts of exactly 0 or 1
+const LOG_LOSS_EPSILON = 0.001
+
+export interface Forecast {
+  marketId: number
+  tokenId: string
+  probability: number
+  won: boolean
+  volume: number
+}
+
+const round = (value: number, decimals: number = 4): number => Number(value.toFixed(decimals))
+
+/**
+ * Last price at or before target, or null when the series has no point within the age limit
+ */
+export function forecastAt(points: PriceHistoryPoint[], target: number): number | null {
+  const latest = points.reduce<PriceHistoryPoint | null>(
+    (best, point) => (point.t <= target && (!best || point.t > best.t) ? point : best),
+    null
+  )
+  if (!latest || target - latest.t > MAX_FORECAST_AGE_SECONDS) {
+    return null
+  }
+
+  const price = parseFloat(latest.p)
+  return Number.isFinite(price) && price >= 0 && price <= 1 ? price : null
+}
+
+/**
+ * One forecast per outcome at the horizon before cutoff
+ * Binary markets contribute their YES token only (NO is its complement); categorical outcomes each count
+ * as a YES forecast. Failed markets have no outcome and are skipped
+ */
+export function collectForecasts(
+  markets: ResolvedMarket[],
+  paths: Map<number, ResolvedPricePath>,
+  horizonSeconds: number
+): Forecast[] {
+  return markets
+    .filter(market => market.status === 'resolved' && market.winningTokenId)
+    .flatMap(market => {
+      const path = paths.get(market.id) || {}
+      const outcomes = market.marketType === 1 ? market.outcomes : market.outcomes.slice(0, 1)
+
+      return outcomes.flatMap<Forecast>(outcome => {
+        const probability = forecastAt(path[outcome.tokenId] || [], market.cutoffAt - horizonSeconds)
+        if (probability === null) {
+          return []
+        }
+        return [{
+          marketId: market.id,
+          tokenId: outcome.tokenId,
+          probability,
+          won: outcome.won,
+          volume: parseFloat(market.volume24h) || 0
+        }]
+      })
+    })
+}
+
+export function scoreForecasts(forecasts: Forecast[]): CalibrationScore {
+  if (forecasts.length === 0) {
+    return { count: 0, brier: null, logLoss: null }
+  }
+
+  const brier = forecasts.reduce((sum, f) => sum + (f.probability - (f.won ? 1 : 0)) ** 2, 0) / forecasts.length
+  const logLoss = forecasts.reduce((sum, f) => {
+    const p = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, f.probability))
+    return sum - Math.log(f.won ? p : 1 - p)
+  }, 0) / forecasts.length
+
+  return { count: forecasts.length, brier: round(brier), logLoss: round(logLoss) }
+}
+
+/**
+ * Ten price deciles with the mean forecast and how often the outcome actually won
+ */
+export function reliabilityBuckets(forecasts: Forecast[]): ReliabilityBucket[] {
+  return Array.from({ length: 10 }, (_, i) => {
+    const lower = i / 10
+    const upper = (i + 1) / 10
+    const inBucket = forecasts.filter(f => Math.min(9, Math.floor(f.probability * 10)) === i)
+
+    return {
+      lower: round(lower, 1),
+      upper: round(upper, 1),
+      count: inBucket.length,
+      meanForecast: inBucket.length > 0 ? round(inBucket.reduce((sum, f) => sum + f.probability, 0) / inBucket.length) : null,
+      observedFrequency: inBucket.length > 0 ? round(inBucket.filter(f => f.won).length / inBucket.length) : null
+    }
+  })
+}
+
+export const scoreByVolumeTier = (forecasts: Forecast[]): VolumeTierScore[] =>
+  VOLUME_TIERS.map(tier => ({
+    ...tier,
+    ...scoreForecasts(forecasts.filter(f =>
+      f.volume >= tier.minVolume && (tier.maxVolume === null || f.volume < tier.maxVolume)))
+  }))
+
+/**
+ * Calibration of the archive at every horizon
+ */
+export function computeCalibration(
+  markets: ResolvedMarket[],
+  paths: Map<number, ResolvedPricePath>,
+  nowMs: number = Date.now()
+): CalibrationResponse {
+  const horizons: CalibrationHorizon[] = (Object.keys(CALIBRATION_HORIZONS) as CalibrationHorizonKey[]).map(horizon => {
+    const forecasts = collectForecasts(markets, paths, CALIBRATION_HORIZONS[horizon])
+    return {
+      horizon,
+      ...scoreForecasts(forecasts),
+      reliability: reliabilityBuckets(forecasts),
+      tiers: scoreByVolumeTier(forecasts)
+    }
+  })
+
+  return {
+    markets: markets.filter(market => market.status === 'resolved' && market.winningTokenId).length,
+    horizons,
+    generatedAt: nowMs
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * OHLC candle aggregation
+ * Buckets {t,p} price points into candles and picks the finest price source that can serve a resolution
+ */
+
+import { parsePrice } from './utils'
+import { SeriesTier } from './redis'
+import { Candle, PriceHistoryPoint } from './types'
+
+export type CandleResolution = '1m' | '5m' | '15m' | '1h' | '4h' | '1d'
+export type GapPolicy = 'ffill' | 'skip'
+
+export const CANDLE_SECONDS: Record<CandleResolution, number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+  '4h': 14400,
+  '1d': 86400
+}
+
+export const MAX_CANDLES = 2000
+export const DEFAULT_CANDLE_COUNT = 300
+
+// Upstream history intervals and the spacing of their points
+const UPSTREAM_INTERVALS: Array<{ interval: string; seconds: number }> = [
+  { interval: '1h', seconds: 3600 },
+  { interval: '1d', seconds: 86400 }
+]
+
+// Raw series points land once per sync (30s by default)
+const RAW_POINT_SECONDS = 30
+
+export type CandleSource =
+  | { kind: 'series'; tier: SeriesTier }
+  | { kind: 'upstream'; interval: string }
+
+/**
+ * Every source able to serve the resolution over [from, now], finest first
+ * A source qualifies when its points are no coarser than the candle and, for synced series, its retention reaches `from`
+ * Synced series come before upstream history of the same spacing since they need no Opinion API call
+ */
+export function planCandleSources(
+  resolution: CandleResolution,
+  from: number,
+  tiers: SeriesTier[],
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): CandleSource[] {
+  const candleSeconds = CANDLE_SECONDS[resolution]
+
+  const series = tiers
+    .filter(tier => (tier.bucketSeconds || RAW_POINT_SECONDS) <= candleSeconds)
+    .filter(tier => nowSeconds - tier.retentionSeconds <= from)
+    .map(tier => ({ seconds: tier.bucketSeconds || RAW_POINT_SECONDS, source: { kind: 'series', tier } as CandleSource }))
+
+  const upstream = UPSTREAM_INTERVALS
+    .filter(({ seconds }) => seconds <= candleSeconds)
+    .map(({ interval, seconds }) => ({ seconds, source: { kind: 'upstream', interval } as CandleSource }))
+
+  // Stable sort keeps series ahead of upstream at equal spacing
+  return [...series, ...upstream]
+    .sort((a, b) => a.seconds - b.seconds)
+    .map(({ source }) => source)
+}
+
+/**
+ * Aggregate points into candles of `resolution`
+ * ffill emits flat zero-count candles for empty buckets between the first and last point, skip leaves them out
+ * Points outside [from, to] and out-of-range prices are ignored
+ */
+export function buildCandles(
+  points: PriceHistoryPoint[],
+  resolution: CandleResolution,
+  options: { gap?: GapPolicy; from?: number; to?: number } = {}
+): Candle[] {
+  const bucketSeconds = CANDLE_SECONDS[resolution]
+  const from = options.from ?? 0
+  const to = options.to ?? Number.MAX_SAFE_INTEGER
+
+  const valid = points
+    .map(point => ({ t: Number(point.t), p: parsePrice(point.p) }))
+    .filter(point => Number.isFinite(point.t) && point.t >= from && point.t <= to && point.p >= 0 && point.p <= 1)
+    .sort((a, b) => a.t - b.t)
+
+  const candles: Candle[] = []
+  for (const point of valid) {
+    const bucket = Math.floor(point.t / bucketSeconds) * bucketSeconds
+    const last = candles[candles.length - 1]
+
+    if (last && last.t === bucket) {
+      last.h = Math.max(last.h, point.p)
+      last.l = Math.min(last.l, point.p)
+      last.c = point.p
+      last.n++
+      continue
+    }
+
+    if (last && options.gap === 'ffill') {
+      for (let t = last.t + bucketSeconds; t < bucket; t += bucketSeconds) {
+        candles.push({ t, o: last.c, h: last.c, l: last.c, c: last.c, n: 0 })
+      }
+    }
+
+    candles.push({ t: bucket, o: point.p, h: point.p, l: point.p, c: point.p, n: 1 })
+  }
+
+  return candles
+}
@@ -0,0 +1,181 @@
+/**
+ * Categorical market analytics
+ * Reads a categorical parent's outcome YES prices as one probability distribution: normalized implied
+ * probabilities, overround, entropy, favourite margin and how far the distribution moved over 1h and 24h
+ */
+
+import { redis } from './redis'
+import { getTokenHistoryBatch } from './historySource'
+import { isKnownPrice } from './prices'
+import {
+  CategoricalAnalytics,
+  CategoricalOutcome,
+  Market,
+  PriceData,
+  PriceHistoryPoint
+} from './types'
+
+export const SHIFT_WINDOWS = { shift1h: 3600, shift24h: 86400 } as const
+
+const round = (value: number, decimals: number = 4): number => Number(value.toFixed(decimals))
+
+export const isCategoricalMarket = (market: Market): boolean =>
+  market.marketType === 1 || (market.childMarkets?.length ?? 0) > 0
+
+/**
+ * Outcomes still trading: children with a YES token whose cutoff has not passed
+ */
+export const openOutcomes = (market: Market, nowSeconds: number): Market[] =>
+  (market.childMarkets || []).filter(child => child.yesTokenId && !(child.cutoffAt && child.cutoffAt <= nowSeconds))
+
+const toPrice = (value: string | undefined): number | null => {
+  const price = parseFloat(value ?? '')
+  return Number.isFinite(price) && price >= 0 && price <= 1 ? price : null
+}
+
+/**
+ * Last price at or before t; null when the series starts after t
+ */
+export function priceAt(points: PriceHistoryPoint[], t: number): number | null {
+  let price: number | null = null
+  let latest = -Infinity
+  for (const point of points) {
+    if (point.t <= t && point.t > latest) {
+      latest = point.t
+      price = toPrice(point.p)
+    }
+  }
+  return price
+}
+
+/**
+ * Divide each price by the sum of the priced ones; unpriced outcomes stay null
+ */
+export function normalizePrices(prices: Array<number | null>): Array<number | null> {
+  const sum = prices.reduce<number>((total, price) => total + (price ?? 0), 0)
+  return prices.map(price => (price === null || sum <= 0 ? null : price / sum))
+}
+
+/**
+ * Shannon entropy in bits
+ */
+const entropyOf = (probabilities: number[]): number =>
+  -probabilities.filter(p => p > 0).reduce((sum, p) => sum + p * Math.log2(p), 0)
+
+/**
+ * Distribution move between two price vectors, over outcomes priced at both times and renormalized on that set
+ * Per outcome in percentage points, plus the total variation distance (half the summed absolute moves)
+ */
+function distributionShift(
+  current: Array<number | null>,
+  past: Array<number | null>
+): { perOutcome: Array<number | null>; distance: number } | null {
+  const shared = current.map((price, i) => price !== null && past[i] !== null)
+  if (shared.filter(Boolean).length < 2) {
+    return null
+  }
+
+  const now = normalizePrices(current.map((price, i) => (shared[i] ? price : null)))
+  const then = normalizePrices(past.map((price, i) => (shared[i] ? price : null)))
+  if (now.every(p => p === null) || then.every(p => p === null)) {
+    return null
+  }
+
+  const perOutcome = now.map((p, i) => (p !== null && then[i] !== null ? (p - (then[i] as number)) * 100 : null))
+  const distance = perOutcome.reduce<number>((sum, move) => sum + Math.abs(move ?? 0), 0) / 2
+
+  return { perOutcome, distance }
+}
+
+const outcomeShift = (shift: ReturnType<typeof distributionShift>, index: number): number | null => {
+  const move = shift ? shift.perOutcome[index] : null
+  return move !== null ? round(move, 2) : null
+}
+
+/**
+ * Analyze one categorical parent; null when it is not categorical or has no open outcomes
+ * history holds recent points per outcome YES token for the 1h and 24h comparisons
+ */
+export function analyzeCategorical(
+  market: Market,
+  prices: Map<string, PriceData>,
+  history: Map<string, PriceHistoryPoint[]>,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): CategoricalAnalytics | null {
+  const outcomes = openOutcomes(market, nowSeconds)
+  if (!isCategoricalMarket(market) || outcomes.length === 0) {
+    return null
+  }
+
+  const current = outcomes.map(child => {
+    const priceData = prices.get(child.yesTokenId)
+    return isKnownPrice(priceData) ? toPrice(priceData.price) : null
+  })
+  const probabilities = normalizePrices(current)
+  const pastPrices = (seconds: number) =>
+    outcomes.map(child => priceAt(history.get(child.yesTokenId) || [], nowSeconds - seconds))
+  const shift1h = distributionShift(current, pastPrices(SHIFT_WINDOWS.shift1h))
+  const shift24h = distributionShift(current, pastPrices(SHIFT_WINDOWS.shift24h))
+
+  const rows: CategoricalOutcome[] = outcomes.map((child, i) => ({
+    marketId: child.id,
+    title: child.title || `Outcome ${child.id}`,
+    yesTokenId: child.yesTokenId,
+    yesPrice: current[i],
+    probability: probabilities[i] !== null ? round(probabilities[i] as number) : null,
+    shift1h: outcomeShift(shift1h, i),
+    shift24h: outcomeShift(shift24h, i)
+  }))
+  rows.sort((a, b) => (b.probability ?? -1) - (a.probability ?? -1))
+
+  const priced = current.filter((price): price is number => price !== null)
+  const priceSum = priced.reduce((sum, price) => sum + price, 0)
+  const distribution = probabilities.filter((p): p is number => p !== null)
+  const entropy = entropyOf(distribution)
+  const [favourite, runnerUp] = [...distribution].sort((a, b) => b - a)
+
+  return {
+    marketId: market.id,
+    title: market.title || `Market ${market.id}`,
+    volume24h: market.volume24h,
+    outcomes: rows,
+    priced: priced.length,
+    priceSum: round(priceSum),
+    overroundPct: round((priceSum - 1) * 100, 2),
+    entropy: round(entropy),
+    normalizedEntropy: distribution.length > 1 ? round(entropy / Math.log2(distribution.length)) : 0,
+    favouriteMarginPct: favourite !== undefined && runnerUp !== undefined ? round((favourite - runnerUp) * 100, 2) : null,
+    shift1h: shift1h ? round(shift1h.distance, 2) : null,
+    shift24h: shift24h ? round(shift24h.distance, 2) : null
+  }
+}
+
+/**
+ * Recent points for outcome tokens covering the longest shift window
+ * Synced series first; with upstream set, tokens the sync does not cover fall back to hourly Opinion history
+ */
+export async function loadOutcomeHistory(
+  tokenIds: string[],
+  nowSeconds: number,
+  upstream: boolean
+): Promise<Map<string, PriceHistoryPoint[]>> {
+  let history = new Map<string, PriceHistoryPoint[]>()
+  const client = redis.client
+
+  if (client && tokenIds.length > 0) {
+    try {
+      // One extra hour so the 24h comparison has a point at or before its target time
+      history = await client.getPriceSeriesBatch(tokenIds, { from: nowSeconds - SHIFT_WINDOWS.shift24h - 3600 })
+    } catch (error) {
+      console.warn('[Categorical] Price series read failed:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  const missing = tokenIds.filter(tokenId => !(history.get(tokenId)?.length))
+  if (upstream && missing.length > 0) {
+    const { histories } = await getTokenHistoryBatch(missing, '1h')
+    Object.entries(histories).forEach(([tokenId, points]) => history.set(tokenId, points))
+  }
+
+  return history
+}
@@ -9,6 +9,21 @@ export const config: Config = {
   // MINOR FIX: Handle NaN from parseInt
   CACHE_MAX_SIZE: parseInt(process.env.CACHE_MAX_SIZE || '1000') || 1000,
   API_TIMEOUT: parseInt(process.env.API_TIMEOUT || '10000') || 10000,
+  // Redis snapshot older than this is treated as stale (3 sync intervals by default)
+  SNAPSHOT_MAX_AGE_SECONDS: parseInt(process.env.SNAPSHOT_MAX_AGE_SECONDS || '90') || 90,
+  // Trading fee per leg (percent of notional) deducted from arbitrage edges
+  ARBITRAGE_FEE_PCT: parseFloat(process.env.ARBITRAGE_FEE_PCT || '0') || 0,
+  // Alert webhooks are signed with HMAC-SHA256 of the body; unsigned when empty
+  ALERT_WEBHOOK_SECRET: process.env.ALERT_WEBHOOK_SECRET || '',
+  // Email alerts are skipped unless an SMTP host is configured
+  SMTP_HOST: process.env.SMTP_HOST || '',
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || '587') || 587,
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASS: process.env.SMTP_PASS || '',
+  // Credentials are only sent over TLS unless this opts in to a plaintext relay
+  SMTP_ALLOW_PLAINTEXT_AUTH: process.env.SMTP_ALLOW_PLAINTEXT_AUTH === 'true',
+  SMTP_FROM: process.env.SMTP_FROM || 'alerts@localhost',
 }
 
 /**
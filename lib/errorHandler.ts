@@ -9,6 +9,7 @@ export enum ErrorType {
   TIMEOUT = 'TIMEOUT',
   RATE_LIMIT = 'RATE_LIMIT',
   NOT_FOUND = 'NOT_FOUND',
+  FORBIDDEN = 'FORBIDDEN',
   INTERNAL = 'INTERNAL'
 }
 
@@ -42,15 +43,15 @@ export class InputValidator {
   /**
    * Validate timeframe parameter for movers endpoint
    */
-  static validateTimeframe(timeframe: string | null): string {
+  static validateTimeframe(timeframe: string | null, allowed: string[] = ['1h', '24h']): string {
     if (timeframe === null) {
       return '24h' // Default value
     }
     
     const sanitized = timeframe.trim().toLowerCase()
-    if (!['1h', '24h'].includes(sanitized)) {
+    if (!allowed.includes(sanitized)) {
       throw new APIError(
-        'Invalid timeframe. Must be "1h" or "24h"',
+        `Invalid timeframe. Must be one of: ${allowed.join(', ')}`,
         ErrorType.VALIDATION,
         400
       )
@@ -123,6 +124,51 @@ export class InputValidator {
     return page
   }
 
+  /**
+   * Validate an optional numeric parameter within [min, max]
+   */
+  static validateNumberRange(
+    param: string | null,
+    paramName: string,
+    min: number,
+    max: number
+  ): number | undefined {
+    if (param === null || param.trim() === '') {
+      return undefined // Not provided
+    }
+
+    const value = Number(param.trim())
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new APIError(
+        `Invalid ${paramName} parameter. Must be a number between ${min} and ${max}`,
+        ErrorType.VALIDATION,
+        400
+      )
+    }
+
+    return value
+  }
+
+  /**
+   * Validate market type filter (0 = binary, 1 = categorical)
+   */
+  static validateMarketType(typeParam: string | null): number | undefined {
+    if (typeParam === null || typeParam.trim() === '') {
+      return undefined // No filter
+    }
+
+    const sanitized = typeParam.trim()
+    if (!['0', '1'].includes(sanitized)) {
+      throw new APIError(
+        'Invalid type parameter. Must be 0 (binary) or 1 (categorical)',
+        ErrorType.VALIDATION,
+        400
+      )
+    }
+
+    return parseInt(sanitized, 10)
+  }
+
   /**
    * Validate interval parameter for price history
    */
@@ -168,6 +214,53 @@ export class InputValidator {
     
     return sanitized
   }
+
+  /**
+   * Validate an EVM wallet address (0x followed by 40 hex characters)
+   */
+  static validateAddress(address: string | null, paramName: string = 'address'): string {
+    const trimmed = (address || '').trim()
+    if (!trimmed) {
+      throw new APIError(`Missing ${paramName} parameter`, ErrorType.VALIDATION, 400)
+    }
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(trimmed)) {
+      throw new APIError(
+        `Invalid ${paramName}. Must be a 0x-prefixed 40 character hex address`,
+        ErrorType.VALIDATION,
+        400
+      )
+    }
+
+    return trimmed
+  }
+
+  /**
+   * Validate a user or session key that scopes stored data (alerts, watchlists)
+   */
+  static validateOwner(owner: unknown, paramName: string = 'owner'): string {
+    const trimmed = typeof owner === 'string' ? owner.trim() : ''
+    if (!/^[A-Za-z0-9_.:@-]{1,64}$/.test(trimmed)) {
+      throw new APIError(
+        `Invalid ${paramName}. Must be 1-64 characters of letters, digits or _.:@-`,
+        ErrorType.VALIDATION,
+        400
+      )
+    }
+
+    return trimmed
+  }
+
+  /**
+   * Parse a JSON request body, 400 when it is not valid JSON
+   */
+  static async readJsonBody(request: Request): Promise<unknown> {
+    try {
+      return await request.json()
+    } catch {
+      throw new APIError('Request body must be valid JSON', ErrorType.VALIDATION, 400)
+    }
+  }
 }
 
 /**
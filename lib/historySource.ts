@@ -0,0 +1,126 @@
+/**
+ * Token price history
+ * One cached read path for /api/charts/price-history, /api/charts/sparklines and /api/history/batch
+ * so they all draw the same points
+ */
+
+import cache from './cache'
+import { opinionClient } from './opinionClient'
+import { isValidPrice } from './utils'
+import { HistoryBatchResponse, PriceHistoryPoint, Sparkline } from './types'
+
+export const HISTORY_CACHE_SECONDS = 60
+
+const historyCacheKey = (tokenId: string, interval: string) => `token-history:${tokenId}:${interval}`
+
+/**
+ * Sparkline windows and the upstream interval that covers each of them
+ */
+export const SPARKLINE_RANGES: Record<string, { seconds: number; interval: string }> = {
+  '24h': { seconds: 86400, interval: '1h' },
+  '7d': { seconds: 7 * 86400, interval: '1h' },
+  '30d': { seconds: 30 * 86400, interval: '1d' }
+}
+
+/**
+ * Upstream history of one token, cached per token and interval
+ * Empty results are not cached: upstream returns [] on failure as well
+ */
+export async function getTokenHistory(tokenId: string, interval: string): Promise<PriceHistoryPoint[]> {
+  const cacheKey = historyCacheKey(tokenId, interval)
+  const cached = cache.get<PriceHistoryPoint[]>(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  const history = await opinionClient.getPriceHistory(tokenId, interval)
+  if (history.length > 0) {
+    cache.set(cacheKey, history, HISTORY_CACHE_SECONDS)
+  }
+  return history
+}
+
+/**
+ * History of many tokens; a token whose fetch fails gets an empty series
+ */
+export async function getTokenHistories(tokenIds: string[], interval: string): Promise<Map<string, PriceHistoryPoint[]>> {
+  const histories = new Map<string, PriceHistoryPoint[]>()
+
+  await Promise.all(Array.from(new Set(tokenIds)).map(async tokenId => {
+    try {
+      histories.set(tokenId, await getTokenHistory(tokenId, interval))
+    } catch (error) {
+      console.warn(`[History] Price history fetch failed for token ${tokenId}:`, error instanceof Error ? error.message : error)
+      histories.set(tokenId, [])
+    }
+  }))
+
+  return histories
+}
+
+/**
+ * History of many tokens with failures reported per token instead of failing the batch
+ * Tokens are deduped and served from the per-token cache first; upstream calls go through
+ * the client's rate limiter, so a large batch queues instead of bursting past the limit
+ */
+export async function getTokenHistoryBatch(
+  tokenIds: string[],
+  interval: string
+): Promise<Pick<HistoryBatchResponse, 'histories' | 'errors'>> {
+  const histories: HistoryBatchResponse['histories'] = {}
+  const errors: HistoryBatchResponse['errors'] = {}
+
+  await Promise.all(Array.from(new Set(tokenIds)).map(async tokenId => {
+    const cacheKey = historyCacheKey(tokenId, interval)
+    const cached = cache.get<PriceHistoryPoint[]>(cacheKey)
+    if (cached) {
+      histories[tokenId] = cached
+      return
+    }
+
+    try {
+      // Unlike getTokenHistory an empty result here is a real answer, so it is cached too
+      const history = await opinionClient.fetchPriceHistory(tokenId, interval)
+      cache.set(cacheKey, history, HISTORY_CACHE_SECONDS)
+      histories[tokenId] = history
+    } catch (error) {
+      console.warn(`[History] Price history fetch failed for token ${tokenId}:`, error instanceof Error ? error.message : error)
+      errors[tokenId] = error instanceof Error ? error.message : String(error)
+    }
+  }))
+
+  return { histories, errors }
+}
+
+/**
+ * Downsample the points inside [from, to] to at most maxPoints, keeping the last price of each time bucket
+ */
+export function buildSparkline(
+  tokenId: string,
+  history: PriceHistoryPoint[],
+  from: number,
+  to: number,
+  maxPoints: number
+): Sparkline {
+  const bucketSeconds = (to - from) / maxPoints
+  const buckets = new Map<number, { t: number; price: number }>()
+
+  history
+    .map(point => ({ t: point.t, price: parseFloat(point.p) }))
+    .filter(point => point.t >= from && point.t <= to && isValidPrice(point.price) && point.price <= 1)
+    .sort((a, b) => a.t - b.t)
+    .forEach(point => {
+      buckets.set(Math.min(maxPoints - 1, Math.floor((point.t - from) / bucketSeconds)), point)
+    })
+
+  const points = Array.from(buckets.values())
+  const first = points[0]?.price
+  const last = points[points.length - 1]?.price
+
+  return {
+    tokenId,
+    timestamps: points.map(point => point.t),
+    prices: points.map(point => point.price),
+    change: points.length > 1 ? Math.round((last - first) * 10000) / 10000 : null
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Liquidity and spread analytics
+ * Best bid/ask, spread, depth around the mid and slippage for a notional, computed from an orderbook
+ */
+
+import { opinionClient } from './opinionClient'
+import cache from './cache'
+import {
+  BookSnapshot,
+  DepthBand,
+  LiquidityColumns,
+  LiquiditySummary,
+  Orderbook,
+  OrderbookEntry,
+  SlippageEstimate
+} from './types'
+
+export const DEPTH_BANDS_CENTS = [1, 2, 5]
+export const DEFAULT_NOTIONAL = 100 // USD
+export const BOOK_HISTORY_RETENTION_SECONDS = 30 * 86400
+
+interface Level {
+  price: number
+  size: number
+}
+
+const round = (value: number, decimals: number = 4): number => Number(value.toFixed(decimals))
+
+/**
+ * Parse book levels, dropping malformed or empty ones, best price first
+ */
+const parseLevels = (levels: OrderbookEntry[], side: 'bid' | 'ask'): Level[] =>
+  levels
+    .map(level => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+    .filter(level => Number.isFinite(level.price) && Number.isFinite(level.size) && level.price > 0 && level.size > 0)
+    .sort((a, b) => side === 'ask' ? a.price - b.price : b.price - a.price)
+
+/**
+ * Walk one side of the book until the notional is filled
+ * Buying takes asks, selling takes bids; notional is USD spent or received
+ */
+export function estimateSlippage(
+  levels: OrderbookEntry[],
+  side: 'buy' | 'sell',
+  notional: number
+): SlippageEstimate {
+  const book = parseLevels(levels, side === 'buy' ? 'ask' : 'bid')
+  let remaining = notional
+  let shares = 0
+
+  for (const level of book) {
+    if (remaining <= 0) break
+    const levelNotional = level.price * level.size
+    const taken = Math.min(remaining, levelNotional)
+    shares += taken / level.price
+    remaining -= taken
+  }
+
+  const filledNotional = notional - Math.max(remaining, 0)
+  const avgPrice = shares > 0 ? filledNotional / shares : null
+  const bestPrice = book[0]?.price
+  const slippageBps = avgPrice !== null && bestPrice
+    ? Math.abs(avgPrice - bestPrice) / bestPrice * 10000
+    : null
+
+  return {
+    side,
+    notional,
+    filledNotional: round(filledNotional, 2),
+    shares: round(shares, 2),
+    avgPrice: avgPrice === null ? null : round(avgPrice),
+    slippageBps: slippageBps === null ? null : round(slippageBps, 2)
+  }
+}
+
+/**
+ * Shares and notional resting within `cents` of the mid on each side
+ */
+const depthBand = (bids: Level[], asks: Level[], mid: number, cents: number): DepthBand => {
+  // Small epsilon so a level exactly on the band edge is not lost to float error
+  const distance = cents / 100 + 1e-9
+  const within = (levels: Level[]) => levels.filter(level => Math.abs(level.price - mid) <= distance)
+  const sum = (levels: Level[], value: (level: Level) => number) =>
+    round(levels.reduce((total, level) => total + value(level), 0), 2)
+
+  const bidLevels = within(bids)
+  const askLevels = within(asks)
+
+  return {
+    cents,
+    bidSize: sum(bidLevels, level => level.size),
+    askSize: sum(askLevels, level => level.size),
+    bidNotional: sum(bidLevels, level => level.price * level.size),
+    askNotional: sum(askLevels, level => level.price * level.size)
+  }
+}
+
+/**
+ * Summarise an orderbook for one token
+ * Spread and depth need both sides; a one-sided book still reports its best price and slippage
+ */
+export function summarizeOrderbook(
+  book: Orderbook,
+  notional: number = DEFAULT_NOTIONAL,
+  timestamp: number = Date.now()
+): LiquiditySummary {
+  const bids = parseLevels(book.bids, 'bid')
+  const asks = parseLevels(book.asks, 'ask')
+  const bestBid = bids[0]?.price ?? null
+  const bestAsk = asks[0]?.price ?? null
+
+  const mid = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null
+  const spread = mid !== null ? bestAsk! - bestBid! : null
+
+  return {
+    tokenId: book.tokenId,
+    bestBid,
+    bestAsk,
+    mid: mid === null ? null : round(mid),
+    spread: spread === null ? null : round(spread),
+    spreadBps: mid ? round(spread! / mid * 10000, 2) : null,
+    depth: mid === null ? [] : DEPTH_BANDS_CENTS.map(cents => depthBand(bids, asks, mid, cents)),
+    slippage: [
+      estimateSlippage(book.asks, 'buy', notional),
+      estimateSlippage(book.bids, 'sell', notional)
+    ],
+    timestamp
+  }
+}
+
+/**
+ * Compact per-market figures shown as market list columns
+ */
+export const toLiquidityColumns = (summary: LiquiditySummary): LiquidityColumns => {
+  const band = summary.depth.find(depth => depth.cents === 2)
+
+  return {
+    spreadBps: summary.spreadBps,
+    depthNotional: band ? round(band.bidNotional + band.askNotional, 2) : 0,
+    slippageBps: summary.slippage.find(estimate => estimate.side === 'buy')?.slippageBps ?? null
+  }
+}
+
+/**
+ * Point-in-time figures kept in the orderbook history
+ */
+export const toBookSnapshot = (summary: LiquiditySummary): BookSnapshot => ({
+  t: Math.floor(summary.timestamp / 1000),
+  bestBid: summary.bestBid,
+  bestAsk: summary.bestAsk,
+  spreadBps: summary.spreadBps,
+  slippageBps: toLiquidityColumns(summary).slippageBps
+})
+
+/**
+ * Fetch orderbooks for several tokens, cached per token for 10s
+ * A failed fetch yields null so one bad book does not fail the caller
+ */
+export async function fetchOrderbooks(tokenIds: string[]): Promise<Map<string, Orderbook | null>> {
+  const books = new Map<string, Orderbook | null>()
+
+  await Promise.all(Array.from(new Set(tokenIds)).map(async tokenId => {
+    const cacheKey = `orderbook:${tokenId}`
+    const cached = cache.get<Orderbook>(cacheKey)
+    if (cached) {
+      books.set(tokenId, cached)
+      return
+    }
+
+    try {
+      const fetched = await opinionClient.getOrderbook(tokenId)
+      // The API does not always echo the token ID, key the book by the one requested
+      const book = fetched ? { ...fetched, tokenId } : null
+      if (book) {
+        cache.set(cacheKey, book, 10)
+      }
+      books.set(tokenId, book)
+    } catch (error) {
+      console.warn(`[Liquidity] Orderbook fetch failed for token ${tokenId}:`, error instanceof Error ? error.message : error)
+      books.set(tokenId, null)
+    }
+  }))
+
+  return books
+}
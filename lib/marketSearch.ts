@@ -0,0 +1,225 @@
+/**
+ * Server-side market search
+ * Tokenised title/rules matching, range filters, sorting and cursor pagination over the synced market set
+ */
+
+import { APIError, ErrorType, InputValidator } from './errorHandler'
+import { knownPrice } from './prices'
+import { Market, MarketWithPrices, PriceData } from './types'
+
+export type MarketSearchSort = 'relevance' | 'volume' | 'cutoff' | 'price'
+
+export interface MarketSearchParams {
+  q: string
+  marketType?: number
+  minVolume?: number
+  maxVolume?: number
+  cutoffFrom?: number // unix seconds, inclusive
+  cutoffTo?: number // unix seconds, inclusive
+  minPrice?: number // YES price 0-1
+  maxPrice?: number
+  sort: MarketSearchSort
+  order: 'asc' | 'desc'
+  limit: number
+  offset: number // decoded from the cursor
+}
+
+export interface MarketSearchResult extends MarketWithPrices {
+  score: number // relevance, 0 when no query
+}
+
+export interface MarketSearchResponse {
+  markets: MarketSearchResult[]
+  total: number
+  nextCursor: string | null
+  source: 'snapshot' | 'live'
+  snapshotAgeMs?: number
+}
+
+const SORT_KEYS: MarketSearchSort[] = ['relevance', 'volume', 'cutoff', 'price']
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 100
+
+// Title matches rank above rules matches, whole-word matches above prefix matches
+const TITLE_WEIGHT = 3
+const RULES_WEIGHT = 1
+const EXACT_BONUS = 1
+
+/**
+ * Lowercase alphanumeric tokens, deduplicated in order of appearance
+ */
+export const tokenize = (text: string | undefined | null): string[] => {
+  if (!text) return []
+  const tokens = text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g)
+  return tokens ? Array.from(new Set(tokens)) : []
+}
+
+/**
+ * Score a market against the query tokens
+ * Every query token must match (exactly or as a prefix) a title, outcome or rules token, otherwise 0
+ */
+export const scoreMarket = (market: Market, queryTokens: string[]): number => {
+  if (queryTokens.length === 0) return 0
+
+  const titleTokens = tokenize([
+    market.title,
+    ...(market.childMarkets || []).map(child => child.title)
+  ].join(' '))
+  const rulesTokens = tokenize(market.rules)
+
+  let score = 0
+  for (const queryToken of queryTokens) {
+    const tokenScore = Math.max(
+      matchScore(queryToken, titleTokens, TITLE_WEIGHT),
+      matchScore(queryToken, rulesTokens, RULES_WEIGHT)
+    )
+    if (tokenScore === 0) return 0
+    score += tokenScore
+  }
+
+  return score
+}
+
+const matchScore = (queryToken: string, tokens: string[], weight: number): number => {
+  if (tokens.includes(queryToken)) return weight + EXACT_BONUS
+  return tokens.some(token => token.startsWith(queryToken)) ? weight : 0
+}
+
+/**
+ * Stable signature of everything but the cursor, so a cursor cannot be replayed against other filters
+ */
+const paramsSignature = (params: MarketSearchParams): string => {
+  const { offset: _offset, limit: _limit, ...filters } = params
+  const json = JSON.stringify(filters)
+  let h = 2166136261
+  for (let i = 0; i < json.length; i++) {
+    h ^= json.charCodeAt(i)
+    h = Math.imul(h, 16777619)
+  }
+  return (h >>> 0).toString(36)
+}
+
+export const encodeSearchCursor = (params: MarketSearchParams, offset: number): string =>
+  Buffer.from(JSON.stringify({ o: offset, s: paramsSignature(params) })).toString('base64url')
+
+const decodeSearchCursor = (cursor: string, params: MarketSearchParams): number => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (Number.isInteger(decoded.o) && decoded.o >= 0 && decoded.s === paramsSignature(params)) {
+      return decoded.o
+    }
+  } catch {
+    // fall through to the validation error
+  }
+
+  throw new APIError(
+    'Invalid cursor. Cursors are only valid for the query that produced them',
+    ErrorType.VALIDATION,
+    400
+  )
+}
+
+/**
+ * Parse and validate search query parameters
+ * q, type (0|1), minVolume/maxVolume, cutoffFrom/cutoffTo (unix seconds), minPrice/maxPrice (0-1),
+ * sort (relevance|volume|cutoff|price), order (asc|desc), limit (1-100), cursor
+ */
+export function parseMarketSearchParams(searchParams: URLSearchParams): MarketSearchParams {
+  const q = (searchParams.get('q') || '').trim().slice(0, 200)
+
+  const marketType = InputValidator.validateMarketType(searchParams.get('type'))
+
+  const sortParam = (searchParams.get('sort') || '').trim().toLowerCase()
+  if (sortParam && !SORT_KEYS.includes(sortParam as MarketSearchSort)) {
+    throw new APIError(`Invalid sort parameter. Must be one of: ${SORT_KEYS.join(', ')}`, ErrorType.VALIDATION, 400)
+  }
+  const sort: MarketSearchSort = (sortParam as MarketSearchSort) || (q ? 'relevance' : 'volume')
+
+  const orderParam = (searchParams.get('order') || '').trim().toLowerCase()
+  if (orderParam && orderParam !== 'asc' && orderParam !== 'desc') {
+    throw new APIError('Invalid order parameter. Must be "asc" or "desc"', ErrorType.VALIDATION, 400)
+  }
+  const order = (orderParam as 'asc' | 'desc') || (sort === 'cutoff' ? 'asc' : 'desc')
+
+  const params: MarketSearchParams = {
+    q,
+    marketType,
+    minVolume: InputValidator.validateNumberRange(searchParams.get('minVolume'), 'minVolume', 0, Number.MAX_SAFE_INTEGER),
+    maxVolume: InputValidator.validateNumberRange(searchParams.get('maxVolume'), 'maxVolume', 0, Number.MAX_SAFE_INTEGER),
+    cutoffFrom: InputValidator.validateNumberRange(searchParams.get('cutoffFrom'), 'cutoffFrom', 0, Number.MAX_SAFE_INTEGER),
+    cutoffTo: InputValidator.validateNumberRange(searchParams.get('cutoffTo'), 'cutoffTo', 0, Number.MAX_SAFE_INTEGER),
+    minPrice: InputValidator.validateNumberRange(searchParams.get('minPrice'), 'minPrice', 0, 1),
+    maxPrice: InputValidator.validateNumberRange(searchParams.get('maxPrice'), 'maxPrice', 0, 1),
+    sort,
+    order,
+    limit: InputValidator.validateNumberRange(searchParams.get('limit'), 'limit', 1, MAX_LIMIT) ?? DEFAULT_LIMIT,
+    offset: 0
+  }
+  params.limit = Math.floor(params.limit)
+
+  const cursor = searchParams.get('cursor')
+  if (cursor) {
+    params.offset = decodeSearchCursor(cursor.trim(), params)
+  }
+
+  return params
+}
+
+const yesPriceOf = (market: Market, priceMap: Map<string, PriceData>): number | null =>
+  market.yesTokenId ? knownPrice(priceMap.get(market.yesTokenId)) : null
+
+/**
+ * Filter, score, sort and page markets
+ * Returns the matching page plus the total match count and the cursor for the next page
+ */
+export function searchMarkets(
+  markets: Market[],
+  priceMap: Map<string, PriceData>,
+  params: MarketSearchParams
+): { matches: Array<{ market: Market; score: number }>; total: number; nextCursor: string | null } {
+  const queryTokens = tokenize(params.q)
+
+  const matches = markets
+    .map(market => ({ market, score: scoreMarket(market, queryTokens), price: yesPriceOf(market, priceMap) }))
+    .filter(({ market, score, price }) => {
+      if (queryTokens.length > 0 && score === 0) return false
+      if (params.marketType !== undefined && (market.marketType || 0) !== params.marketType) return false
+
+      const volume = parseFloat(market.volume24h) || 0
+      if (params.minVolume !== undefined && volume < params.minVolume) return false
+      if (params.maxVolume !== undefined && volume > params.maxVolume) return false
+
+      if (params.cutoffFrom !== undefined && (!market.cutoffAt || market.cutoffAt < params.cutoffFrom)) return false
+      if (params.cutoffTo !== undefined && (!market.cutoffAt || market.cutoffAt > params.cutoffTo)) return false
+
+      // Markets without a YES price never satisfy a price filter
+      if (params.minPrice !== undefined && (price === null || price < params.minPrice)) return false
+      if (params.maxPrice !== undefined && (price === null || price > params.maxPrice)) return false
+
+      return true
+    })
+
+  const direction = params.order === 'asc' ? 1 : -1
+  const sortValue = (entry: typeof matches[number]): number => {
+    switch (params.sort) {
+      case 'relevance': return entry.score
+      case 'cutoff': return entry.market.cutoffAt || Number.MAX_SAFE_INTEGER
+      case 'price': return entry.price ?? -1
+      default: return parseFloat(entry.market.volume24h) || 0
+    }
+  }
+
+  // Ties fall back to volume then ID so pages stay stable between requests
+  matches.sort((a, b) =>
+    (sortValue(a) - sortValue(b)) * direction ||
+    (parseFloat(b.market.volume24h) || 0) - (parseFloat(a.market.volume24h) || 0) ||
+    a.market.id - b.market.id
+  )
+
+  const end = params.offset + params.limit
+  return {
+    matches: matches.slice(params.offset, end).map(({ market, score }) => ({ market, score })),
+    total: matches.length,
+    nextCursor: end < matches.length ? encodeSearchCursor(params, end) : null
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Market movers
+ * Ranks binary markets and categorical outcomes by their price move over a window, optionally normalised
+ * by each market's own volatility (z-score)
+ */
+
+import { redis, SeriesResolution } from './redis'
+import { priceAt } from './categorical'
+import { marketPrice, priceChangePct } from './utils'
+import { combinedPriceStatus, isKnownPrice } from './prices'
+import { Market, MarketMover, PriceData, PriceHistoryPoint } from './types'
+
+export interface MoverWindow {
+  seconds: number
+  lookbackSeconds: number // history read for the volatility estimate behind zScore
+  resolution: SeriesResolution // synced series tier to read
+  interval: '1h' | '1d' // Opinion history interval for the live fallback
+}
+
+export const MOVER_WINDOWS: Record<string, MoverWindow> = {
+  '15m': { seconds: 900, lookbackSeconds: 86400, resolution: '5m', interval: '1h' },
+  '1h': { seconds: 3600, lookbackSeconds: 86400, resolution: '5m', interval: '1h' },
+  '4h': { seconds: 4 * 3600, lookbackSeconds: 86400, resolution: '5m', interval: '1h' },
+  '24h': { seconds: 86400, lookbackSeconds: 7 * 86400, resolution: '1h', interval: '1d' },
+  '7d': { seconds: 7 * 86400, lookbackSeconds: 30 * 86400, resolution: '1h', interval: '1d' }
+}
+
+export type MoverDirection = 'all' | 'gainers' | 'losers' | 'absolute'
+export type MoverRank = 'change' | 'zscore'
+
+export interface MoverCandidate {
+  market: Market
+  parentMarketId?: number
+}
+
+export interface MoverFilters {
+  minVolume: number // volume24h in USD
+  minLiquidity: number // YES book notional within 2 cents of mid, USD
+}
+
+const round = (value: number, decimals: number = 4): number => Number(value.toFixed(decimals))
+
+const toPrice = (value: string | undefined): number | null => {
+  const price = parseFloat(value ?? '')
+  return Number.isFinite(price) && price >= 0 && price <= 1 ? price : null
+}
+
+const currentPrice = (priceData: PriceData | undefined): number | null =>
+  isKnownPrice(priceData) ? toPrice(priceData.price) : null
+
+/**
+ * Binary markets, plus the open outcomes of categorical parents when includeChildren is set
+ * Outcome titles are prefixed with the parent title so they read on their own
+ */
+export function collectMoverCandidates(
+  markets: Market[],
+  includeChildren: boolean,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): MoverCandidate[] {
+  return markets.flatMap<MoverCandidate>(market => {
+    const children = market.childMarkets || []
+    if (market.marketType !== 1 && children.length === 0) {
+      return market.yesTokenId ? [{ market }] : []
+    }
+    if (!includeChildren) {
+      return []
+    }
+
+    return children
+      .filter(child => child.yesTokenId && !(child.cutoffAt && child.cutoffAt <= nowSeconds))
+      .map(child => ({
+        market: { ...child, title: `${market.title}: ${child.title || child.yesLabel || `Outcome ${child.id}`}` },
+        parentMarketId: market.id
+      }))
+  })
+}
+
+/**
+ * Price at the start of the window; the oldest point stands in when the series starts later
+ */
+const windowStartPrice = (points: PriceHistoryPoint[], target: number): number | null => {
+  const price = priceAt(points, target)
+  if (price !== null || points.length === 0) {
+    return price
+  }
+  const oldest = points.reduce((first, point) => (point.t < first.t ? point : first))
+  return toPrice(oldest.p)
+}
+
+/**
+ * Typical price move over windowSeconds, from the spread of successive moves in the series
+ * Scales the per-step standard deviation by sqrt(window / step); null with fewer than 3 moves or a flat series
+ */
+export function windowVolatility(points: PriceHistoryPoint[], windowSeconds: number): number | null {
+  const series = points
+    .map(point => ({ t: point.t, p: toPrice(point.p) }))
+    .filter((point): point is { t: number; p: number } => point.p !== null)
+    .sort((a, b) => a.t - b.t)
+  if (series.length < 4) {
+    return null
+  }
+
+  const moves = series.slice(1).map((point, i) => point.p - series[i].p)
+  const mean = moves.reduce((sum, move) => sum + move, 0) / moves.length
+  const variance = moves.reduce((sum, move) => sum + (move - mean) ** 2, 0) / (moves.length - 1)
+  const step = (series[series.length - 1].t - series[0].t) / moves.length
+  if (variance <= 0 || step <= 0) {
+    return null
+  }
+
+  return Math.sqrt(variance) * Math.sqrt(windowSeconds / step)
+}
+
+/**
+ * Mover for one market, or null without a known current YES price; carried-over prices are flagged stale
+ * priceChangePct compares the market price (YES averaged with NO-as-YES) now and at the window start;
+ * zScore divides the YES move by the market's typical move over the same window
+ */
+export function computeMover(
+  candidate: MoverCandidate,
+  prices: Map<string, PriceData>,
+  history: Map<string, PriceHistoryPoint[]>,
+  windowSeconds: number,
+  nowSeconds: number,
+  depthNotional?: number
+): MarketMover | null {
+  const { market, parentMarketId } = candidate
+  const yesData = prices.get(market.yesTokenId)
+  const noData = prices.get(market.noTokenId)
+  const yesPrice = currentPrice(yesData)
+  if (yesPrice === null) {
+    return null
+  }
+  const noPrice = currentPrice(noData) ?? 1 - yesPrice
+  // A NO side derived from YES is flagged with the NO entry's error or missing status
+  const priceStatus = combinedPriceStatus([yesData, noData])
+
+  const target = nowSeconds - windowSeconds
+  const yesHistory = history.get(market.yesTokenId) || []
+  const pastYes = windowStartPrice(yesHistory, target) ?? yesPrice
+  const pastNo = windowStartPrice(history.get(market.noTokenId) || [], target) ?? 1 - pastYes
+
+  const currentMarketPrice = marketPrice(yesPrice, noPrice)
+  const volatility = windowVolatility(yesHistory, windowSeconds)
+
+  return {
+    marketId: market.id,
+    marketTitle: market.title,
+    marketPrice: currentMarketPrice,
+    priceChangePct: priceChangePct(currentMarketPrice, marketPrice(pastYes, pastNo)),
+    volume24h: market.volume24h,
+    yesTokenId: market.yesTokenId,
+    noTokenId: market.noTokenId,
+    yesPrice,
+    noPrice,
+    zScore: volatility ? round((yesPrice - pastYes) / volatility, 2) : null,
+    ...(priceStatus !== 'ok' && { priceStatus }),
+    ...(parentMarketId !== undefined && { parentMarketId }),
+    ...(depthNotional !== undefined && { depthNotional })
+  }
+}
+
+/**
+ * Drop movers below the volume or liquidity floor; a liquidity floor excludes movers without a book summary
+ */
+export const filterMovers = (movers: MarketMover[], filters: MoverFilters): MarketMover[] =>
+  movers.filter(mover => {
+    if ((parseFloat(mover.volume24h) || 0) < filters.minVolume) return false
+    if (filters.minLiquidity > 0 && (mover.depthNotional ?? 0) < filters.minLiquidity) return false
+    return true
+  })
+
+/**
+ * Order movers by signed change ('all'), rises only, falls only (largest fall first) or absolute size
+ * rank 'zscore' orders by zScore instead and drops movers without a volatility estimate; volume breaks ties
+ */
+export function rankMovers(movers: MarketMover[], direction: MoverDirection, rank: MoverRank): MarketMover[] {
+  const score = (mover: MarketMover): number | null => (rank === 'zscore' ? mover.zScore ?? null : mover.priceChangePct)
+
+  const scored = movers.filter(mover => {
+    const value = score(mover)
+    if (value === null) return false
+    if (direction === 'gainers') return value > 0
+    if (direction === 'losers') return value < 0
+    return true
+  })
+
+  const key = (mover: MarketMover): number => {
+    const value = score(mover) as number
+    if (direction === 'losers') return -value
+    if (direction === 'absolute') return Math.abs(value)
+    return value
+  }
+
+  return scored.sort((a, b) => {
+    if (key(a) !== key(b)) {
+      return key(b) - key(a)
+    }
+    return (parseFloat(b.volume24h) || 0) - (parseFloat(a.volume24h) || 0)
+  })
+}
+
+/**
+ * Synced series for the mover tokens over the window's volatility lookback; empty without Redis
+ */
+export async function loadMoverHistory(
+  tokenIds: string[],
+  moverWindow: MoverWindow,
+  nowSeconds: number
+): Promise<Map<string, PriceHistoryPoint[]>> {
+  const client = redis.client
+  if (!client || tokenIds.length === 0) {
+    return new Map()
+  }
+
+  try {
+    return await client.getPriceSeriesBatch(tokenIds, {
+      from: nowSeconds - moverWindow.lookbackSeconds,
+      resolution: moverWindow.resolution
+    })
+  } catch (error) {
+    console.warn('[Movers] Price series read failed:', error instanceof Error ? error.message : error)
+    return new Map()
+  }
+}
@@ -1,7 +1,88 @@
 import pLimit from 'p-limit'
-import { Market, PriceData, PriceHistoryPoint, UserPosition } from './types'
+import { Market, MarketPage, Orderbook, PriceData, PriceHistoryPoint, Trade, TradePage, UserPosition } from './types'
 import { getConfig } from './config'
 import { rateLimiter, ExponentialBackoff } from './rateLimiter'
+import { unknownPrice } from './prices'
+import { InputValidator } from './errorHandler'
+import {
+  apiErrorOf,
+  ChildMarketItem,
+  ListPageSchema,
+  LatestPriceSchema,
+  MarketDetailSchema,
+  MarketItem,
+  MarketPageSchema,
+  MarketSchema,
+  OrderbookSchema,
+  PositionSchema,
+  PriceHistorySchema,
+  TradeItem,
+  TradeSchema,
+  validateItems,
+  validateResponse
+} from './opinionSchemas'
+
+const toChildMarket = (child: ChildMarketItem): Market => ({
+  id: child.marketId,
+  title: child.marketTitle,
+  yesTokenId: child.yesTokenId,
+  noTokenId: child.noTokenId,
+  cutoffAt: child.cutoffAt || 0,
+  status: child.statusEnum || 'unknown',
+  volume24h: child.volume || '0',
+  marketType: 0,
+  questionId: child.questionId,
+  rules: child.rules,
+  yesLabel: child.yesLabel,
+  noLabel: child.noLabel,
+  resultTokenId: child.resultTokenId || undefined,
+  resolvedAt: child.resolvedAt || undefined
+})
+
+/**
+ * Validated market (list item or detail) to the internal Market shape
+ */
+const toMarket = (item: MarketItem, isCategorical: boolean = false): Market => ({
+  id: item.marketId,
+  title: item.marketTitle,
+  yesTokenId: item.yesTokenId || '',
+  noTokenId: item.noTokenId || '',
+  cutoffAt: item.cutoffAt || 0,
+  status: String(item.statusEnum ?? item.status ?? 'unknown'),
+  volume24h: item.volume24h || '0',
+  marketType: item.marketType || (isCategorical ? 1 : 0),
+  questionId: item.questionId,
+  rules: item.rules,
+  yesLabel: item.yesLabel,
+  noLabel: item.noLabel,
+  resultTokenId: item.resultTokenId || undefined,
+  resolvedAt: item.resolvedAt || undefined,
+  childMarkets: (item.childMarkets || []).map(toChildMarket)
+})
+
+/**
+ * Validated trade to the internal Trade shape; times arrive in seconds or ms
+ */
+const toTrade = (item: TradeItem, marketId?: number): Trade => {
+  const price = parseFloat(item.price)
+  const shares = parseFloat(item.shares)
+  const timestamp = item.createdAt < 1e12 ? item.createdAt * 1000 : item.createdAt
+  const side = String(item.side).toLowerCase()
+
+  return {
+    id: String(item.txHash || item.tradeId || `${item.marketId ?? marketId}:${timestamp}:${side}:${shares}:${price}`),
+    marketId: item.marketId ?? marketId ?? 0,
+    tokenId: item.tokenId || '',
+    outcome: item.outcome || (item.outcomeSide === 1 ? 'YES' : item.outcomeSide === 2 ? 'NO' : ''),
+    side: side === 'sell' || side === '2' ? 'sell' : 'buy',
+    price,
+    shares,
+    notional: item.usdAmount !== undefined ? parseFloat(item.usdAmount) : Number((price * shares).toFixed(6)),
+    fee: item.fee !== undefined ? parseFloat(item.fee) : 0,
+    wallet: item.userAddress || undefined,
+    timestamp
+  }
+}
 
 /**
  * Opinion API Client for interacting with Opinion OpenAPI
@@ -113,12 +194,13 @@ export class OpinionClient {
    * Get paginated markets with rate limiting
    * Maps Opinion API response to internal Market interface
    * Returns empty array on failure - no fallback data
+   * failed is set when an upstream page failed or markets were dropped by validation, so the result is partial
    * 
    * API Documentation: GET /market?status=activated&limit=20&page=1&sortBy=3
    * Response: { code: 0, msg: "success", result: { total: number, list: Market[] } }
    * sortBy: 3 = volume desc (default per requirements)
    */
-  async getMarkets(page: number = 1, sortBy: number = 3, limit: number = 50): Promise<{ markets: Market[], total: number }> {
+  async getMarkets(page: number = 1, sortBy: number = 3, limit: number = 50): Promise<MarketPage> {
     try {
       // Opinion API returns only 2 markets per page regardless of limit parameter
       // To get 50 markets, we need to fetch 25 pages in parallel
@@ -131,7 +213,7 @@ export class OpinionClient {
       // Fetch multiple pages in parallel
       const pageRequests = Array.from({ length: pagesToFetch }, (_, i) => 
         ExponentialBackoff.executeWithBackoff(
-          () => this.makeRequest<any>('/market', {
+          () => this.makeRequest<unknown>('/market', {
             status: 'activated',
             limit: String(ITEMS_PER_PAGE),
             page: String(startPage + i),
@@ -148,88 +230,56 @@ export class OpinionClient {
       const responses = await Promise.all(pageRequests)
       
       // Parse and validate each response
-      const parseResponse = (response: any, pageNum: number) => {
+      const parseResponse = (response: unknown, pageNum: number) => {
         if (!response) {
           console.log(`[OpinionClient] Page ${pageNum}: NULL response`)
-          return { markets: [], total: 0 }
-        }
-        
-        if (response.code !== undefined && response.code !== 0) {
-          console.log(`[OpinionClient] Page ${pageNum}: Error code ${response.code}`)
-          return { markets: [], total: 0 }
+          return { markets: [], total: 0, failed: true }
         }
-        
-        if (response.errno !== undefined && response.errno !== 0) {
-          console.log(`[OpinionClient] Page ${pageNum}: Error errno ${response.errno}`)
-          return { markets: [], total: 0 }
+
+        const apiError = apiErrorOf(response)
+        if (apiError) {
+          console.log(`[OpinionClient] Page ${pageNum}: Error ${apiError}`)
+          return { markets: [], total: 0, failed: true }
         }
-        
-        if (!response.result || !Array.isArray(response.result.list)) {
-          console.log(`[OpinionClient] Page ${pageNum}: No result.list array`)
-          return { markets: [], total: 0 }
+
+        const page = validateResponse('markets', MarketPageSchema, response)
+        if (!page) {
+          return { markets: [], total: 0, failed: true }
         }
 
-        const total = response.result.total || 0
-        const listLength = response.result.list.length
-        console.log(`[OpinionClient] Page ${pageNum}: ${listLength} markets in list`)
-        
-        const markets = response.result.list.map((market: any) => ({
-          id: market.marketId || market.id || 0,
-          title: market.marketTitle || market.title || '',
-          yesTokenId: market.yesTokenId || '',
-          noTokenId: market.noTokenId || '',
-          cutoffAt: market.cutoffAt || 0,
-          status: market.statusEnum || market.status || 'unknown',
-          volume24h: market.volume24h || '0',
-          marketType: market.marketType || 0,
-          questionId: market.questionId,
-          rules: market.rules,
-          yesLabel: market.yesLabel,
-          noLabel: market.noLabel,
-          childMarkets: market.childMarkets ? market.childMarkets.map((cm: any) => ({
-            id: cm.marketId,
-            title: cm.marketTitle,
-            yesTokenId: cm.yesTokenId,
-            noTokenId: cm.noTokenId,
-            cutoffAt: cm.cutoffAt,
-            status: cm.statusEnum,
-            volume24h: cm.volume,
-            marketType: 0,
-            questionId: cm.questionId,
-            rules: cm.rules,
-            yesLabel: cm.yesLabel,
-            noLabel: cm.noLabel
-          })) : []
-        }))
-
-        return { markets, total }
+        const markets = validateItems('markets', MarketSchema, page.result.list).map(item => toMarket(item))
+        console.log(`[OpinionClient] Page ${pageNum}: ${markets.length} of ${page.result.list.length} markets valid`)
+
+        return { markets, total: page.result.total || 0, failed: markets.length < page.result.list.length }
       }
 
       // Combine all results
       const allMarkets: Market[] = []
       let totalCount = 0
+      let failed = false
 
       for (let i = 0; i < responses.length; i++) {
         const parsed = parseResponse(responses[i], startPage + i)
         allMarkets.push(...parsed.markets)
+        failed = failed || parsed.failed
         if (parsed.total > totalCount) {
           totalCount = parsed.total
         }
       }
 
-      console.log(`[OpinionClient] Successfully fetched ${allMarkets.length} markets from ${pagesToFetch} pages (total available: ${totalCount})`)
+      console.log(`[OpinionClient] ${failed ? 'Partially fetched' : 'Successfully fetched'} ${allMarkets.length} markets from ${pagesToFetch} pages (total available: ${totalCount})`)
 
-      return { markets: allMarkets, total: totalCount }
+      return { markets: allMarkets, total: totalCount, failed }
     } catch (error) {
       console.error('[OpinionClient] Failed to fetch markets:', error)
-      return { markets: [], total: 0 }
+      return { markets: [], total: 0, failed: true }
     }
   }
 
   /**
    * Get latest price for a specific token with rate limiting
    * Returns current price data with timestamp
-   * Returns zero price on failure - no fallback data
+   * On failure the price is a '0' placeholder with status error (or missing when there is no result)
    * 
    * API Documentation: GET /token/latest-price?token_id={id}
    * Response: { code: 0, result: { tokenId, price, timestamp } }
@@ -237,46 +287,41 @@ export class OpinionClient {
   async getLatestPrice(tokenId: string): Promise<PriceData> {
     try {
       // Fix: Use correct endpoint /token/latest-price?token_id={id}
-      const response = await this.makeRequest<any>('/token/latest-price', { token_id: tokenId })
+      const response = await this.makeRequest<unknown>('/token/latest-price', { token_id: tokenId })
 
       if (!response) {
         console.warn(`[OpinionClient] Empty response for token ${tokenId} price`)
-        return { tokenId, price: '0', timestamp: Date.now() }
+        return unknownPrice(tokenId, 'missing')
       }
 
-      // Checking for price=0 case specifically
-      if (response && response.result && (response.result.price === '0' || response.result.price === 0)) {
-        console.log(`[OpinionClient] Token ${tokenId} has explicit 0 price from API.`)
+      // Check for API-level errors (code !== 0 means error per API documentation)
+      const apiError = apiErrorOf(response)
+      if (apiError) {
+        console.warn(`[OpinionClient] API returned error for token ${tokenId} price: ${apiError}`)
+        return unknownPrice(tokenId, 'error')
       }
 
-      // Check for API-level errors (code !== 0 means error per API documentation)
-      if (response.code !== undefined && response.code !== 0) {
-        console.warn(`[OpinionClient] API returned error for token ${tokenId} price: code=${response.code}, msg=${response.msg || response.errmsg || ''}`)
-        return { tokenId, price: '0', timestamp: Date.now() }
+      // A successful call without a result means the token has no price yet
+      const { result } = response as { result?: unknown }
+      if (result === undefined || result === null) {
+        return unknownPrice(tokenId, 'missing')
       }
 
       // Data is in result according to documentation: { code: 0, result: { tokenId, price, side, size, timestamp } }
-      if (!response.result) {
-        console.warn(`[OpinionClient] No result field in price response for token ${tokenId}:`, response)
-        return { tokenId, price: '0', timestamp: Date.now() }
+      const parsed = validateResponse('latestPrice', LatestPriceSchema, response)
+      if (!parsed) {
+        return unknownPrice(tokenId, 'error')
       }
 
-      const priceData = response.result
-      const parsedPrice = priceData.price || '0'
-      const parsedTimestamp = priceData.timestamp || Date.now()
-
+      const { price, timestamp } = parsed.result
       if (this.shouldLog) {
-        console.log(`[OpinionClient] Successfully fetched price for token ${tokenId}: ${parsedPrice} at ${new Date(parsedTimestamp).toISOString()}`)
+        console.log(`[OpinionClient] Successfully fetched price for token ${tokenId}: ${price} at ${new Date(timestamp).toISOString()}`)
       }
 
-      return {
-        tokenId,
-        price: parsedPrice,
-        timestamp: parsedTimestamp,
-      }
+      return { tokenId, price, timestamp, status: 'ok', source: 'live' }
     } catch (error) {
       console.error(`[OpinionClient] Failed to fetch price for token ${tokenId}:`, error)
-      return { tokenId, price: '0', timestamp: Date.now() }
+      return unknownPrice(tokenId, 'error')
     }
   }
 
@@ -346,7 +391,7 @@ export class OpinionClient {
       // Return partial results with fallback data for failed requests
       tokenIds.forEach(tokenId => {
         if (!priceMap.has(tokenId)) {
-          priceMap.set(tokenId, { tokenId, price: '0', timestamp: Date.now() })
+          priceMap.set(tokenId, unknownPrice(tokenId, 'error'))
         }
       })
       
@@ -358,58 +403,55 @@ export class OpinionClient {
    * Get price history for a specific token with rate limiting
    * Returns array of historical price points
    * Returns empty array on failure - no fallback data
-   * 
-   * API Documentation: GET /token/price-history?token_id={id}&interval={1h|1d}
-   * Response: { code: 0, result: { history: PricePoint[] } }
    */
   async getPriceHistory(tokenId: string, interval: string = '1h'): Promise<PriceHistoryPoint[]> {
     try {
-      // Fix: Use correct endpoint /token/price-history?token_id={id}&interval={1h|1d}
-      const response = await this.makeRequest<any>('/token/price-history', {
-        token_id: tokenId,
-        interval: interval
-      })
-
-      if (!response) {
-        console.warn(`[OpinionClient] Empty response for token ${tokenId} price history`)
-        return []
-      }
-
-      // Check for API-level errors (code !== 0 means error per API documentation)
-      if (response.code !== undefined && response.code !== 0) {
-        console.warn(`[OpinionClient] API returned error for token ${tokenId} price history: code=${response.code}, msg=${response.msg || response.errmsg || ''}`)
-        return []
-      }
+      return await this.fetchPriceHistory(tokenId, interval)
+    } catch (error) {
+      console.error(`[OpinionClient] Failed to fetch price history for token ${tokenId}:`, error)
+      return []
+    }
+  }
 
-      // Data is in result.history according to documentation: { code: 0, result: { history: [{ t, p }] } }
-      if (!response.result) {
-        console.warn(`[OpinionClient] No result field in price history response for token ${tokenId}:`, response)
-        return []
-      }
+  /**
+   * Get price history for a specific token, throwing on request and API errors
+   * Used where a failed fetch must be told apart from a token without history
+   * 
+   * API Documentation: GET /token/price-history?token_id={id}&interval={1h|1d}
+   * Response: { code: 0, result: { history: PricePoint[] } }
+   */
+  async fetchPriceHistory(tokenId: string, interval: string = '1h'): Promise<PriceHistoryPoint[]> {
+    // Fix: Use correct endpoint /token/price-history?token_id={id}&interval={1h|1d}
+    const response = await this.makeRequest<unknown>('/token/price-history', {
+      token_id: tokenId,
+      interval: interval
+    })
 
-      if (!Array.isArray(response.result.history)) {
-        console.warn(`[OpinionClient] result.history is not an array for token ${tokenId}:`, {
-          result: response.result,
-          historyType: typeof response.result.history
-        })
-        return []
-      }
+    if (!response) {
+      console.warn(`[OpinionClient] Empty response for token ${tokenId} price history`)
+      return []
+    }
 
-      console.log(`[OpinionClient] Successfully fetched ${response.result.history.length} price history points for token ${tokenId}`)
+    // Check for API-level errors (code !== 0 means error per API documentation)
+    const apiError = apiErrorOf(response)
+    if (apiError) {
+      throw new Error(`API returned error for token ${tokenId} price history: ${apiError}`)
+    }
 
-      return response.result.history.map((point: any) => ({
-        t: point.t || point.timestamp || 0,
-        p: point.p || point.price || '0',
-      }))
-    } catch (error) {
-      console.error(`[OpinionClient] Failed to fetch price history for token ${tokenId}:`, error)
+    // Data is in result.history according to documentation: { code: 0, result: { history: [{ t, p }] } }
+    const parsed = validateResponse('priceHistory', PriceHistorySchema, response)
+    if (!parsed) {
       return []
     }
+
+    console.log(`[OpinionClient] Successfully fetched ${parsed.result.history.length} price history points for token ${tokenId}`)
+
+    return parsed.result.history
   }
 
   /**
-   * Get user positions for a wallet address
-   * Frontend-facing helper: returns [] on failure to avoid breaking UI flows
+   * Get user positions for a wallet address, throwing on request and API errors
+   * so a failed fetch is not read as an empty wallet
    * 
    * API Response structure:
    * {
@@ -422,56 +464,98 @@ export class OpinionClient {
    * }
    */
   async getUserPositions(walletAddress: string): Promise<UserPosition[]> {
-    try {
-      const response = await this.makeRequest<any>(`/positions/user/${walletAddress}`)
+    const response = await this.makeRequest<unknown>(`/positions/user/${walletAddress}`)
 
-      // Handle Opinion API response structure: { errmsg, errno, result: { total, list } }
-      if (!response) {
-        console.warn(`[OpinionClient] Empty response for positions of ${walletAddress}`)
-        return []
-      }
+    // Handle Opinion API response structure: { errmsg, errno, result: { total, list } }
+    if (!response) {
+      throw new Error(`Empty response for positions of ${walletAddress}`)
+    }
 
-      // Check for API-level errors
-      // Note: Positions endpoint uses errno (not code) based on actual API response
-      if (response.errno !== undefined && response.errno !== 0) {
-        console.warn(`[OpinionClient] API returned error for positions: errno=${response.errno}, errmsg=${response.errmsg || ''}`)
-        return []
-      }
+    // Check for API-level errors
+    // Note: Positions endpoint uses errno (not code) based on actual API response
+    const apiError = apiErrorOf(response)
+    if (apiError) {
+      throw new Error(`API returned error for positions of ${walletAddress}: ${apiError}`)
+    }
 
-      // Also check code field if present
-      if (response.code !== undefined && response.code !== 0) {
-        console.warn(`[OpinionClient] API returned error for positions: code=${response.code}, errmsg=${response.errmsg || ''}`)
-        return []
-      }
+    // Positions are validated one by one so a single drifted entry does not hide the rest
+    const page = validateResponse('positions', ListPageSchema, response)
+    if (!page) {
+      throw new Error(`Unreadable positions response for ${walletAddress}`)
+    }
 
-      // Extract positions from result.list
-      if (response.result && Array.isArray(response.result.list)) {
-        console.log(`[OpinionClient] Successfully fetched ${response.result.list.length} positions (total: ${response.result.total})`)
-        return response.result.list
+    const positions = validateItems('positions', PositionSchema, page.result.list)
+    console.log(`[OpinionClient] Successfully fetched ${positions.length} positions (total: ${page.result.total ?? positions.length})`)
+    return positions
+  }
+
+  /**
+   * Get recent trades (fills) in a market, newest first
+   * Returns an empty page on failure - no fallback data
+   *
+   * API Documentation: GET /trade/market/{marketId}?page=1&limit=20
+   * Response: { errno: 0, result: { total: number, list: Trade[] } }
+   */
+  async getMarketTrades(marketId: number, page: number = 1, limit: number = 20): Promise<TradePage> {
+    return this.fetchTradePage(`/trade/market/${marketId}`, { page: String(page), limit: String(limit) }, page, limit, marketId)
+  }
+
+  /**
+   * Get the trade (order fill) history of a wallet, newest first, optionally for one market
+   * Throws on a malformed wallet address; returns an empty page on upstream failure - no fallback data
+   *
+   * API Documentation: GET /trade/user/{walletAddress}?page=1&limit=20&marketId={id}
+   * Response: { errno: 0, result: { total: number, list: Trade[] } }
+   */
+  async getUserTrades(walletAddress: string, page: number = 1, limit: number = 20, marketId?: number): Promise<TradePage> {
+    const address = InputValidator.validateAddress(walletAddress, 'walletAddress')
+    const params: Record<string, string> = { page: String(page), limit: String(limit) }
+    if (marketId !== undefined) {
+      params.marketId = String(marketId)
+    }
+    return this.fetchTradePage(`/trade/user/${encodeURIComponent(address)}`, params, page, limit, marketId)
+  }
+
+  /**
+   * Shared request and parsing for the paginated trade endpoints
+   */
+  private async fetchTradePage(
+    endpoint: string,
+    params: Record<string, string>,
+    page: number,
+    limit: number,
+    marketId?: number
+  ): Promise<TradePage> {
+    const empty: TradePage = { trades: [], total: 0, page, limit }
+
+    try {
+      const response = await this.makeRequest<unknown>(endpoint, params)
+
+      if (!response) {
+        console.warn(`[OpinionClient] Empty response for ${endpoint}`)
+        return empty
       }
 
-      // Fallback: try direct array or data property (for backwards compatibility)
-      if (Array.isArray(response)) {
-        return response
+      // Trade endpoints report errors through errno like the positions endpoint
+      const apiError = apiErrorOf(response)
+      if (apiError) {
+        console.warn(`[OpinionClient] API returned error for ${endpoint}: ${apiError}`)
+        return empty
       }
 
-      if (response.data && Array.isArray(response.data)) {
-        return response.data
+      const parsed = validateResponse('trades', ListPageSchema, response)
+      if (!parsed) {
+        return empty
       }
 
-      console.warn(`[OpinionClient] Unexpected response structure for positions:`, response)
-      return []
-    } catch (error) {
-      // Log detailed error information
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      console.error(`[OpinionClient] Failed to fetch user positions for ${walletAddress}:`, {
-        error: errorMessage,
-        endpoint: `/positions/user/${walletAddress}`,
-        baseUrl: this.baseUrl
-      })
+      const trades = validateItems('trades', TradeSchema, parsed.result.list)
+        .map(item => toTrade(item, marketId))
+        .filter(trade => trade.shares > 0)
 
-      // Return empty array to keep UI functional
-      return []
+      return { trades, total: parsed.result.total ?? trades.length, page, limit }
+    } catch (error) {
+      console.error(`[OpinionClient] Failed to fetch trades from ${endpoint}:`, error)
+      return empty
     }
   }
 
@@ -493,43 +577,21 @@ export class OpinionClient {
         ? `/market/categorical/${marketId}`
         : `/market/${marketId}`
 
-      const response = await this.makeRequest<any>(endpoint)
+      const response = await this.makeRequest<unknown>(endpoint)
 
-      if (!response || !response.result || !response.result.data) {
-        console.warn(`[OpinionClient] Empty response for market detail ${marketId}. Raw:`, JSON.stringify(response))
+      if (!response) {
+        console.warn(`[OpinionClient] Empty response for market detail ${marketId}`)
         return null
       }
 
-      const data = response.result.data
-
-      return {
-        id: data.marketId || data.id || 0,
-        title: data.marketTitle || data.title || '',
-        yesTokenId: data.yesTokenId || '',
-        noTokenId: data.noTokenId || '',
-        cutoffAt: data.cutoffAt || 0,
-        status: data.statusEnum || data.status || 'unknown',
-        volume24h: data.volume24h || '0',
-        marketType: data.marketType || (isCategorical ? 1 : 0),
-        questionId: data.questionId,
-        rules: data.rules,
-        yesLabel: data.yesLabel,
-        noLabel: data.noLabel,
-        childMarkets: data.childMarkets ? data.childMarkets.map((cm: any) => ({
-          id: cm.marketId,
-          title: cm.marketTitle,
-          yesTokenId: cm.yesTokenId,
-          noTokenId: cm.noTokenId,
-          cutoffAt: cm.cutoffAt,
-          status: cm.statusEnum,
-          volume24h: cm.volume,
-          marketType: 0,
-          questionId: cm.questionId,
-          rules: cm.rules,
-          yesLabel: cm.yesLabel,
-          noLabel: cm.noLabel
-        })) : []
+      const apiError = apiErrorOf(response)
+      if (apiError) {
+        console.warn(`[OpinionClient] API returned error for market detail ${marketId}: ${apiError}`)
+        return null
       }
+
+      const parsed = validateResponse('marketDetail', MarketDetailSchema, response)
+      return parsed ? toMarket(parsed.result.data, isCategorical) : null
     } catch (error) {
       console.error(`[OpinionClient] Failed to fetch market detail for ${marketId}:`, error)
       return null
@@ -539,21 +601,33 @@ export class OpinionClient {
   /**
    * Get orderbook for a specific token
    */
-  async getOrderbook(tokenId: string): Promise<import('./types').Orderbook | null> {
+  async getOrderbook(tokenId: string): Promise<Orderbook | null> {
     try {
-      const response = await this.makeRequest<any>('/token/orderbook', { token_id: tokenId })
+      const response = await this.makeRequest<unknown>('/token/orderbook', { token_id: tokenId })
 
-      if (!response || !response.result) {
+      if (!response) {
         console.warn(`[OpinionClient] Empty response for orderbook ${tokenId}`)
         return null
       }
 
+      const apiError = apiErrorOf(response)
+      if (apiError) {
+        console.warn(`[OpinionClient] API returned error for orderbook ${tokenId}: ${apiError}`)
+        return null
+      }
+
+      const parsed = validateResponse('orderbook', OrderbookSchema, response)
+      if (!parsed) {
+        return null
+      }
+
+      const { market, timestamp, bids, asks } = parsed.result
       return {
-        market: response.result.market,
-        tokenId: response.result.tokenId,
-        timestamp: response.result.timestamp,
-        bids: Array.isArray(response.result.bids) ? response.result.bids : [],
-        asks: Array.isArray(response.result.asks) ? response.result.asks : []
+        market: market || '',
+        tokenId: parsed.result.tokenId || tokenId,
+        timestamp: timestamp || Date.now(),
+        bids,
+        asks
       }
     } catch (error) {
       console.error(`[OpinionClient] Failed to fetch orderbook for ${tokenId}:`, error)
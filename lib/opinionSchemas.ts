@@ -0,0 +1,253 @@
+/**
+ * Opinion API response schemas
+ * Every OpinionClient response is validated here at the client boundary. Violations are counted per
+ * endpoint, logged once per offending path with the shape of the payload, and served by /api/diagnostics
+ * so upstream changes show up as schema errors instead of zero prices
+ */
+
+import { z } from 'zod'
+import { numeric, optional, safeParse } from './schema'
+import { EndpointSchemaStats, SchemaViolationSample } from './types'
+
+export const OPINION_ENDPOINTS = [
+  'markets',
+  'marketDetail',
+  'latestPrice',
+  'priceHistory',
+  'orderbook',
+  'positions',
+  'trades'
+] as const
+export type OpinionEndpoint = typeof OPINION_ENDPOINTS[number]
+
+const MAX_SAMPLES = 5 // per endpoint, newest kept
+const MAX_SAMPLE_LENGTH = 500
+const MAX_SAMPLE_DEPTH = 6
+
+// Envelope fields shared by every endpoint: code (most endpoints) or errno (positions, trades)
+const status = {
+  code: optional(z.number()),
+  errno: optional(z.number()),
+  msg: optional(z.string()),
+  errmsg: optional(z.string())
+}
+
+const envelope = <S extends z.ZodType>(result: S) => z.object({ ...status, result })
+
+/**
+ * Status part of any response, to tell API errors apart from schema drift
+ */
+export const ApiStatusSchema = z.object(status)
+
+const childMarketFields = {
+  marketId: z.number(),
+  marketTitle: z.string(),
+  yesTokenId: z.string(),
+  noTokenId: z.string(),
+  cutoffAt: optional(z.number()),
+  statusEnum: optional(z.string()),
+  volume: optional(numeric()),
+  questionId: optional(z.string()),
+  rules: optional(z.string()),
+  yesLabel: optional(z.string()),
+  noLabel: optional(z.string()),
+  resultTokenId: optional(z.string()),
+  resolvedAt: optional(z.number())
+}
+
+export const ChildMarketSchema = z.object(childMarketFields)
+
+// Categorical parents have no tokens of their own; resultTokenId and resolvedAt come with details only
+export const MarketSchema = z.object({
+  marketId: z.number(),
+  marketTitle: z.string(),
+  yesTokenId: optional(z.string()),
+  noTokenId: optional(z.string()),
+  cutoffAt: optional(z.number()),
+  statusEnum: optional(z.string()),
+  status: optional(z.union([z.string(), z.number()])),
+  volume24h: optional(numeric()),
+  marketType: optional(z.number()),
+  questionId: optional(z.string()),
+  rules: optional(z.string()),
+  yesLabel: optional(z.string()),
+  noLabel: optional(z.string()),
+  resultTokenId: optional(z.string()),
+  resolvedAt: optional(z.number()),
+  childMarkets: optional(z.array(ChildMarketSchema))
+})
+
+// List items are validated one by one so a single drifted market does not drop the page
+export const MarketPageSchema = envelope(z.object({ total: optional(z.number()), list: z.array(z.unknown()) }))
+export const MarketDetailSchema = envelope(z.object({ data: MarketSchema }))
+
+export const LatestPriceSchema = envelope(z.object({
+  tokenId: optional(z.string()),
+  price: numeric(),
+  side: optional(z.string()),
+  size: optional(numeric()),
+  timestamp: z.number()
+}))
+
+export const PriceHistorySchema = envelope(z.object({
+  history: z.array(z.object({ t: z.number(), p: numeric() }))
+}))
+
+const OrderbookLevelSchema = z.object({ price: numeric(), size: numeric() })
+
+export const OrderbookSchema = envelope(z.object({
+  market: optional(z.string()),
+  tokenId: optional(z.string()),
+  timestamp: optional(z.number()),
+  bids: z.array(OrderbookLevelSchema),
+  asks: z.array(OrderbookLevelSchema)
+}))
+
+export const PositionSchema = z.object({
+  tokenId: z.string(),
+  marketId: z.number(),
+  marketTitle: z.string(),
+  rootMarketTitle: optional(z.string()),
+  outcome: z.enum(['YES', 'NO']),
+  sharesOwned: numeric(),
+  sharesFrozen: optional(numeric()),
+  averageCost: numeric(),
+  currentValueInQuoteToken: numeric(),
+  unrealizedPnl: numeric(),
+  unrealizedPnlPercent: numeric()
+})
+
+export const TradeSchema = z.object({
+  txHash: optional(z.string()),
+  tradeId: optional(z.union([z.string(), z.number()])),
+  marketId: optional(z.number()),
+  tokenId: optional(z.string()),
+  side: z.union([z.string(), z.number()]),
+  outcome: optional(z.string()),
+  outcomeSide: optional(z.number()),
+  price: numeric(),
+  shares: numeric(),
+  usdAmount: optional(numeric()),
+  fee: optional(numeric()),
+  userAddress: optional(z.string()),
+  createdAt: z.number() // seconds or ms
+})
+
+// Positions and trades share the paginated list envelope
+export const ListPageSchema = envelope(z.object({ total: optional(z.number()), list: z.array(z.unknown()) }))
+
+export type MarketItem = z.infer<typeof MarketSchema>
+export type ChildMarketItem = z.infer<typeof ChildMarketSchema>
+export type PositionItem = z.infer<typeof PositionSchema>
+export type TradeItem = z.infer<typeof TradeSchema>
+
+interface EndpointCounters {
+  validated: number
+  violations: number
+  lastViolationAt: number | null
+  samples: SchemaViolationSample[]
+  loggedPaths: Set<string>
+}
+
+const counters = new Map<OpinionEndpoint, EndpointCounters>()
+let countingSince = Date.now()
+
+const countersFor = (endpoint: OpinionEndpoint): EndpointCounters => {
+  let entry = counters.get(endpoint)
+  if (!entry) {
+    entry = { validated: 0, violations: 0, lastViolationAt: null, samples: [], loggedPaths: new Set() }
+    counters.set(endpoint, entry)
+  }
+  return entry
+}
+
+/**
+ * Field paths and value types of a payload, with the values themselves left out: responses carry wallet
+ * addresses and positions, and the samples are served by an unauthenticated endpoint
+ * Arrays show their length and the shape of their first item
+ */
+const shapeOf = (value: unknown, depth: number = 0): unknown => {
+  if (Array.isArray(value)) {
+    return value.length > 0 && depth < MAX_SAMPLE_DEPTH ? [`${value.length} items`, shapeOf(value[0], depth + 1)] : [`${value.length} items`]
+  }
+  if (typeof value === 'object' && value !== null) {
+    return depth < MAX_SAMPLE_DEPTH
+      ? Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, shapeOf(entry, depth + 1)]))
+      : 'object'
+  }
+  return value === null ? 'null' : typeof value
+}
+
+const sampleOf = (value: unknown): string => {
+  const json = JSON.stringify(shapeOf(value)) ?? 'undefined'
+  return json.length > MAX_SAMPLE_LENGTH ? `${json.slice(0, MAX_SAMPLE_LENGTH)}…` : json
+}
+
+/**
+ * Validate one response (or list item) from an endpoint; null when it does not match
+ */
+export function validateResponse<T>(endpoint: OpinionEndpoint, schema: z.ZodType<T>, value: unknown): T | null {
+  const entry = countersFor(endpoint)
+  entry.validated++
+
+  const parsed = safeParse(schema, value)
+  if (parsed.success) {
+    return parsed.data
+  }
+
+  const now = Date.now()
+  const { path, message } = parsed.error
+  entry.violations++
+  entry.lastViolationAt = now
+  entry.samples = [{ endpoint, path, message, sample: sampleOf(value), at: now }, ...entry.samples].slice(0, MAX_SAMPLES)
+
+  // Drift repeats on every call; the first violation per path is enough in the logs
+  if (!entry.loggedPaths.has(path)) {
+    entry.loggedPaths.add(path)
+    console.warn(`[OpinionSchema] ${endpoint} response violates schema: ${message}. Sample: ${sampleOf(value)}`)
+  }
+
+  return null
+}
+
+/**
+ * Validate list items one by one, keeping the ones that match
+ */
+export const validateItems = <T>(endpoint: OpinionEndpoint, schema: z.ZodType<T>, items: unknown[]): T[] =>
+  items.flatMap(item => {
+    const parsed = validateResponse(endpoint, schema, item)
+    return parsed === null ? [] : [parsed]
+  })
+
+/**
+ * API-level error of a response (non-zero code or errno), or null when the call succeeded
+ */
+export function apiErrorOf(response: unknown): string | null {
+  const parsed = safeParse(ApiStatusSchema, response)
+  if (!parsed.success) {
+    return null
+  }
+  const { code, errno, msg, errmsg } = parsed.data
+  if ((code !== undefined && code !== 0) || (errno !== undefined && errno !== 0)) {
+    return `${errno !== undefined && errno !== 0 ? `errno=${errno}` : `code=${code}`}, msg=${errmsg || msg || ''}`
+  }
+  return null
+}
+
+/**
+ * Validation counts per endpoint since startup (or the last reset)
+ */
+export function getSchemaDiagnostics(): { since: number; endpoints: EndpointSchemaStats[] } {
+  return {
+    since: countingSince,
+    endpoints: OPINION_ENDPOINTS.map(endpoint => {
+      const { validated, violations, lastViolationAt, samples } = countersFor(endpoint)
+      return { endpoint, validated, violations, lastViolationAt, samples }
+    })
+  }
+}
+
+export function resetSchemaDiagnostics(): void {
+  counters.clear()
+  countingSince = Date.now()
+}
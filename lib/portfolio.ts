@@ -0,0 +1,210 @@
+/**
+ * Wallet portfolio analytics
+ * Values Opinion positions at synced prices and rolls them up per market, per categorical parent and in total
+ */
+
+import { APIError, ErrorType, InputValidator } from './errorHandler'
+import { knownPrice } from './prices'
+import {
+  OutcomePayout,
+  PortfolioExposure,
+  PortfolioPosition,
+  PortfolioResponse,
+  PriceData,
+  UserPosition
+} from './types'
+
+export const MAX_PORTFOLIO_WALLETS = 10
+
+export interface WalletPositions {
+  wallet: string
+  positions: UserPosition[]
+}
+
+const round = (value: number, decimals = 2): number => {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+const toNumber = (value: string | undefined): number => {
+  const parsed = parseFloat(value || '')
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+/**
+ * Parse the comma-separated address list; duplicates are dropped, case-insensitively
+ */
+export function parseWalletAddresses(param: string | null): string[] {
+  const addresses = (param || '').split(',').map(address => address.trim()).filter(Boolean)
+  if (addresses.length === 0) {
+    throw new APIError('Missing address parameter', ErrorType.VALIDATION, 400)
+  }
+
+  addresses.forEach(address => InputValidator.validateAddress(address, 'wallet address'))
+
+  const unique = Array.from(new Map(addresses.map(address => [address.toLowerCase(), address])).values())
+  if (unique.length > MAX_PORTFOLIO_WALLETS) {
+    throw new APIError(`Too many wallets. At most ${MAX_PORTFOLIO_WALLETS} per request`, ErrorType.VALIDATION, 400)
+  }
+
+  return unique
+}
+
+/**
+ * Value one position: synced or live price first, the value Opinion reported as the last resort
+ * Failed and missing quotes (placeholders priced at 0) fall through to the reported value
+ */
+export function valuePosition(
+  wallet: string,
+  position: UserPosition,
+  prices: Map<string, PriceData>,
+  source: 'snapshot' | 'live'
+): PortfolioPosition {
+  const shares = toNumber(position.sharesOwned)
+  const costBasis = shares * toNumber(position.averageCost)
+
+  const known = knownPrice(prices.get(position.tokenId))
+  const quoted = known !== null && known >= 0 && known <= 1 ? known : null
+  const reported = toNumber(position.currentValueInQuoteToken)
+  const price = quoted ?? (shares > 0 && reported > 0 ? reported / shares : null)
+  const value = price !== null ? shares * price : reported
+  const pnl = value - costBasis
+
+  return {
+    ...position,
+    wallet,
+    shares,
+    price: price !== null ? round(price, 4) : null,
+    priceSource: quoted !== null ? source : 'position',
+    costBasis: round(costBasis),
+    value: round(value),
+    pnl: round(pnl),
+    pnlPct: costBasis > 0 ? round((pnl / costBasis) * 100) : null
+  }
+}
+
+/**
+ * Shares that pay out for each side of one market
+ */
+const sharesBySide = (positions: PortfolioPosition[]) => ({
+  yes: positions.filter(p => p.outcome === 'YES').reduce((sum, p) => sum + p.shares, 0),
+  no: positions.filter(p => p.outcome === 'NO').reduce((sum, p) => sum + p.shares, 0)
+})
+
+const summarize = (
+  key: string,
+  title: string,
+  positions: PortfolioPosition[],
+  payouts: (costBasis: number) => OutcomePayout[],
+  marketId?: number
+): Omit<PortfolioExposure, 'sharePct'> => {
+  const costBasis = positions.reduce((sum, p) => sum + p.costBasis, 0)
+  const value = positions.reduce((sum, p) => sum + p.value, 0)
+
+  return {
+    key,
+    marketId,
+    title,
+    positions: positions.length,
+    costBasis: round(costBasis),
+    value: round(value),
+    pnl: round(value - costBasis),
+    payouts: payouts(costBasis)
+  }
+}
+
+/**
+ * YES and NO resolution payouts of one market
+ */
+const marketPayouts = (positions: PortfolioPosition[]) => (costBasis: number): OutcomePayout[] => {
+  const { yes, no } = sharesBySide(positions)
+  return [
+    { outcome: 'YES', payout: round(yes), pnl: round(yes - costBasis) },
+    { outcome: 'NO', payout: round(no), pnl: round(no - costBasis) }
+  ]
+}
+
+/**
+ * Payout of a categorical parent when each held outcome wins: its YES shares plus every other outcome's NO shares
+ * The last scenario covers an outcome the wallets hold nothing on, where only NO shares pay
+ */
+const parentPayouts = (byMarket: Map<number, PortfolioPosition[]>) => (costBasis: number): OutcomePayout[] => {
+  const sides = Array.from(byMarket.values()).map(positions => ({
+    title: positions[0].marketTitle || `Market ${positions[0].marketId}`,
+    ...sharesBySide(positions)
+  }))
+  const allNo = sides.reduce((sum, side) => sum + side.no, 0)
+
+  const payouts = sides.map(side => {
+    const payout = side.yes + allNo - side.no
+    return { outcome: side.title, payout: round(payout), pnl: round(payout - costBasis) }
+  })
+  payouts.push({ outcome: 'Any other outcome', payout: round(allNo), pnl: round(allNo - costBasis) })
+
+  return payouts
+}
+
+const withShares = (exposures: Array<Omit<PortfolioExposure, 'sharePct'>>, total: number): PortfolioExposure[] =>
+  exposures
+    .map(exposure => ({ ...exposure, sharePct: total > 0 ? round((exposure.value / total) * 100) : 0 }))
+    .sort((a, b) => b.value - a.value)
+
+/**
+ * Roll valued positions up into per-market and per-parent exposure, concentration and totals
+ * Categorical outcomes are recognised by rootMarketTitle and grouped under it
+ */
+export function buildPortfolio(
+  positions: PortfolioPosition[]
+): Pick<PortfolioResponse, 'markets' | 'parents' | 'concentration' | 'totals'> {
+  const byMarket = new Map<number, PortfolioPosition[]>()
+  positions.forEach(position => {
+    byMarket.set(position.marketId, [...(byMarket.get(position.marketId) || []), position])
+  })
+
+  const byParent = new Map<string, Map<number, PortfolioPosition[]>>()
+  byMarket.forEach((marketPositions, marketId) => {
+    const parent = marketPositions[0].rootMarketTitle
+    if (!parent) return
+    const children = byParent.get(parent) || new Map<number, PortfolioPosition[]>()
+    children.set(marketId, marketPositions)
+    byParent.set(parent, children)
+  })
+
+  const totalCost = positions.reduce((sum, p) => sum + p.costBasis, 0)
+  const totalValue = positions.reduce((sum, p) => sum + p.value, 0)
+
+  const markets = withShares(Array.from(byMarket.entries()).map(([marketId, marketPositions]) =>
+    summarize(
+      String(marketId),
+      marketPositions[0].marketTitle || `Market ${marketId}`,
+      marketPositions,
+      marketPayouts(marketPositions),
+      marketId
+    )), totalValue)
+
+  const parents = withShares(Array.from(byParent.entries()).map(([title, children]) =>
+    summarize(title, title, Array.from(children.values()).flat(), parentPayouts(children))), totalValue)
+
+  // Concentration treats each categorical parent as one bet alongside the binary markets
+  const independent = [
+    ...markets.filter(market => !byMarket.get(market.marketId as number)?.[0].rootMarketTitle),
+    ...parents
+  ]
+  const weights = independent.map(exposure => (totalValue > 0 ? exposure.value / totalValue : 0))
+
+  return {
+    markets,
+    parents,
+    concentration: {
+      hhi: round(weights.reduce((sum, weight) => sum + weight * weight, 0), 4),
+      largestPct: round(Math.max(0, ...weights) * 100)
+    },
+    totals: {
+      costBasis: round(totalCost),
+      value: round(totalValue),
+      pnl: round(totalValue - totalCost),
+      pnlPct: totalCost > 0 ? round(((totalValue - totalCost) / totalCost) * 100) : null,
+      positions: positions.length
+    }
+  }
+}
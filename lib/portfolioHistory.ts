@@ -0,0 +1,181 @@
+/**
+ * Portfolio history for tracked wallets
+ * SyncService snapshots every tracked wallet on an interval; /api/user/portfolio/history reads the series back
+ */
+
+import { opinionClient } from './opinionClient'
+import { redis } from './redis'
+import { buildPortfolio, valuePosition } from './portfolio'
+import { knownPrice } from './prices'
+import {
+  PortfolioHistoryPoint,
+  PortfolioHistorySeriesPoint,
+  PortfolioHoldingsState,
+  PriceData,
+  UserPosition
+} from './types'
+
+export const PORTFOLIO_HISTORY_RETENTION_SECONDS = 90 * 86400
+export const MAX_TRACKED_WALLETS = 50
+
+export const HISTORY_RANGES: Record<string, number> = {
+  '24h': 86400,
+  '7d': 7 * 86400,
+  '30d': 30 * 86400,
+  '90d': 90 * 86400
+}
+
+const round = (value: number, decimals = 2): number => {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Tracked wallets from PORTFOLIO_TRACKED_WALLETS, registered on top of the ones stored in Redis
+ */
+export const getConfiguredWallets = (): string[] =>
+  (process.env.PORTFOLIO_TRACKED_WALLETS || '')
+    .split(',')
+    .map(wallet => wallet.trim().toLowerCase())
+    .filter(wallet => /^0x[a-f0-9]{40}$/.test(wallet))
+
+/**
+ * Value one wallet's positions and carry realized PnL forward from the previous snapshot
+ * Realized PnL is estimated: shares that disappeared since the last snapshot count as sold at the current
+ * price (a market resolved against the holder is quoted at 0), or at their last seen price when the token is no longer quoted
+ */
+export function snapshotWallet(
+  wallet: string,
+  positions: UserPosition[],
+  prices: Map<string, PriceData>,
+  previous: PortfolioHoldingsState | null,
+  t: number
+): { point: PortfolioHistoryPoint; state: PortfolioHoldingsState } {
+  const valued = positions.map(position => valuePosition(wallet, position, prices, 'snapshot'))
+  const { totals } = buildPortfolio(valued)
+
+  const tokens: PortfolioHoldingsState['tokens'] = {}
+  valued.forEach(position => {
+    const held = tokens[position.tokenId]
+    tokens[position.tokenId] = {
+      shares: (held?.shares || 0) + position.shares,
+      averageCost: parseFloat(position.averageCost) || 0,
+      price: position.price
+    }
+  })
+
+  let realizedPnl = previous?.realizedPnl || 0
+  Object.entries(previous?.tokens || {}).forEach(([tokenId, before]) => {
+    const sold = before.shares - (tokens[tokenId]?.shares || 0)
+    if (sold <= 0) return
+
+    const exitPrice = tokens[tokenId]?.price ?? knownPrice(prices.get(tokenId)) ?? before.price
+    if (exitPrice === null) return
+    realizedPnl += sold * (exitPrice - before.averageCost)
+  })
+
+  return {
+    point: {
+      t,
+      value: totals.value,
+      costBasis: totals.costBasis,
+      unrealizedPnl: totals.pnl,
+      realizedPnl: round(realizedPnl),
+      positions: totals.positions
+    },
+    state: { realizedPnl: round(realizedPnl), tokens }
+  }
+}
+
+/**
+ * Snapshot every tracked wallet at the given prices
+ * Wallets whose positions cannot be fetched are skipped for this round
+ */
+export async function recordPortfolioSnapshots(prices: Map<string, PriceData>, t: number): Promise<number> {
+  const client = redis.client
+  if (!client) {
+    return 0
+  }
+
+  const configured = getConfiguredWallets()
+  if (configured.length > 0) {
+    await client.addTrackedWallets(configured)
+  }
+
+  const wallets = (await client.getTrackedWallets()).slice(0, MAX_TRACKED_WALLETS)
+  let recorded = 0
+
+  // Sequential on purpose: positions calls share the Opinion rate limit with the price sync
+  for (const wallet of wallets) {
+    try {
+      const positions = await opinionClient.getUserPositions(wallet)
+      const { point, state } = snapshotWallet(wallet, positions, prices, await client.getPortfolioState(wallet), t)
+      await client.appendPortfolioSnapshot(wallet, point, state, PORTFOLIO_HISTORY_RETENTION_SECONDS)
+      recorded++
+    } catch (error) {
+      console.warn(`[Portfolio] Snapshot failed for ${wallet}:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  console.log(`[Portfolio] Recorded ${recorded} of ${wallets.length} tracked wallets`)
+  return recorded
+}
+
+/**
+ * Sum wallet series at every snapshot time and add total PnL and drawdown from its running peak
+ * A wallet whose snapshot failed in a round counts at its last point, so the gap does not read as a loss;
+ * wallets count from their first snapshot on
+ * Drawdown is measured on total PnL so deposits and new positions do not show up as losses
+ */
+export function buildHistorySeries(series: PortfolioHistoryPoint[][]): {
+  points: PortfolioHistorySeriesPoint[]
+  maxDrawdown: number
+  maxDrawdownPct: number
+} {
+  const sorted = series.map(points => [...points].sort((a, b) => a.t - b.t))
+  const times = Array.from(new Set(sorted.flat().map(point => point.t))).sort((a, b) => a - b)
+  const cursors = sorted.map(() => -1)
+
+  const summed = times.map(t => {
+    const sum: PortfolioHistoryPoint = { t, value: 0, costBasis: 0, unrealizedPnl: 0, realizedPnl: 0, positions: 0 }
+    sorted.forEach((points, index) => {
+      while (cursors[index] + 1 < points.length && points[cursors[index] + 1].t <= t) {
+        cursors[index]++
+      }
+      const last = points[cursors[index]]
+      if (!last) return
+      sum.value += last.value
+      sum.costBasis += last.costBasis
+      sum.unrealizedPnl += last.unrealizedPnl
+      sum.realizedPnl += last.realizedPnl
+      sum.positions += last.positions
+    })
+    return sum
+  })
+
+  let peak = -Infinity
+  let maxDrawdown = 0
+  let maxDrawdownPct = 0
+  const points = summed.map(point => {
+    const totalPnl = point.unrealizedPnl + point.realizedPnl
+    peak = Math.max(peak, totalPnl)
+    const drawdown = peak - totalPnl
+    const drawdownPct = point.costBasis > 0 ? (drawdown / point.costBasis) * 100 : 0
+    maxDrawdown = Math.max(maxDrawdown, drawdown)
+    maxDrawdownPct = Math.max(maxDrawdownPct, drawdownPct)
+
+    return {
+      t: point.t,
+      value: round(point.value),
+      costBasis: round(point.costBasis),
+      unrealizedPnl: round(point.unrealizedPnl),
+      realizedPnl: round(point.realizedPnl),
+      positions: point.positions,
+      totalPnl: round(totalPnl),
+      drawdown: round(drawdown),
+      drawdownPct: round(drawdownPct)
+    }
+  })
+
+  return { points, maxDrawdown: round(maxDrawdown), maxDrawdownPct: round(maxDrawdownPct) }
+}
@@ -0,0 +1,104 @@
+/**
+ * Price status helpers
+ * A failed fetch still yields PriceData (price '0') so callers get one entry per token; its status says
+ * whether the price is known. Read prices through knownPrice so a failed fetch never reads as a zero price
+ */
+
+import { PriceData, PriceSource, PriceStatus } from './types'
+
+/**
+ * Whether the entry carries a usable price, fresh or stale
+ * Prices stored before statuses were tracked have none and read as known
+ */
+export const isKnownPrice = (priceData: PriceData | null | undefined): priceData is PriceData =>
+  !!priceData && priceData.status !== 'error' && priceData.status !== 'missing'
+
+/**
+ * Numeric price, or null when it is unknown or unparseable (range checks are left to the caller)
+ */
+export function knownPrice(priceData: PriceData | null | undefined): number | null {
+  if (!isKnownPrice(priceData)) {
+    return null
+  }
+  const price = parseFloat(priceData.price)
+  return Number.isFinite(price) ? price : null
+}
+
+/**
+ * Placeholder for a token whose price could not be fetched (error) or was not returned (missing)
+ */
+export const unknownPrice = (tokenId: string, status: 'error' | 'missing'): PriceData => ({
+  tokenId,
+  price: '0',
+  timestamp: Date.now(),
+  status,
+  source: 'live'
+})
+
+/**
+ * Overall status of the prices behind one row: the first unknown status, else stale if any is stale
+ * Absent entries count as missing
+ */
+export function combinedPriceStatus(entries: Array<PriceData | undefined>): PriceStatus {
+  const unknown = entries.findIndex(entry => !isKnownPrice(entry))
+  if (unknown !== -1) {
+    return entries[unknown]?.status ?? 'missing'
+  }
+  return entries.some(entry => entry?.status === 'stale') ? 'stale' : 'ok'
+}
+
+/**
+ * Whether the entry was fetched in this cycle (stale carry-overs and failures excluded)
+ */
+export const isFreshPrice = (priceData: PriceData | null | undefined): priceData is PriceData =>
+  !!priceData && (priceData.status === undefined || priceData.status === 'ok')
+
+/**
+ * Entries fetched in this cycle (stale carry-overs and failures excluded)
+ */
+export const freshPrices = (prices: Map<string, PriceData>): Map<string, PriceData> =>
+  new Map(Array.from(prices).filter(([, priceData]) => isFreshPrice(priceData)))
+
+/**
+ * Entries with a usable price, fresh or carried over; tokens that were never priced are left out
+ */
+export const knownPrices = (prices: Map<string, PriceData>): Map<string, PriceData> =>
+  new Map(Array.from(prices).filter(([, priceData]) => isKnownPrice(priceData)))
+
+/**
+ * Tag prices read back from a store with where they were read from
+ */
+export const withSource = (prices: Map<string, PriceData>, source: PriceSource): Map<string, PriceData> =>
+  new Map(Array.from(prices, ([tokenId, priceData]): [string, PriceData] => [tokenId, { ...priceData, source }]))
+
+/**
+ * Replace unknown prices with the previous known price of the token, marked stale
+ * The previous timestamp is kept, so consumers can tell how old the carried price is
+ */
+export function carryOverPrices(
+  prices: Map<string, PriceData>,
+  previous: Map<string, PriceData>,
+  source: PriceSource
+): Map<string, PriceData> {
+  const merged = new Map(prices)
+
+  prices.forEach((priceData, tokenId) => {
+    const last = previous.get(tokenId)
+    if (!isKnownPrice(priceData) && isKnownPrice(last)) {
+      merged.set(tokenId, { ...last, tokenId, status: 'stale', source })
+    }
+  })
+
+  return merged
+}
+
+/**
+ * Entry count per status, for sync logs
+ */
+export function countPriceStatuses(prices: Map<string, PriceData>): Record<PriceStatus, number> {
+  const counts: Record<PriceStatus, number> = { ok: 0, stale: 0, error: 0, missing: 0 }
+  prices.forEach(priceData => {
+    counts[priceData.status ?? 'ok']++
+  })
+  return counts
+}
@@ -1,14 +1,277 @@
 import { Redis } from '@upstash/redis'
-import { MarketData, PriceData } from './types'
+import fs from 'fs'
+import path from 'path'
+import {
+  Alert,
+  AlertNotification,
+  BookSnapshot,
+  Watchlist,
+  LiquiditySummary,
+  VolatilityStats,
+  MarketData,
+  PortfolioHistoryPoint,
+  PortfolioHoldingsState,
+  PriceData,
+  PriceHistoryPoint,
+  Market,
+  ResolvedMarket,
+  ResolvedPricePath,
+  StreamEvent,
+  Trade,
+  WhaleEvent
+} from './types'
 
 // Redis key patterns
 export const REDIS_KEYS = {
   MARKET: (id: string) => `market:${id}`,
   PRICE: (tokenId: string) => `price:${tokenId}`,
-  MARKETS_LIST: 'markets:list',
+  PRICE_SERIES: (tokenId: string, resolution: SeriesResolution) => `prices:${tokenId}:${resolution}`,
+  LIQUIDITY: (tokenId: string) => `liquidity:${tokenId}`,
+  BOOK_HISTORY: (tokenId: string) => `books:${tokenId}`,
+  VOLATILITY: (tokenId: string) => `volatility:${tokenId}`,
+  STREAM_EVENTS: 'stream:events',
+  WHALE_EVENTS: 'whales:events',
+  TRADES: (marketId: number) => `trades:${marketId}`,
+  RESOLUTION_PENDING: 'resolution:pending',
+  RESOLUTION_MARKET: (id: number) => `resolution:market:${id}`,
+  RESOLVED_MARKET: (id: number) => `resolved:market:${id}`,
+  RESOLVED_PATH: (id: number) => `resolved:path:${id}`,
+  RESOLVED_BY_TIME: 'resolved:by_time',
+  ALERT: (id: string) => `alert:${id}`,
+  ALERT_TRIGGERED: (id: string) => `alert:triggered:${id}`,
+  ALERTS: 'alerts:all',
+  ALERT_NOTIFICATIONS: (owner: string) => `alerts:notifications:${owner}`,
+  WATCHLIST: (owner: string, id: string) => `watchlist:${owner}:${id}`,
+  WATCHLISTS: (owner: string) => `watchlists:${owner}`,
+  PORTFOLIO_WALLETS: 'portfolio:wallets',
+  PORTFOLIO_HISTORY: (wallet: string) => `portfolio:history:${wallet}`,
+  PORTFOLIO_STATE: (wallet: string) => `portfolio:state:${wallet}`,
+  MARKETS_ACTIVE: 'markets:active',
+  MARKETS_BY_VOLUME: 'markets:by_volume',
+  MARKETS_BY_CUTOFF: 'markets:by_cutoff',
+  MARKETS_BY_STATUS: (status: string) => `markets:status:${status}`,
+  MARKETS_BY_TYPE: (marketType: number) => `markets:type:${marketType}`,
+  MARKET_FACETS: 'markets:facets',
   LAST_SYNC: 'sync:last_update'
 } as const
 
+/**
+ * Price time series tiers
+ * Each sync appends to every tier; coarser tiers keep only the last price per bucket
+ */
+export type SeriesResolution = 'raw' | '5m' | '1h'
+
+export interface SeriesTier {
+  resolution: SeriesResolution
+  bucketSeconds: number // 0 = keep every point
+  retentionSeconds: number
+}
+
+export interface PriceSeriesQuery {
+  from?: number // unix seconds, inclusive
+  to?: number // unix seconds, inclusive
+  resolution?: SeriesResolution // finest tier covering `from` when omitted
+}
+
+/**
+ * Series tiers with retention configurable via environment variables
+ * Defaults: raw 30s points for 24h, 5m buckets for 7d, 1h buckets for 90d
+ */
+export function getSeriesTiers(): SeriesTier[] {
+  const rawHours = parseInt(process.env.PRICE_SERIES_RAW_RETENTION_HOURS || '24') || 24
+  const fiveMinuteDays = parseInt(process.env.PRICE_SERIES_5M_RETENTION_DAYS || '7') || 7
+  const hourlyDays = parseInt(process.env.PRICE_SERIES_1H_RETENTION_DAYS || '90') || 90
+
+  return [
+    { resolution: 'raw', bucketSeconds: 0, retentionSeconds: rawHours * 3600 },
+    { resolution: '5m', bucketSeconds: 300, retentionSeconds: fiveMinuteDays * 86400 },
+    { resolution: '1h', bucketSeconds: 3600, retentionSeconds: hourlyDays * 86400 }
+  ]
+}
+
+/**
+ * Pick the tier to read: the requested one, or the finest tier whose retention reaches `from`
+ */
+export function selectSeriesTier(
+  query: PriceSeriesQuery,
+  tiers: SeriesTier[] = getSeriesTiers(),
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): SeriesTier {
+  if (query.resolution) {
+    return tiers.find(tier => tier.resolution === query.resolution) || tiers[0]
+  }
+
+  if (query.from === undefined) {
+    return tiers[0]
+  }
+
+  const from = query.from
+  return tiers.find(tier => nowSeconds - tier.retentionSeconds <= from) || tiers[tiers.length - 1]
+}
+
+/**
+ * Series members are "<timestamp>:<price>" so identical prices at different times stay distinct
+ */
+export const encodeSeriesMember = (t: number, price: string): string => `${t}:${price}`
+
+export const decodeSeriesMember = (member: unknown): PriceHistoryPoint | null => {
+  const [t, p] = String(member).split(':')
+  const timestamp = parseInt(t)
+  if (isNaN(timestamp) || p === undefined || p === '') {
+    return null
+  }
+  return { t: timestamp, p }
+}
+
+/**
+ * Start of the tier bucket containing the timestamp
+ */
+export const seriesBucketStart = (t: number, tier: SeriesTier): number =>
+  tier.bucketSeconds > 0 ? Math.floor(t / tier.bucketSeconds) * tier.bucketSeconds : t
+
+/**
+ * Market registry indexes maintained by SyncService
+ * markets:active holds every synced market ID, the sorted sets order them and facet sets filter them
+ */
+export type MarketSortField = 'volume' | 'cutoff'
+
+export interface MarketQuery {
+  sortBy?: MarketSortField // 'volume'
+  order?: 'asc' | 'desc' // desc for volume, asc for cutoff
+  offset?: number // 0
+  limit?: number // all matching markets when omitted
+  status?: string
+  marketType?: number
+  cutoffFrom?: number // unix seconds, inclusive
+  cutoffTo?: number // unix seconds, inclusive
+}
+
+export interface MarketQueryResult {
+  markets: MarketData[]
+  total: number
+}
+
+export type ScoreBound = number | '-inf' | '+inf'
+
+/**
+ * Facet sets a market belongs to (status and market type)
+ */
+export const marketFacetKeys = (market: MarketData): string[] => [
+  REDIS_KEYS.MARKETS_BY_STATUS(String(market.status ?? 'unknown')),
+  REDIS_KEYS.MARKETS_BY_TYPE(Number(market.marketType) || 0)
+]
+
+export interface MarketIndexPlan {
+  activeIds: string[]
+  removedIds: string[]
+  volumeScores: Array<{ score: number; member: string }>
+  cutoffScores: Array<{ score: number; member: string }>
+  facetAdds: Map<string, string[]>
+  facetRemovals: Map<string, string[]>
+}
+
+/**
+ * Diff the synced markets against the current index
+ * When prune is false (partial sync) markets missing from the batch are kept
+ */
+export function planMarketIndexUpdate(
+  markets: MarketData[],
+  indexedIds: string[],
+  facetMembers: Map<string, string[]>,
+  prune: boolean = true
+): MarketIndexPlan {
+  const activeIds = markets.map(market => String(market.id))
+  const active = new Set(activeIds)
+  const removedIds = prune ? indexedIds.filter(id => !active.has(id)) : []
+  const removed = new Set(removedIds)
+
+  const facetAdds = new Map<string, string[]>()
+  const targetFacet = new Map<string, Set<string>>()
+  markets.forEach(market => {
+    marketFacetKeys(market).forEach(key => {
+      facetAdds.set(key, [...(facetAdds.get(key) || []), String(market.id)])
+      targetFacet.set(String(market.id), (targetFacet.get(String(market.id)) || new Set()).add(key))
+    })
+  })
+
+  // Drop IDs from facets they no longer belong to (status changes) or that were pruned
+  const facetRemovals = new Map<string, string[]>()
+  facetMembers.forEach((members, key) => {
+    const stale = members.filter(id => removed.has(id) || (active.has(id) && !targetFacet.get(id)?.has(key)))
+    if (stale.length > 0) {
+      facetRemovals.set(key, stale)
+    }
+  })
+
+  return {
+    activeIds,
+    removedIds,
+    volumeScores: markets.map(market => ({ score: parseFloat(String(market.volume24h)) || 0, member: String(market.id) })),
+    // Markets without a cutoff sort after every dated market
+    cutoffScores: markets.map(market => ({ score: Number(market.cutoffAt) || Number.MAX_SAFE_INTEGER, member: String(market.id) })),
+    facetAdds,
+    facetRemovals
+  }
+}
+
+export interface MarketQueryPlan {
+  indexKey: string
+  min: ScoreBound
+  max: ScoreBound
+  rev: boolean
+  facetKeys: string[]
+  cutoffRange: [ScoreBound, ScoreBound] | null // filter applied via the cutoff index when sorting by volume
+  offset: number
+  limit: number | null
+}
+
+/**
+ * Translate a query into index reads
+ * Queries without facet or cross-index filters can be paged by Redis directly
+ */
+export function planMarketQuery(query: MarketQuery = {}): MarketQueryPlan {
+  const sortBy = query.sortBy || 'volume'
+  const order = query.order || (sortBy === 'cutoff' ? 'asc' : 'desc')
+  const hasCutoffFilter = query.cutoffFrom !== undefined || query.cutoffTo !== undefined
+  const cutoffRange: [ScoreBound, ScoreBound] = [query.cutoffFrom ?? '-inf', query.cutoffTo ?? '+inf']
+
+  const facetKeys: string[] = []
+  if (query.status) facetKeys.push(REDIS_KEYS.MARKETS_BY_STATUS(query.status))
+  if (query.marketType !== undefined) facetKeys.push(REDIS_KEYS.MARKETS_BY_TYPE(query.marketType))
+
+  return {
+    indexKey: sortBy === 'cutoff' ? REDIS_KEYS.MARKETS_BY_CUTOFF : REDIS_KEYS.MARKETS_BY_VOLUME,
+    min: sortBy === 'cutoff' ? cutoffRange[0] : '-inf',
+    max: sortBy === 'cutoff' ? cutoffRange[1] : '+inf',
+    rev: order === 'desc',
+    facetKeys,
+    cutoffRange: sortBy !== 'cutoff' && hasCutoffFilter ? cutoffRange : null,
+    offset: Math.max(0, query.offset || 0),
+    limit: query.limit !== undefined ? Math.max(0, query.limit) : null
+  }
+}
+
+/**
+ * Whether the plan can be answered by a single paged ZRANGE
+ */
+export const isDirectMarketQuery = (plan: MarketQueryPlan): boolean =>
+  plan.facetKeys.length === 0 && plan.cutoffRange === null
+
+/**
+ * Intersect ordered IDs with facet/cutoff members and slice the requested page
+ */
+export function selectMarketPage(
+  orderedIds: string[],
+  filters: string[][],
+  plan: MarketQueryPlan
+): { ids: string[]; total: number } {
+  const filterSets = filters.map(members => new Set(members))
+  const matching = orderedIds.filter(id => filterSets.every(members => members.has(id)))
+  const end = plan.limit === null ? undefined : plan.offset + plan.limit
+
+  return { ids: matching.slice(plan.offset, end), total: matching.length }
+}
+
 // Redis client configuration
 interface RedisConfig {
   url: string
@@ -16,12 +279,46 @@ interface RedisConfig {
   timeout?: number
 }
 
+/**
+ * Alert with the trigger time from its own key, which wins over the one stored with the alert
+ */
+const withTriggerTime = (alert: Alert | null, triggeredAt: unknown): Alert | null => {
+  const t = Number(triggeredAt)
+  return alert && triggeredAt !== null && triggeredAt !== undefined && Number.isFinite(t) ? { ...alert, lastTriggeredAt: t } : alert
+}
+
+/**
+ * Upstash returns stored JSON already parsed, the in-memory store returns the raw string
+ */
+const decodeStoredJson = <T>(value: unknown): T | null => {
+  if (!value) return null
+  if (typeof value === 'object') return value as T
+
+  try {
+    return JSON.parse(String(value)) as T
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Stream events are stored as JSON members, which Upstash also hands back already parsed
+ */
+const decodeStreamEvent = (member: unknown): StreamEvent | null => {
+  const event = decodeStoredJson<StreamEvent>(member)
+  return event && typeof event.seq === 'number' ? event : null
+}
+
 export interface RedisClient {
   // Market data operations
   setMarket(marketId: string, marketData: MarketData): Promise<void>
   getMarket(marketId: string): Promise<MarketData | null>
   getAllMarkets(): Promise<MarketData[]>
 
+  // Market registry operations
+  indexMarkets(markets: MarketData[], options?: { prune?: boolean }): Promise<void>
+  queryMarkets(query?: MarketQuery): Promise<MarketQueryResult>
+
   // Price data operations  
   setPrice(tokenId: string, priceData: PriceData): Promise<void>
   getPrice(tokenId: string): Promise<PriceData | null>
@@ -30,9 +327,76 @@ export interface RedisClient {
   // Batch operations
   setMarketSnapshot(markets: MarketData[], prices: Map<string, PriceData>): Promise<void>
 
+  // Orderbook liquidity operations (summaries expire so stale books are never shown)
+  setLiquidity(summaries: LiquiditySummary[], ttlSeconds: number): Promise<void>
+  getLiquidity(tokenIds: string[]): Promise<Map<string, LiquiditySummary>>
+  appendBookSnapshots(snapshots: Map<string, BookSnapshot>, retentionSeconds: number): Promise<void>
+  getBookSnapshots(tokenIds: string[], from: number, to: number): Promise<Map<string, BookSnapshot[]>>
+
+  // Volatility operations (summaries expire with the sync that computed them)
+  setVolatility(stats: VolatilityStats[], ttlSeconds: number): Promise<void>
+  getVolatility(tokenIds: string[]): Promise<Map<string, VolatilityStats>>
+
+  // Change feed operations (events scored by seq, trimmed to the retention window)
+  appendStreamEvent(event: StreamEvent, retentionSeconds: number): Promise<void>
+  getStreamEvents(afterSeq: number): Promise<StreamEvent[]>
+
+  // Alert operations (one JSON key per alert plus an id set; notifications scored by trigger time)
+  // The last trigger time has its own key, so recording a trigger never rewrites the alert itself
+  saveAlert(alert: Alert): Promise<void>
+  getAlert(id: string): Promise<Alert | null>
+  getAlerts(): Promise<Alert[]>
+  markAlertTriggered(id: string, triggeredAt: number): Promise<boolean>
+  deleteAlert(id: string): Promise<boolean>
+  addNotifications(notifications: AlertNotification[], retentionSeconds: number): Promise<void>
+  getNotifications(owner: string, limit: number): Promise<AlertNotification[]>
+
+  // Whale event operations (one feed scored by event time in ms)
+  addWhaleEvents(events: WhaleEvent[], retentionSeconds: number): Promise<void>
+  getWhaleEvents(since: number): Promise<WhaleEvent[]>
+
+  // Trade operations (one feed per market scored by trade time in ms; refetched trades overwrite themselves)
+  appendTrades(trades: Trade[], retentionSeconds: number): Promise<void>
+  getTrades(marketId: number, since: number): Promise<Trade[]>
+
+  // Resolution tracking operations (closed markets scored by next check time in ms; archive scored by resolvedAt)
+  trackResolutions(markets: Market[], dueAt: number): Promise<void>
+  getDueResolutions(nowMs: number, limit: number): Promise<Market[]>
+  rescheduleResolution(marketId: number, dueAt: number): Promise<void>
+  untrackResolutions(marketIds: number[]): Promise<void>
+  saveResolvedMarket(market: ResolvedMarket, path: ResolvedPricePath): Promise<void>
+  getResolvedMarkets(): Promise<ResolvedMarket[]>
+  getResolvedPricePaths(marketIds: number[]): Promise<Map<number, ResolvedPricePath>>
+
+  // Watchlist operations (one JSON key per list plus an id set per owner)
+  saveWatchlist(watchlist: Watchlist): Promise<void>
+  getWatchlist(owner: string, id: string): Promise<Watchlist | null>
+  getWatchlists(owner: string): Promise<Watchlist[]>
+  deleteWatchlist(owner: string, id: string): Promise<boolean>
+
+  // Portfolio tracking operations (history scored by snapshot time in ms)
+  addTrackedWallets(wallets: string[]): Promise<void>
+  removeTrackedWallet(wallet: string): Promise<boolean>
+  getTrackedWallets(): Promise<string[]>
+  appendPortfolioSnapshot(
+    wallet: string,
+    point: PortfolioHistoryPoint,
+    state: PortfolioHoldingsState,
+    retentionSeconds: number
+  ): Promise<void>
+  getPortfolioHistory(wallet: string, from: number, to: number): Promise<PortfolioHistoryPoint[]>
+  getPortfolioState(wallet: string): Promise<PortfolioHoldingsState | null>
+
+  // Price time series operations
+  appendPriceSeries(prices: PriceData[], timestamp: number, tiers?: SeriesTier[]): Promise<void>
+  getPriceSeries(tokenId: string, query?: PriceSeriesQuery): Promise<PriceHistoryPoint[]>
+  getPriceSeriesBatch(tokenIds: string[], query?: PriceSeriesQuery): Promise<Map<string, PriceHistoryPoint[]>>
+
   // Basic operations
   get(key: string): Promise<string | null>
   set(key: string, value: string, ttl?: number): Promise<void>
+  del(key: string): Promise<void>
+  keys(pattern: string): Promise<string[]>
 
   // Health check
   ping(): Promise<string>
@@ -74,6 +438,24 @@ class UpstashRedisClient implements RedisClient {
     }
   }
 
+  async del(key: string): Promise<void> {
+    try {
+      await this.redis.del(key)
+    } catch (error) {
+      console.error(`Redis DEL error for key ${key}:`, error)
+      throw error
+    }
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    try {
+      return await this.redis.keys(pattern)
+    } catch (error) {
+      console.error(`Redis KEYS error for pattern ${pattern}:`, error)
+      throw error
+    }
+  }
+
   async ping(): Promise<string> {
     try {
       const result = await this.redis.ping()
@@ -113,27 +495,123 @@ class UpstashRedisClient implements RedisClient {
 
   async getAllMarkets(): Promise<MarketData[]> {
     try {
-      // Get all market keys
-      const keys = await this.redis.keys('market:*')
+      // Registry set instead of KEYS market:* (O(keyspace) and matches unrelated keys)
+      const ids = await this.redis.smembers(REDIS_KEYS.MARKETS_ACTIVE)
+      return await this.getMarketHashes(ids.map(String))
+    } catch (error) {
+      console.error('Redis getAllMarkets error:', error)
+      throw error
+    }
+  }
 
-      if (keys.length === 0) {
-        return []
+  private async getMarketHashes(ids: string[]): Promise<MarketData[]> {
+    if (ids.length === 0) {
+      return []
+    }
+
+    // Use pipeline for batch operations
+    const pipeline = this.redis.pipeline()
+    ids.forEach(id => {
+      pipeline.hgetall(REDIS_KEYS.MARKET(id))
+    })
+
+    const results = await pipeline.exec()
+
+    // Filter out null results and convert to MarketData
+    return results
+      .filter(result => result && typeof result === 'object' && Object.keys(result).length > 0)
+      .map(result => result as MarketData)
+  }
+
+  // Market registry operations
+  async indexMarkets(markets: MarketData[], options: { prune?: boolean } = {}): Promise<void> {
+    try {
+      const [indexedIds, facetKeys] = await this.redis.pipeline()
+        .smembers(REDIS_KEYS.MARKETS_ACTIVE)
+        .smembers(REDIS_KEYS.MARKET_FACETS)
+        .exec<[unknown[], unknown[]]>()
+
+      const facetMembers = new Map<string, string[]>()
+      if (facetKeys.length > 0) {
+        const facetPipeline = this.redis.pipeline()
+        facetKeys.forEach(key => {
+          facetPipeline.smembers(String(key))
+        })
+        const members = await facetPipeline.exec<unknown[][]>()
+        facetKeys.forEach((key, index) => facetMembers.set(String(key), (members[index] || []).map(String)))
       }
 
-      // Use pipeline for batch operations
+      const plan = planMarketIndexUpdate(markets, indexedIds.map(String), facetMembers, options.prune ?? true)
       const pipeline = this.redis.pipeline()
-      keys.forEach(key => {
-        pipeline.hgetall(key)
+
+      if (plan.removedIds.length > 0) {
+        pipeline.srem(REDIS_KEYS.MARKETS_ACTIVE, ...plan.removedIds)
+        pipeline.zrem(REDIS_KEYS.MARKETS_BY_VOLUME, ...plan.removedIds)
+        pipeline.zrem(REDIS_KEYS.MARKETS_BY_CUTOFF, ...plan.removedIds)
+        plan.removedIds.forEach(id => {
+          pipeline.del(REDIS_KEYS.MARKET(id))
+        })
+      }
+      plan.facetRemovals.forEach((ids, key) => {
+        pipeline.srem(key, ...ids)
       })
 
-      const results = await pipeline.exec()
+      if (plan.activeIds.length > 0) {
+        const [firstVolume, ...otherVolumes] = plan.volumeScores
+        const [firstCutoff, ...otherCutoffs] = plan.cutoffScores
+        pipeline.sadd(REDIS_KEYS.MARKETS_ACTIVE, plan.activeIds[0], ...plan.activeIds.slice(1))
+        pipeline.zadd(REDIS_KEYS.MARKETS_BY_VOLUME, firstVolume, ...otherVolumes)
+        pipeline.zadd(REDIS_KEYS.MARKETS_BY_CUTOFF, firstCutoff, ...otherCutoffs)
+      }
+      plan.facetAdds.forEach((ids, key) => {
+        pipeline.sadd(key, ids[0], ...ids.slice(1))
+        pipeline.sadd(REDIS_KEYS.MARKET_FACETS, key)
+      })
 
-      // Filter out null results and convert to MarketData
-      return results
-        .filter(result => result && typeof result === 'object' && Object.keys(result).length > 0)
-        .map(result => result as MarketData)
+      await pipeline.exec()
     } catch (error) {
-      console.error('Redis getAllMarkets error:', error)
+      console.error('Redis indexMarkets error:', error)
+      throw error
+    }
+  }
+
+  async queryMarkets(query: MarketQuery = {}): Promise<MarketQueryResult> {
+    try {
+      const plan = planMarketQuery(query)
+      const [start, stop] = plan.rev ? [plan.max, plan.min] : [plan.min, plan.max]
+
+      // Round trip 1: ordered IDs (paged by Redis when no filters need intersecting)
+      if (isDirectMarketQuery(plan)) {
+        const pipeline = this.redis.pipeline()
+        if (plan.limit !== null) {
+          pipeline.zrange(plan.indexKey, start, stop, { byScore: true, rev: plan.rev, offset: plan.offset, count: plan.limit })
+        } else {
+          pipeline.zrange(plan.indexKey, start, stop, { byScore: true, rev: plan.rev })
+        }
+        pipeline.zcount(plan.indexKey, plan.min, plan.max)
+
+        const [ids, total] = await pipeline.exec<[unknown[], number]>()
+        const pageIds = plan.limit === null ? ids.slice(plan.offset) : ids
+
+        // Round trip 2: market hashes
+        return { markets: await this.getMarketHashes(pageIds.map(String)), total }
+      }
+
+      const pipeline = this.redis.pipeline()
+      pipeline.zrange(plan.indexKey, start, stop, { byScore: true, rev: plan.rev })
+      plan.facetKeys.forEach(key => {
+        pipeline.smembers(key)
+      })
+      if (plan.cutoffRange) {
+        pipeline.zrange(REDIS_KEYS.MARKETS_BY_CUTOFF, plan.cutoffRange[0], plan.cutoffRange[1], { byScore: true })
+      }
+
+      const [orderedIds, ...filters] = await pipeline.exec<unknown[][]>()
+      const page = selectMarketPage(orderedIds.map(String), filters.map(members => members.map(String)), plan)
+
+      return { markets: await this.getMarketHashes(page.ids), total: page.total }
+    } catch (error) {
+      console.error('Redis queryMarkets error:', error)
       throw error
     }
   }
@@ -151,14 +629,7 @@ class UpstashRedisClient implements RedisClient {
 
   async getPrice(tokenId: string): Promise<PriceData | null> {
     try {
-      const key = REDIS_KEYS.PRICE(tokenId)
-      const result = await this.redis.get(key)
-
-      if (!result) {
-        return null
-      }
-
-      return JSON.parse(result as string) as PriceData
+      return decodeStoredJson<PriceData>(await this.redis.get(REDIS_KEYS.PRICE(tokenId)))
     } catch (error) {
       console.error(`Redis getPrice error for token ${tokenId}:`, error)
       throw error
@@ -181,15 +652,13 @@ class UpstashRedisClient implements RedisClient {
 
       const results = await pipeline.exec()
 
-      // Process results
+      // Process results (Upstash hands stored JSON back already parsed)
       results.forEach((result, index) => {
-        if (result && typeof result === 'string') {
-          try {
-            const priceData = JSON.parse(result) as PriceData
-            priceMap.set(tokenIds[index], priceData)
-          } catch (parseError) {
-            console.error(`Failed to parse price data for token ${tokenIds[index]}:`, parseError)
-          }
+        const priceData = decodeStoredJson<PriceData>(result)
+        if (priceData) {
+          priceMap.set(tokenIds[index], priceData)
+        } else if (result) {
+          console.error(`Failed to parse price data for token ${tokenIds[index]}`)
         }
       })
 
@@ -226,49 +695,1684 @@ class UpstashRedisClient implements RedisClient {
       throw error
     }
   }
-}
 
-// Create and export Redis client instance
-let redisClient: RedisClient | null = null
+  // Orderbook liquidity operations
+  async setLiquidity(summaries: LiquiditySummary[], ttlSeconds: number): Promise<void> {
+    try {
+      if (summaries.length === 0) {
+        return
+      }
 
-export function createRedisClient(): RedisClient {
-  const config: RedisConfig = {
-    url: process.env.UPSTASH_REDIS_REST_URL || '',
-    token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
-    timeout: parseInt(process.env.REDIS_TIMEOUT_MS || '5000')
+      const pipeline = this.redis.pipeline()
+      summaries.forEach(summary => {
+        pipeline.set(REDIS_KEYS.LIQUIDITY(summary.tokenId), JSON.stringify(summary), { ex: ttlSeconds })
+      })
+
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis setLiquidity error:', error)
+      throw error
+    }
   }
 
-  if (!config.url || !config.token) {
-    throw new Error('Redis configuration missing: UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are required')
+  async getLiquidity(tokenIds: string[]): Promise<Map<string, LiquiditySummary>> {
+    try {
+      const liquidityMap = new Map<string, LiquiditySummary>()
+
+      if (tokenIds.length === 0) {
+        return liquidityMap
+      }
+
+      const pipeline = this.redis.pipeline()
+      tokenIds.forEach(tokenId => {
+        pipeline.get(REDIS_KEYS.LIQUIDITY(tokenId))
+      })
+
+      const results = await pipeline.exec()
+      results.forEach((result, index) => {
+        const summary = decodeStoredJson<LiquiditySummary>(result)
+        if (summary) {
+          liquidityMap.set(tokenIds[index], summary)
+        }
+      })
+
+      return liquidityMap
+    } catch (error) {
+      console.error('Redis getLiquidity error:', error)
+      throw error
+    }
   }
 
-  return new UpstashRedisClient(config)
-}
+  async appendBookSnapshots(snapshots: Map<string, BookSnapshot>, retentionSeconds: number): Promise<void> {
+    try {
+      if (snapshots.size === 0) {
+        return
+      }
 
-export function getRedisClient(): RedisClient | null {
-  try {
-    if (!redisClient) {
-      const url = process.env.UPSTASH_REDIS_REST_URL
-      const token = process.env.UPSTASH_REDIS_REST_TOKEN
+      const pipeline = this.redis.pipeline()
+      snapshots.forEach((snapshot, tokenId) => {
+        const key = REDIS_KEYS.BOOK_HISTORY(tokenId)
+        pipeline.zadd(key, { score: snapshot.t, member: JSON.stringify(snapshot) })
+        pipeline.zremrangebyscore(key, '-inf', snapshot.t - retentionSeconds)
+      })
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis appendBookSnapshots error:', error)
+      throw error
+    }
+  }
 
-      // Redis is optional - if not configured, return null
-      if (!url || !token || url === 'your_redis_url_here' || token === 'your_redis_token_here') {
-        console.info('[Redis] Not configured - using in-memory cache only')
-        return null
+  async getBookSnapshots(tokenIds: string[], from: number, to: number): Promise<Map<string, BookSnapshot[]>> {
+    try {
+      const snapshotMap = new Map<string, BookSnapshot[]>()
+
+      if (tokenIds.length === 0) {
+        return snapshotMap
       }
 
-      redisClient = createRedisClient()
+      const pipeline = this.redis.pipeline()
+      tokenIds.forEach(tokenId => {
+        pipeline.zrange(REDIS_KEYS.BOOK_HISTORY(tokenId), from, to, { byScore: true })
+      })
+
+      const results = await pipeline.exec()
+      results.forEach((members, index) => {
+        const snapshots = Array.isArray(members)
+          ? members.map(member => decodeStoredJson<BookSnapshot>(member)).filter((snapshot): snapshot is BookSnapshot => snapshot !== null)
+          : []
+        snapshotMap.set(tokenIds[index], snapshots)
+      })
+
+      return snapshotMap
+    } catch (error) {
+      console.error('Redis getBookSnapshots error:', error)
+      throw error
     }
-    return redisClient
-  } catch (error) {
-    console.warn('[Redis] Failed to initialize, falling back to in-memory cache:', error)
-    return null
   }
-}
 
-// Export default instance getter (lazy initialization, returns null if unavailable)
-export const redis = {
-  get client(): RedisClient | null {
-    return getRedisClient()
+  // Volatility operations
+  async setVolatility(stats: VolatilityStats[], ttlSeconds: number): Promise<void> {
+    try {
+      if (stats.length === 0) {
+        return
+      }
+
+      const pipeline = this.redis.pipeline()
+      stats.forEach(entry => {
+        pipeline.set(REDIS_KEYS.VOLATILITY(entry.tokenId), JSON.stringify(entry), { ex: ttlSeconds })
+      })
+
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis setVolatility error:', error)
+      throw error
+    }
+  }
+
+  async getVolatility(tokenIds: string[]): Promise<Map<string, VolatilityStats>> {
+    try {
+      const volatilityMap = new Map<string, VolatilityStats>()
+
+      if (tokenIds.length === 0) {
+        return volatilityMap
+      }
+
+      const pipeline = this.redis.pipeline()
+      tokenIds.forEach(tokenId => {
+        pipeline.get(REDIS_KEYS.VOLATILITY(tokenId))
+      })
+
+      const results = await pipeline.exec()
+      results.forEach((result, index) => {
+        const stats = decodeStoredJson<VolatilityStats>(result)
+        if (stats) {
+          volatilityMap.set(tokenIds[index], stats)
+        }
+      })
+
+      return volatilityMap
+    } catch (error) {
+      console.error('Redis getVolatility error:', error)
+      throw error
+    }
+  }
+
+  // Change feed operations
+  async appendStreamEvent(event: StreamEvent, retentionSeconds: number): Promise<void> {
+    try {
+      const pipeline = this.redis.pipeline()
+      pipeline.zadd(REDIS_KEYS.STREAM_EVENTS, { score: event.seq, member: JSON.stringify(event) })
+      pipeline.zremrangebyscore(REDIS_KEYS.STREAM_EVENTS, '-inf', event.seq - retentionSeconds * 1000)
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis appendStreamEvent error:', error)
+      throw error
+    }
+  }
+
+  async getStreamEvents(afterSeq: number): Promise<StreamEvent[]> {
+    try {
+      const members = await this.redis.zrange(REDIS_KEYS.STREAM_EVENTS, afterSeq + 1, '+inf', { byScore: true })
+      return (members as unknown[])
+        .map(decodeStreamEvent)
+        .filter((event): event is StreamEvent => event !== null)
+    } catch (error) {
+      console.error('Redis getStreamEvents error:', error)
+      throw error
+    }
+  }
+
+  // Alert operations
+  async saveAlert(alert: Alert): Promise<void> {
+    try {
+      const pipeline = this.redis.pipeline()
+      pipeline.set(REDIS_KEYS.ALERT(alert.id), JSON.stringify(alert))
+      pipeline.sadd(REDIS_KEYS.ALERTS, alert.id)
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis saveAlert error:', error)
+      throw error
+    }
+  }
+
+  async getAlert(id: string): Promise<Alert | null> {
+    try {
+      const pipeline = this.redis.pipeline()
+      pipeline.get(REDIS_KEYS.ALERT(id))
+      pipeline.get(REDIS_KEYS.ALERT_TRIGGERED(id))
+      const [alert, triggeredAt] = await pipeline.exec()
+      return withTriggerTime(decodeStoredJson<Alert>(alert), triggeredAt)
+    } catch (error) {
+      console.error('Redis getAlert error:', error)
+      throw error
+    }
   }
-}
\ No newline at end of file
+
+  async getAlerts(): Promise<Alert[]> {
+    try {
+      const ids = await this.redis.smembers(REDIS_KEYS.ALERTS)
+      if (ids.length === 0) {
+        return []
+      }
+
+      const pipeline = this.redis.pipeline()
+      ids.forEach(id => {
+        pipeline.get(REDIS_KEYS.ALERT(id))
+        pipeline.get(REDIS_KEYS.ALERT_TRIGGERED(id))
+      })
+
+      const results = await pipeline.exec()
+      return ids
+        .map((_, index) => withTriggerTime(decodeStoredJson<Alert>(results[index * 2]), results[index * 2 + 1]))
+        .filter((alert): alert is Alert => alert !== null)
+    } catch (error) {
+      console.error('Redis getAlerts error:', error)
+      throw error
+    }
+  }
+
+  async markAlertTriggered(id: string, triggeredAt: number): Promise<boolean> {
+    try {
+      // An alert deleted while the cycle evaluated it stays deleted
+      if (!(await this.redis.get(REDIS_KEYS.ALERT(id)))) {
+        return false
+      }
+      await this.redis.set(REDIS_KEYS.ALERT_TRIGGERED(id), String(triggeredAt))
+      return true
+    } catch (error) {
+      console.error('Redis markAlertTriggered error:', error)
+      throw error
+    }
+  }
+
+  async deleteAlert(id: string): Promise<boolean> {
+    try {
+      const pipeline = this.redis.pipeline()
+      pipeline.del(REDIS_KEYS.ALERT(id))
+      pipeline.srem(REDIS_KEYS.ALERTS, id)
+      pipeline.del(REDIS_KEYS.ALERT_TRIGGERED(id))
+      const [deleted] = await pipeline.exec()
+      return Number(deleted) > 0
+    } catch (error) {
+      console.error('Redis deleteAlert error:', error)
+      throw error
+    }
+  }
+
+  async addNotifications(notifications: AlertNotification[], retentionSeconds: number): Promise<void> {
+    try {
+      if (notifications.length === 0) {
+        return
+      }
+
+      const pipeline = this.redis.pipeline()
+      notifications.forEach(notification => {
+        const key = REDIS_KEYS.ALERT_NOTIFICATIONS(notification.owner)
+        pipeline.zadd(key, { score: notification.triggeredAt, member: JSON.stringify(notification) })
+        pipeline.zremrangebyscore(key, '-inf', notification.triggeredAt - retentionSeconds * 1000)
+      })
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis addNotifications error:', error)
+      throw error
+    }
+  }
+
+  async getNotifications(owner: string, limit: number): Promise<AlertNotification[]> {
+    try {
+      const members = await this.redis.zrange(REDIS_KEYS.ALERT_NOTIFICATIONS(owner), '+inf', '-inf', {
+        byScore: true,
+        rev: true,
+        offset: 0,
+        count: limit
+      })
+      return (members as unknown[])
+        .map(member => decodeStoredJson<AlertNotification>(member))
+        .filter((notification): notification is AlertNotification => notification !== null)
+    } catch (error) {
+      console.error('Redis getNotifications error:', error)
+      throw error
+    }
+  }
+
+  // Whale event operations
+  async addWhaleEvents(events: WhaleEvent[], retentionSeconds: number): Promise<void> {
+    try {
+      if (events.length === 0) {
+        return
+      }
+
+      const latest = Math.max(...events.map(event => event.timestamp))
+      const pipeline = this.redis.pipeline()
+      events.forEach(event => {
+        pipeline.zadd(REDIS_KEYS.WHALE_EVENTS, { score: event.timestamp, member: JSON.stringify(event) })
+      })
+      pipeline.zremrangebyscore(REDIS_KEYS.WHALE_EVENTS, '-inf', latest - retentionSeconds * 1000)
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis addWhaleEvents error:', error)
+      throw error
+    }
+  }
+
+  async getWhaleEvents(since: number): Promise<WhaleEvent[]> {
+    try {
+      const members = await this.redis.zrange(REDIS_KEYS.WHALE_EVENTS, '+inf', since, { byScore: true, rev: true })
+      return (members as unknown[])
+        .map(member => decodeStoredJson<WhaleEvent>(member))
+        .filter((event): event is WhaleEvent => event !== null)
+    } catch (error) {
+      console.error('Redis getWhaleEvents error:', error)
+      throw error
+    }
+  }
+
+  // Trade operations
+  async appendTrades(trades: Trade[], retentionSeconds: number): Promise<void> {
+    try {
+      if (trades.length === 0) {
+        return
+      }
+
+      const latest = new Map<number, number>()
+      const pipeline = this.redis.pipeline()
+      trades.forEach(trade => {
+        pipeline.zadd(REDIS_KEYS.TRADES(trade.marketId), { score: trade.timestamp, member: JSON.stringify(trade) })
+        latest.set(trade.marketId, Math.max(latest.get(trade.marketId) ?? 0, trade.timestamp))
+      })
+      latest.forEach((timestamp, marketId) => {
+        pipeline.zremrangebyscore(REDIS_KEYS.TRADES(marketId), '-inf', timestamp - retentionSeconds * 1000)
+      })
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis appendTrades error:', error)
+      throw error
+    }
+  }
+
+  async getTrades(marketId: number, since: number): Promise<Trade[]> {
+    try {
+      const members = await this.redis.zrange(REDIS_KEYS.TRADES(marketId), '+inf', since, { byScore: true, rev: true })
+      return (members as unknown[])
+        .map(member => decodeStoredJson<Trade>(member))
+        .filter((trade): trade is Trade => trade !== null)
+    } catch (error) {
+      console.error('Redis getTrades error:', error)
+      throw error
+    }
+  }
+
+  // Resolution tracking operations
+  async trackResolutions(markets: Market[], dueAt: number): Promise<void> {
+    try {
+      if (markets.length === 0) {
+        return
+      }
+
+      const pipeline = this.redis.pipeline()
+      markets.forEach(market => {
+        pipeline.set(REDIS_KEYS.RESOLUTION_MARKET(market.id), JSON.stringify(market))
+        pipeline.zadd(REDIS_KEYS.RESOLUTION_PENDING, { score: dueAt, member: String(market.id) })
+      })
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis trackResolutions error:', error)
+      throw error
+    }
+  }
+
+  async getDueResolutions(nowMs: number, limit: number): Promise<Market[]> {
+    try {
+      const ids = await this.redis.zrange(REDIS_KEYS.RESOLUTION_PENDING, '-inf', nowMs, {
+        byScore: true,
+        offset: 0,
+        count: limit
+      })
+      if (ids.length === 0) {
+        return []
+      }
+
+      const pipeline = this.redis.pipeline()
+      ids.forEach(id => {
+        pipeline.get(REDIS_KEYS.RESOLUTION_MARKET(Number(id)))
+      })
+      return (await pipeline.exec<unknown[]>())
+        .map(value => decodeStoredJson<Market>(value))
+        .filter((market): market is Market => market !== null)
+    } catch (error) {
+      console.error('Redis getDueResolutions error:', error)
+      throw error
+    }
+  }
+
+  async rescheduleResolution(marketId: number, dueAt: number): Promise<void> {
+    try {
+      await this.redis.zadd(REDIS_KEYS.RESOLUTION_PENDING, { score: dueAt, member: String(marketId) })
+    } catch (error) {
+      console.error('Redis rescheduleResolution error:', error)
+      throw error
+    }
+  }
+
+  async untrackResolutions(marketIds: number[]): Promise<void> {
+    try {
+      if (marketIds.length === 0) {
+        return
+      }
+
+      const pipeline = this.redis.pipeline()
+      marketIds.forEach(id => {
+        pipeline.zrem(REDIS_KEYS.RESOLUTION_PENDING, String(id))
+        pipeline.del(REDIS_KEYS.RESOLUTION_MARKET(id))
+      })
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis untrackResolutions error:', error)
+      throw error
+    }
+  }
+
+  async saveResolvedMarket(market: ResolvedMarket, path: ResolvedPricePath): Promise<void> {
+    try {
+      const pipeline = this.redis.pipeline()
+      pipeline.set(REDIS_KEYS.RESOLVED_MARKET(market.id), JSON.stringify(market))
+      pipeline.set(REDIS_KEYS.RESOLVED_PATH(market.id), JSON.stringify(path))
+      pipeline.zadd(REDIS_KEYS.RESOLVED_BY_TIME, { score: market.resolvedAt, member: String(market.id) })
+      pipeline.zrem(REDIS_KEYS.RESOLUTION_PENDING, String(market.id))
+      pipeline.del(REDIS_KEYS.RESOLUTION_MARKET(market.id))
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis saveResolvedMarket error:', error)
+      throw error
+    }
+  }
+
+  async getResolvedMarkets(): Promise<ResolvedMarket[]> {
+    try {
+      const ids = await this.redis.zrange(REDIS_KEYS.RESOLVED_BY_TIME, '+inf', '-inf', { byScore: true, rev: true })
+      if (ids.length === 0) {
+        return []
+      }
+
+      const pipeline = this.redis.pipeline()
+      ids.forEach(id => {
+        pipeline.get(REDIS_KEYS.RESOLVED_MARKET(Number(id)))
+      })
+      return (await pipeline.exec<unknown[]>())
+        .map(value => decodeStoredJson<ResolvedMarket>(value))
+        .filter((market): market is ResolvedMarket => market !== null)
+    } catch (error) {
+      console.error('Redis getResolvedMarkets error:', error)
+      throw error
+    }
+  }
+
+  async getResolvedPricePaths(marketIds: number[]): Promise<Map<number, ResolvedPricePath>> {
+    try {
+      const paths = new Map<number, ResolvedPricePath>()
+      if (marketIds.length === 0) {
+        return paths
+      }
+
+      const pipeline = this.redis.pipeline()
+      marketIds.forEach(id => {
+        pipeline.get(REDIS_KEYS.RESOLVED_PATH(id))
+      })
+      const values = await pipeline.exec<unknown[]>()
+      marketIds.forEach((id, index) => {
+        const path = decodeStoredJson<ResolvedPricePath>(values[index])
+        if (path) paths.set(id, path)
+      })
+      return paths
+    } catch (error) {
+      console.error('Redis getResolvedPricePaths error:', error)
+      throw error
+    }
+  }
+
+  // Watchlist operations
+  async saveWatchlist(watchlist: Watchlist): Promise<void> {
+    try {
+      const pipeline = this.redis.pipeline()
+      pipeline.set(REDIS_KEYS.WATCHLIST(watchlist.owner, watchlist.id), JSON.stringify(watchlist))
+      pipeline.sadd(REDIS_KEYS.WATCHLISTS(watchlist.owner), watchlist.id)
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis saveWatchlist error:', error)
+      throw error
+    }
+  }
+
+  async getWatchlist(owner: string, id: string): Promise<Watchlist | null> {
+    try {
+      return decodeStoredJson<Watchlist>(await this.redis.get(REDIS_KEYS.WATCHLIST(owner, id)))
+    } catch (error) {
+      console.error('Redis getWatchlist error:', error)
+      throw error
+    }
+  }
+
+  async getWatchlists(owner: string): Promise<Watchlist[]> {
+    try {
+      const ids = await this.redis.smembers(REDIS_KEYS.WATCHLISTS(owner))
+      if (ids.length === 0) {
+        return []
+      }
+
+      const pipeline = this.redis.pipeline()
+      ids.forEach(id => {
+        pipeline.get(REDIS_KEYS.WATCHLIST(owner, id))
+      })
+
+      const results = await pipeline.exec()
+      return results
+        .map(result => decodeStoredJson<Watchlist>(result))
+        .filter((watchlist): watchlist is Watchlist => watchlist !== null)
+        .sort((a, b) => a.createdAt - b.createdAt)
+    } catch (error) {
+      console.error('Redis getWatchlists error:', error)
+      throw error
+    }
+  }
+
+  async deleteWatchlist(owner: string, id: string): Promise<boolean> {
+    try {
+      const pipeline = this.redis.pipeline()
+      pipeline.del(REDIS_KEYS.WATCHLIST(owner, id))
+      pipeline.srem(REDIS_KEYS.WATCHLISTS(owner), id)
+      const [deleted] = await pipeline.exec()
+      return Number(deleted) > 0
+    } catch (error) {
+      console.error('Redis deleteWatchlist error:', error)
+      throw error
+    }
+  }
+
+  // Portfolio tracking operations
+  async addTrackedWallets(wallets: string[]): Promise<void> {
+    try {
+      if (wallets.length === 0) {
+        return
+      }
+      await this.redis.sadd(REDIS_KEYS.PORTFOLIO_WALLETS, wallets[0], ...wallets.slice(1))
+    } catch (error) {
+      console.error('Redis addTrackedWallets error:', error)
+      throw error
+    }
+  }
+
+  async removeTrackedWallet(wallet: string): Promise<boolean> {
+    try {
+      return (await this.redis.srem(REDIS_KEYS.PORTFOLIO_WALLETS, wallet)) > 0
+    } catch (error) {
+      console.error('Redis removeTrackedWallet error:', error)
+      throw error
+    }
+  }
+
+  async getTrackedWallets(): Promise<string[]> {
+    try {
+      return (await this.redis.smembers(REDIS_KEYS.PORTFOLIO_WALLETS)).map(String).sort()
+    } catch (error) {
+      console.error('Redis getTrackedWallets error:', error)
+      throw error
+    }
+  }
+
+  async appendPortfolioSnapshot(
+    wallet: string,
+    point: PortfolioHistoryPoint,
+    state: PortfolioHoldingsState,
+    retentionSeconds: number
+  ): Promise<void> {
+    try {
+      const key = REDIS_KEYS.PORTFOLIO_HISTORY(wallet)
+      const pipeline = this.redis.pipeline()
+      pipeline.zadd(key, { score: point.t, member: JSON.stringify(point) })
+      pipeline.zremrangebyscore(key, '-inf', point.t - retentionSeconds * 1000)
+      pipeline.set(REDIS_KEYS.PORTFOLIO_STATE(wallet), JSON.stringify(state))
+      await pipeline.exec()
+    } catch (error) {
+      console.error('Redis appendPortfolioSnapshot error:', error)
+      throw error
+    }
+  }
+
+  async getPortfolioHistory(wallet: string, from: number, to: number): Promise<PortfolioHistoryPoint[]> {
+    try {
+      const members = await this.redis.zrange(REDIS_KEYS.PORTFOLIO_HISTORY(wallet), from, to, { byScore: true })
+      return (members as unknown[])
+        .map(member => decodeStoredJson<PortfolioHistoryPoint>(member))
+        .filter((point): point is PortfolioHistoryPoint => point !== null)
+    } catch (error) {
+      console.error('Redis getPortfolioHistory error:', error)
+      throw error
+    }
+  }
+
+  async getPortfolioState(wallet: string): Promise<PortfolioHoldingsState | null> {
+    try {
+      return decodeStoredJson<PortfolioHoldingsState>(await this.redis.get(REDIS_KEYS.PORTFOLIO_STATE(wallet)))
+    } catch (error) {
+      console.error('Redis getPortfolioState error:', error)
+      throw error
+    }
+  }
+
+  // Price time series operations
+  async appendPriceSeries(
+    prices: PriceData[],
+    timestamp: number,
+    tiers: SeriesTier[] = getSeriesTiers()
+  ): Promise<void> {
+    try {
+      if (prices.length === 0) {
+        return
+      }
+
+      // Chunk pipelines to keep REST payloads bounded (3 commands per token per tier)
+      const chunkSize = 200
+      for (let i = 0; i < prices.length; i += chunkSize) {
+        const pipeline = this.redis.pipeline()
+
+        prices.slice(i, i + chunkSize).forEach(priceData => {
+          tiers.forEach(tier => {
+            const key = REDIS_KEYS.PRICE_SERIES(priceData.tokenId, tier.resolution)
+            const bucket = seriesBucketStart(timestamp, tier)
+
+            // Replace any earlier point in the same bucket so each bucket holds its last price
+            pipeline.zremrangebyscore(key, bucket, bucket)
+            pipeline.zadd(key, { score: bucket, member: encodeSeriesMember(bucket, priceData.price) })
+            pipeline.zremrangebyscore(key, '-inf', timestamp - tier.retentionSeconds - 1)
+          })
+        })
+
+        await pipeline.exec()
+      }
+    } catch (error) {
+      console.error('Redis appendPriceSeries error:', error)
+      throw error
+    }
+  }
+
+  async getPriceSeries(tokenId: string, query: PriceSeriesQuery = {}): Promise<PriceHistoryPoint[]> {
+    const series = await this.getPriceSeriesBatch([tokenId], query)
+    return series.get(tokenId) || []
+  }
+
+  async getPriceSeriesBatch(tokenIds: string[], query: PriceSeriesQuery = {}): Promise<Map<string, PriceHistoryPoint[]>> {
+    try {
+      const seriesMap = new Map<string, PriceHistoryPoint[]>()
+
+      if (tokenIds.length === 0) {
+        return seriesMap
+      }
+
+      const tier = selectSeriesTier(query)
+      const pipeline = this.redis.pipeline()
+      tokenIds.forEach(tokenId => {
+        pipeline.zrange(
+          REDIS_KEYS.PRICE_SERIES(tokenId, tier.resolution),
+          query.from ?? 0,
+          query.to ?? Number.MAX_SAFE_INTEGER,
+          { byScore: true }
+        )
+      })
+
+      const results = await pipeline.exec()
+
+      results.forEach((members, index) => {
+        const points = Array.isArray(members)
+          ? members.map(decodeSeriesMember).filter((point): point is PriceHistoryPoint => point !== null)
+          : []
+        seriesMap.set(tokenIds[index], points)
+      })
+
+      return seriesMap
+    } catch (error) {
+      console.error('Redis getPriceSeriesBatch error:', error)
+      throw error
+    }
+  }
+}
+
+/**
+ * In-process storage backing InMemoryRedisClient
+ * Mirrors the Redis data types the app uses: strings with TTL, hashes and sorted sets
+ */
+interface StoredString {
+  value: string
+  expiresAt: number | null
+}
+
+interface MemoryStoreData {
+  strings: Array<[string, StoredString]>
+  hashes: Array<[string, Record<string, unknown>]>
+  zsets: Array<[string, Array<[string, number]>]>
+  sets?: Array<[string, string[]]>
+}
+
+interface MemoryRangeOptions {
+  rev?: boolean
+  offset?: number
+  count?: number
+}
+
+const toScore = (bound: ScoreBound): number =>
+  bound === '-inf' ? -Infinity : bound === '+inf' ? Infinity : bound
+
+/**
+ * Convert a Redis glob pattern (*, ?) to a RegExp
+ */
+const globToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`)
+}
+
+/**
+ * Market hash read back from the in-memory store (hashes hold whatever was written to them)
+ */
+const isMarketHash = (hash: unknown): hash is MarketData =>
+  typeof hash === 'object' && hash !== null && typeof (hash as Record<string, unknown>).id === 'string'
+
+class MemoryStore {
+  private strings = new Map<string, StoredString>()
+  private hashes = new Map<string, Record<string, unknown>>()
+  private zsets = new Map<string, Map<string, number>>()
+  private sets = new Map<string, Set<string>>()
+
+  get(key: string): string | null {
+    const entry = this.strings.get(key)
+    if (!entry) return null
+
+    if (entry.expiresAt !== null && Date.now() >= entry.expiresAt) {
+      this.strings.delete(key)
+      return null
+    }
+
+    return entry.value
+  }
+
+  set(key: string, value: string, ttlSeconds?: number): void {
+    this.del(key)
+    this.strings.set(key, {
+      value,
+      expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null
+    })
+  }
+
+  hset(key: string, fields: Record<string, unknown>): number {
+    const hash = this.hashes.get(key) || {}
+    const added = Object.keys(fields).filter(field => !(field in hash)).length
+    this.hashes.set(key, { ...hash, ...fields })
+    return added
+  }
+
+  hgetall(key: string): Record<string, unknown> | null {
+    const hash = this.hashes.get(key)
+    return hash ? { ...hash } : null
+  }
+
+  zadd(key: string, score: number, member: string): void {
+    const zset = this.zsets.get(key) || new Map<string, number>()
+    zset.set(member, score)
+    this.zsets.set(key, zset)
+  }
+
+  /**
+   * ZRANGE ... BYSCORE semantics: with rev the bounds are given as (max, min)
+   */
+  zrangeByScore(key: string, min: ScoreBound, max: ScoreBound, options: MemoryRangeOptions = {}): string[] {
+    const zset = this.zsets.get(key)
+    if (!zset) return []
+
+    const lower = toScore(options.rev ? max : min)
+    const upper = toScore(options.rev ? min : max)
+    const members = Array.from(zset.entries())
+      .filter(([, score]) => score >= lower && score <= upper)
+      .sort((a, b) => a[1] - b[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+      .map(([member]) => member)
+
+    if (options.rev) members.reverse()
+    const offset = options.offset ?? 0
+    return members.slice(offset, options.count !== undefined ? offset + options.count : undefined)
+  }
+
+  zcount(key: string, min: ScoreBound, max: ScoreBound): number {
+    return this.zrangeByScore(key, min, max).length
+  }
+
+  zrem(key: string, members: string[]): number {
+    const zset = this.zsets.get(key)
+    if (!zset) return 0
+
+    const removed = members.filter(member => zset.delete(member)).length
+    if (zset.size === 0) this.zsets.delete(key)
+    return removed
+  }
+
+  sadd(key: string, members: string[]): number {
+    const set = this.sets.get(key) || new Set<string>()
+    const added = members.filter(member => !set.has(member)).length
+    members.forEach(member => set.add(member))
+    this.sets.set(key, set)
+    return added
+  }
+
+  srem(key: string, members: string[]): number {
+    const set = this.sets.get(key)
+    if (!set) return 0
+
+    const removed = members.filter(member => set.delete(member)).length
+    if (set.size === 0) this.sets.delete(key)
+    return removed
+  }
+
+  smembers(key: string): string[] {
+    return Array.from(this.sets.get(key) || [])
+  }
+
+  zremrangebyscore(key: string, min: ScoreBound, max: ScoreBound): number {
+    const zset = this.zsets.get(key)
+    if (!zset) return 0
+
+    const lower = toScore(min)
+    const upper = toScore(max)
+    let removed = 0
+    zset.forEach((score, member) => {
+      if (score >= lower && score <= upper) {
+        zset.delete(member)
+        removed++
+      }
+    })
+
+    if (zset.size === 0) this.zsets.delete(key)
+    return removed
+  }
+
+  del(key: string): number {
+    const existed = this.exists(key)
+    this.strings.delete(key)
+    this.hashes.delete(key)
+    this.zsets.delete(key)
+    this.sets.delete(key)
+    return existed ? 1 : 0
+  }
+
+  keys(pattern: string): string[] {
+    const regex = globToRegExp(pattern)
+    const allKeys = new Set<string>()
+
+    this.strings.forEach((_, key) => {
+      if (this.get(key) !== null) allKeys.add(key)
+    })
+    this.hashes.forEach((_, key) => allKeys.add(key))
+    this.zsets.forEach((_, key) => allKeys.add(key))
+    this.sets.forEach((_, key) => allKeys.add(key))
+
+    return Array.from(allKeys).filter(key => regex.test(key)).sort()
+  }
+
+  private exists(key: string): boolean {
+    return this.get(key) !== null || this.hashes.has(key) || this.zsets.has(key) || this.sets.has(key)
+  }
+
+  toJSON(): MemoryStoreData {
+    const now = Date.now()
+    return {
+      strings: Array.from(this.strings.entries())
+        .filter(([, entry]) => entry.expiresAt === null || entry.expiresAt > now),
+      hashes: Array.from(this.hashes.entries()),
+      zsets: Array.from(this.zsets.entries()).map(([key, zset]) => [key, Array.from(zset.entries())]),
+      sets: Array.from(this.sets.entries()).map(([key, set]) => [key, Array.from(set)])
+    }
+  }
+
+  load(data: Partial<MemoryStoreData>): void {
+    this.strings = new Map(data.strings || [])
+    this.hashes = new Map(data.hashes || [])
+    this.zsets = new Map((data.zsets || []).map(([key, entries]) => [key, new Map(entries)]))
+    this.sets = new Map((data.sets || []).map(([key, members]) => [key, new Set(members)]))
+  }
+}
+
+/**
+ * Command queue with the same shape as an Upstash pipeline
+ * Commands run in order on exec(), results are returned in the same order
+ */
+class MemoryPipeline {
+  private commands: Array<(store: MemoryStore) => unknown> = []
+
+  constructor(
+    private readonly store: MemoryStore,
+    private readonly onWrite: () => void
+  ) { }
+
+  get(key: string): this {
+    this.commands.push(store => store.get(key))
+    return this
+  }
+
+  set(key: string, value: string, options: { ex?: number } = {}): this {
+    this.commands.push(store => store.set(key, value, options.ex))
+    return this
+  }
+
+  hset(key: string, fields: Record<string, unknown>): this {
+    this.commands.push(store => store.hset(key, fields))
+    return this
+  }
+
+  hgetall(key: string): this {
+    this.commands.push(store => store.hgetall(key))
+    return this
+  }
+
+  zadd(key: string, entry: { score: number; member: string }): this {
+    this.commands.push(store => store.zadd(key, entry.score, entry.member))
+    return this
+  }
+
+  zrange(key: string, min: ScoreBound, max: ScoreBound, options: MemoryRangeOptions = {}): this {
+    this.commands.push(store => store.zrangeByScore(key, min, max, options))
+    return this
+  }
+
+  zcount(key: string, min: ScoreBound, max: ScoreBound): this {
+    this.commands.push(store => store.zcount(key, min, max))
+    return this
+  }
+
+  zrem(key: string, ...members: string[]): this {
+    this.commands.push(store => store.zrem(key, members))
+    return this
+  }
+
+  sadd(key: string, ...members: string[]): this {
+    this.commands.push(store => store.sadd(key, members))
+    return this
+  }
+
+  srem(key: string, ...members: string[]): this {
+    this.commands.push(store => store.srem(key, members))
+    return this
+  }
+
+  smembers(key: string): this {
+    this.commands.push(store => store.smembers(key))
+    return this
+  }
+
+  del(key: string): this {
+    this.commands.push(store => store.del(key))
+    return this
+  }
+
+  zremrangebyscore(key: string, min: ScoreBound, max: ScoreBound): this {
+    this.commands.push(store => store.zremrangebyscore(key, min, max))
+    return this
+  }
+
+  async exec(): Promise<unknown[]> {
+    const results = this.commands.map(command => command(this.store))
+    this.commands = []
+    this.onWrite()
+    return results
+  }
+}
+
+export interface MemoryRedisOptions {
+  persistPath?: string // JSON file used to survive restarts
+  persistDebounceMs?: number // 1000
+}
+
+/**
+ * In-process RedisClient for local development and tests
+ * Same key layout and semantics as UpstashRedisClient, optionally persisted to a JSON file
+ */
+class InMemoryRedisClient implements RedisClient {
+  private store = new MemoryStore()
+  private readonly persistPath?: string
+  private readonly persistDebounceMs: number
+  private persistTimer: NodeJS.Timeout | null = null
+
+  constructor(options: MemoryRedisOptions = {}) {
+    this.persistPath = options.persistPath
+    this.persistDebounceMs = options.persistDebounceMs ?? 1000
+    this.loadFromDisk()
+  }
+
+  private pipeline(): MemoryPipeline {
+    return new MemoryPipeline(this.store, () => this.schedulePersist())
+  }
+
+  // Basic operations
+  async get(key: string): Promise<string | null> {
+    return this.store.get(key)
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<void> {
+    this.store.set(key, value, ttl)
+    this.schedulePersist()
+  }
+
+  async del(key: string): Promise<void> {
+    this.store.del(key)
+    this.schedulePersist()
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return this.store.keys(pattern)
+  }
+
+  async ping(): Promise<string> {
+    return 'PONG'
+  }
+
+  // Market data operations
+  async setMarket(marketId: string, marketData: MarketData): Promise<void> {
+    this.store.hset(REDIS_KEYS.MARKET(marketId), marketData)
+    this.schedulePersist()
+  }
+
+  async getMarket(marketId: string): Promise<MarketData | null> {
+    const result = this.store.hgetall(REDIS_KEYS.MARKET(marketId))
+    return isMarketHash(result) ? result : null
+  }
+
+  async getAllMarkets(): Promise<MarketData[]> {
+    return this.getMarketHashes(this.store.smembers(REDIS_KEYS.MARKETS_ACTIVE))
+  }
+
+  private async getMarketHashes(ids: string[]): Promise<MarketData[]> {
+    if (ids.length === 0) {
+      return []
+    }
+
+    const pipeline = this.pipeline()
+    ids.forEach(id => {
+      pipeline.hgetall(REDIS_KEYS.MARKET(id))
+    })
+
+    const results = await pipeline.exec()
+    return results.filter(isMarketHash)
+  }
+
+  // Market registry operations
+  async indexMarkets(markets: MarketData[], options: { prune?: boolean } = {}): Promise<void> {
+    const facetMembers = new Map<string, string[]>()
+    this.store.smembers(REDIS_KEYS.MARKET_FACETS).forEach(key => {
+      facetMembers.set(key, this.store.smembers(key))
+    })
+
+    const plan = planMarketIndexUpdate(
+      markets,
+      this.store.smembers(REDIS_KEYS.MARKETS_ACTIVE),
+      facetMembers,
+      options.prune ?? true
+    )
+    const pipeline = this.pipeline()
+
+    if (plan.removedIds.length > 0) {
+      pipeline.srem(REDIS_KEYS.MARKETS_ACTIVE, ...plan.removedIds)
+      pipeline.zrem(REDIS_KEYS.MARKETS_BY_VOLUME, ...plan.removedIds)
+      pipeline.zrem(REDIS_KEYS.MARKETS_BY_CUTOFF, ...plan.removedIds)
+      plan.removedIds.forEach(id => {
+        pipeline.del(REDIS_KEYS.MARKET(id))
+      })
+    }
+    plan.facetRemovals.forEach((ids, key) => {
+      pipeline.srem(key, ...ids)
+    })
+
+    pipeline.sadd(REDIS_KEYS.MARKETS_ACTIVE, ...plan.activeIds)
+    plan.volumeScores.forEach(entry => {
+      pipeline.zadd(REDIS_KEYS.MARKETS_BY_VOLUME, entry)
+    })
+    plan.cutoffScores.forEach(entry => {
+      pipeline.zadd(REDIS_KEYS.MARKETS_BY_CUTOFF, entry)
+    })
+    plan.facetAdds.forEach((ids, key) => {
+      pipeline.sadd(key, ...ids)
+      pipeline.sadd(REDIS_KEYS.MARKET_FACETS, key)
+    })
+
+    await pipeline.exec()
+  }
+
+  async queryMarkets(query: MarketQuery = {}): Promise<MarketQueryResult> {
+    const plan = planMarketQuery(query)
+    const [start, stop] = plan.rev ? [plan.max, plan.min] : [plan.min, plan.max]
+    const orderedIds = this.store.zrangeByScore(plan.indexKey, start, stop, { rev: plan.rev })
+
+    const filters = plan.facetKeys.map(key => this.store.smembers(key))
+    if (plan.cutoffRange) {
+      filters.push(this.store.zrangeByScore(REDIS_KEYS.MARKETS_BY_CUTOFF, plan.cutoffRange[0], plan.cutoffRange[1]))
+    }
+
+    const page = selectMarketPage(orderedIds, filters, plan)
+    return { markets: await this.getMarketHashes(page.ids), total: page.total }
+  }
+
+  // Price data operations
+  async setPrice(tokenId: string, priceData: PriceData): Promise<void> {
+    this.store.set(REDIS_KEYS.PRICE(tokenId), JSON.stringify(priceData))
+    this.schedulePersist()
+  }
+
+  async getPrice(tokenId: string): Promise<PriceData | null> {
+    const result = this.store.get(REDIS_KEYS.PRICE(tokenId))
+    return result ? JSON.parse(result) as PriceData : null
+  }
+
+  async getPrices(tokenIds: string[]): Promise<Map<string, PriceData>> {
+    const priceMap = new Map<string, PriceData>()
+    if (tokenIds.length === 0) {
+      return priceMap
+    }
+
+    const pipeline = this.pipeline()
+    tokenIds.forEach(tokenId => {
+      pipeline.get(REDIS_KEYS.PRICE(tokenId))
+    })
+
+    const results = await pipeline.exec()
+    results.forEach((result, index) => {
+      if (result && typeof result === 'string') {
+        try {
+          priceMap.set(tokenIds[index], JSON.parse(result) as PriceData)
+        } catch (parseError) {
+          console.error(`Failed to parse price data for token ${tokenIds[index]}:`, parseError)
+        }
+      }
+    })
+
+    return priceMap
+  }
+
+  // Batch operations
+  async setMarketSnapshot(markets: MarketData[], prices: Map<string, PriceData>): Promise<void> {
+    const pipeline = this.pipeline()
+
+    markets.forEach(market => {
+      pipeline.hset(REDIS_KEYS.MARKET(market.id), market)
+    })
+    prices.forEach((priceData, tokenId) => {
+      pipeline.set(REDIS_KEYS.PRICE(tokenId), JSON.stringify(priceData))
+    })
+    pipeline.set(REDIS_KEYS.LAST_SYNC, Date.now().toString())
+
+    await pipeline.exec()
+  }
+
+  // Orderbook liquidity operations
+  async setLiquidity(summaries: LiquiditySummary[], ttlSeconds: number): Promise<void> {
+    if (summaries.length === 0) {
+      return
+    }
+
+    const pipeline = this.pipeline()
+    summaries.forEach(summary => {
+      pipeline.set(REDIS_KEYS.LIQUIDITY(summary.tokenId), JSON.stringify(summary), { ex: ttlSeconds })
+    })
+
+    await pipeline.exec()
+  }
+
+  async getLiquidity(tokenIds: string[]): Promise<Map<string, LiquiditySummary>> {
+    const liquidityMap = new Map<string, LiquiditySummary>()
+    if (tokenIds.length === 0) {
+      return liquidityMap
+    }
+
+    const pipeline = this.pipeline()
+    tokenIds.forEach(tokenId => {
+      pipeline.get(REDIS_KEYS.LIQUIDITY(tokenId))
+    })
+
+    const results = await pipeline.exec()
+    results.forEach((result, index) => {
+      const summary = decodeStoredJson<LiquiditySummary>(result)
+      if (summary) {
+        liquidityMap.set(tokenIds[index], summary)
+      }
+    })
+
+    return liquidityMap
+  }
+  async appendBookSnapshots(snapshots: Map<string, BookSnapshot>, retentionSeconds: number): Promise<void> {
+    if (snapshots.size === 0) {
+      return
+    }
+
+    const pipeline = this.pipeline()
+    snapshots.forEach((snapshot, tokenId) => {
+      const key = REDIS_KEYS.BOOK_HISTORY(tokenId)
+      pipeline.zadd(key, { score: snapshot.t, member: JSON.stringify(snapshot) })
+      pipeline.zremrangebyscore(key, '-inf', snapshot.t - retentionSeconds)
+    })
+    await pipeline.exec()
+  }
+
+  async getBookSnapshots(tokenIds: string[], from: number, to: number): Promise<Map<string, BookSnapshot[]>> {
+    const snapshotMap = new Map<string, BookSnapshot[]>()
+    tokenIds.forEach(tokenId => {
+      snapshotMap.set(tokenId, this.store.zrangeByScore(REDIS_KEYS.BOOK_HISTORY(tokenId), from, to)
+        .map(member => decodeStoredJson<BookSnapshot>(member))
+        .filter((snapshot): snapshot is BookSnapshot => snapshot !== null))
+    })
+    return snapshotMap
+  }
+
+
+  // Volatility operations
+  async setVolatility(stats: VolatilityStats[], ttlSeconds: number): Promise<void> {
+    if (stats.length === 0) {
+      return
+    }
+
+    const pipeline = this.pipeline()
+    stats.forEach(entry => {
+      pipeline.set(REDIS_KEYS.VOLATILITY(entry.tokenId), JSON.stringify(entry), { ex: ttlSeconds })
+    })
+
+    await pipeline.exec()
+  }
+
+  async getVolatility(tokenIds: string[]): Promise<Map<string, VolatilityStats>> {
+    const volatilityMap = new Map<string, VolatilityStats>()
+    if (tokenIds.length === 0) {
+      return volatilityMap
+    }
+
+    const pipeline = this.pipeline()
+    tokenIds.forEach(tokenId => {
+      pipeline.get(REDIS_KEYS.VOLATILITY(tokenId))
+    })
+
+    const results = await pipeline.exec()
+    results.forEach((result, index) => {
+      const stats = decodeStoredJson<VolatilityStats>(result)
+      if (stats) {
+        volatilityMap.set(tokenIds[index], stats)
+      }
+    })
+
+    return volatilityMap
+  }
+
+  // Change feed operations
+  async appendStreamEvent(event: StreamEvent, retentionSeconds: number): Promise<void> {
+    const pipeline = this.pipeline()
+    pipeline.zadd(REDIS_KEYS.STREAM_EVENTS, { score: event.seq, member: JSON.stringify(event) })
+    pipeline.zremrangebyscore(REDIS_KEYS.STREAM_EVENTS, '-inf', event.seq - retentionSeconds * 1000)
+    await pipeline.exec()
+  }
+
+  async getStreamEvents(afterSeq: number): Promise<StreamEvent[]> {
+    return this.store.zrangeByScore(REDIS_KEYS.STREAM_EVENTS, afterSeq + 1, '+inf')
+      .map(decodeStreamEvent)
+      .filter((event): event is StreamEvent => event !== null)
+  }
+
+  // Alert operations
+  async saveAlert(alert: Alert): Promise<void> {
+    const pipeline = this.pipeline()
+    pipeline.set(REDIS_KEYS.ALERT(alert.id), JSON.stringify(alert))
+    pipeline.sadd(REDIS_KEYS.ALERTS, alert.id)
+    await pipeline.exec()
+  }
+
+  async getAlert(id: string): Promise<Alert | null> {
+    return withTriggerTime(decodeStoredJson<Alert>(this.store.get(REDIS_KEYS.ALERT(id))), this.store.get(REDIS_KEYS.ALERT_TRIGGERED(id)))
+  }
+
+  async getAlerts(): Promise<Alert[]> {
+    return this.store.smembers(REDIS_KEYS.ALERTS)
+      .map(id => withTriggerTime(decodeStoredJson<Alert>(this.store.get(REDIS_KEYS.ALERT(id))), this.store.get(REDIS_KEYS.ALERT_TRIGGERED(id))))
+      .filter((alert): alert is Alert => alert !== null)
+  }
+
+  async markAlertTriggered(id: string, triggeredAt: number): Promise<boolean> {
+    if (this.store.get(REDIS_KEYS.ALERT(id)) === null) {
+      return false
+    }
+    this.store.set(REDIS_KEYS.ALERT_TRIGGERED(id), String(triggeredAt))
+    this.schedulePersist()
+    return true
+  }
+
+  async deleteAlert(id: string): Promise<boolean> {
+    const pipeline = this.pipeline()
+    pipeline.del(REDIS_KEYS.ALERT(id))
+    pipeline.srem(REDIS_KEYS.ALERTS, id)
+    pipeline.del(REDIS_KEYS.ALERT_TRIGGERED(id))
+    const [deleted] = await pipeline.exec()
+    return Number(deleted) > 0
+  }
+
+  async addNotifications(notifications: AlertNotification[], retentionSeconds: number): Promise<void> {
+    if (notifications.length === 0) {
+      return
+    }
+
+    const pipeline = this.pipeline()
+    notifications.forEach(notification => {
+      const key = REDIS_KEYS.ALERT_NOTIFICATIONS(notification.owner)
+      pipeline.zadd(key, { score: notification.triggeredAt, member: JSON.stringify(notification) })
+      pipeline.zremrangebyscore(key, '-inf', notification.triggeredAt - retentionSeconds * 1000)
+    })
+    await pipeline.exec()
+  }
+
+  async getNotifications(owner: string, limit: number): Promise<AlertNotification[]> {
+    return this.store.zrangeByScore(REDIS_KEYS.ALERT_NOTIFICATIONS(owner), '+inf', '-inf', { rev: true, count: limit })
+      .map(member => decodeStoredJson<AlertNotification>(member))
+      .filter((notification): notification is AlertNotification => notification !== null)
+  }
+
+  // Whale event operations
+  async addWhaleEvents(events: WhaleEvent[], retentionSeconds: number): Promise<void> {
+    if (events.length === 0) {
+      return
+    }
+
+    const latest = Math.max(...events.map(event => event.timestamp))
+    const pipeline = this.pipeline()
+    events.forEach(event => {
+      pipeline.zadd(REDIS_KEYS.WHALE_EVENTS, { score: event.timestamp, member: JSON.stringify(event) })
+    })
+    pipeline.zremrangebyscore(REDIS_KEYS.WHALE_EVENTS, '-inf', latest - retentionSeconds * 1000)
+    await pipeline.exec()
+  }
+
+  async getWhaleEvents(since: number): Promise<WhaleEvent[]> {
+    return this.store.zrangeByScore(REDIS_KEYS.WHALE_EVENTS, '+inf', since, { rev: true })
+      .map(member => decodeStoredJson<WhaleEvent>(member))
+      .filter((event): event is WhaleEvent => event !== null)
+  }
+
+  // Trade operations
+  async appendTrades(trades: Trade[], retentionSeconds: number): Promise<void> {
+    if (trades.length === 0) {
+      return
+    }
+
+    const latest = new Map<number, number>()
+    const pipeline = this.pipeline()
+    trades.forEach(trade => {
+      pipeline.zadd(REDIS_KEYS.TRADES(trade.marketId), { score: trade.timestamp, member: JSON.stringify(trade) })
+      latest.set(trade.marketId, Math.max(latest.get(trade.marketId) ?? 0, trade.timestamp))
+    })
+    latest.forEach((timestamp, marketId) => {
+      pipeline.zremrangebyscore(REDIS_KEYS.TRADES(marketId), '-inf', timestamp - retentionSeconds * 1000)
+    })
+    await pipeline.exec()
+  }
+
+  async getTrades(marketId: number, since: number): Promise<Trade[]> {
+    return this.store.zrangeByScore(REDIS_KEYS.TRADES(marketId), '+inf', since, { rev: true })
+      .map(member => decodeStoredJson<Trade>(member))
+      .filter((trade): trade is Trade => trade !== null)
+  }
+
+  // Resolution tracking operations
+  async trackResolutions(markets: Market[], dueAt: number): Promise<void> {
+    if (markets.length === 0) {
+      return
+    }
+
+    const pipeline = this.pipeline()
+    markets.forEach(market => {
+      pipeline.set(REDIS_KEYS.RESOLUTION_MARKET(market.id), JSON.stringify(market))
+      pipeline.zadd(REDIS_KEYS.RESOLUTION_PENDING, { score: dueAt, member: String(market.id) })
+    })
+    await pipeline.exec()
+  }
+
+  async getDueResolutions(nowMs: number, limit: number): Promise<Market[]> {
+    return this.store.zrangeByScore(REDIS_KEYS.RESOLUTION_PENDING, '-inf', nowMs, { count: limit })
+      .map(id => decodeStoredJson<Market>(this.store.get(REDIS_KEYS.RESOLUTION_MARKET(Number(id)))))
+      .filter((market): market is Market => market !== null)
+  }
+
+  async rescheduleResolution(marketId: number, dueAt: number): Promise<void> {
+    const pipeline = this.pipeline()
+    pipeline.zadd(REDIS_KEYS.RESOLUTION_PENDING, { score: dueAt, member: String(marketId) })
+    await pipeline.exec()
+  }
+
+  async untrackResolutions(marketIds: number[]): Promise<void> {
+    if (marketIds.length === 0) {
+      return
+    }
+
+    const pipeline = this.pipeline()
+    marketIds.forEach(id => {
+      pipeline.zrem(REDIS_KEYS.RESOLUTION_PENDING, String(id))
+      pipeline.del(REDIS_KEYS.RESOLUTION_MARKET(id))
+    })
+    await pipeline.exec()
+  }
+
+  async saveResolvedMarket(market: ResolvedMarket, path: ResolvedPricePath): Promise<void> {
+    const pipeline = this.pipeline()
+    pipeline.set(REDIS_KEYS.RESOLVED_MARKET(market.id), JSON.stringify(market))
+    pipeline.set(REDIS_KEYS.RESOLVED_PATH(market.id), JSON.stringify(path))
+    pipeline.zadd(REDIS_KEYS.RESOLVED_BY_TIME, { score: market.resolvedAt, member: String(market.id) })
+    pipeline.zrem(REDIS_KEYS.RESOLUTION_PENDING, String(market.id))
+    pipeline.del(REDIS_KEYS.RESOLUTION_MARKET(market.id))
+    await pipeline.exec()
+  }
+
+  async getResolvedMarkets(): Promise<ResolvedMarket[]> {
+    return this.store.zrangeByScore(REDIS_KEYS.RESOLVED_BY_TIME, '+inf', '-inf', { rev: true })
+      .map(id => decodeStoredJson<ResolvedMarket>(this.store.get(REDIS_KEYS.RESOLVED_MARKET(Number(id)))))
+      .filter((market): market is ResolvedMarket => market !== null)
+  }
+
+  async getResolvedPricePaths(marketIds: number[]): Promise<Map<number, ResolvedPricePath>> {
+    const paths = new Map<number, ResolvedPricePath>()
+    marketIds.forEach(id => {
+      const path = decodeStoredJson<ResolvedPricePath>(this.store.get(REDIS_KEYS.RESOLVED_PATH(id)))
+      if (path) paths.set(id, path)
+    })
+    return paths
+  }
+
+  // Watchlist operations
+  async saveWatchlist(watchlist: Watchlist): Promise<void> {
+    const pipeline = this.pipeline()
+    pipeline.set(REDIS_KEYS.WATCHLIST(watchlist.owner, watchlist.id), JSON.stringify(watchlist))
+    pipeline.sadd(REDIS_KEYS.WATCHLISTS(watchlist.owner), watchlist.id)
+    await pipeline.exec()
+  }
+
+  async getWatchlist(owner: string, id: string): Promise<Watchlist | null> {
+    return decodeStoredJson<Watchlist>(this.store.get(REDIS_KEYS.WATCHLIST(owner, id)))
+  }
+
+  async getWatchlists(owner: string): Promise<Watchlist[]> {
+    return this.store.smembers(REDIS_KEYS.WATCHLISTS(owner))
+      .map(id => decodeStoredJson<Watchlist>(this.store.get(REDIS_KEYS.WATCHLIST(owner, id))))
+      .filter((watchlist): watchlist is Watchlist => watchlist !== null)
+      .sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  async deleteWatchlist(owner: string, id: string): Promise<boolean> {
+    const pipeline = this.pipeline()
+    pipeline.del(REDIS_KEYS.WATCHLIST(owner, id))
+    pipeline.srem(REDIS_KEYS.WATCHLISTS(owner), id)
+    const [deleted] = await pipeline.exec()
+    return Number(deleted) > 0
+  }
+
+  // Portfolio tracking operations
+  async addTrackedWallets(wallets: string[]): Promise<void> {
+    if (wallets.length === 0) {
+      return
+    }
+    this.store.sadd(REDIS_KEYS.PORTFOLIO_WALLETS, wallets)
+    this.schedulePersist()
+  }
+
+  async removeTrackedWallet(wallet: string): Promise<boolean> {
+    const removed = this.store.srem(REDIS_KEYS.PORTFOLIO_WALLETS, [wallet])
+    this.schedulePersist()
+    return removed > 0
+  }
+
+  async getTrackedWallets(): Promise<string[]> {
+    return this.store.smembers(REDIS_KEYS.PORTFOLIO_WALLETS).sort()
+  }
+
+  async appendPortfolioSnapshot(
+    wallet: string,
+    point: PortfolioHistoryPoint,
+    state: PortfolioHoldingsState,
+    retentionSeconds: number
+  ): Promise<void> {
+    const key = REDIS_KEYS.PORTFOLIO_HISTORY(wallet)
+    const pipeline = this.pipeline()
+    pipeline.zadd(key, { score: point.t, member: JSON.stringify(point) })
+    pipeline.zremrangebyscore(key, '-inf', point.t - retentionSeconds * 1000)
+    pipeline.set(REDIS_KEYS.PORTFOLIO_STATE(wallet), JSON.stringify(state))
+    await pipeline.exec()
+  }
+
+  async getPortfolioHistory(wallet: string, from: number, to: number): Promise<PortfolioHistoryPoint[]> {
+    return this.store.zrangeByScore(REDIS_KEYS.PORTFOLIO_HISTORY(wallet), from, to)
+      .map(member => decodeStoredJson<PortfolioHistoryPoint>(member))
+      .filter((point): point is PortfolioHistoryPoint => point !== null)
+  }
+
+  async getPortfolioState(wallet: string): Promise<PortfolioHoldingsState | null> {
+    return decodeStoredJson<PortfolioHoldingsState>(this.store.get(REDIS_KEYS.PORTFOLIO_STATE(wallet)))
+  }
+
+  // Price time series operations
+  async appendPriceSeries(
+    prices: PriceData[],
+    timestamp: number,
+    tiers: SeriesTier[] = getSeriesTiers()
+  ): Promise<void> {
+    if (prices.length === 0) {
+      return
+    }
+
+    const pipeline = this.pipeline()
+    prices.forEach(priceData => {
+      tiers.forEach(tier => {
+        const key = REDIS_KEYS.PRICE_SERIES(priceData.tokenId, tier.resolution)
+        const bucket = seriesBucketStart(timestamp, tier)
+
+        pipeline.zremrangebyscore(key, bucket, bucket)
+        pipeline.zadd(key, { score: bucket, member: encodeSeriesMember(bucket, priceData.price) })
+        pipeline.zremrangebyscore(key, '-inf', timestamp - tier.retentionSeconds - 1)
+      })
+    })
+
+    await pipeline.exec()
+  }
+
+  async getPriceSeries(tokenId: string, query: PriceSeriesQuery = {}): Promise<PriceHistoryPoint[]> {
+    const series = await this.getPriceSeriesBatch([tokenId], query)
+    return series.get(tokenId) || []
+  }
+
+  async getPriceSeriesBatch(tokenIds: string[], query: PriceSeriesQuery = {}): Promise<Map<string, PriceHistoryPoint[]>> {
+    const seriesMap = new Map<string, PriceHistoryPoint[]>()
+    if (tokenIds.length === 0) {
+      return seriesMap
+    }
+
+    const tier = selectSeriesTier(query)
+    const pipeline = this.pipeline()
+    tokenIds.forEach(tokenId => {
+      pipeline.zrange(REDIS_KEYS.PRICE_SERIES(tokenId, tier.resolution), query.from ?? 0, query.to ?? '+inf')
+    })
+
+    const results = await pipeline.exec()
+    results.forEach((members, index) => {
+      const points = (members as string[])
+        .map(decodeSeriesMember)
+        .filter((point): point is PriceHistoryPoint => point !== null)
+      seriesMap.set(tokenIds[index], points)
+    })
+
+    return seriesMap
+  }
+
+  /**
+   * Write pending changes to disk immediately (no-op without persistPath)
+   */
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer)
+      this.persistTimer = null
+    }
+    if (!this.persistPath) {
+      return
+    }
+
+    try {
+      // Write to a temp file and rename so a crash never leaves a truncated snapshot
+      const tempPath = `${this.persistPath}.tmp`
+      await fs.promises.mkdir(path.dirname(this.persistPath), { recursive: true })
+      await fs.promises.writeFile(tempPath, JSON.stringify(this.store.toJSON()))
+      await fs.promises.rename(tempPath, this.persistPath)
+    } catch (error) {
+      console.error(`[Redis] Failed to persist in-memory store to ${this.persistPath}:`, error)
+    }
+  }
+
+  private schedulePersist(): void {
+    if (!this.persistPath || this.persistTimer) {
+      return
+    }
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null
+      this.flush().catch(() => undefined)
+    }, this.persistDebounceMs)
+
+    // Pending writes must not keep the process alive
+    if (this.persistTimer.unref) {
+      this.persistTimer.unref()
+    }
+  }
+
+  private loadFromDisk(): void {
+    if (!this.persistPath || !fs.existsSync(this.persistPath)) {
+      return
+    }
+
+    try {
+      this.store.load(JSON.parse(fs.readFileSync(this.persistPath, 'utf8')))
+      console.info(`[Redis] Loaded in-memory store from ${this.persistPath}`)
+    } catch (error) {
+      console.warn(`[Redis] Ignoring unreadable persistence file ${this.persistPath}:`, error)
+    }
+  }
+}
+
+// Create and export Redis client instance
+// Kept on globalThis so Next.js dev reloads and separate route bundles share one in-memory store
+const globalForRedis = globalThis as unknown as { redisClient?: RedisClient | null }
+
+export function createRedisClient(): RedisClient {
+  const config: RedisConfig = {
+    url: process.env.UPSTASH_REDIS_REST_URL || '',
+    token: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+    timeout: parseInt(process.env.REDIS_TIMEOUT_MS || '5000')
+  }
+
+  if (!config.url || !config.token) {
+    throw new Error('Redis configuration missing: UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are required')
+  }
+
+  return new UpstashRedisClient(config)
+}
+
+/**
+ * Create an in-process client
+ * Persists to REDIS_PERSIST_PATH when set so local data survives restarts
+ */
+export function createMemoryRedisClient(options: MemoryRedisOptions = {}): InMemoryRedisClient {
+  return new InMemoryRedisClient({
+    persistPath: process.env.REDIS_PERSIST_PATH || undefined,
+    ...options
+  })
+}
+
+/**
+ * Resolve the shared client
+ * REDIS_DRIVER=memory forces the in-process client, REDIS_DRIVER=none disables storage (returns null)
+ * Without Upstash credentials the in-process client is used so the app behaves the same offline
+ */
+export function getRedisClient(): RedisClient | null {
+  if (globalForRedis.redisClient !== undefined) {
+    return globalForRedis.redisClient
+  }
+
+  const driver = (process.env.REDIS_DRIVER || '').trim().toLowerCase()
+  if (driver === 'none') {
+    console.info('[Redis] Disabled via REDIS_DRIVER=none - using in-memory cache only')
+    globalForRedis.redisClient = null
+    return null
+  }
+
+  const url = process.env.UPSTASH_REDIS_REST_URL
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN
+  const upstashConfigured = !!url && !!token && url !== 'your_redis_url_here' && token !== 'your_redis_token_here'
+
+  if (driver !== 'memory' && upstashConfigured) {
+    try {
+      globalForRedis.redisClient = createRedisClient()
+      return globalForRedis.redisClient
+    } catch (error) {
+      console.warn('[Redis] Failed to initialize Upstash, falling back to in-process store:', error)
+    }
+  } else {
+    console.info('[Redis] Upstash not configured - using in-process store')
+  }
+
+  globalForRedis.redisClient = createMemoryRedisClient()
+  return globalForRedis.redisClient
+}
+
+/**
+ * Drop the shared client so the next getRedisClient() call re-reads configuration (for tests)
+ */
+export function resetRedisClient(): void {
+  delete globalForRedis.redisClient
+}
+
+// Export default instance getter (lazy initialization, returns null only when storage is disabled)
+export const redis = {
+  get client(): RedisClient | null {
+    return getRedisClient()
+  }
+}
+
+export { InMemoryRedisClient }
@@ -0,0 +1,250 @@
+/**
+ * Market resolution tracking
+ * SyncService hands over markets once their cutoff passes or they leave the active list, then polls Opinion
+ * until they resolve and archives the final status, winning outcome and hourly price path
+ */
+
+import { opinionClient } from './opinionClient'
+import { APIError, ErrorType } from './errorHandler'
+import { redis } from './redis'
+import { priceAt } from './categorical'
+import { getTokenHistoryBatch } from './historySource'
+import {
+  Market,
+  MarketLifecycleStatus,
+  PriceHistoryPoint,
+  ResolvedMarket,
+  ResolvedOutcome,
+  ResolvedPricePath
+} from './types'
+
+// Opinion's numeric status codes, for responses without statusEnum
+const STATUS_CODES: Record<number, MarketLifecycleStatus> = {
+  2: 'activated',
+  3: 'resolving',
+  4: 'resolved',
+  5: 'failed'
+}
+
+/**
+ * Map Opinion's status (statusEnum string or numeric code) onto the lifecycle we track
+ */
+export function normalizeMarketStatus(status: string | number | undefined | null): MarketLifecycleStatus {
+  if (typeof status === 'number') {
+    return STATUS_CODES[status] || 'unknown'
+  }
+
+  const value = String(status ?? '').trim().toLowerCase()
+  if (/^\d+$/.test(value)) return STATUS_CODES[parseInt(value, 10)] || 'unknown'
+  if (value === 'activated' || value === 'active') return 'activated'
+  if (value === 'resolving') return 'resolving'
+  if (value === 'resolved') return 'resolved'
+  if (value === 'failed' || value === 'cancelled' || value === 'canceled') return 'failed'
+  return 'unknown'
+}
+
+/**
+ * A market whose cutoff has passed or that Opinion no longer reports as activated
+ */
+export const isClosedMarket = (market: Market, nowSeconds: number): boolean => {
+  const status = normalizeMarketStatus(market.status)
+  return (market.cutoffAt > 0 && market.cutoffAt <= nowSeconds) || status === 'resolving' || status === 'resolved' || status === 'failed'
+}
+
+/**
+ * Tokens archived with a market: YES and NO for binary markets, each outcome's YES token for categorical ones
+ */
+export const resolutionTokens = (market: Market): string[] => {
+  const children = market.childMarkets || []
+  const tokens = children.length > 0
+    ? children.map(child => child.yesTokenId)
+    : [market.yesTokenId, market.noTokenId]
+  return tokens.filter(Boolean)
+}
+
+const toSeconds = (value: number | undefined): number | null => {
+  if (!value || !Number.isFinite(value) || value <= 0) return null
+  return value > 1e12 ? Math.floor(value / 1000) : value
+}
+
+/**
+ * Archive record from the market as last synced and its resolved detail
+ * Categorical winners are the outcome whose own result token is its YES token
+ */
+export function buildResolvedMarket(
+  tracked: Market,
+  detail: Market,
+  path: ResolvedPricePath,
+  nowMs: number
+): ResolvedMarket {
+  const status = normalizeMarketStatus(detail.status) === 'failed' ? 'failed' : 'resolved'
+  const children = detail.childMarkets?.length ? detail.childMarkets : tracked.childMarkets || []
+  const cutoffAt = tracked.cutoffAt || detail.cutoffAt
+  const finalPrice = (tokenId: string): number | null => priceAt(path[tokenId] || [], cutoffAt || Math.floor(nowMs / 1000))
+
+  const outcomes: ResolvedOutcome[] = children.length > 0
+    ? children.map(child => ({
+      marketId: child.id,
+      label: child.title || child.yesLabel || `Outcome ${child.id}`,
+      tokenId: child.yesTokenId,
+      finalPrice: finalPrice(child.yesTokenId),
+      won: status === 'resolved' && (child.resultTokenId === child.yesTokenId || detail.resultTokenId === child.yesTokenId)
+    }))
+    : [
+      { tokenId: tracked.yesTokenId, label: tracked.yesLabel || 'YES' },
+      { tokenId: tracked.noTokenId, label: tracked.noLabel || 'NO' }
+    ].map(outcome => ({
+      marketId: tracked.id,
+      ...outcome,
+      finalPrice: finalPrice(outcome.tokenId),
+      won: status === 'resolved' && !!detail.resultTokenId && detail.resultTokenId === outcome.tokenId
+    }))
+
+  const winner = outcomes.find(outcome => outcome.won)
+
+  return {
+    id: tracked.id,
+    title: tracked.title || detail.title,
+    marketType: tracked.marketType || 0,
+    status,
+    cutoffAt,
+    resolvedAt: toSeconds(detail.resolvedAt) ?? Math.floor(nowMs / 1000),
+    winningTokenId: winner?.tokenId ?? null,
+    winningOutcome: winner?.label ?? null,
+    volume24h: tracked.volume24h,
+    outcomes,
+    archivedAt: nowMs
+  }
+}
+
+/**
+ * Hourly price path of each token from the synced series; tokens the sync never covered fall back to
+ * Opinion's hourly history
+ */
+export async function loadResolutionPath(tokenIds: string[]): Promise<ResolvedPricePath> {
+  const path: ResolvedPricePath = {}
+  if (tokenIds.length === 0) {
+    return path
+  }
+
+  if (redis.client) {
+    const series = await redis.client.getPriceSeriesBatch(tokenIds, { from: 0, resolution: '1h' })
+    series.forEach((points, tokenId) => {
+      if (points.length > 0) path[tokenId] = points
+    })
+  }
+
+  const missing = tokenIds.filter(tokenId => !path[tokenId])
+  if (missing.length > 0) {
+    const { histories } = await getTokenHistoryBatch(missing, '1h')
+    Object.entries(histories).forEach(([tokenId, points]: [string, PriceHistoryPoint[]]) => {
+      if (points.length > 0) path[tokenId] = [...points].sort((a, b) => a.t - b.t)
+    })
+  }
+
+  return path
+}
+
+/**
+ * Start following newly closed markets; they are checked from the next resolution pass on
+ */
+export async function trackClosedMarkets(markets: Market[], nowMs: number): Promise<void> {
+  if (!redis.client || markets.length === 0) {
+    return
+  }
+
+  await redis.client.trackResolutions(markets, nowMs)
+  console.log(`[Resolution] Tracking ${markets.length} closed markets`)
+}
+
+/**
+ * Stop following markets that turned out to be still trading (back in the active list, or open upstream)
+ */
+export async function untrackOpenMarkets(marketIds: number[]): Promise<void> {
+  if (!redis.client || marketIds.length === 0) {
+    return
+  }
+
+  await redis.client.untrackResolutions(marketIds)
+  console.log(`[Resolution] Stopped tracking ${marketIds.length} markets that are still open`)
+}
+
+/**
+ * Check up to `limit` due markets against Opinion and archive the ones that resolved
+ * Markets Opinion still reports as open are untracked; unresolved or unreachable ones are checked again after retrySeconds
+ */
+export async function resolvePendingMarkets(nowMs: number, limit: number, retrySeconds: number): Promise<ResolvedMarket[]> {
+  const client = redis.client
+  if (!client || limit <= 0) {
+    return []
+  }
+
+  const due = await client.getDueResolutions(nowMs, limit)
+  const resolved: ResolvedMarket[] = []
+
+  for (const tracked of due) {
+    const categorical = tracked.marketType === 1 || (tracked.childMarkets?.length ?? 0) > 0
+    const detail = await opinionClient.getMarketDetail(tracked.id, categorical)
+    const status = normalizeMarketStatus(detail?.status)
+
+    if (detail && !isClosedMarket({ ...detail, cutoffAt: detail.cutoffAt || tracked.cutoffAt }, Math.floor(nowMs / 1000))) {
+      await untrackOpenMarkets([tracked.id])
+      continue
+    }
+
+    if (!detail || (status !== 'resolved' && status !== 'failed')) {
+      await client.rescheduleResolution(tracked.id, nowMs + retrySeconds * 1000)
+      continue
+    }
+
+    const path = await loadResolutionPath(resolutionTokens(detail.childMarkets?.length ? detail : tracked))
+    const market = buildResolvedMarket(tracked, detail, path, nowMs)
+    await client.saveResolvedMarket(market, path)
+    resolved.push(market)
+  }
+
+  if (due.length > 0) {
+    console.log(`[Resolution] Checked ${due.length} closed markets, archived ${resolved.length}`)
+  }
+
+  return resolved
+}
+
+/**
+ * Resolved market archive, or 503 when Redis is not configured
+ */
+export const requireResolvedStore = () => {
+  if (!redis.client) {
+    throw new APIError('Resolved markets require Redis', ErrorType.EXTERNAL_API, 503)
+  }
+  return redis.client
+}
+
+export interface ResolvedFilters {
+  status?: ResolvedMarket['status']
+  marketType?: number
+  query?: string // case-insensitive title substring
+  winner?: 'yes' | 'no' // binary markets won by their YES or NO token
+  from?: number // resolvedAt lower bound, unix seconds
+  to?: number
+}
+
+/**
+ * Archive entries matching every given filter, in archive order (newest resolution first)
+ */
+export const filterResolvedMarkets = (markets: ResolvedMarket[], filters: ResolvedFilters): ResolvedMarket[] => {
+  const query = filters.query?.trim().toLowerCase()
+
+  return markets.filter(market => {
+    if (filters.status && market.status !== filters.status) return false
+    if (filters.marketType !== undefined && market.marketType !== filters.marketType) return false
+    if (query && !market.title.toLowerCase().includes(query)) return false
+    if (filters.from !== undefined && market.resolvedAt < filters.from) return false
+    if (filters.to !== undefined && market.resolvedAt > filters.to) return false
+    if (filters.winner) {
+      const index = filters.winner === 'yes' ? 0 : 1
+      if (market.marketType === 1 || !market.outcomes[index]?.won) return false
+    }
+    return true
+  })
+}
@@ -0,0 +1,54 @@
+/**
+ * Runtime schemas
+ * zod helpers for untrusted JSON: the value types Opinion sends loosely, and a safeParse that reports the
+ * first offending path instead of zod's full issue list
+ */
+
+import { z } from 'zod'
+
+export class SchemaError extends Error {
+  constructor(public readonly path: string, public readonly issue: string) {
+    super(`${path || 'value'}: ${issue}`)
+    this.name = 'SchemaError'
+  }
+}
+
+const typeOf = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/
+
+/**
+ * Decimal amount sent as a string or a number, normalised to a string (prices, sizes, volumes)
+ */
+export const numeric = () =>
+  z.unknown().transform((value, ctx): string => {
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value)
+    if (typeof value === 'string' && NUMERIC_PATTERN.test(value.trim())) return value.trim()
+    ctx.addIssue({ code: 'custom', message: `expected numeric string, received ${typeOf(value)}` })
+    return z.NEVER
+  })
+
+/**
+ * Missing and null both read as undefined
+ */
+export const optional = <T extends z.ZodType>(inner: T) =>
+  inner.nullish().transform((value): z.output<T> | undefined => value ?? undefined)
+
+/**
+ * Issue path in the dotted form used in logs, e.g. result.list[3].price
+ */
+const formatPath = (path: PropertyKey[]): string =>
+  path.reduce<string>((joined, key) =>
+    typeof key === 'number' ? `${joined}[${key}]` : joined ? `${joined}.${String(key)}` : String(key), '')
+
+export type SafeParseResult<T> = { success: true; data: T } | { success: false; error: SchemaError }
+
+export function safeParse<T>(schema: z.ZodType<T>, value: unknown): SafeParseResult<T> {
+  const parsed = schema.safeParse(value)
+  if (parsed.success) {
+    return { success: true, data: parsed.data }
+  }
+  const [issue] = parsed.error.issues
+  return { success: false, error: new SchemaError(formatPath(issue.path), issue.message) }
+}
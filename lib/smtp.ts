@@ -0,0 +1,190 @@
+/**
+ * Minimal SMTP client for alert emails
+ * Plain or implicit TLS connections, STARTTLS when offered, AUTH PLAIN when credentials are set
+ * Credentials are only sent over TLS unless allowPlaintextAuth opts in (trusted relays on a private network)
+ */
+
+import net from 'net'
+import tls from 'tls'
+
+export interface EmailMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * Anything able to send an email; the email sink accepts any transport
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>
+}
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean // implicit TLS (465); otherwise STARTTLS is used when the server offers it
+  user?: string
+  pass?: string
+  allowPlaintextAuth?: boolean // send AUTH without TLS; otherwise a server without STARTTLS gets no credentials
+  timeoutMs?: number // 10000, applies to connecting, the TLS handshake and every reply
+}
+
+interface SmtpReply {
+  code: number
+  text: string
+}
+
+/**
+ * Line reader over a socket that resolves one (possibly multi-line) SMTP reply at a time
+ */
+class SmtpConnection {
+  private buffer = ''
+  private lines: string[] = []
+  private waiter: (() => void) | null = null
+  private failure: Error | null = null
+
+  constructor(public socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  attach(socket: net.Socket): void {
+    this.socket = socket
+    this.buffer = ''
+    socket.setEncoding('utf8')
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk
+      let index: number
+      while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+        this.lines.push(this.buffer.slice(0, index))
+        this.buffer = this.buffer.slice(index + 2)
+      }
+      this.wake()
+    })
+    socket.on('error', error => {
+      this.failure = error
+      this.wake()
+    })
+    socket.on('close', () => {
+      this.failure = this.failure || new Error('SMTP connection closed')
+      this.wake()
+    })
+  }
+
+  private wake(): void {
+    const waiter = this.waiter
+    this.waiter = null
+    waiter?.()
+  }
+
+  async read(): Promise<SmtpReply> {
+    const text: string[] = []
+    for (;;) {
+      while (this.lines.length === 0) {
+        if (this.failure) throw this.failure
+        await new Promise<void>(resolve => { this.waiter = resolve })
+      }
+      const line = this.lines.shift() as string
+      text.push(line.slice(4))
+      // "250-..." continues, "250 ..." ends the reply
+      if (line[3] !== '-') {
+        return { code: parseInt(line.slice(0, 3), 10), text: text.join('\n') }
+      }
+    }
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expected, line.split(' ')[0])
+  }
+
+  async expect(expected: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.text}`)
+    }
+    return reply
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000
+
+/**
+ * Settle with the socket once `event` fires, or fail after timeoutMs of inactivity
+ */
+const whenReady = (socket: net.Socket, event: string, timeoutMs: number, step: string): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP ${step} timed out after ${timeoutMs}ms`)))
+    socket.once(event, () => resolve(socket))
+    socket.once('error', reject)
+  })
+
+const connect = (options: SmtpOptions, timeoutMs: number): Promise<net.Socket> => options.secure
+  ? whenReady(tls.connect({ host: options.host, port: options.port, servername: options.host }), 'secureConnect', timeoutMs, 'connect')
+  : whenReady(net.connect({ host: options.host, port: options.port }), 'connect', timeoutMs, 'connect')
+
+const upgrade = (socket: net.Socket, host: string, timeoutMs: number): Promise<net.Socket> => {
+  socket.removeAllListeners('data')
+  socket.removeAllListeners('error')
+  socket.removeAllListeners('close')
+  socket.removeAllListeners('timeout')
+  socket.setTimeout(0)
+  return whenReady(tls.connect({ socket, servername: host }), 'secureConnect', timeoutMs, 'TLS handshake')
+}
+
+/**
+ * Headers plus dot-stuffed body, CRLF line endings
+ */
+export const formatEmail = (message: EmailMessage, date: Date = new Date()): string => {
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+    `Date: ${date.toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    body
+  ].join('\r\n')
+}
+
+export function createSmtpTransport(options: SmtpOptions): EmailTransport {
+  return {
+    async send(message: EmailMessage): Promise<void> {
+      const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+      const connection = new SmtpConnection(await connect(options, timeoutMs))
+
+      try {
+        await connection.expect([220], 'greeting')
+        const ehlo = await connection.command('EHLO localhost', [250])
+        let encrypted = options.secure
+
+        if (!encrypted && /^STARTTLS$/mi.test(ehlo.text)) {
+          await connection.command('STARTTLS', [220])
+          connection.attach(await upgrade(connection.socket, options.host, timeoutMs))
+          await connection.command('EHLO localhost', [250])
+          encrypted = true
+        }
+
+        if (options.user) {
+          // A missing (or stripped) STARTTLS must not expose the credentials
+          if (!encrypted && !options.allowPlaintextAuth) {
+            throw new Error('SMTP server offered no TLS; refusing to send credentials in plaintext')
+          }
+          const credentials = Buffer.from(`\u0000${options.user}\u0000${options.pass || ''}`).toString('base64')
+          await connection.command(`AUTH PLAIN ${credentials}`, [235])
+        }
+
+        await connection.command(`MAIL FROM:<${message.from}>`, [250])
+        await connection.command(`RCPT TO:<${message.to}>`, [250, 251])
+        await connection.command('DATA', [354])
+        await connection.command(`${formatEmail(message)}\r\n.`, [250])
+        await connection.command('QUIT', [221]).catch(() => undefined)
+      } finally {
+        connection.socket.end()
+      }
+    }
+  }
+}
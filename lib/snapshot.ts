@@ -0,0 +1,338 @@
+/**
+ * Read path for the market snapshot written by SyncService
+ * Lets API routes answer from Redis instead of calling Opinion API on every cache miss
+ */
+
+import { redis, REDIS_KEYS, RedisClient, MarketQuery } from './redis'
+import { opinionClient } from './opinionClient'
+import { config } from './config'
+import { combinedPriceStatus, knownPrice, withSource } from './prices'
+import { isMarketInvalid } from './invalidMarkets'
+import { LiquiditySummary, Market, MarketData, MarketWithPrices, PriceData, VolatilityStats } from './types'
+
+export interface MarketSnapshot {
+  markets: Market[]
+  prices: Map<string, PriceData>
+  syncedAt: number
+  ageMs: number
+}
+
+export interface MarketSnapshotPage extends MarketSnapshot {
+  total: number // markets matching the query across all pages
+}
+
+export interface MarketUniverse {
+  markets: Market[] // listable markets only
+  prices: Map<string, PriceData>
+  source: 'snapshot' | 'live'
+  snapshotAgeMs?: number
+}
+
+/**
+ * Upstash deserializes JSON values automatically, other clients return raw strings
+ */
+const parseStoredJson = <T>(value: unknown): T | null => {
+  if (value === null || value === undefined) return null
+  if (typeof value !== 'string') return value as T
+
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Convert a stored market hash back into a Market
+ */
+const toMarket = (stored: MarketData): Market => {
+  const childMarkets = parseStoredJson<Market[]>(stored.childMarkets)
+
+  return {
+    id: Number(stored.id),
+    title: stored.title || '',
+    yesTokenId: String(stored.yesTokenId || ''),
+    noTokenId: String(stored.noTokenId || ''),
+    cutoffAt: Number(stored.cutoffAt) || 0,
+    status: stored.status || 'unknown',
+    volume24h: String(stored.volume24h ?? '0'),
+    marketType: Number(stored.marketType) || 0,
+    questionId: stored.questionId,
+    rules: stored.rules,
+    yesLabel: stored.yesLabel,
+    noLabel: stored.noLabel,
+    childMarkets: Array.isArray(childMarkets) ? childMarkets : []
+  }
+}
+
+/**
+ * Collect every token ID referenced by the markets, including categorical children
+ */
+export const collectTokenIds = (markets: Market[]): string[] => {
+  const tokenIds = new Set<string>()
+
+  markets.forEach(market => {
+    if (market.yesTokenId) tokenIds.add(market.yesTokenId)
+    if (market.noTokenId) tokenIds.add(market.noTokenId)
+    market.childMarkets?.forEach(child => {
+      if (child.yesTokenId) tokenIds.add(child.yesTokenId)
+      if (child.noTokenId) tokenIds.add(child.noTokenId)
+    })
+  })
+
+  return Array.from(tokenIds)
+}
+
+/**
+ * Age of the last completed sync, or null when it is missing or older than maxAgeMs
+ */
+const readSyncAge = async (
+  client: RedisClient,
+  maxAgeMs: number
+): Promise<{ syncedAt: number; ageMs: number } | null> => {
+  const lastSyncRaw = await client.get(REDIS_KEYS.LAST_SYNC)
+  const syncedAt = lastSyncRaw ? parseInt(String(lastSyncRaw)) : NaN
+  if (isNaN(syncedAt)) {
+    return null
+  }
+
+  const ageMs = Date.now() - syncedAt
+  if (ageMs > maxAgeMs) {
+    console.warn(`[Snapshot] Snapshot is stale (${Math.round(ageMs / 1000)}s old)`)
+    return null
+  }
+
+  return { syncedAt, ageMs }
+}
+
+/**
+ * Load one page of synced markets from the Redis market registry, with prices for that page only
+ * Returns null when Redis is unavailable or the snapshot is missing or older than maxAgeMs
+ */
+export async function loadMarketPage(
+  query: MarketQuery = {},
+  maxAgeMs: number = config.SNAPSHOT_MAX_AGE_SECONDS * 1000
+): Promise<MarketSnapshotPage | null> {
+  const client = redis.client
+  if (!client) {
+    return null
+  }
+
+  try {
+    const syncAge = await readSyncAge(client, maxAgeMs)
+    if (!syncAge) {
+      return null
+    }
+
+    const { markets: stored, total } = await client.queryMarkets(query)
+    const markets = stored.map(toMarket)
+    const prices = withSource(await client.getPrices(collectTokenIds(markets)), 'redis')
+
+    return { markets, total, prices, ...syncAge }
+  } catch (error) {
+    console.error('[Snapshot] Failed to load market page:', error)
+    return null
+  }
+}
+
+/**
+ * Load every synced market (ordered by volume) with prices
+ * Returns null when Redis is unavailable, the snapshot is missing, empty or older than maxAgeMs
+ */
+export async function loadMarketSnapshot(
+  maxAgeMs: number = config.SNAPSHOT_MAX_AGE_SECONDS * 1000
+): Promise<MarketSnapshot | null> {
+  const page = await loadMarketPage({}, maxAgeMs)
+  if (!page || page.markets.length === 0) {
+    return null
+  }
+
+  const { markets, prices, syncedAt, ageMs } = page
+  return { markets, prices, syncedAt, ageMs }
+}
+
+/**
+ * Every listable synced market with prices, for scans that need the whole market set (search, arbitrage)
+ * Falls back to one live page of top-volume markets when the snapshot is missing or stale
+ */
+export async function loadMarketUniverse(
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): Promise<MarketUniverse> {
+  const snapshot = await loadMarketSnapshot()
+
+  if (snapshot) {
+    return {
+      markets: filterListableMarkets(snapshot.markets, nowSeconds),
+      prices: snapshot.prices,
+      source: 'snapshot',
+      snapshotAgeMs: snapshot.ageMs
+    }
+  }
+
+  // Same request budget as the list route fallback
+  const { markets: rawMarkets } = await opinionClient.getMarkets(1, 3, 100)
+  const markets = filterListableMarkets(rawMarkets, nowSeconds)
+  const prices = markets.length > 0
+    ? await opinionClient.getMultiplePrices(collectTokenIds(markets))
+    : new Map<string, PriceData>()
+
+  return { markets, prices, source: 'live' }
+}
+
+/**
+ * One synced market by ID, regardless of snapshot age (market metadata changes rarely)
+ * Returns null when Redis is unavailable or the market is not in the registry
+ */
+export async function loadSyncedMarket(marketId: number): Promise<Market | null> {
+  const client = redis.client
+  if (!client) {
+    return null
+  }
+
+  try {
+    const stored = await client.getMarket(String(marketId))
+    return stored ? toMarket(stored) : null
+  } catch (error) {
+    console.error(`[Snapshot] Failed to load market ${marketId}:`, error)
+    return null
+  }
+}
+
+/**
+ * Synced prices for specific tokens, empty when the snapshot is missing or older than maxAgeMs
+ */
+export async function loadTokenPrices(
+  tokenIds: string[],
+  maxAgeMs: number = config.SNAPSHOT_MAX_AGE_SECONDS * 1000
+): Promise<{ prices: Map<string, PriceData>; ageMs?: number }> {
+  const client = redis.client
+  if (!client || tokenIds.length === 0) {
+    return { prices: new Map() }
+  }
+
+  try {
+    const syncAge = await readSyncAge(client, maxAgeMs)
+    if (!syncAge) {
+      return { prices: new Map() }
+    }
+
+    return { prices: withSource(await client.getPrices(tokenIds), 'redis'), ageMs: syncAge.ageMs }
+  } catch (error) {
+    console.error('[Snapshot] Failed to load token prices:', error)
+    return { prices: new Map() }
+  }
+}
+
+/**
+ * Orderbook liquidity summaries stored by the last sync, keyed by token ID
+ * Missing or expired summaries are simply absent from the map
+ */
+export async function loadLiquidity(tokenIds: string[]): Promise<Map<string, LiquiditySummary>> {
+  const client = redis.client
+  if (!client || tokenIds.length === 0) {
+    return new Map()
+  }
+
+  try {
+    return await client.getLiquidity(tokenIds)
+  } catch (error) {
+    console.error('[Snapshot] Failed to load liquidity:', error)
+    return new Map()
+  }
+}
+
+/**
+ * Volatility summaries stored by the last volatility sync, keyed by token ID
+ * Missing or expired summaries are simply absent from the map
+ */
+export async function loadVolatility(tokenIds: string[]): Promise<Map<string, VolatilityStats>> {
+  const client = redis.client
+  if (!client || tokenIds.length === 0) {
+    return new Map()
+  }
+
+  try {
+    return await client.getVolatility(tokenIds)
+  } catch (error) {
+    console.error('[Snapshot] Failed to load volatility:', error)
+    return new Map()
+  }
+}
+
+/**
+ * Drop markets that are known invalid or already past their cutoff
+ */
+export const filterListableMarkets = (markets: Market[], nowSeconds: number): Market[] =>
+  markets.filter(market => {
+    if (isMarketInvalid(market.id)) return false
+    if (market.cutoffAt && market.cutoffAt <= nowSeconds) return false
+    return true
+  })
+
+/**
+ * Top 3 still-open child markets by volume (used for categorical previews)
+ */
+export const getTopChildren = (market: Market, nowSeconds: number): Market[] => {
+  if (!market.childMarkets || market.childMarkets.length === 0) {
+    return []
+  }
+
+  return market.childMarkets
+    .filter(child => !(child.cutoffAt && child.cutoffAt <= nowSeconds))
+    .sort((a, b) => Number(b.volume24h ?? 0) - Number(a.volume24h ?? 0))
+    .slice(0, 3)
+}
+
+/**
+ * Attach YES/NO prices and top-3 child previews to markets
+ * Markets with out-of-range prices are skipped and reported in errors; unknown prices are null and flagged
+ * through priceStatus
+ */
+export const buildMarketsWithPrices = (
+  markets: Market[],
+  priceMap: Map<string, PriceData>,
+  nowSeconds: number
+): { markets: MarketWithPrices[]; errors: string[] } => {
+  const marketsWithPrices: MarketWithPrices[] = []
+  const errors: string[] = []
+
+  for (const market of markets) {
+    const yesPrice = knownPrice(priceMap.get(market.yesTokenId))
+    const noPrice = knownPrice(priceMap.get(market.noTokenId))
+
+    // Validate prices
+    if ([yesPrice, noPrice].some(price => price !== null && (price < 0 || price > 1))) {
+      errors.push(`Market ${market.id}: Invalid prices`)
+      continue
+    }
+
+    // Categorical parents have no tokens of their own
+    const tokenIds = [market.yesTokenId, market.noTokenId].filter(Boolean)
+    const priceStatus = combinedPriceStatus(tokenIds.map(tokenId => priceMap.get(tokenId)))
+
+    const topChildren = getTopChildren(market, nowSeconds)
+
+    marketsWithPrices.push({
+      id: market.id,
+      title: market.title || `Market ${market.id}`,
+      yesTokenId: market.yesTokenId,
+      noTokenId: market.noTokenId,
+      yesPrice,
+      noPrice,
+      ...(priceStatus !== 'ok' && { priceStatus }),
+      volume24h: market.volume24h || '0',
+      cutoffAt: market.cutoffAt || 0,
+      marketType: market.marketType || 0,
+      childMarkets: market.childMarkets,
+      childMarketsPreview: topChildren.map(child => ({
+        id: child.id,
+        title: child.title || `Market ${child.id}`,
+        yesTokenId: child.yesTokenId,
+        yesPrice: knownPrice(priceMap.get(child.yesTokenId)),
+        volume24h: child.volume24h || '0',
+      })),
+    })
+  }
+
+  return { markets: marketsWithPrices, errors }
+}
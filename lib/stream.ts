@@ -0,0 +1,197 @@
+/**
+ * Price and orderbook change feed
+ * SyncService diffs each cycle against the previous one and appends a StreamEvent; /api/stream tails the feed
+ */
+
+import { summarizeOrderbook } from './liquidity'
+import { isKnownPrice } from './prices'
+import { redis } from './redis'
+import {
+  BookDelta,
+  Market,
+  Orderbook,
+  OrderbookEntry,
+  PriceData,
+  PriceDelta,
+  StreamEvent
+} from './types'
+
+export const STREAM_RETENTION_SECONDS = 300 // how far back a reconnecting client can resume
+export const STREAM_BOOK_LEVELS = 10
+export const STREAM_MAX_MARKETS = 200
+export const STREAM_MAX_TOKENS = 400
+export const STREAM_POLL_INTERVAL_MS = 2000
+
+/**
+ * Token ID to market ID, with categorical outcomes mapped to their parent market
+ */
+export const buildTokenMarketIndex = (markets: Market[]): Map<string, number> => {
+  const index = new Map<string, number>()
+
+  markets.forEach(market => {
+    if (market.yesTokenId) index.set(market.yesTokenId, market.id)
+    if (market.noTokenId) index.set(market.noTokenId, market.id)
+    market.childMarkets?.forEach(child => {
+      if (child.yesTokenId) index.set(child.yesTokenId, market.id)
+      if (child.noTokenId) index.set(child.noTokenId, market.id)
+    })
+  })
+
+  return index
+}
+
+/**
+ * Prices that changed since the previous cycle
+ * Tokens without a previous price are not deltas (first cycle), and tokens without a known price are skipped
+ */
+export function diffPrices(
+  previous: Map<string, string>,
+  next: Map<string, PriceData>,
+  tokenMarkets: Map<string, number>
+): PriceDelta[] {
+  const deltas: PriceDelta[] = []
+
+  next.forEach((priceData, tokenId) => {
+    const before = previous.get(tokenId)
+    const marketId = tokenMarkets.get(tokenId)
+    if (before === undefined || marketId === undefined || !isKnownPrice(priceData) || before === priceData.price) {
+      return
+    }
+    deltas.push({ marketId, tokenId, price: priceData.price })
+  })
+
+  return deltas
+}
+
+/**
+ * Best levels of one side, bids highest first and asks lowest first
+ */
+const topLevels = (levels: OrderbookEntry[], side: 'bid' | 'ask'): OrderbookEntry[] =>
+  [...levels]
+    .sort((a, b) => side === 'bid'
+      ? parseFloat(b.price) - parseFloat(a.price)
+      : parseFloat(a.price) - parseFloat(b.price))
+    .slice(0, STREAM_BOOK_LEVELS)
+
+/**
+ * Compact signature of the top of a book, used to detect changes between cycles
+ */
+export const bookSignature = (book: Orderbook): string =>
+  JSON.stringify([topLevels(book.bids, 'bid'), topLevels(book.asks, 'ask')])
+
+/**
+ * Orderbooks whose top levels changed since the previous cycle
+ */
+export function diffBooks(
+  previous: Map<string, string>,
+  books: Map<string, Orderbook>,
+  tokenMarkets: Map<string, number>
+): BookDelta[] {
+  const deltas: BookDelta[] = []
+
+  books.forEach((book, tokenId) => {
+    const marketId = tokenMarkets.get(tokenId)
+    const before = previous.get(tokenId)
+    if (marketId === undefined || before === undefined || before === bookSignature(book)) {
+      return
+    }
+
+    const summary = summarizeOrderbook(book)
+    deltas.push({
+      marketId,
+      tokenId,
+      bestBid: summary.bestBid,
+      bestAsk: summary.bestAsk,
+      spreadBps: summary.spreadBps,
+      bids: topLevels(book.bids, 'bid'),
+      asks: topLevels(book.asks, 'ask')
+    })
+  })
+
+  return deltas
+}
+
+/**
+ * Keep only the deltas for subscribed markets or tokens (both null subscribes to everything); null when nothing is left
+ */
+export const filterStreamEvent = (
+  event: StreamEvent,
+  marketIds: Set<number> | null,
+  tokenIds: Set<string> | null = null
+): StreamEvent | null => {
+  const subscribed = (delta: PriceDelta | BookDelta) => (!marketIds && !tokenIds) ||
+    !!marketIds?.has(delta.marketId) || !!tokenIds?.has(delta.tokenId)
+  const prices = event.prices.filter(subscribed)
+  const books = event.books.filter(subscribed)
+
+  return prices.length > 0 || books.length > 0 ? { seq: event.seq, prices, books } : null
+}
+
+/**
+ * One Server-Sent Events frame
+ */
+export const formatSSE = (event: string, data: unknown, id?: number): string =>
+  `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+
+type StreamListener = (event: StreamEvent) => void
+
+/**
+ * Change feed poller shared by every open stream: while anyone is subscribed it reads Redis once per
+ * interval and hands each new event to every subscriber, instead of one poll per connection
+ * Subscribers filter by their own cursor, so events they already sent are skipped
+ */
+export class StreamPoller {
+  private listeners = new Set<StreamListener>()
+  private timer: ReturnType<typeof setInterval> | undefined
+  private polling = false
+  private cursor = 0
+
+  constructor(private intervalMs: number = STREAM_POLL_INTERVAL_MS) {}
+
+  subscribe(listener: StreamListener): () => void {
+    this.listeners.add(listener)
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.poll(), this.intervalMs)
+    }
+
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size === 0) {
+        clearInterval(this.timer)
+        this.timer = undefined
+      }
+    }
+  }
+
+  get subscriberCount(): number {
+    return this.listeners.size
+  }
+
+  async poll(): Promise<void> {
+    const client = redis.client
+    if (this.polling || !client || this.listeners.size === 0) {
+      return
+    }
+
+    this.polling = true
+    try {
+      const events = await client.getStreamEvents(this.cursor)
+      events.forEach(event => {
+        this.cursor = Math.max(this.cursor, event.seq)
+        this.listeners.forEach(listener => {
+          try {
+            listener(event)
+          } catch (error) {
+            console.warn('[Stream] Subscriber failed:', error instanceof Error ? error.message : error)
+          }
+        })
+      })
+    } catch (error) {
+      console.warn('[Stream] Failed to read change feed:', error instanceof Error ? error.message : error)
+    } finally {
+      this.polling = false
+    }
+  }
+}
+
+export const streamPoller = new StreamPoller()
@@ -5,8 +5,23 @@
  */
 
 import { opinionClient } from './opinionClient'
-import { redis } from './redis'
-import { Market, PriceData } from './types'
+import { redis, REDIS_KEYS, getSeriesTiers, SeriesTier } from './redis'
+import { BOOK_HISTORY_RETENTION_SECONDS, fetchOrderbooks, summarizeOrderbook, toBookSnapshot } from './liquidity'
+import { flushAlertDeliveries, runAlerts } from './alerts'
+import { recordPortfolioSnapshots } from './portfolioHistory'
+import { computeVolatility, loadVolatilityHistory } from './volatility'
+import { recordWhaleEvents } from './whales'
+import { fetchRecentTrades, takeNewTrades, toWhaleTrade, TRADE_RETENTION_SECONDS } from './trades'
+import { isClosedMarket, resolvePendingMarkets, trackClosedMarkets, untrackOpenMarkets } from './resolution'
+import {
+  bookSignature,
+  buildTokenMarketIndex,
+  diffBooks,
+  diffPrices,
+  STREAM_RETENTION_SECONDS
+} from './stream'
+import { carryOverPrices, countPriceStatuses, freshPrices, isKnownPrice, knownPrices, unknownPrice } from './prices'
+import { Market, MarketData, MarketPage, Orderbook, PriceData, Trade } from './types'
 
 export interface SyncResult {
   success: boolean
@@ -23,6 +38,60 @@ export interface SyncConfig {
   requestTimeoutMs: number // 10000
   retryAttempts: number // 2
   batchSize: number // 20 (for market pagination)
+  seriesTiers: SeriesTier[] // price time series resolutions and retention
+  liquidityMarkets: number // 50 top-volume binary markets whose YES orderbook is summarised, 0 disables
+  bookHistoryIntervalSeconds: number // 900 between orderbook snapshots kept for backtests, 0 disables
+  portfolioIntervalSeconds: number // 300 between tracked wallet snapshots, 0 disables
+  volatilityMarkets: number // 200 top-volume binary markets whose YES series is summarised, 0 disables
+  volatilityIntervalSeconds: number // 300 between volatility summaries
+  tradeMarkets: number // 20 top-volume binary markets whose recent trades are stored, 0 disables
+  resolutionMarkets: number // 25 closed markets checked for resolution per pass, 0 disables tracking
+  resolutionIntervalSeconds: number // 300 between resolution passes, and before an unresolved market is rechecked
+}
+
+// How long a market that left the active list is remembered as tracked
+const TRACKED_CLOSED_RETENTION_SECONDS = 7 * 86400
+
+/**
+ * Flatten a market into its Redis hash
+ * Child markets are stored as JSON so categorical views can be served from the registry
+ */
+const toMarketData = (market: Market, now: number): MarketData => {
+  const data: MarketData = {
+    id: market.id.toString(),
+    title: market.title,
+    yesTokenId: market.yesTokenId,
+    noTokenId: market.noTokenId,
+    cutoffAt: market.cutoffAt,
+    status: market.status.toString(),
+    volume24h: market.volume24h,
+    marketType: market.marketType || 0,
+    questionId: market.questionId,
+    rules: market.rules,
+    yesLabel: market.yesLabel,
+    noLabel: market.noLabel,
+    childMarkets: JSON.stringify((market.childMarkets || []).map(child => ({
+      id: child.id,
+      title: child.title,
+      yesTokenId: child.yesTokenId,
+      noTokenId: child.noTokenId,
+      cutoffAt: child.cutoffAt,
+      status: child.status,
+      volume24h: child.volume24h,
+      marketType: 0,
+      yesLabel: child.yesLabel,
+      noLabel: child.noLabel
+    }))),
+    createdAt: now,
+    updatedAt: now
+  }
+
+  // Redis hashes cannot hold undefined fields
+  Object.keys(data).forEach(key => {
+    if (data[key] === undefined) delete data[key]
+  })
+
+  return data
 }
 
 export class SyncService {
@@ -30,6 +99,24 @@ export class SyncService {
   private intervalId: NodeJS.Timeout | null = null
   private lastSyncTime: number = 0
   private config: SyncConfig
+  // Previous cycle's prices and book signatures, diffed to build the change feed
+  private lastPrices = new Map<string, string>()
+  private lastBooks = new Map<string, string>()
+  // Previous cycle's volumes and full books, compared by whale detection
+  private lastVolumes = new Map<number, number>()
+  private lastOrderbooks = new Map<string, Orderbook>()
+  // Trade IDs of each market's previous page, so only new trades are stored and reach whale detection
+  private seenTradeIds = new Map<number, Set<string>>()
+  // Last known price per token, carried over (stale) when a later fetch fails
+  private lastKnownPrices = new Map<string, PriceData>()
+  // Previous cycle's markets, so markets that leave the active list can be followed to resolution
+  private lastMarkets = new Map<number, Market>()
+  // Markets handed to resolution tracking, with the sync time they were handed over
+  private trackedClosed = new Map<number, number>()
+  private lastResolutionCheck = 0
+  private lastPortfolioSnapshot = 0
+  private lastBookSnapshot = 0
+  private lastVolatilitySnapshot = 0
 
   constructor(config: Partial<SyncConfig> = {}) {
     this.config = {
@@ -38,6 +125,15 @@ export class SyncService {
       requestTimeoutMs: 10000,
       retryAttempts: 2,
       batchSize: 20,
+      seriesTiers: getSeriesTiers(),
+      liquidityMarkets: parseInt(process.env.LIQUIDITY_SYNC_MARKETS || '50') || 0,
+      bookHistoryIntervalSeconds: parseInt(process.env.BOOK_HISTORY_INTERVAL_SECONDS || '900') || 0,
+      portfolioIntervalSeconds: parseInt(process.env.PORTFOLIO_SNAPSHOT_INTERVAL_SECONDS || '300') || 0,
+      volatilityMarkets: parseInt(process.env.VOLATILITY_SYNC_MARKETS || '200') || 0,
+      volatilityIntervalSeconds: parseInt(process.env.VOLATILITY_INTERVAL_SECONDS || '300') || 300,
+      tradeMarkets: parseInt(process.env.TRADE_SYNC_MARKETS || '20') || 0,
+      resolutionMarkets: parseInt(process.env.RESOLUTION_CHECK_MARKETS || '25') || 0,
+      resolutionIntervalSeconds: parseInt(process.env.RESOLUTION_INTERVAL_SECONDS || '300') || 300,
       ...config
     }
   }
@@ -99,7 +195,7 @@ export class SyncService {
     try {
       // Step 1: Get all active markets with pagination
       // Requirement 2.2: Get markets with pagination by 20 elements
-      const allMarkets = await this.getAllMarkets()
+      const { markets: allMarkets, complete } = await this.getAllMarkets()
       marketsProcessed = allMarkets.length
       console.log(`[SyncService] Retrieved ${allMarkets.length} markets`)
 
@@ -122,15 +218,116 @@ export class SyncService {
 
       // Step 3: Fetch all prices in parallel with concurrency control
       // Requirement 2.4: Use Promise.all with chunks of 5-10 requests
-      const priceMap = await this.fetchAllPrices(uniqueTokenIds)
-      pricesUpdated = priceMap.size
-      console.log(`[SyncService] Fetched ${pricesUpdated} prices`)
+      // Failed fetches keep the last known price (stale); later steps only see this cycle's fresh prices
+      const priceMap = await this.carryOverPrices(await this.fetchAllPrices(uniqueTokenIds))
+      const livePrices = freshPrices(priceMap)
+      pricesUpdated = livePrices.size
+      const statuses = countPriceStatuses(priceMap)
+      console.log(`[SyncService] Fetched ${pricesUpdated} prices (${statuses.stale} stale, ${statuses.error} failed, ${statuses.missing} missing)`)
 
       // Step 4: Store data in Redis in structured format
       // Requirement 2.5: Store in structured format for individual market access
-      await this.storeDataInRedis(allMarkets, priceMap)
+      // Tokens without any known price are not written, so a failed first fetch leaves no placeholder behind
+      await this.storeDataInRedis(allMarkets, knownPrices(priceMap), complete)
       console.log('[SyncService] Data stored in Redis')
 
+      // Step 5: Append prices to the per-token time series
+      // A failure here must not discard the snapshot that was already stored
+      try {
+        await this.storePriceSeries(livePrices, startTime)
+      } catch (error) {
+        errors.push(`Price series: ${error instanceof Error ? error.message : String(error)}`)
+      }
+
+      // Step 6: Summarise orderbooks of the top markets for the list liquidity columns
+      let books = new Map<string, Orderbook>()
+      try {
+        books = await this.storeLiquidity(allMarkets, startTime)
+      } catch (error) {
+        errors.push(`Liquidity: ${error instanceof Error ? error.message : String(error)}`)
+      }
+
+      // Step 7: Publish what changed since the previous cycle for streaming clients
+      const previousPrices = new Map(this.lastPrices)
+      try {
+        await this.publishChanges(allMarkets, livePrices, books, startTime)
+      } catch (error) {
+        errors.push(`Change feed: ${error instanceof Error ? error.message : String(error)}`)
+      }
+
+      // Step 8: Evaluate price alerts against this cycle
+      try {
+        await runAlerts({ markets: allMarkets, prices: livePrices, previousPrices, books, nowMs: startTime })
+      } catch (error) {
+        errors.push(`Alerts: ${error instanceof Error ? error.message : String(error)}`)
+      }
+
+      // Step 9: Snapshot tracked wallet portfolios every portfolioIntervalSeconds
+      const portfolioDue = this.config.portfolioIntervalSeconds > 0 &&
+        startTime - this.lastPortfolioSnapshot >= this.config.portfolioIntervalSeconds * 1000
+      if (portfolioDue) {
+        try {
+          this.lastPortfolioSnapshot = startTime
+          await recordPortfolioSnapshots(livePrices, startTime)
+        } catch (error) {
+          errors.push(`Portfolio: ${error instanceof Error ? error.message : String(error)}`)
+        }
+      }
+
+      // Step 10: Summarise price series volatility every volatilityIntervalSeconds
+      const volatilityDue = this.config.volatilityMarkets > 0 &&
+        startTime - this.lastVolatilitySnapshot >= this.config.volatilityIntervalSeconds * 1000
+      if (volatilityDue) {
+        try {
+          this.lastVolatilitySnapshot = startTime
+          await this.storeVolatility(allMarkets, startTime)
+        } catch (error) {
+          errors.push(`Volatility: ${error instanceof Error ? error.message : String(error)}`)
+        }
+      }
+
+      // Step 11: Store the latest trades of the top markets
+      let newTrades: Trade[] = []
+      try {
+        newTrades = await this.storeTrades(allMarkets)
+      } catch (error) {
+        errors.push(`Trades: ${error instanceof Error ? error.message : String(error)}`)
+      }
+
+      // Step 12: Record whale activity (volume jumps, large book level changes and large new trades)
+      try {
+        await recordWhaleEvents({
+          markets: allMarkets,
+          prices: livePrices,
+          previousPrices,
+          previousVolumes: this.lastVolumes,
+          books,
+          previousBooks: this.lastOrderbooks,
+          trades: newTrades.map(toWhaleTrade),
+          nowMs: startTime
+        })
+      } catch (error) {
+        errors.push(`Whales: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      allMarkets.forEach(market => {
+        const volume = parseFloat(market.volume24h)
+        if (Number.isFinite(volume)) this.lastVolumes.set(market.id, volume)
+      })
+      books.forEach((book, tokenId) => this.lastOrderbooks.set(tokenId, book))
+
+      // Step 13: Follow closed markets to resolution and archive them with their price path
+      if (this.config.resolutionMarkets > 0) {
+        try {
+          await this.trackResolutions(allMarkets, complete, startTime)
+        } catch (error) {
+          errors.push(`Resolution: ${error instanceof Error ? error.message : String(error)}`)
+        }
+      }
+      this.lastMarkets = new Map(allMarkets.map(market => [market.id, market]))
+      if (complete) {
+        this.pruneState(allMarkets, uniqueTokenIds, startTime)
+      }
+
       // Update sync metadata
       this.lastSyncTime = startTime
       await this.storeSyncMetadata({
@@ -173,45 +370,58 @@ export class SyncService {
   /**
    * Get all markets using pagination
    * Requirement 2.2: Pagination with 20 elements per page
+   * complete is false unless every page succeeded and the market count matches the reported total,
+   * so the registry must not prune markets missing from this batch
    */
-  private async getAllMarkets(): Promise<Market[]> {
+  private async getAllMarkets(): Promise<{ markets: Market[]; complete: boolean }> {
     const allMarkets: Market[] = []
     let page = 1
     let hasMore = true
+    let complete = true
+    let total = 0
+    let failedPages = 0
 
     while (hasMore) {
-      try {
-        const { markets, total } = await opinionClient.getMarkets(page, 3, this.config.batchSize)
+      const { markets, total: pageTotal, failed } = await opinionClient.getMarkets(page, 3, this.config.batchSize)
+        .catch((error): MarketPage => {
+          console.error(`[SyncService] Failed to fetch page ${page}:`, error)
+          return { markets: [], total: 0, failed: true }
+        })
+      total = Math.max(total, pageTotal)
 
-        if (markets.length === 0) {
-          hasMore = false
+      if (failed) {
+        console.warn(`[SyncService] Page ${page} is partial (${markets.length} markets), the market list is incomplete`)
+        complete = false
+        if (++failedPages > 3) { // Don't retry too many times
           break
         }
+      }
 
-        allMarkets.push(...markets)
-        console.log(`[SyncService] Page ${page}: ${markets.length} markets (total so far: ${allMarkets.length})`)
+      if (markets.length === 0 && !failed) {
+        break
+      }
 
-        // Check if we have more pages
-        hasMore = allMarkets.length < total && markets.length === this.config.batchSize
-        page++
+      allMarkets.push(...markets)
+      console.log(`[SyncService] Page ${page}: ${markets.length} markets (total so far: ${allMarkets.length})`)
 
-        // Safety check to prevent infinite loops
-        if (page > 1000) {
-          console.warn('[SyncService] Reached maximum page limit (1000), stopping pagination')
-          break
-        }
+      // A failed page is short, keep going while the reported total says more markets exist
+      hasMore = allMarkets.length < total && (failed || markets.length === this.config.batchSize)
+      page++
 
-      } catch (error) {
-        console.error(`[SyncService] Failed to fetch page ${page}:`, error)
-        // Continue with next page on error
-        page++
-        if (page > 10) { // Don't retry too many times
-          break
-        }
+      // Safety check to prevent infinite loops
+      if (page > 1000) {
+        console.warn('[SyncService] Reached maximum page limit (1000), stopping pagination')
+        complete = false
+        break
       }
     }
 
-    return allMarkets
+    if (complete && allMarkets.length !== total) {
+      console.warn(`[SyncService] Fetched ${allMarkets.length} markets but Opinion reports ${total}, the market list is incomplete`)
+      complete = false
+    }
+
+    return { markets: allMarkets, complete }
   }
 
   /**
@@ -268,84 +478,269 @@ export class SyncService {
     } catch (error) {
       console.error('[SyncService] Failed to fetch prices:', error)
 
-      // Return empty map with fallback data for all tokens
-      const fallbackMap = new Map<string, PriceData>()
-      tokenIds.forEach(tokenId => {
-        fallbackMap.set(tokenId, {
-          tokenId,
-          price: '0',
-          timestamp: Date.now()
-        })
-      })
+      // Every token failed; carryOverPrices falls back to the last known prices
+      return new Map(tokenIds.map(tokenId => [tokenId, unknownPrice(tokenId, 'error')]))
+    }
+  }
 
-      return fallbackMap
+  /**
+   * Replace failed or missing prices with the last known price of the token, marked stale
+   * Tokens this process has priced before come from memory, others from the stored snapshot
+   */
+  private async carryOverPrices(priceMap: Map<string, PriceData>): Promise<Map<string, PriceData>> {
+    let merged = carryOverPrices(priceMap, this.lastKnownPrices, 'cache')
+
+    const unknown = Array.from(merged).filter(([, priceData]) => !isKnownPrice(priceData)).map(([tokenId]) => tokenId)
+    if (unknown.length > 0 && redis.client) {
+      try {
+        merged = carryOverPrices(merged, await redis.client.getPrices(unknown), 'redis')
+      } catch (error) {
+        console.warn('[SyncService] Failed to read stored prices for failed fetches:', error)
+      }
     }
+
+    freshPrices(merged).forEach((priceData, tokenId) => this.lastKnownPrices.set(tokenId, priceData))
+    return merged
   }
 
   /**
    * Store markets and prices in Redis with structured format
    * Requirement 2.5: Structured storage for individual market access
+   * Market hashes are written first, then the registry indexes are updated to match
    */
-  private async storeDataInRedis(markets: Market[], priceMap: Map<string, PriceData>): Promise<void> {
+  private async storeDataInRedis(
+    markets: Market[],
+    priceMap: Map<string, PriceData>,
+    complete: boolean = true
+  ): Promise<void> {
     try {
-      // Store individual markets for direct access by ID
-      // Store individual markets for direct access by ID
       if (redis.client) {
         const client = redis.client // Capture non-null reference
+        const now = Date.now()
+        const marketData = markets.map(market => toMarketData(market, now))
 
-        const marketPromises = markets.map(market =>
-          client.setMarket(market.id.toString(), {
-            id: market.id.toString(),
-            title: market.title,
-            yesTokenId: market.yesTokenId,
-            noTokenId: market.noTokenId,
-            cutoffAt: market.cutoffAt,
-            status: market.status.toString(),
-            volume24h: market.volume24h,
-            createdAt: Date.now(),
-            updatedAt: Date.now()
-          })
-        )
-
-        // Store individual prices for direct access by token ID
-        const pricePromises = Array.from(priceMap.entries()).map(([tokenId, priceData]) =>
-          client.setPrice(tokenId, priceData)
-        )
-
-        // Store markets list for quick access
-        const marketsList = markets.map(market => ({
-          id: market.id.toString(),
-          title: market.title,
-          yesTokenId: market.yesTokenId,
-          noTokenId: market.noTokenId,
-          cutoffAt: market.cutoffAt,
-          status: market.status.toString(),
-          volume24h: market.volume24h,
-          createdAt: Date.now(),
-          updatedAt: Date.now()
-        }))
-
-        // Execute all Redis operations in parallel
-        await Promise.all([
-          ...marketPromises,
-          ...pricePromises,
-          client.set('markets:list', JSON.stringify(marketsList)),
-          client.set('sync:last_update', Date.now().toString())
-        ])
+        // One pipeline for all market hashes, prices and the last sync timestamp
+        await client.setMarketSnapshot(marketData, priceMap)
+
+        // Keep active/volume/cutoff/status indexes in sync, pruning markets that left the active list
+        await client.indexMarkets(marketData, { prune: complete })
+        if (!complete) {
+          console.warn('[SyncService] Partial market list, skipped pruning the market registry')
+        }
 
         console.log(`[SyncService] Stored ${markets.length} markets and ${priceMap.size} prices in Redis`)
       } else {
         console.warn('[SyncService] Redis not available, skipping data storage')
       }
 
-      console.log(`[SyncService] Stored ${markets.length} markets and ${priceMap.size} prices in Redis`)
-
     } catch (error) {
       console.error('[SyncService] Failed to store data in Redis:', error)
       throw error
     }
   }
 
+  /**
+   * Append the cycle's prices to the rolling per-token time series
+   * Points are stamped with the sync start time so all tokens share timestamps
+   */
+  private async storePriceSeries(priceMap: Map<string, PriceData>, syncTime: number): Promise<void> {
+    if (!redis.client) {
+      return
+    }
+
+    try {
+      const timestamp = Math.floor(syncTime / 1000)
+      await redis.client.appendPriceSeries(Array.from(priceMap.values()), timestamp, this.config.seriesTiers)
+      console.log(`[SyncService] Appended ${priceMap.size} prices to time series`)
+    } catch (error) {
+      console.error('[SyncService] Failed to append price series:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Summarise the YES price series of the top-volume binary markets for the list volatility columns
+   * Summaries expire after three volatility intervals so a stalled sync never shows stale figures
+   */
+  private async storeVolatility(markets: Market[], syncTime: number): Promise<void> {
+    if (!redis.client) {
+      return
+    }
+
+    const tokenIds = markets
+      .filter(market => (market.marketType || 0) === 0 && market.yesTokenId)
+      .sort((a, b) => (parseFloat(b.volume24h) || 0) - (parseFloat(a.volume24h) || 0))
+      .slice(0, this.config.volatilityMarkets)
+      .map(market => market.yesTokenId)
+
+    try {
+      const nowSeconds = Math.floor(syncTime / 1000)
+      const history = await loadVolatilityHistory(tokenIds, nowSeconds, false)
+      const stats = tokenIds
+        .filter(tokenId => (history.get(tokenId)?.length ?? 0) > 1)
+        .map(tokenId => computeVolatility(tokenId, history.get(tokenId) || [], nowSeconds))
+
+      await redis.client.setVolatility(stats, this.config.volatilityIntervalSeconds * 3)
+      console.log(`[SyncService] Stored volatility for ${stats.length} of ${tokenIds.length} tokens`)
+    } catch (error) {
+      console.error('[SyncService] Failed to store volatility:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Hand markets past cutoff, or gone from a complete active list, to resolution tracking, then run a
+   * resolution pass every resolutionIntervalSeconds
+   * Tracked markets that show up open in the active list again are untracked
+   */
+  private async trackResolutions(markets: Market[], complete: boolean, syncTime: number): Promise<void> {
+    const nowSeconds = Math.floor(syncTime / 1000)
+    const activeIds = new Set(markets.map(market => market.id))
+    const departed = complete
+      ? Array.from(this.lastMarkets.values()).filter(market => !activeIds.has(market.id))
+      : []
+    const closed = [...markets.filter(market => isClosedMarket(market, nowSeconds)), ...departed]
+      .filter(market => !this.trackedClosed.has(market.id))
+    const reopened = markets
+      .filter(market => this.trackedClosed.has(market.id) && !isClosedMarket(market, nowSeconds))
+      .map(market => market.id)
+
+    await trackClosedMarkets(closed, syncTime)
+    closed.forEach(market => this.trackedClosed.set(market.id, syncTime))
+    if (reopened.length > 0) {
+      await untrackOpenMarkets(reopened)
+      reopened.forEach(id => this.trackedClosed.delete(id))
+    }
+
+    if (syncTime - this.lastResolutionCheck >= this.config.resolutionIntervalSeconds * 1000) {
+      this.lastResolutionCheck = syncTime
+      await resolvePendingMarkets(syncTime, this.config.resolutionMarkets, this.config.resolutionIntervalSeconds)
+    }
+  }
+
+  /**
+   * Drop per-market and per-token state for markets no longer in the (complete) active list, so
+   * long-running syncs do not accumulate state for every market ever seen
+   */
+  private pruneState(markets: Market[], tokenIds: string[], syncTime: number): void {
+    const activeIds = new Set(markets.map(market => market.id))
+    const activeTokens = new Set(tokenIds)
+    const prune = <K>(state: Map<K, unknown> | Set<K>, active: Set<K>) => {
+      state.forEach((_, key) => {
+        if (!active.has(key)) state.delete(key)
+      })
+    }
+
+    prune(this.lastVolumes, activeIds)
+    prune(this.seenTradeIds, activeIds)
+    prune(this.lastPrices, activeTokens)
+    prune(this.lastBooks, activeTokens)
+    prune(this.lastOrderbooks, activeTokens)
+    prune(this.lastKnownPrices, activeTokens)
+
+    // Departed markets are remembered for a while so they can be untracked if they come back;
+    // the resolution pass untracks later returns, as Opinion reports them open
+    this.trackedClosed.forEach((trackedAt, id) => {
+      if (!activeIds.has(id) && syncTime - trackedAt > TRACKED_CLOSED_RETENTION_SECONDS * 1000) {
+        this.trackedClosed.delete(id)
+      }
+    })
+  }
+
+  /**
+   * Summarise the YES orderbook of the top-volume binary markets
+   * Summaries expire after three sync intervals so a stalled sync never shows stale liquidity; every
+   * bookHistoryIntervalSeconds a snapshot is also appended to the orderbook history
+   */
+  private async storeLiquidity(markets: Market[], syncTime: number): Promise<Map<string, Orderbook>> {
+    const books = new Map<string, Orderbook>()
+    if (!redis.client || this.config.liquidityMarkets <= 0) {
+      return books
+    }
+
+    const tokenIds = markets
+      .filter(market => (market.marketType || 0) === 0 && market.yesTokenId)
+      .sort((a, b) => (parseFloat(b.volume24h) || 0) - (parseFloat(a.volume24h) || 0))
+      .slice(0, this.config.liquidityMarkets)
+      .map(market => market.yesTokenId)
+
+    try {
+      const fetched = await fetchOrderbooks(tokenIds)
+      fetched.forEach((book, tokenId) => {
+        if (book) books.set(tokenId, book)
+      })
+      const summaries = Array.from(books.values()).map(book => summarizeOrderbook(book, undefined, syncTime))
+
+      await redis.client.setLiquidity(summaries, this.config.intervalSeconds * 3)
+      console.log(`[SyncService] Stored liquidity for ${summaries.length} of ${tokenIds.length} tokens`)
+
+      if (this.config.bookHistoryIntervalSeconds > 0 &&
+        syncTime - this.lastBookSnapshot >= this.config.bookHistoryIntervalSeconds * 1000) {
+        this.lastBookSnapshot = syncTime
+        const snapshots = new Map(summaries.map(summary => [summary.tokenId, toBookSnapshot(summary)]))
+        await redis.client.appendBookSnapshots(snapshots, BOOK_HISTORY_RETENTION_SECONDS)
+      }
+      return books
+    } catch (error) {
+      console.error('[SyncService] Failed to store liquidity:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Fetch and store the newest trades of the top-volume binary markets
+   * Returns the trades not seen in an earlier cycle
+   */
+  private async storeTrades(markets: Market[]): Promise<Trade[]> {
+    if (!redis.client || this.config.tradeMarkets <= 0) {
+      return []
+    }
+
+    const selected = markets
+      .filter(market => (market.marketType || 0) === 0)
+      .sort((a, b) => (parseFloat(b.volume24h) || 0) - (parseFloat(a.volume24h) || 0))
+      .slice(0, this.config.tradeMarkets)
+
+    const tradesByMarket = await fetchRecentTrades(selected)
+    const { unseen, fresh } = takeNewTrades(tradesByMarket, this.seenTradeIds)
+
+    await redis.client.appendTrades(unseen, TRADE_RETENTION_SECONDS)
+    console.log(`[SyncService] Stored trades for ${tradesByMarket.size} markets, ${fresh.length} new`)
+    return fresh
+  }
+
+  /**
+   * Append the cycle's price and orderbook changes to the change feed
+   * The first cycle only records a baseline; tokens whose price fetch failed keep the previous price
+   */
+  private async publishChanges(
+    markets: Market[],
+    priceMap: Map<string, PriceData>,
+    books: Map<string, Orderbook>,
+    syncTime: number
+  ): Promise<void> {
+    const tokenMarkets = buildTokenMarketIndex(markets)
+    const prices = diffPrices(this.lastPrices, priceMap, tokenMarkets)
+    const bookDeltas = diffBooks(this.lastBooks, books, tokenMarkets)
+
+    priceMap.forEach((priceData, tokenId) => {
+      if (isKnownPrice(priceData)) this.lastPrices.set(tokenId, priceData.price)
+    })
+    books.forEach((book, tokenId) => this.lastBooks.set(tokenId, bookSignature(book)))
+
+    if (!redis.client || (prices.length === 0 && bookDeltas.length === 0)) {
+      return
+    }
+
+    try {
+      await redis.client.appendStreamEvent({ seq: syncTime, prices, books: bookDeltas }, STREAM_RETENTION_SECONDS)
+      console.log(`[SyncService] Published ${prices.length} price and ${bookDeltas.length} orderbook changes`)
+    } catch (error) {
+      console.error('[SyncService] Failed to publish changes:', error)
+      throw error
+    }
+  }
+
   /**
    * Store sync metadata for monitoring
    */
@@ -372,7 +767,7 @@ export class SyncService {
   async getLastSyncTime(): Promise<number | null> {
     try {
       if (!redis.client) return null
-      const lastSync = await redis.client.get('sync:last_update')
+      const lastSync = await redis.client.get(REDIS_KEYS.LAST_SYNC)
       return lastSync ? parseInt(lastSync) : null
     } catch (error) {
       console.error('[SyncService] Failed to get last sync time:', error)
@@ -431,6 +826,7 @@ export class SyncService {
     while (this.isRunning && (Date.now() - startTime) < shutdownTimeout) {
       await new Promise(resolve => setTimeout(resolve, 100))
     }
+    await flushAlertDeliveries()
 
     console.log('[SyncService] Shutdown complete')
   }
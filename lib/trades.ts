@@ -0,0 +1,100 @@
+/**
+ * Trade ingestion
+ * SyncService pulls the latest trades of the top-volume markets every cycle and keeps them per market;
+ * only trades the previous cycle had not seen are stored and handed to whale detection
+ */
+
+import { opinionClient } from './opinionClient'
+import { WhaleTrade } from './whales'
+import { Market, Trade, TradeSummary } from './types'
+
+export const TRADE_RETENTION_SECONDS = 7 * 86400
+export const TRADES_PER_MARKET = 50 // newest trades fetched per market and cycle
+
+const round = (value: number, decimals: number = 4): number => Number(value.toFixed(decimals))
+
+/**
+ * Fill in token IDs from the outcome when Opinion only reports YES/NO (or the market's own labels)
+ */
+export const resolveTradeTokens = (trades: Trade[], market: Market): Trade[] =>
+  trades.map(trade => {
+    if (trade.tokenId) {
+      return trade
+    }
+    const outcome = trade.outcome.trim().toUpperCase()
+    const isYes = outcome === 'YES' || (!!market.yesLabel && outcome === market.yesLabel.toUpperCase())
+    const isNo = outcome === 'NO' || (!!market.noLabel && outcome === market.noLabel.toUpperCase())
+    return { ...trade, tokenId: isYes ? market.yesTokenId : isNo ? market.noTokenId : '' }
+  })
+
+/**
+ * Newest page of trades for each market, keyed by market ID
+ */
+export async function fetchRecentTrades(markets: Market[]): Promise<Map<number, Trade[]>> {
+  const tradesByMarket = new Map<number, Trade[]>()
+
+  await Promise.all(markets.map(async market => {
+    const { trades } = await opinionClient.getMarketTrades(market.id, 1, TRADES_PER_MARKET)
+    tradesByMarket.set(market.id, resolveTradeTokens(trades.map(trade => ({ ...trade, marketId: market.id })), market))
+  }))
+
+  return tradesByMarket
+}
+
+/**
+ * Trades of this cycle's pages that were not in their market's previous page
+ * unseen is what still needs storing; fresh leaves out markets seen for the first time, which only set
+ * their baseline so a restart does not replay old trades to whale detection
+ */
+export interface NewTrades {
+  unseen: Trade[]
+  fresh: Trade[]
+}
+
+/**
+ * Split out trades not seen before by their ID (the transaction hash), so trades sharing a timestamp with
+ * the previous page's newest are still picked up; seenIds is updated in place to the current pages
+ */
+export function takeNewTrades(tradesByMarket: Map<number, Trade[]>, seenIds: Map<number, Set<string>>): NewTrades {
+  const unseen: Trade[] = []
+  const fresh: Trade[] = []
+
+  tradesByMarket.forEach((trades, marketId) => {
+    const seen = seenIds.get(marketId)
+    const added = trades.filter(trade => !seen?.has(trade.id))
+    unseen.push(...added)
+    if (seen) {
+      fresh.push(...added)
+    }
+    seenIds.set(marketId, new Set(trades.map(trade => trade.id)))
+  })
+
+  const byTime = (a: Trade, b: Trade) => a.timestamp - b.timestamp
+  return { unseen: unseen.sort(byTime), fresh: fresh.sort(byTime) }
+}
+
+export const toWhaleTrade = (trade: Trade): WhaleTrade => ({
+  marketId: trade.marketId,
+  tokenId: trade.tokenId,
+  side: trade.side,
+  size: trade.shares,
+  price: trade.price,
+  timestamp: trade.timestamp
+})
+
+/**
+ * Count, volume and share-weighted average price of a set of trades
+ */
+export function summarizeTrades(trades: Trade[]): TradeSummary {
+  const shares = trades.reduce((sum, trade) => sum + trade.shares, 0)
+  const weighted = trades.reduce((sum, trade) => sum + trade.price * trade.shares, 0)
+
+  return {
+    count: trades.length,
+    buys: trades.filter(trade => trade.side === 'buy').length,
+    sells: trades.filter(trade => trade.side === 'sell').length,
+    shares: round(shares, 2),
+    notional: round(trades.reduce((sum, trade) => sum + trade.notional, 0), 2),
+    vwap: shares > 0 ? round(weighted / shares) : null
+  }
+}
@@ -9,6 +9,16 @@ export interface Config {
     OPINION_BASE_URL: string
     CACHE_MAX_SIZE: number
     API_TIMEOUT: number
+    SNAPSHOT_MAX_AGE_SECONDS: number
+    ARBITRAGE_FEE_PCT: number
+    ALERT_WEBHOOK_SECRET: string
+    SMTP_HOST: string
+    SMTP_PORT: number
+    SMTP_SECURE: boolean
+    SMTP_USER: string
+    SMTP_PASS: string
+    SMTP_ALLOW_PLAINTEXT_AUTH: boolean
+    SMTP_FROM: string
 }
 
 // Market types
@@ -25,16 +35,65 @@ export interface Market {
     rules?: string
     yesLabel?: string
     noLabel?: string
+    resultTokenId?: string // winning token once resolved (detail endpoints only)
+    resolvedAt?: number // unix seconds (detail endpoints only)
     childMarkets?: Market[]
 }
 
+// One page of markets (as returned by OpinionClient.getMarkets)
+export interface MarketPage {
+    markets: Market[]
+    total: number
+    failed: boolean // an upstream page failed or markets were dropped by validation
+}
+
+// Market list types (as returned by /api/markets/list)
+export interface ChildMarketPreview {
+    id: number
+    title: string
+    yesTokenId: string
+    yesPrice: number | null // null when the price is unknown
+    volume24h: string
+}
+
+export interface MarketWithPrices {
+    id: number
+    title: string
+    yesTokenId: string
+    noTokenId: string
+    yesPrice: number | null // null when the price is unknown
+    noPrice: number | null
+    priceStatus?: PriceStatus // set when the YES/NO prices are not both fresh
+    volume24h: string
+    priceChangePct?: number
+    cutoffAt: number
+    marketType: number
+    childMarkets?: Market[]
+    childMarketsPreview?: ChildMarketPreview[]
+    liquidity?: LiquidityColumns // YES book, snapshot path only
+    volatility?: VolatilityColumns // YES price series, snapshot path only
+}
+
+export interface MarketListResponse {
+    markets: MarketWithPrices[]
+    total: number
+    source: 'snapshot' | 'live'
+    snapshotAgeMs?: number
+    partial?: boolean // live page filtered by type: total counts the markets left on this page, not all matches
+}
+
 // Price data types
+export type PriceStatus = 'ok' | 'stale' | 'error' | 'missing' // stale: last known price carried over a failed fetch
+export type PriceSource = 'live' | 'redis' | 'cache' // cache: the sync's in-memory last known prices
+
 export interface PriceData {
     tokenId: string
-    price: string
+    price: string // '0' placeholder unless the status is ok or stale
     timestamp: number
     side?: string
     size?: string
+    status?: PriceStatus // absent on prices stored before statuses were tracked, read as ok
+    source?: PriceSource
 }
 
 export interface PriceHistoryPoint {
@@ -42,6 +101,25 @@ export interface PriceHistoryPoint {
     p: string // price
 }
 
+// Candle types (as returned by /api/charts/candles)
+export interface Candle {
+    t: number // bucket start, unix seconds
+    o: number
+    h: number
+    l: number
+    c: number
+    n: number // source points in the bucket, 0 for forward-filled buckets
+}
+
+export interface CandleResponse {
+    tokenId: string
+    resolution: string
+    gap: 'ffill' | 'skip'
+    source: 'snapshot' | 'upstream'
+    sourceResolution: string // series tier or upstream interval the candles were built from
+    candles: Candle[]
+}
+
 // Orderbook types
 export interface OrderbookEntry {
     price: string
@@ -71,6 +149,123 @@ export interface UserPosition {
     unrealizedPnlPercent: string
 }
 
+// Trade types (as returned by the Opinion trade endpoints and stored by the sync)
+export interface Trade {
+    id: string // transaction hash, or a key built from the fill when Opinion sends none
+    marketId: number
+    tokenId: string // empty when Opinion only reports the outcome
+    outcome: string // YES / NO or the outcome label
+    side: 'buy' | 'sell'
+    price: number
+    shares: number
+    notional: number // USD
+    fee: number
+    wallet?: string
+    timestamp: number // ms
+}
+
+export interface TradePage {
+    trades: Trade[]
+    total: number
+    page: number
+    limit: number
+}
+
+export interface TradeSummary {
+    count: number
+    buys: number
+    sells: number
+    shares: number
+    notional: number
+    vwap: number | null // average price weighted by shares
+}
+
+export interface MarketTradesResponse extends TradePage {
+    marketId: number
+    source: 'stored' | 'live'
+    summary: TradeSummary
+}
+
+// Portfolio types (as returned by /api/user/portfolio)
+export interface PortfolioPosition extends UserPosition {
+    wallet: string
+    shares: number
+    price: number | null // null when no price source had the token
+    priceSource: 'snapshot' | 'live' | 'position'
+    costBasis: number
+    value: number
+    pnl: number
+    pnlPct: number | null // percent of cost basis
+}
+
+export interface OutcomePayout {
+    outcome: string // 'YES'/'NO' for a market, outcome title for a categorical parent
+    payout: number // 1 per winning share
+    pnl: number // payout minus cost basis of the group
+}
+
+export interface PortfolioExposure {
+    key: string // market ID, or the parent title for categorical groups
+    marketId?: number
+    title: string
+    positions: number
+    costBasis: number
+    value: number
+    pnl: number
+    sharePct: number // of total portfolio value
+    payouts: OutcomePayout[]
+}
+
+export interface PortfolioResponse {
+    wallets: string[]
+    positions: PortfolioPosition[]
+    markets: PortfolioExposure[] // per market, largest first
+    parents: PortfolioExposure[] // per categorical parent, largest first
+    concentration: {
+        hhi: number // Herfindahl index of value across binary markets and categorical parents, 0-1
+        largestPct: number
+    }
+    totals: {
+        costBasis: number
+        value: number
+        pnl: number
+        pnlPct: number | null
+        positions: number
+    }
+    errors: Array<{ wallet: string; message: string }>
+    snapshotAgeMs?: number
+}
+
+// Portfolio history types (as stored per tracked wallet and returned by /api/user/portfolio/history)
+export interface PortfolioHistoryPoint {
+    t: number // snapshot time in ms
+    value: number
+    costBasis: number
+    unrealizedPnl: number
+    realizedPnl: number // cumulative since tracking started, estimated from share reductions between snapshots
+    positions: number
+}
+
+export interface PortfolioHoldingsState {
+    realizedPnl: number
+    tokens: Record<string, { shares: number; averageCost: number; price: number | null }>
+}
+
+export interface PortfolioHistorySeriesPoint extends PortfolioHistoryPoint {
+    totalPnl: number
+    drawdown: number // below the best total PnL so far
+    drawdownPct: number // drawdown as a percent of cost basis
+}
+
+export interface PortfolioHistoryResponse {
+    wallets: string[]
+    untracked: string[] // requested wallets without snapshots, register them via /api/user/portfolio/wallets
+    range: string
+    points: PortfolioHistorySeriesPoint[]
+    maxDrawdown: number
+    maxDrawdownPct: number
+}
+
 // Market mover types (for analytics)
 export interface MarketMover {
     marketId: number
@@ -82,6 +277,378 @@ export interface MarketMover {
     noTokenId: string
     yesPrice: number
     noPrice: number
+    zScore?: number | null // YES move over the window in units of the market's typical move
+    priceStatus?: PriceStatus // 'stale' when a current price was carried over a failed fetch, error or missing when NO was derived from YES
+    parentMarketId?: number // set for categorical outcomes
+    depthNotional?: number // YES book USD within 2 cents of mid, when synced
+}
+
+// Liquidity types (as returned by /api/markets/[id]/liquidity)
+export interface DepthBand {
+    cents: number // distance from mid, in cents of price
+    bidSize: number // shares resting on bids within the band
+    askSize: number
+    bidNotional: number // USD, price * size
+    askNotional: number
+}
+
+export interface SlippageEstimate {
+    side: 'buy' | 'sell'
+    notional: number // requested USD amount
+    filledNotional: number // less than notional when the book is too thin
+    shares: number
+    avgPrice: number | null
+    slippageBps: number | null // average fill price versus the best price on that side
+}
+
+export interface LiquiditySummary {
+    tokenId: string
+    bestBid: number | null
+    bestAsk: number | null
+    mid: number | null
+    spread: number | null
+    spreadBps: number | null // spread relative to mid
+    depth: DepthBand[]
+    slippage: SlippageEstimate[]
+    timestamp: number
+}
+
+export interface LiquidityColumns {
+    spreadBps: number | null
+    depthNotional: number // bid + ask USD within 2 cents of mid
+    slippageBps: number | null // buying the default notional
+}
+
+export interface MarketLiquidityResponse {
+    marketId: number
+    marketTitle: string
+    notional: number
+    tokens: Array<LiquiditySummary & { label: string }>
+}
+
+// Orderbook history (appended by the sync every few minutes, replayed by backtests)
+export interface BookSnapshot {
+    t: number // unix seconds
+    bestBid: number | null
+    bestAsk: number | null
+    spreadBps: number | null
+    slippageBps: number | null // buying the default notional
+}
+
+// Volatility types (as stored by the sync and returned by /api/markets/[id]/volatility)
+export interface VolatilityColumns {
+    vol1h: number | null // realized volatility of logit(price) over the window
+    vol24h: number | null
+    vol7d: number | null
+    maxDrawdown: number | null // largest peak-to-trough fall over 7d, price points 0-1
+    jumpsPerDay: number | null // moves of at least 5 cents between consecutive points
+    avgAbsMovePerHour: number | null // summed absolute price moves per hour of history
+}
+
+export interface VolatilityStats extends VolatilityColumns {
+    tokenId: string
+    points: number // series points over the 7d lookback
+    timestamp: number
+}
+
+export interface MarketVolatilityResponse {
+    marketId: number
+    marketTitle: string
+    tokens: Array<VolatilityStats & { marketId: number; label: string }> // YES token, or every open outcome
+}
+
+// Arbitrage types (as returned by /api/markets/arbitrage)
+export interface ArbitrageLeg {
+    tokenId: string
+    label: string
+    price: number
+}
+
+export interface ArbitrageOpportunity {
+    marketId: number
+    marketTitle: string
+    kind: 'binary' | 'categorical'
+    legs: ArbitrageLeg[]
+    priceSum: number // YES + NO, or sum of child YES prices
+    grossEdgePct: number // |priceSum - 1| * 100
+    netEdgePct: number // gross edge minus fee on every leg
+    strategy: 'BUY_ALL' | 'SELL_ALL' // buy every leg when the sum is below 1, sell when above
+    underpriced: 'YES_UNDERPRICED' | 'NO_UNDERPRICED'
+    bestLevelSize: number | null // shares executable on every leg at the best level, null when books were not checked
+    volume24h: string
+}
+
+export interface ArbitrageScanResponse {
+    opportunities: ArbitrageOpportunity[]
+    scanned: number
+    feePct: number
+    source: 'snapshot' | 'live'
+    snapshotAgeMs?: number
+}
+
+// Categorical analytics types (as served by /api/markets/categorical)
+export interface CategoricalOutcome {
+    marketId: number
+    title: string
+    yesTokenId: string
+    yesPrice: number | null
+    probability: number | null // YES price normalized by the sum of priced outcome YES prices
+    shift1h: number | null // change in normalized probability, percentage points
+    shift24h: number | null
+}
+
+export interface CategoricalAnalytics {
+    marketId: number
+    title: string
+    volume24h: string
+    outcomes: CategoricalOutcome[] // most likely first, unpriced outcomes last
+    priced: number // outcomes with a price
+    priceSum: number // sum of outcome YES prices
+    overroundPct: number // (priceSum - 1) * 100; negative is underround
+    entropy: number // Shannon entropy of the normalized distribution, bits
+    normalizedEntropy: number // entropy / log2(priced): 0 all on one outcome, 1 uniform
+    favouriteMarginPct: number | null // favourite minus runner-up probability, percentage points
+    shift1h: number | null // total variation distance from the distribution 1h ago, percentage points
+    shift24h: number | null
+}
+
+export interface CategoricalAnalyticsResponse {
+    markets: CategoricalAnalytics[]
+    source: 'snapshot' | 'live'
+    snapshotAgeMs?: number
+}
+
+// Stream types (as sent by /api/stream)
+export interface PriceDelta {
+    marketId: number // parent market for categorical outcomes
+    tokenId: string
+    price: string
+}
+
+export interface BookDelta {
+    marketId: number
+    tokenId: string
+    bestBid: number | null
+    bestAsk: number | null
+    spreadBps: number | null
+    bids: OrderbookEntry[] // top levels only
+    asks: OrderbookEntry[]
+}
+
+export interface StreamEvent {
+    seq: number // sync start time in ms, also the SSE event id
+    prices: PriceDelta[]
+    books: BookDelta[]
+}
+
+// Whale activity (recorded by SyncService, served by /api/events/whales)
+export type WhaleEventKind = 'volume_spike' | 'book_level' | 'large_trade'
+
+export interface WhaleEvent {
+    id: string
+    kind: WhaleEventKind
+    marketId: number // parent market for categorical outcomes
+    marketTitle: string
+    tokenId?: string // unset for volume spikes, which are per market
+    side: 'buy' | 'sell' | 'bid' | 'ask' | null // volume spikes take the side of the YES price move, null when flat
+    action?: 'added' | 'pulled' // book levels only
+    size: number // shares; USD of added volume for volume spikes
+    notional: number // USD
+    price?: number
+    timestamp: number // ms
+}
+
+// Resolution tracking (archived by SyncService, served by /api/markets/resolved)
+export type MarketLifecycleStatus = 'activated' | 'resolving' | 'resolved' | 'failed' | 'unknown'
+
+export interface ResolvedOutcome {
+    marketId: number // child market for categorical outcomes
+    label: string
+    tokenId: string
+    finalPrice: number | null // last synced price at or before cutoff
+    won: boolean
+}
+
+export interface ResolvedMarket {
+    id: number
+    title: string
+    marketType: number
+    status: 'resolved' | 'failed' // failed markets were cancelled without a winner
+    cutoffAt: number // unix seconds
+    resolvedAt: number // unix seconds, from Opinion or when the sync first saw the resolution
+    winningTokenId: string | null
+    winningOutcome: string | null
+    volume24h: string // last value seen while the market was active
+    outcomes: ResolvedOutcome[]
+    archivedAt: number // ms
+}
+
+export type ResolvedPricePath = Record<string, PriceHistoryPoint[]> // tokenId -> hourly series
+
+export interface ResolvedMarketsResponse {
+    markets: Array<ResolvedMarket & { pricePath?: ResolvedPricePath }>
+    total: number
+    page: number
+    limit: number
+}
+
+// Calibration analytics (as returned by /api/analytics/calibration)
+export interface ReliabilityBucket {
+    lower: number // price decile bounds, upper exclusive except for the last bucket
+    upper: number
+    count: number
+    meanForecast: number | null
+    observedFrequency: number | null // share of forecasts in the bucket whose outcome won
+}
+
+export interface CalibrationScore {
+    count: number
+    brier: number | null
+    logLoss: number | null
+}
+
+export interface VolumeTierScore extends CalibrationScore {
+    tier: string
+    minVolume: number // USD volume24h last seen before cutoff, inclusive
+    maxVolume: number | null
+}
+
+export interface CalibrationHorizon extends CalibrationScore {
+    horizon: string // '1d' | '7d' | '30d' before cutoff
+    reliability: ReliabilityBucket[]
+    tiers: VolumeTierScore[]
+}
+
+export interface CalibrationResponse {
+    markets: number // resolved markets considered
+    horizons: CalibrationHorizon[]
+    generatedAt: number
+}
+
+// Backtesting (as run by lib/backtest, /api/backtest and scripts/backtest.ts)
+export type BacktestRule =
+    | { type: 'momentum'; lookbackHours: number; minMovePp: number; direction: 'up' | 'down' | 'both' } // follow YES moves
+    | { type: 'arbitrage'; minEdgePct: number } // buy the underpriced side when YES + NO is off by more than the edge
+    | { type: 'fade'; lookbackHours: number; minMovePp: number; withinHours: number } // bet against moves close to cutoff
+
+export type SlippageModel =
+    | { model: 'fixed'; bps: number }
+    | { model: 'book'; fallbackBps: number } // half the recorded spread plus the recorded slippage
+
+export interface BacktestConfig {
+    rule: BacktestRule
+    stakeUsd: number // per trade, fees included
+    feePct: number // charged on the stake at entry
+    slippage: SlippageModel
+    from?: number // resolvedAt window, unix seconds
+    to?: number
+}
+
+export interface BacktestTrade {
+    marketId: number
+    marketTitle: string
+    side: 'YES' | 'NO'
+    signal: string
+    entryTime: number // unix seconds
+    entryPrice: number
+    fillPrice: number
+    slippageBps: number
+    shares: number
+    stake: number
+    fee: number
+    exitTime: number // resolution, unix seconds
+    payout: number
+    pnl: number
+    won: boolean
+}
+
+export interface BacktestReport {
+    config: BacktestConfig
+    marketsTested: number
+    trades: number
+    wins: number
+    hitRate: number | null
+    totalStaked: number
+    totalFees: number
+    pnl: number
+    roiPct: number | null
+    maxExposure: number // largest sum of stakes open at once
+    avgHoldingHours: number | null
+    tradeLog: BacktestTrade[]
+    generatedAt: number
+}
+
+// Upstream schema diagnostics (as returned by /api/diagnostics)
+export interface SchemaViolationSample {
+    endpoint: string
+    path: string // first offending field, e.g. result.list[3].price
+    message: string
+    sample: string // truncated JSON shape of the response or list item: field names and value types, no values
+    at: number // ms
+}
+
+export interface EndpointSchemaStats {
+    endpoint: string
+    validated: number // responses and list items checked
+    violations: number
+    lastViolationAt: number | null
+    samples: SchemaViolationSample[] // newest first
+}
+
+export interface DiagnosticsResponse {
+    since: number // counters are per server process, ms
+    schema: EndpointSchemaStats[]
+    totalViolations: number
+    circuitBreakerState: string
+}
+
+// Alert types (as stored by RedisClient and served by /api/alerts)
+export type AlertCondition =
+    | { type: 'price_cross'; direction: 'above' | 'below'; threshold: number } // price in 0-1
+    | { type: 'price_move'; pct: number; windowMinutes: number } // absolute % move vs the window start
+    | { type: 'spread_wide'; bps: number }
+    | { type: 'cutoff_near'; hours: number }
+
+export type AlertSinkConfig =
+    | { type: 'webhook'; url: string }
+    | { type: 'email'; to: string }
+    | { type: 'in_app' }
+
+export interface Alert {
+    id: string
+    owner: string // free-form user key, notifications are listed per owner
+    tokenId?: string
+    marketId?: number // binary markets resolve to their YES token for price conditions
+    condition: AlertCondition
+    sinks: AlertSinkConfig[]
+    cooldownSeconds: number
+    active: boolean
+    createdAt: number // ms
+    lastTriggeredAt?: number // ms
+    tokenHash?: string // sha256 hex of the access token handed out at creation
+}
+
+export interface AlertNotification {
+    id: string
+    alertId: string
+    owner: string
+    tokenId?: string
+    marketId?: number
+    conditionType: AlertCondition['type']
+    message: string
+    value: number // observed price, move %, spread bps or hours to cutoff
+    triggeredAt: number // ms
+}
+
+// Watchlist types (as stored by RedisClient and served by /api/watchlists)
+export interface Watchlist {
+    id: string
+    owner: string // user or session key, lists are scoped per owner
+    name: string
+    wallets: string[] // lowercase 0x addresses
+    marketIds: number[]
+    createdAt: number // ms
+    updatedAt: number // ms
 }
 
 // Cache types
@@ -111,6 +678,25 @@ export interface PriceHistoryChart {
     noAsYesPrices: number[]
 }
 
+export interface Sparkline {
+    tokenId: string
+    timestamps: number[] // unix seconds
+    prices: number[]
+    change: number | null // last minus first price, null with fewer than two points
+}
+
+export interface HistoryBatchResponse {
+    interval: string
+    histories: Record<string, PriceHistoryPoint[]> // tokens fetched successfully, possibly empty
+    errors: Record<string, string> // tokens whose fetch failed, with the reason
+}
+
+export interface SparklinesResponse {
+    range: string
+    points: number // requested maximum per token
+    sparklines: Sparkline[] // same order as the requested tokenIds
+}
+
 // Analytics types
 export interface TimeframePrices {
     current: number
@@ -123,6 +709,7 @@ export interface EndingSoonMarket {
     cutoffAt: number
     yesPrice: number
     volume: string
+    priceStatus?: PriceStatus // 'stale' when the YES price was carried over a failed fetch
 }
 
 export interface ProcessedMarket {
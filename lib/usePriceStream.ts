@@ -0,0 +1,169 @@
+'use client'
+
+/**
+ * Live price and orderbook updates from /api/stream
+ * Deltas are written into the SWR cache in place, so pages keep their polling as a fallback
+ * Pages subscribe to the markets they render, or to the tokens they show
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { mutate } from 'swr'
+import type { BookDelta, HistoryBatchResponse, Orderbook, PriceDelta, StreamEvent } from './types'
+
+const MAX_STREAM_MARKETS = 200
+const MAX_STREAM_TOKENS = 400
+
+interface StreamedMarket {
+  yesTokenId: string
+  noTokenId: string
+  yesPrice: number | null
+  noPrice: number | null
+  childMarketsPreview?: Array<{ yesTokenId: string; yesPrice: number | null }>
+}
+
+/**
+ * Apply price deltas to list rows; returns the same array when nothing changed
+ */
+export function applyPriceDeltas<T extends StreamedMarket>(markets: T[], deltas: PriceDelta[]): T[] {
+  if (deltas.length === 0) {
+    return markets
+  }
+
+  const prices = new Map(deltas.map(delta => [delta.tokenId, parseFloat(delta.price)]))
+  let changed = false
+
+  const updated = markets.map(market => {
+    const yesPrice = prices.get(market.yesTokenId)
+    const noPrice = prices.get(market.noTokenId)
+    const preview = market.childMarketsPreview?.some(child => prices.has(child.yesTokenId))
+      ? market.childMarketsPreview.map(child => {
+          const price = prices.get(child.yesTokenId)
+          return price === undefined ? child : { ...child, yesPrice: price }
+        })
+      : market.childMarketsPreview
+
+    if (yesPrice === undefined && noPrice === undefined && preview === market.childMarketsPreview) {
+      return market
+    }
+
+    changed = true
+    return {
+      ...market,
+      yesPrice: yesPrice ?? market.yesPrice,
+      noPrice: noPrice ?? market.noPrice,
+      childMarketsPreview: preview
+    }
+  })
+
+  return changed ? updated : markets
+}
+
+/**
+ * Add streamed prices to a cached history batch as the newest point of each token it holds
+ * Returns the same batch when none of its tokens changed
+ */
+export function applyHistoryDeltas(batch: HistoryBatchResponse, deltas: PriceDelta[], nowSeconds: number): HistoryBatchResponse {
+  const updates = deltas.filter(delta => batch.histories[delta.tokenId] !== undefined)
+  if (updates.length === 0) {
+    return batch
+  }
+
+  const histories = { ...batch.histories }
+  updates.forEach(delta => {
+    const points = histories[delta.tokenId].filter(point => point.t < nowSeconds)
+    histories[delta.tokenId] = [...points, { t: nowSeconds, p: delta.price }]
+  })
+
+  return { ...batch, histories }
+}
+
+const isHistoryBatchKey = (key: unknown): boolean =>
+  typeof key === 'string' && key.startsWith('/api/history/batch')
+
+const isMarketListKey = (key: unknown): boolean =>
+  typeof key === 'string' && (key.startsWith('/api/markets/list') || key.startsWith('/api/markets/search'))
+
+/**
+ * Write one stream event into the cached market lists and orderbooks
+ */
+const applyStreamEvent = (event: StreamEvent) => {
+  if (event.prices.length > 0) {
+    void mutate<{ markets: StreamedMarket[] }>(
+      isMarketListKey,
+      current => {
+        if (!current?.markets) return current
+        const markets = applyPriceDeltas(current.markets, event.prices)
+        return markets === current.markets ? current : { ...current, markets }
+      },
+      { revalidate: false }
+    )
+    void mutate<HistoryBatchResponse>(
+      isHistoryBatchKey,
+      current => (current ? applyHistoryDeltas(current, event.prices, Math.floor(Date.now() / 1000)) : current),
+      { revalidate: false }
+    )
+    // Outcome probabilities are normalized server-side, so categorical analytics are refetched
+    new Set(event.prices.map(delta => delta.marketId)).forEach(marketId => {
+      void mutate(`/api/markets/${marketId}/categorical`)
+    })
+  }
+
+  event.books.forEach((delta: BookDelta) => {
+    void mutate<Orderbook>(
+      `/api/orderbook?tokenId=${delta.tokenId}`,
+      current => (current ? { ...current, bids: delta.bids, asks: delta.asks, timestamp: Date.now() } : current),
+      { revalidate: false }
+    )
+  })
+}
+
+/**
+ * Subscribe to live deltas for the given markets (in render order, the first MAX_STREAM_MARKETS) and tokens
+ * onEvent sees every event after the SWR cache has been updated, for state kept outside SWR
+ */
+export function usePriceStream(
+  marketIds: number[],
+  options: { enabled?: boolean; tokenIds?: string[]; onEvent?: (event: StreamEvent) => void } = {}
+): { connected: boolean } {
+  const { enabled = true, tokenIds = [], onEvent } = options
+  const [connected, setConnected] = useState(false)
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  // Sorted after the cap so the same set keeps the same connection
+  const ids = Array.from(new Set(marketIds)).slice(0, MAX_STREAM_MARKETS).sort((a, b) => a - b).join(',')
+  const tokens = Array.from(new Set(tokenIds.filter(Boolean))).slice(0, MAX_STREAM_TOKENS).sort().join(',')
+
+  useEffect(() => {
+    if (!enabled || (!ids && !tokens) || typeof EventSource === 'undefined') {
+      setConnected(false)
+      return
+    }
+
+    const query = new URLSearchParams()
+    if (ids) query.set('markets', ids)
+    if (tokens) query.set('tokens', tokens)
+
+    // EventSource reconnects on its own and resumes from the last event id
+    const source = new EventSource(`/api/stream?${query}`)
+
+    source.addEventListener('ready', () => setConnected(true))
+    source.addEventListener('delta', message => {
+      try {
+        const event = JSON.parse((message as MessageEvent<string>).data) as StreamEvent
+        applyStreamEvent(event)
+        onEventRef.current?.(event)
+      } catch (error) {
+        console.warn('[Stream] Ignoring malformed event:', error)
+      }
+    })
+    source.onerror = () => setConnected(false)
+
+    return () => {
+      source.close()
+      setConnected(false)
+    }
+  }, [enabled, ids, tokens])
+
+  return { connected }
+}
@@ -45,6 +45,7 @@ export const safeDivide = (numerator: number, denominator: number, fallback: num
 
 /**
  * Parse string price to number with validation
+ * Unparseable prices read as 0; read PriceData through knownPrice (lib/prices) so failed fetches stay unknown
  */
 export const parsePrice = (priceStr: string): number => {
   const price = parseFloat(priceStr)
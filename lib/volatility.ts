@@ -0,0 +1,149 @@
+/**
+ * Volatility analytics
+ * Realized volatility of logit-transformed prices (prices live in [0, 1], so raw moves near the bounds understate
+ * risk), max drawdown, price jump frequency and average absolute move per hour, from a token's price series
+ */
+
+import { redis } from './redis'
+import { getTokenHistoryBatch } from './historySource'
+import { MarketWithPrices, PriceHistoryPoint, VolatilityColumns, VolatilityStats } from './types'
+
+export const VOLATILITY_WINDOWS = { vol1h: 3600, vol24h: 86400, vol7d: 7 * 86400 } as const
+export const VOLATILITY_LOOKBACK_SECONDS = VOLATILITY_WINDOWS.vol7d
+export const JUMP_THRESHOLD = 0.05 // price points between consecutive series points
+
+export type VolatilitySort = keyof VolatilityColumns
+export const VOLATILITY_SORT_KEYS: VolatilitySort[] = ['vol1h', 'vol24h', 'vol7d', 'maxDrawdown', 'jumpsPerDay', 'avgAbsMovePerHour']
+
+// Keeps logit finite for prices at 0 or 1
+const LOGIT_EPSILON = 0.005
+
+const round = (value: number, decimals: number = 4): number => Number(value.toFixed(decimals))
+
+export const logit = (price: number): number => {
+  const p = Math.min(1 - LOGIT_EPSILON, Math.max(LOGIT_EPSILON, price))
+  return Math.log(p / (1 - p))
+}
+
+type SeriesPoint = { t: number; p: number }
+
+const toSeries = (points: PriceHistoryPoint[]): SeriesPoint[] =>
+  points
+    .map(point => ({ t: point.t, p: parseFloat(point.p) }))
+    .filter(point => Number.isFinite(point.p) && point.p >= 0 && point.p <= 1)
+    .sort((a, b) => a.t - b.t)
+
+/**
+ * Square root of the summed squared logit returns over points at or after `from`; null with fewer than 2 returns
+ */
+export function realizedVolatility(series: SeriesPoint[], from: number): number | null {
+  const recent = series.filter(point => point.t >= from)
+  if (recent.length < 3) {
+    return null
+  }
+
+  const variance = recent.slice(1).reduce((sum, point, i) => sum + (logit(point.p) - logit(recent[i].p)) ** 2, 0)
+  return round(Math.sqrt(variance))
+}
+
+/**
+ * Largest fall from a running peak, in price points
+ */
+export function maxDrawdown(series: SeriesPoint[]): number | null {
+  if (series.length < 2) {
+    return null
+  }
+
+  let peak = series[0].p
+  let drawdown = 0
+  series.forEach(point => {
+    peak = Math.max(peak, point.p)
+    drawdown = Math.max(drawdown, peak - point.p)
+  })
+  return round(drawdown)
+}
+
+/**
+ * Volatility summary for one token from its recent series (any order, at least the 7d lookback)
+ */
+export function computeVolatility(
+  tokenId: string,
+  points: PriceHistoryPoint[],
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): VolatilityStats {
+  const series = toSeries(points).filter(point => point.t >= nowSeconds - VOLATILITY_LOOKBACK_SECONDS && point.t <= nowSeconds)
+  const moves = series.slice(1).map((point, i) => Math.abs(point.p - series[i].p))
+  const spanSeconds = series.length > 1 ? series[series.length - 1].t - series[0].t : 0
+
+  return {
+    tokenId,
+    vol1h: realizedVolatility(series, nowSeconds - VOLATILITY_WINDOWS.vol1h),
+    vol24h: realizedVolatility(series, nowSeconds - VOLATILITY_WINDOWS.vol24h),
+    vol7d: realizedVolatility(series, nowSeconds - VOLATILITY_WINDOWS.vol7d),
+    maxDrawdown: maxDrawdown(series),
+    // Rounded so float noise on exact 5 cent moves does not decide whether they count
+    jumpsPerDay: spanSeconds > 0
+      ? round(moves.filter(move => round(move) >= JUMP_THRESHOLD).length / (spanSeconds / 86400), 2)
+      : null,
+    avgAbsMovePerHour: spanSeconds > 0 ? round(moves.reduce((sum, move) => sum + move, 0) / (spanSeconds / 3600)) : null,
+    points: series.length,
+    timestamp: nowSeconds * 1000
+  }
+}
+
+export const toVolatilityColumns = (stats: VolatilityStats): VolatilityColumns => ({
+  vol1h: stats.vol1h,
+  vol24h: stats.vol24h,
+  vol7d: stats.vol7d,
+  maxDrawdown: stats.maxDrawdown,
+  jumpsPerDay: stats.jumpsPerDay,
+  avgAbsMovePerHour: stats.avgAbsMovePerHour
+})
+
+/**
+ * Order list markets by a volatility column; markets without a summary go last in either order
+ */
+export const sortByVolatility = (
+  markets: MarketWithPrices[],
+  key: VolatilitySort,
+  order: 'asc' | 'desc'
+): MarketWithPrices[] => {
+  const direction = order === 'asc' ? 1 : -1
+  return [...markets].sort((a, b) => {
+    const left = a.volatility?.[key] ?? null
+    const right = b.volatility?.[key] ?? null
+    if (left === null || right === null) {
+      return (left === null ? 1 : 0) - (right === null ? 1 : 0)
+    }
+    return (left - right) * direction
+  })
+}
+
+/**
+ * Synced 5m series over the 7d lookback; with upstream set, tokens the sync does not cover fall back to
+ * hourly Opinion history
+ */
+export async function loadVolatilityHistory(
+  tokenIds: string[],
+  nowSeconds: number,
+  upstream: boolean
+): Promise<Map<string, PriceHistoryPoint[]>> {
+  let history = new Map<string, PriceHistoryPoint[]>()
+  const client = redis.client
+
+  if (client && tokenIds.length > 0) {
+    try {
+      history = await client.getPriceSeriesBatch(tokenIds, { from: nowSeconds - VOLATILITY_LOOKBACK_SECONDS, resolution: '5m' })
+    } catch (error) {
+      console.warn('[Volatility] Price series read failed:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  const missing = tokenIds.filter(tokenId => !(history.get(tokenId)?.length))
+  if (upstream && missing.length > 0) {
+    const { histories } = await getTokenHistoryBatch(missing, '1h')
+    Object.entries(histories).forEach(([tokenId, points]) => history.set(tokenId, points))
+  }
+
+  return history
+}
@@ -0,0 +1,107 @@
+/**
+ * Watchlists
+ * Named lists of wallets and markets stored through RedisClient under a user or session key
+ */
+
+import { randomUUID } from 'crypto'
+import { APIError, ErrorType, InputValidator } from './errorHandler'
+import { MAX_PORTFOLIO_WALLETS } from './portfolio'
+import { redis } from './redis'
+import { Watchlist } from './types'
+
+export const MAX_WATCHLISTS_PER_OWNER = 20
+export const MAX_WATCHLIST_WALLETS = MAX_PORTFOLIO_WALLETS // a list must fit one /api/user/portfolio request
+export const MAX_WATCHLIST_MARKETS = 200
+const MAX_NAME_LENGTH = 64
+
+const invalid = (message: string): never => {
+  throw new APIError(message, ErrorType.VALIDATION, 400)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Watchlist storage, or 503 when Redis is not configured
+ */
+export const requireWatchlistStore = () => {
+  if (!redis.client) {
+    throw new APIError('Watchlists require Redis', ErrorType.EXTERNAL_API, 503)
+  }
+  return redis.client
+}
+
+const parseName = (input: unknown): string => {
+  const name = typeof input === 'string' ? input.trim() : ''
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return invalid(`Invalid name. Must be 1-${MAX_NAME_LENGTH} characters`)
+  }
+  return name
+}
+
+/**
+ * Wallets are stored lowercase so the same address is never listed twice
+ */
+const parseWallets = (input: unknown): string[] => {
+  if (!Array.isArray(input)) {
+    return invalid('Invalid wallets. Must be a list of addresses')
+  }
+
+  const wallets = Array.from(new Set(input.map(wallet =>
+    InputValidator.validateAddress(typeof wallet === 'string' ? wallet : null, 'wallet address').toLowerCase())))
+  if (wallets.length > MAX_WATCHLIST_WALLETS) {
+    return invalid(`Too many wallets. At most ${MAX_WATCHLIST_WALLETS} per watchlist`)
+  }
+  return wallets
+}
+
+const parseMarketIds = (input: unknown): number[] => {
+  if (!Array.isArray(input)) {
+    return invalid('Invalid marketIds. Must be a list of market ids')
+  }
+
+  const marketIds = Array.from(new Set(input.map(id => {
+    const marketId = Number(id)
+    return Number.isInteger(marketId) && marketId > 0 ? marketId : invalid('Invalid marketId. Must be a positive integer')
+  })))
+  if (marketIds.length > MAX_WATCHLIST_MARKETS) {
+    return invalid(`Too many markets. At most ${MAX_WATCHLIST_MARKETS} per watchlist`)
+  }
+  return marketIds
+}
+
+/**
+ * Validate a create request body into a new watchlist; wallets and markets default to empty
+ */
+export function parseWatchlistInput(body: unknown, nowMs: number = Date.now()): Watchlist {
+  if (!isRecord(body)) {
+    return invalid('Request body must be a JSON object')
+  }
+
+  return {
+    id: randomUUID(),
+    owner: InputValidator.validateOwner(body.owner),
+    name: parseName(body.name),
+    wallets: body.wallets === undefined ? [] : parseWallets(body.wallets),
+    marketIds: body.marketIds === undefined ? [] : parseMarketIds(body.marketIds),
+    createdAt: nowMs,
+    updatedAt: nowMs
+  }
+}
+
+/**
+ * Apply a PATCH body to a watchlist; name, wallets and marketIds are replaced when present
+ */
+export function applyWatchlistUpdate(watchlist: Watchlist, body: unknown, nowMs: number = Date.now()): Watchlist {
+  if (!isRecord(body)) {
+    return invalid('Request body must be a JSON object')
+  }
+
+  return {
+    ...watchlist,
+    name: body.name !== undefined ? parseName(body.name) : watchlist.name,
+    wallets: body.wallets !== undefined ? parseWallets(body.wallets) : watchlist.wallets,
+    marketIds: body.marketIds !== undefined ? parseMarketIds(body.marketIds) : watchlist.marketIds,
+    updatedAt: nowMs
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Whale activity detection
+ * SyncService compares each cycle with the previous one and records abnormal volume24h jumps and large
+ * orderbook level changes as WhaleEvents; trades above a size threshold are flagged when a trade feed is supplied
+ */
+
+import { APIError, ErrorType } from './errorHandler'
+import { redis } from './redis'
+import { isFreshPrice, knownPrice } from './prices'
+import { Market, Orderbook, OrderbookEntry, PriceData, WhaleEvent, WhaleEventKind } from './types'
+
+export const WHALE_RETENTION_SECONDS = 7 * 86400
+export const WHALE_EVENT_KINDS: WhaleEventKind[] = ['volume_spike', 'book_level', 'large_trade']
+
+export interface WhaleThresholds {
+  volumeJumpUsd: number // 10000 of volume24h added within one cycle
+  volumeJumpRatio: number // 0.2 of the previous volume24h
+  levelNotionalUsd: number // 5000 added to or pulled from one book level
+  tradeNotionalUsd: number // 5000 for a single trade
+}
+
+/**
+ * A fill from an upstream trade feed, in the shape the detector needs
+ */
+export interface WhaleTrade {
+  marketId: number
+  tokenId: string
+  side: 'buy' | 'sell'
+  size: number // shares
+  price: number
+  timestamp: number // ms
+}
+
+export interface WhaleDetectionInput {
+  markets: Market[]
+  prices: Map<string, PriceData>
+  previousPrices: Map<string, string> // last cycle's prices, giving volume spikes a side
+  previousVolumes: Map<number, number> // last cycle's volume24h per market
+  books: Map<string, Orderbook>
+  previousBooks: Map<string, Orderbook>
+  trades?: WhaleTrade[]
+  nowMs: number
+}
+
+/**
+ * Detection thresholds with overrides via environment variables
+ */
+export function getWhaleThresholds(): WhaleThresholds {
+  return {
+    volumeJumpUsd: parseFloat(process.env.WHALE_VOLUME_JUMP_USD || '10000') || 10000,
+    volumeJumpRatio: parseFloat(process.env.WHALE_VOLUME_JUMP_RATIO || '0.2') || 0.2,
+    levelNotionalUsd: parseFloat(process.env.WHALE_LEVEL_NOTIONAL_USD || '5000') || 5000,
+    tradeNotionalUsd: parseFloat(process.env.WHALE_TRADE_NOTIONAL_USD || '5000') || 5000
+  }
+}
+
+const round = (value: number, decimals: number = 2): number => Number(value.toFixed(decimals))
+
+/**
+ * Market title per token, with categorical outcomes prefixed by their parent
+ */
+const buildTokenTitles = (markets: Market[]): Map<string, { marketId: number; title: string }> => {
+  const titles = new Map<string, { marketId: number; title: string }>()
+
+  markets.forEach(market => {
+    if (market.yesTokenId) titles.set(market.yesTokenId, { marketId: market.id, title: market.title })
+    if (market.noTokenId) titles.set(market.noTokenId, { marketId: market.id, title: market.title })
+    market.childMarkets?.forEach(child => {
+      const title = `${market.title}: ${child.title || child.yesLabel || `Outcome ${child.id}`}`
+      if (child.yesTokenId) titles.set(child.yesTokenId, { marketId: market.id, title })
+      if (child.noTokenId) titles.set(child.noTokenId, { marketId: market.id, title })
+    })
+  })
+
+  return titles
+}
+
+/**
+ * Markets whose volume24h grew by at least volumeJumpUsd and volumeJumpRatio of its previous value since the
+ * last cycle; markets first seen this cycle have no baseline and never count
+ * The side follows the YES move and is only taken from a price fetched this cycle (a zero price counts)
+ */
+export function detectVolumeSpikes(
+  input: Pick<WhaleDetectionInput, 'markets' | 'prices' | 'previousPrices' | 'previousVolumes' | 'nowMs'>,
+  thresholds: WhaleThresholds
+): WhaleEvent[] {
+  return input.markets.flatMap<WhaleEvent>(market => {
+    const before = input.previousVolumes.get(market.id)
+    const volume = parseFloat(market.volume24h)
+    if (before === undefined || !Number.isFinite(volume)) {
+      return []
+    }
+
+    const added = volume - before
+    if (added < thresholds.volumeJumpUsd || added < before * thresholds.volumeJumpRatio) {
+      return []
+    }
+
+    const yesData = input.prices.get(market.yesTokenId)
+    const yesNow = isFreshPrice(yesData) ? knownPrice(yesData) : null
+    const yesBefore = parseFloat(input.previousPrices.get(market.yesTokenId) ?? '')
+    const move = yesNow !== null && Number.isFinite(yesBefore) ? yesNow - yesBefore : 0
+
+    return [{
+      id: `volume_spike:${market.id}:${input.nowMs}`,
+      kind: 'volume_spike',
+      marketId: market.id,
+      marketTitle: market.title,
+      side: move > 0 ? 'buy' : move < 0 ? 'sell' : null,
+      size: round(added),
+      notional: round(added),
+      timestamp: input.nowMs
+    }]
+  })
+}
+
+const levelSizes = (levels: OrderbookEntry[]): Map<string, number> => {
+  const sizes = new Map<string, number>()
+  levels.forEach(level => {
+    const size = parseFloat(level.size)
+    if (Number.isFinite(size)) sizes.set(level.price, (sizes.get(level.price) || 0) + size)
+  })
+  return sizes
+}
+
+/**
+ * Book levels where at least levelNotionalUsd was added or pulled since the previous cycle's book
+ * A pulled level may also have been filled; the book alone cannot tell the two apart
+ */
+export function detectBookLevelChanges(
+  input: Pick<WhaleDetectionInput, 'markets' | 'books' | 'previousBooks' | 'nowMs'>,
+  thresholds: WhaleThresholds
+): WhaleEvent[] {
+  const titles = buildTokenTitles(input.markets)
+  const events: WhaleEvent[] = []
+
+  input.books.forEach((book, tokenId) => {
+    const previous = input.previousBooks.get(tokenId)
+    const market = titles.get(tokenId)
+    if (!previous || !market) {
+      return
+    }
+
+    const sides: Array<['bid' | 'ask', OrderbookEntry[], OrderbookEntry[]]> = [
+      ['bid', previous.bids, book.bids],
+      ['ask', previous.asks, book.asks]
+    ]
+    sides.forEach(([side, before, after]) => {
+      const oldSizes = levelSizes(before)
+      const newSizes = levelSizes(after)
+
+      new Set([...oldSizes.keys(), ...newSizes.keys()]).forEach(level => {
+        const price = parseFloat(level)
+        const change = (newSizes.get(level) || 0) - (oldSizes.get(level) || 0)
+        const notional = Math.abs(change) * price
+        if (!Number.isFinite(notional) || notional < thresholds.levelNotionalUsd) {
+          return
+        }
+
+        events.push({
+          id: `book_level:${tokenId}:${side}:${level}:${input.nowMs}`,
+          kind: 'book_level',
+          marketId: market.marketId,
+          marketTitle: market.title,
+          tokenId,
+          side,
+          action: change > 0 ? 'added' : 'pulled',
+          size: round(Math.abs(change)),
+          notional: round(notional),
+          price,
+          timestamp: input.nowMs
+        })
+      })
+    })
+  })
+
+  return events
+}
+
+/**
+ * Trades of at least tradeNotionalUsd
+ */
+export function detectLargeTrades(
+  trades: WhaleTrade[],
+  markets: Market[],
+  thresholds: WhaleThresholds
+): WhaleEvent[] {
+  const titles = buildTokenTitles(markets)
+
+  return trades
+    .filter(trade => trade.size * trade.price >= thresholds.tradeNotionalUsd)
+    .map(trade => ({
+      id: `large_trade:${trade.tokenId}:${trade.side}:${trade.timestamp}:${trade.size}`,
+      kind: 'large_trade',
+      marketId: trade.marketId,
+      marketTitle: titles.get(trade.tokenId)?.title || `Market ${trade.marketId}`,
+      tokenId: trade.tokenId,
+      side: trade.side,
+      size: round(trade.size),
+      notional: round(trade.size * trade.price),
+      price: trade.price,
+      timestamp: trade.timestamp
+    }))
+}
+
+/**
+ * Every whale event of one cycle, largest notional first
+ */
+export const detectWhaleEvents = (
+  input: WhaleDetectionInput,
+  thresholds: WhaleThresholds = getWhaleThresholds()
+): WhaleEvent[] =>
+  [
+    ...detectVolumeSpikes(input, thresholds),
+    ...detectBookLevelChanges(input, thresholds),
+    ...detectLargeTrades(input.trades || [], input.markets, thresholds)
+  ].sort((a, b) => b.notional - a.notional)
+
+/**
+ * Detect and record a cycle's whale events; without Redis nothing is recorded
+ */
+export async function recordWhaleEvents(input: WhaleDetectionInput): Promise<WhaleEvent[]> {
+  if (!redis.client) {
+    return []
+  }
+
+  const events = detectWhaleEvents(input)
+  if (events.length > 0) {
+    await redis.client.addWhaleEvents(events, WHALE_RETENTION_SECONDS)
+    console.log(`[Whales] Recorded ${events.length} whale events`)
+  }
+
+  return events
+}
+
+/**
+ * Whale event storage, or 503 when Redis is not configured
+ */
+export const requireWhaleStore = () => {
+  if (!redis.client) {
+    throw new APIError('Whale events require Redis', ErrorType.EXTERNAL_API, 503)
+  }
+  return redis.client
+}
@@ -0,0 +1,87 @@
+/**
+ * Run a backtest against the resolved market archive from the command line
+ * Reads the same storage as the app, so set UPSTASH_REDIS_REST_URL/TOKEN or REDIS_PERSIST_PATH first
+ *
+ * Run with: npm run backtest -- --rule momentum --lookbackHours 6 --minMovePp 10 [--direction up|down|both]
+ *           npm run backtest -- --rule arbitrage [--minEdgePct 2]
+ *           npm run backtest -- --rule fade --lookbackHours 6 --minMovePp 10 --withinHours 24
+ * Common:   --stake 100 --fee 1 --slippage fixed|book --slippageBps 50 --from <unix> --to <unix> --json
+ */
+
+import { backtest, parseBacktestConfig } from '../lib/backtest'
+import { BacktestReport } from '../lib/types'
+
+const parseArgs = (argv: string[]): Record<string, string> => {
+  const args: Record<string, string> = {}
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue
+    const next = argv[i + 1]
+    const hasValue = next !== undefined && !next.startsWith('--')
+    args[argv[i].slice(2)] = hasValue ? next : 'true'
+    if (hasValue) i++
+  }
+  return args
+}
+
+const toNumber = (value: string | undefined): number | undefined =>
+  value === undefined ? undefined : Number(value)
+
+const formatUsd = (value: number): string => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`
+
+const formatTime = (seconds: number): string => new Date(seconds * 1000).toISOString().slice(0, 16).replace('T', ' ')
+
+function printReport(report: BacktestReport): void {
+  console.log(`Rule:            ${JSON.stringify(report.config.rule)}`)
+  console.log(`Markets tested:  ${report.marketsTested}`)
+  console.log(`Trades:          ${report.trades} (${report.wins} won)`)
+  console.log(`Hit rate:        ${report.hitRate === null ? '—' : `${(report.hitRate * 100).toFixed(1)}%`}`)
+  console.log(`Staked / fees:   ${formatUsd(report.totalStaked)} / ${formatUsd(report.totalFees)}`)
+  console.log(`PnL:             ${formatUsd(report.pnl)}${report.roiPct === null ? '' : ` (${report.roiPct}% ROI)`}`)
+  console.log(`Max exposure:    ${formatUsd(report.maxExposure)}`)
+  console.log(`Avg holding:     ${report.avgHoldingHours === null ? '—' : `${report.avgHoldingHours}h`}`)
+
+  if (report.tradeLog.length > 0) {
+    console.log('\nTrades:')
+    report.tradeLog.forEach(trade => {
+      console.log(
+        `  ${formatTime(trade.entryTime)}  #${trade.marketId} ${trade.side.padEnd(3)} @ ${trade.fillPrice.toFixed(3)}  ` +
+        `${trade.won ? 'WON ' : 'LOST'} ${formatUsd(trade.pnl).padStart(10)}  ${trade.signal} — ${trade.marketTitle}`
+      )
+    })
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2))
+  const slippageBps = toNumber(args.slippageBps)
+
+  const config = parseBacktestConfig({
+    rule: {
+      type: args.rule,
+      lookbackHours: toNumber(args.lookbackHours),
+      minMovePp: toNumber(args.minMovePp),
+      direction: args.direction,
+      minEdgePct: toNumber(args.minEdgePct),
+      withinHours: toNumber(args.withinHours)
+    },
+    stakeUsd: toNumber(args.stake),
+    feePct: toNumber(args.fee),
+    slippage: args.slippage === 'book'
+      ? { model: 'book', fallbackBps: slippageBps }
+      : { model: 'fixed', bps: slippageBps },
+    from: toNumber(args.from),
+    to: toNumber(args.to)
+  })
+
+  const report = await backtest(config)
+  if (args.json === 'true') {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    printReport(report)
+  }
+}
+
+main().catch(error => {
+  console.error(`✗ Backtest failed: ${error instanceof Error ? error.message : String(error)}`)
+  process.exit(1)
+})
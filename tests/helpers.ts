@@ -0,0 +1,45 @@
+/**
+ * Shared test helpers
+ * Route and service tests run against an InMemoryRedisClient placed behind `redis.client`:
+ *
+ *   vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+ *   beforeEach(() => { memoryClient.current = new InMemoryRedisClient() })
+ */
+
+import type { RedisClient } from '@/lib/redis'
+import type { Market } from '@/lib/types'
+
+/**
+ * Client served as `redis.client` by the mocked module; null behaves like missing Redis configuration
+ */
+export const memoryClient: { current: RedisClient | null } = { current: null }
+
+/**
+ * Factory for vi.mock('@/lib/redis'): the real module with `redis.client` read from memoryClient
+ */
+export async function mockRedisModule(importOriginal: <T>() => Promise<T>) {
+  const actual = await importOriginal<typeof import('@/lib/redis')>()
+  return {
+    ...actual,
+    redis: {
+      get client() {
+        return memoryClient.current
+      }
+    }
+  }
+}
+
+/**
+ * Open binary market with tokens yes-{id} / no-{id}, a cutoff one day out and a 24h volume of id * 100
+ */
+export const buildMarket = (id: number, overrides: Partial<Market> = {}): Market => ({
+  id,
+  title: `Market ${id}`,
+  yesTokenId: `yes-${id}`,
+  noTokenId: `no-${id}`,
+  cutoffAt: Math.floor(Date.now() / 1000) + 86400,
+  status: 'activated',
+  volume24h: String(id * 100),
+  marketType: 0,
+  ...overrides
+})
@@ -35,7 +35,8 @@ describe('API Endpoints Integration Tests', () => {
       noTokenId: 'no-token-1',
       cutoffAt: Math.floor(Date.now() / 1000) + 7200, // 2 hours from now
       status: 'activated',
-      volume24h: '1000.50'
+      volume24h: '1000.50',
+      marketType: 0
     },
     {
       id: 2,
@@ -44,7 +45,8 @@ describe('API Endpoints Integration Tests', () => {
       noTokenId: 'no-token-2',
       cutoffAt: Math.floor(Date.now() / 1000) + 3600, // 1 hour from now
       status: 'activated',
-      volume24h: '2500.75'
+      volume24h: '2500.75',
+      marketType: 0
     }
   ]
 
@@ -68,7 +70,7 @@ describe('API Endpoints Integration Tests', () => {
     vi.clearAllMocks()
     
     // Setup default successful mocks
-    vi.mocked(opinionClient.getMarkets).mockResolvedValue(mockMarkets)
+    vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: mockMarkets, total: mockMarkets.length, failed: false })
     vi.mocked(opinionClient.getLatestPrice).mockResolvedValue(mockPriceData)
     vi.mocked(opinionClient.getPriceHistory).mockResolvedValue(mockPriceHistory)
   })
@@ -350,7 +352,7 @@ describe('API Endpoints Integration Tests', () => {
     })
 
     it('should handle empty markets response', async () => {
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([])
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [], total: 0, failed: false })
 
       const request = new NextRequest('http://localhost/api/markets/movers?timeframe=1h')
       const response = await moversGET(request)
@@ -0,0 +1,423 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { lookup } from 'dns/promises'
+import { EventEmitter } from 'events'
+import { ClientRequest, IncomingMessage } from 'http'
+import { request, RequestOptions } from 'https'
+import { AddressInfo, createServer } from 'net'
+import { GET as listAlertsGET, POST as createAlertPOST } from '@/app/api/alerts/route'
+import { GET as alertGET, PATCH as alertPATCH, DELETE as alertDELETE } from '@/app/api/alerts/[id]/route'
+import { GET as notificationsGET } from '@/app/api/alerts/notifications/route'
+import { AlertContext, evaluateAlert, flushAlertDeliveries, isCoolingDown, parseAlertInput, redactAlert, requireAlertStore, runAlerts } from '@/lib/alerts'
+import { assertPublicWebhookUrl, createEmailSink, dispatchNotification, inAppSink, isPublicAddress, registerAlertSink, signWebhookPayload } from '@/lib/alertSinks'
+import { createSmtpTransport, formatEmail } from '@/lib/smtp'
+import { InMemoryRedisClient } from '@/lib/redis'
+import { Alert, AlertNotification, Market, PriceData } from '@/lib/types'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn()
+}))
+
+vi.mock('https', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('https')>()),
+  request: vi.fn()
+}))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getOrderbook: vi.fn()
+  }
+}))
+
+const NOW = 1_700_000_000_000
+
+const market: Market = {
+  id: 1,
+  title: 'Market 1',
+  yesTokenId: 'yes-1',
+  noTokenId: 'no-1',
+  cutoffAt: NOW / 1000 + 2 * 3600,
+  status: 'activated',
+  volume24h: '100',
+  marketType: 0
+}
+
+const alertWith = (condition: Alert['condition'], extra: Partial<Alert> = {}): Alert => ({
+  id: 'a1',
+  owner: 'alice',
+  marketId: 1,
+  condition,
+  sinks: [{ type: 'in_app' }],
+  cooldownSeconds: 3600,
+  active: true,
+  createdAt: NOW,
+  ...extra
+})
+
+const prices = (entries: Array<[string, string]>): Map<string, PriceData> =>
+  new Map(entries.map(([tokenId, price]) => [tokenId, { tokenId, price, timestamp: NOW }]))
+
+const context = (overrides: Partial<AlertContext> = {}): AlertContext => ({
+  nowMs: NOW,
+  prices: prices([['yes-1', '0.62']]),
+  previousPrices: new Map([['yes-1', '0.58']]),
+  liquidity: new Map(),
+  history: new Map(),
+  markets: new Map([[1, market]]),
+  ...overrides
+})
+
+const json = (url: string, method: string, body: unknown, headers: Record<string, string> = {}) =>
+  new NextRequest(url, { method, body: JSON.stringify(body), headers: { 'Content-Type': 'application/json', ...headers } })
+
+// Answers each webhook POST with the next status and records what was sent
+const mockWebhookRequests = (...statuses: number[]) => {
+  const sent: Array<{ url: URL; options: RequestOptions; body: string }> = []
+  vi.mocked(request).mockImplementation(((url: URL, options: RequestOptions, onResponse: (response: IncomingMessage) => void) => {
+    const req = Object.assign(new EventEmitter(), {
+      destroy: () => req,
+      end: (body: string) => {
+        sent.push({ url, options, body })
+        const response = Object.assign(new EventEmitter(), { statusCode: statuses.shift(), resume: () => {} })
+        setImmediate(() => onResponse(response as never))
+      }
+    })
+    return req as unknown as ClientRequest
+  }) as never)
+  return sent
+}
+
+describe('Alerts', () => {
+  describe('parseAlertInput', () => {
+    it('should build an alert with defaults', () => {
+      const alert = parseAlertInput({
+        owner: 'alice',
+        marketId: 1,
+        condition: { type: 'price_cross', direction: 'above', threshold: 0.6 }
+      }, NOW)
+
+      expect(alert).toMatchObject({ owner: 'alice', marketId: 1, sinks: [{ type: 'in_app' }], cooldownSeconds: 3600, active: true })
+      expect(alert.id).toMatch(/^[a-f0-9-]{36}$/)
+    })
+
+    it('should reject ambiguous targets, bad conditions and bad sinks', () => {
+      const base = { owner: 'alice', tokenId: 'yes-1', condition: { type: 'spread_wide', bps: 300 } }
+
+      expect(() => parseAlertInput({ ...base, marketId: 1 })).toThrow('Exactly one of tokenId or marketId')
+      expect(() => parseAlertInput({ ...base, condition: { type: 'price_cross', direction: 'up', threshold: 0.5 } })).toThrow('direction')
+      expect(() => parseAlertInput({ ...base, condition: { type: 'price_move', pct: 5, windowMinutes: 0 } })).toThrow('windowMinutes')
+      expect(() => parseAlertInput({ ...base, sinks: [{ type: 'webhook', url: 'ftp://x' }] })).toThrow('webhook url')
+      for (const url of ['http://hooks.example.com/x', 'https://localhost/x', 'https://10.0.0.5/x', 'https://[::1]/x', 'https://169.254.169.254/latest', 'https://redis/x']) {
+        expect(() => parseAlertInput({ ...base, sinks: [{ type: 'webhook', url }] })).toThrow('webhook url')
+      }
+      expect(() => parseAlertInput({ ...base, sinks: [{ type: 'email', to: 'nobody' }] })).toThrow('email')
+      expect(() => parseAlertInput({ ...base, cooldownSeconds: 5 })).toThrow('cooldownSeconds')
+    })
+  })
+
+  describe('evaluateAlert', () => {
+    it('should fire a crossing only when the previous price was on the other side', () => {
+      const above = alertWith({ type: 'price_cross', direction: 'above', threshold: 0.6 })
+
+      expect(evaluateAlert(above, context())).toMatchObject({ value: 0.62 })
+      expect(evaluateAlert(above, context({ previousPrices: new Map([['yes-1', '0.61']]) }))).toBeNull()
+      expect(evaluateAlert(above, context({ previousPrices: new Map() }))).toBeNull()
+      expect(evaluateAlert(alertWith({ type: 'price_cross', direction: 'below', threshold: 0.6 }), context())).toBeNull()
+    })
+
+    it('should fire a crossing down to zero but not on a failed fetch', () => {
+      const below = alertWith({ type: 'price_cross', direction: 'below', threshold: 0.05 })
+      const failed = new Map([['yes-1', { tokenId: 'yes-1', price: '0', timestamp: NOW, status: 'error' as const }]])
+
+      expect(evaluateAlert(below, context({ prices: prices([['yes-1', '0']]) }))).toMatchObject({ value: 0 })
+      expect(evaluateAlert(below, context({ prices: failed }))).toBeNull()
+    })
+
+    it('should measure moves from the start of the window', () => {
+      const move = alertWith({ type: 'price_move', pct: 10, windowMinutes: 60 })
+      const history = new Map([['yes-1', [
+        { t: NOW / 1000 - 7200, p: '0.30' }, // outside the window
+        { t: NOW / 1000 - 1800, p: '0.55' }
+      ]]])
+
+      expect(evaluateAlert(move, context({ history }))).toMatchObject({ value: 12.73 })
+      expect(evaluateAlert({ ...move, condition: { type: 'price_move', pct: 15, windowMinutes: 60 } }, context({ history }))).toBeNull()
+    })
+
+    it('should check spread and time to cutoff', () => {
+      const spread = alertWith({ type: 'spread_wide', bps: 300 }, { marketId: undefined, tokenId: 'yes-1' })
+      const liquidity = new Map([['yes-1', { spreadBps: 400 } as never]])
+
+      expect(evaluateAlert(spread, context({ liquidity }))).toMatchObject({ value: 400 })
+      expect(evaluateAlert(spread, context())).toBeNull()
+      expect(evaluateAlert(alertWith({ type: 'cutoff_near', hours: 3 }), context())).toMatchObject({ value: 2 })
+      expect(evaluateAlert(alertWith({ type: 'cutoff_near', hours: 1 }), context())).toBeNull()
+    })
+
+    it('should respect the cooldown', () => {
+      const alert = alertWith({ type: 'cutoff_near', hours: 3 }, { lastTriggeredAt: NOW - 1000 })
+
+      expect(isCoolingDown(alert, NOW)).toBe(true)
+      expect(isCoolingDown(alert, NOW + 3600 * 1000)).toBe(false)
+    })
+  })
+
+  describe('sinks', () => {
+    const notification: AlertNotification = {
+      id: 'n1',
+      alertId: 'a1',
+      owner: 'alice',
+      marketId: 1,
+      conditionType: 'price_cross',
+      message: 'yes-1 crossed above 0.6',
+      value: 0.62,
+      triggeredAt: NOW
+    }
+
+    afterEach(() => {
+      vi.mocked(request).mockReset()
+    })
+
+    it('should post webhooks and keep delivering when one sink fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.mocked(lookup).mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never)
+      const sent = mockWebhookRequests(500, 200)
+
+      const result = await dispatchNotification(notification, [
+        { type: 'webhook', url: 'https://a.example/hook' },
+        { type: 'webhook', url: 'https://b.example/hook' }
+      ])
+
+      expect(result).toEqual({ delivered: 1, failed: 1 })
+      expect(sent[1].url.toString()).toBe('https://b.example/hook')
+      expect(JSON.parse(sent[1].body)).toEqual(notification)
+
+      // The connection only resolves to the vetted address, whatever DNS answers by then
+      vi.mocked(lookup).mockResolvedValue([{ address: '10.0.0.1', family: 4 }] as never)
+      const answer = vi.fn()
+      sent[1].options.lookup?.('b.example', { all: true }, answer)
+      expect(answer).toHaveBeenCalledWith(null, [{ address: '93.184.216.34', family: 4 }])
+      vi.restoreAllMocks()
+    })
+
+    it('should refuse webhooks that resolve to non-public addresses', async () => {
+      const sent = mockWebhookRequests(200)
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.mocked(lookup).mockResolvedValue([{ address: '93.184.216.34', family: 4 }, { address: '10.1.2.3', family: 4 }] as never)
+
+      expect(await dispatchNotification(notification, [{ type: 'webhook', url: 'https://rebind.example/hook' }])).toEqual({ delivered: 0, failed: 1 })
+      await expect(assertPublicWebhookUrl('http://hooks.example.com/x')).rejects.toThrow('not allowed')
+      expect(sent).toEqual([])
+
+      expect(['127.0.0.1', '::ffff:192.168.1.1', 'fd00::1', 'fe80::1', '100.64.0.1', 'not-an-ip'].some(isPublicAddress)).toBe(false)
+      expect(['8.8.8.8', '2606:4700::1111'].every(isPublicAddress)).toBe(true)
+      vi.restoreAllMocks()
+    })
+
+    it('should sign payloads with HMAC-SHA256 over timestamp and body', () => {
+      expect(signWebhookPayload('{}', 1, 'secret')).toBe(signWebhookPayload('{}', 1, 'secret'))
+      expect(signWebhookPayload('{}', 1, 'secret')).not.toBe(signWebhookPayload('{}', 2, 'secret'))
+      expect(signWebhookPayload('{}', 1, 'secret')).toMatch(/^[a-f0-9]{64}$/)
+    })
+
+    it('should send emails through the transport', async () => {
+      const send = vi.fn().mockResolvedValue(undefined)
+
+      await createEmailSink({ send }).deliver(notification, { type: 'email', to: 'alice@example.com' })
+
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({ to: 'alice@example.com', subject: 'Price alert: yes-1 crossed above 0.6' }))
+      expect(formatEmail({ from: 'a@x.io', to: 'b@x.io', subject: 'S', text: 'hi\n.dot' }, new Date(0)))
+        .toContain('\r\n\r\nhi\r\n..dot')
+    })
+
+    it('should give up on a server that stalls the STARTTLS handshake', async () => {
+      const server = createServer(socket => {
+        socket.write('220 ready\r\n')
+        socket.on('data', (line: Buffer) => {
+          if (line.toString().startsWith('EHLO')) socket.write('250-mail.test\r\n250 STARTTLS\r\n')
+          if (line.toString().startsWith('STARTTLS')) socket.write('220 go ahead\r\n') // and never handshake
+        })
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const { port } = server.address() as AddressInfo
+
+      const transport = createSmtpTransport({ host: '127.0.0.1', port, secure: false, timeoutMs: 200 })
+      await expect(transport.send({ from: 'a@x.io', to: 'b@x.io', subject: 'S', text: 'hi' })).rejects.toThrow('TLS handshake timed out')
+      await new Promise(resolve => server.close(resolve))
+    })
+
+    it('should not send credentials to a server without STARTTLS unless plaintext auth is allowed', async () => {
+      const received: string[] = []
+      const replies: Record<string, string> = { EHLO: '250 mail.test', AUTH: '235 ok', MAIL: '250 ok', RCPT: '250 ok', DATA: '354 go', QUIT: '221 bye' }
+      const server = createServer(socket => {
+        socket.write('220 ready\r\n')
+        socket.on('data', (chunk: Buffer) => {
+          const line = chunk.toString()
+          received.push(line.split(' ')[0].trim())
+          socket.write(`${line.endsWith('\r\n.\r\n') ? '250 queued' : replies[line.split(' ')[0].trim()]}\r\n`)
+        })
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const { port } = server.address() as AddressInfo
+      const message = { from: 'a@x.io', to: 'b@x.io', subject: 'S', text: 'hi' }
+
+      await expect(createSmtpTransport({ host: '127.0.0.1', port, secure: false, user: 'u', pass: 'p', timeoutMs: 500 }).send(message))
+        .rejects.toThrow('refusing to send credentials')
+      expect(received).toEqual(['EHLO'])
+
+      received.length = 0
+      await createSmtpTransport({ host: '127.0.0.1', port, secure: false, user: 'u', pass: 'p', allowPlaintextAuth: true, timeoutMs: 500 }).send(message)
+      expect(received.slice(0, 3)).toEqual(['EHLO', 'AUTH', 'MAIL'])
+      await new Promise(resolve => server.close(resolve))
+    })
+  })
+
+  describe('runAlerts', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(() => {
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+    })
+
+    it('should notify once and then hold off for the cooldown', async () => {
+      await client.saveAlert(alertWith({ type: 'price_cross', direction: 'above', threshold: 0.6 }))
+      const input = {
+        markets: [market],
+        prices: prices([['yes-1', '0.62']]),
+        previousPrices: new Map([['yes-1', '0.58']]),
+        books: new Map(),
+        nowMs: NOW
+      }
+
+      expect(await runAlerts(input)).toHaveLength(1)
+      expect(await runAlerts({ ...input, nowMs: NOW + 30000 })).toHaveLength(0)
+      await flushAlertDeliveries()
+
+      expect(await client.getNotifications('alice', 10)).toEqual([expect.objectContaining({ alertId: 'a1', value: 0.62 })])
+      expect((await client.getAlert('a1'))?.lastTriggeredAt).toBe(NOW)
+    })
+
+    it('should only record the trigger time of alerts that still exist', async () => {
+      const condition = { type: 'price_cross', direction: 'above', threshold: 0.6 } as const
+      await client.saveAlert(alertWith(condition))
+      await client.saveAlert(alertWith(condition, { id: 'a2' }))
+      // Evaluated from a copy read before a1 was deleted and a2 was edited
+      vi.spyOn(client, 'getAlerts').mockResolvedValueOnce(await client.getAlerts())
+      await client.deleteAlert('a1')
+      await client.saveAlert(alertWith(condition, { id: 'a2', sinks: [{ type: 'email', to: 'bob@example.com' }] }))
+
+      const notifications = await runAlerts({
+        markets: [market],
+        prices: prices([['yes-1', '0.62']]),
+        previousPrices: new Map([['yes-1', '0.58']]),
+        books: new Map(),
+        nowMs: NOW
+      })
+      await flushAlertDeliveries()
+
+      expect(notifications.map(notification => notification.alertId)).toEqual(['a2'])
+      expect(await client.getAlert('a1')).toBeNull()
+      expect(await client.getAlert('a2')).toMatchObject({ sinks: [{ type: 'email', to: 'bob@example.com' }], lastTriggeredAt: NOW })
+    })
+
+    it('should not wait for slow sinks', async () => {
+      let finish = () => {}
+      const deliver = vi.fn(() => new Promise<void>(resolve => { finish = resolve }))
+      registerAlertSink('in_app', { deliver })
+      await client.saveAlert(alertWith({ type: 'price_cross', direction: 'above', threshold: 0.6 }))
+
+      const notifications = await runAlerts({
+        markets: [market],
+        prices: prices([['yes-1', '0.62']]),
+        previousPrices: new Map([['yes-1', '0.58']]),
+        books: new Map(),
+        nowMs: NOW
+      })
+
+      expect(notifications).toHaveLength(1)
+      expect(deliver).toHaveBeenCalledTimes(1)
+      finish()
+      await flushAlertDeliveries()
+      registerAlertSink('in_app', inAppSink)
+    })
+  })
+
+  describe('API routes', () => {
+    beforeEach(() => {
+      memoryClient.current = new InMemoryRedisClient()
+    })
+
+    it('should create, list, update and delete alerts', async () => {
+      const created = await createAlertPOST(json('http://localhost/api/alerts', 'POST', {
+        owner: 'alice',
+        tokenId: 'yes-1',
+        condition: { type: 'price_move', pct: 5, windowMinutes: 60 }
+      }))
+      expect(created.status).toBe(201)
+      const { id, token, tokenHash } = await created.json()
+      expect(token).toMatch(/^[\w-]{32}$/)
+      expect(tokenHash).toBeUndefined()
+      const auth = { Authorization: `Bearer ${token}` }
+
+      const list = await (await listAlertsGET(new NextRequest('http://localhost/api/alerts?owner=alice'))).json()
+      expect(list.alerts.map((alert: Alert) => alert.id)).toEqual([id])
+      expect(JSON.stringify(list)).not.toContain(token)
+      expect(list.alerts[0]).not.toHaveProperty('tokenHash')
+
+      const patchedSinks = await alertPATCH(json(`http://localhost/api/alerts/${id}`, 'PATCH', {
+        sinks: [{ type: 'webhook', url: 'https://hooks.example.com/T000/secret-token' }, { type: 'email', to: 'alice@example.com' }]
+      }, auth), { params: { id } })
+      expect((await patchedSinks.json()).sinks).toEqual([
+        { type: 'webhook', url: 'https://hooks.example.com/***' },
+        { type: 'email', to: 'a***@example.com' }
+      ])
+      const stored = await (await listAlertsGET(new NextRequest('http://localhost/api/alerts?owner=alice'))).json()
+      expect(JSON.stringify(stored)).not.toContain('secret-token')
+      expect(redactAlert(alertWith({ type: 'spread_wide', bps: 300 })).sinks).toEqual([{ type: 'in_app' }])
+
+      const patched = await alertPATCH(json(`http://localhost/api/alerts/${id}`, 'PATCH', { active: false }, auth), { params: { id } })
+      expect(await patched.json()).toMatchObject({ id, active: false })
+
+      expect((await alertDELETE(new NextRequest(`http://localhost/api/alerts/${id}`, { headers: auth }), { params: { id } })).status).toBe(200)
+      expect((await alertGET(new NextRequest(`http://localhost/api/alerts/${id}`, { headers: auth }), { params: { id } })).status).toBe(404)
+    })
+
+    it('should refuse to read, change or delete an alert without its token', async () => {
+      const created = await createAlertPOST(json('http://localhost/api/alerts', 'POST', {
+        owner: 'alice',
+        tokenId: 'yes-1',
+        condition: { type: 'spread_wide', bps: 300 }
+      }))
+      const { id, token } = await created.json()
+      const other = await (await createAlertPOST(json('http://localhost/api/alerts', 'POST', {
+        owner: 'alice',
+        tokenId: 'yes-1',
+        condition: { type: 'spread_wide', bps: 300 }
+      }))).json()
+
+      const attempts: Array<Record<string, string>> = [{}, { Authorization: 'Bearer wrong' }, { Authorization: `Bearer ${other.token}` }, { Authorization: token }]
+      for (const headers of attempts) {
+        expect((await alertGET(new NextRequest(`http://localhost/api/alerts/${id}`, { headers }), { params: { id } })).status).toBe(403)
+        expect((await alertPATCH(json(`http://localhost/api/alerts/${id}`, 'PATCH', {
+          sinks: [{ type: 'email', to: 'mallory@example.com' }]
+        }, headers), { params: { id } })).status).toBe(403)
+        expect((await alertDELETE(new NextRequest(`http://localhost/api/alerts/${id}`, { headers }), { params: { id } })).status).toBe(403)
+      }
+
+      expect(await requireAlertStore().getAlert(id)).toMatchObject({ sinks: [{ type: 'in_app' }] })
+    })
+
+    it('should validate input and serve the notification feed', async () => {
+      const bad = await createAlertPOST(new NextRequest('http://localhost/api/alerts', { method: 'POST', body: 'not json' }))
+      expect(bad.status).toBe(400)
+      expect((await listAlertsGET(new NextRequest('http://localhost/api/alerts'))).status).toBe(400)
+
+      const feed = await notificationsGET(new NextRequest('http://localhost/api/alerts/notifications?owner=alice'))
+      expect(await feed.json()).toEqual({ owner: 'alice', notifications: [] })
+    })
+  })
+})
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as arbitrageGET } from '@/app/api/markets/arbitrage/route'
+import {
+  findBinaryArbitrage,
+  findCategoricalArbitrage,
+  scanArbitrage,
+  bestLevelSize,
+  executableSize,
+  rankOpportunities,
+  selectBookChecks
+} from '@/lib/arbitrage'
+import { InMemoryRedisClient, REDIS_KEYS } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { ArbitrageOpportunity, Market, MarketData, Orderbook, PriceData } from '@/lib/types'
+import { buildMarket, memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getMarkets: vi.fn(),
+    getMultiplePrices: vi.fn(),
+    getOrderbook: vi.fn()
+  }
+}))
+
+const nowSeconds = Math.floor(Date.now() / 1000)
+const noFee = { feePct: 0, minEdgePct: 0 }
+
+const market = (id: number, overrides: Partial<Market> = {}): Market => buildMarket(id, { cutoffAt: nowSeconds + 86400, ...overrides })
+
+const prices = (entries: Record<string, number>): Map<string, PriceData> =>
+  new Map(Object.entries(entries).map(([tokenId, price]) => [tokenId, { tokenId, price: String(price), timestamp: Date.now() }]))
+
+const book = (tokenId: string, bids: Array<[string, string]>, asks: Array<[string, string]>): Orderbook => ({
+  market: 'm',
+  tokenId,
+  timestamp: Date.now(),
+  bids: bids.map(([price, size]) => ({ price, size })),
+  asks: asks.map(([price, size]) => ({ price, size }))
+})
+
+const categorical = market(3, {
+  marketType: 1,
+  childMarkets: [
+    market(31, { title: 'Alpha' }),
+    market(32, { title: 'Beta' }),
+    market(33, { title: 'Gamma' }),
+    market(34, { title: 'Closed', cutoffAt: nowSeconds - 60 })
+  ]
+})
+
+describe('Arbitrage scanner', () => {
+  describe('Binary markets', () => {
+    it('should report YES + NO below 1 as a buy with the underpriced side', () => {
+      const opportunity = findBinaryArbitrage(market(1), prices({ 'yes-1': 0.4, 'no-1': 0.55 }), noFee)
+
+      expect(opportunity).toMatchObject({
+        kind: 'binary',
+        priceSum: 0.95,
+        grossEdgePct: 5,
+        strategy: 'BUY_ALL',
+        underpriced: 'YES_UNDERPRICED'
+      })
+    })
+
+    it('should deduct the fee on both legs and apply the minimum edge', () => {
+      const priceMap = prices({ 'yes-1': 0.6, 'no-1': 0.45 })
+
+      expect(findBinaryArbitrage(market(1), priceMap, { feePct: 1, minEdgePct: 0 })).toMatchObject({
+        strategy: 'SELL_ALL',
+        netEdgePct: 3
+      })
+      expect(findBinaryArbitrage(market(1), priceMap, { feePct: 1, minEdgePct: 3 })).toBeNull()
+      expect(findBinaryArbitrage(market(1), priceMap, { feePct: 3, minEdgePct: 0 })).toBeNull()
+    })
+
+    it('should skip fairly priced and unpriced markets', () => {
+      expect(findBinaryArbitrage(market(1), prices({ 'yes-1': 0.4, 'no-1': 0.6 }), noFee)).toBeNull()
+      expect(findBinaryArbitrage(market(1), prices({ 'yes-1': 0.4 }), noFee)).toBeNull()
+      const failedNo = new Map([...prices({ 'yes-1': 0.4 }), ['no-1', { tokenId: 'no-1', price: '0', timestamp: Date.now(), status: 'error' as const }]])
+      expect(findBinaryArbitrage(market(1), failedNo, noFee)).toBeNull()
+    })
+
+    it('should price a leg quoted at zero', () => {
+      expect(findBinaryArbitrage(market(1), prices({ 'yes-1': 0.4, 'no-1': 0 }), noFee)).toMatchObject({
+        priceSum: 0.4,
+        grossEdgePct: 60,
+        strategy: 'BUY_ALL'
+      })
+    })
+  })
+
+  describe('Categorical markets', () => {
+    it('should sum YES prices across open outcomes only', () => {
+      const opportunity = findCategoricalArbitrage(
+        categorical,
+        prices({ 'yes-31': 0.5, 'yes-32': 0.3, 'yes-33': 0.1, 'yes-34': 0.9 }),
+        { feePct: 1, minEdgePct: 0 },
+        nowSeconds
+      )
+
+      expect(opportunity?.legs.map(leg => leg.label)).toEqual(['Alpha', 'Beta', 'Gamma'])
+      expect(opportunity).toMatchObject({
+        kind: 'categorical',
+        priceSum: 0.9,
+        grossEdgePct: 10,
+        netEdgePct: 7,
+        strategy: 'BUY_ALL',
+        underpriced: 'YES_UNDERPRICED'
+      })
+    })
+
+    it('should skip markets with an unpriced outcome', () => {
+      expect(findCategoricalArbitrage(categorical, prices({ 'yes-31': 0.5, 'yes-32': 0.3 }), noFee, nowSeconds)).toBeNull()
+    })
+  })
+
+  it('should scan both kinds ordered by net edge', () => {
+    const opportunities = scanArbitrage(
+      [market(1), market(2), categorical],
+      prices({ 'yes-1': 0.5, 'no-1': 0.48, 'yes-2': 0.5, 'no-2': 0.5, 'yes-31': 0.5, 'yes-32': 0.4, 'yes-33': 0.3 }),
+      noFee,
+      nowSeconds
+    )
+
+    expect(opportunities.map(o => [o.marketId, o.kind])).toEqual([[3, 'categorical'], [1, 'binary']])
+  })
+
+  describe('Orderbook depth', () => {
+    it('should sum every order at the best level', () => {
+      const levels = book('t', [], [['0.5', '10'], ['0.5', '5'], ['0.6', '100']]).asks
+      expect(bestLevelSize(levels, 'ask')).toBe(15)
+      expect(bestLevelSize(levels, 'bid')).toBe(100)
+      expect(bestLevelSize([], 'ask')).toBe(0)
+    })
+
+    it('should limit executable size by the thinnest leg on the traded side', () => {
+      const buy = findBinaryArbitrage(market(1), prices({ 'yes-1': 0.4, 'no-1': 0.5 }), noFee)!
+      const books = new Map<string, Orderbook | null>([
+        ['yes-1', book('yes-1', [['0.39', '999']], [['0.4', '20']])],
+        ['no-1', book('no-1', [['0.49', '999']], [['0.5', '8']])]
+      ])
+
+      expect(executableSize(buy, books)).toBe(8)
+      expect(executableSize(buy, new Map([['yes-1', books.get('yes-1')!]]))).toBeNull()
+    })
+
+    it('should cap the orderbooks checked by leg count, not just by candidates', () => {
+      const opportunity = (marketId: number, legCount: number) =>
+        ({ marketId, legs: Array.from({ length: legCount }, (_, leg) => ({ tokenId: `${marketId}-${leg}` })) }) as ArbitrageOpportunity
+      const candidates = [opportunity(1, 2), opportunity(2, 30), opportunity(3, 2), opportunity(4, 2)]
+
+      expect(selectBookChecks(candidates, 10, 8).map(o => o.marketId)).toEqual([1, 3, 4])
+      expect(selectBookChecks(candidates, 2, 50).map(o => o.marketId)).toEqual([1, 2])
+    })
+
+    it('should rank by size with unchecked books last', () => {
+      const opportunity = (marketId: number, netEdgePct: number, size: number | null) =>
+        ({ marketId, netEdgePct, bestLevelSize: size }) as ArbitrageOpportunity
+      const ranked = [opportunity(1, 9, null), opportunity(2, 2, 50), opportunity(3, 5, 10)]
+
+      expect(rankOpportunities(ranked, 'size').map(o => o.marketId)).toEqual([2, 3, 1])
+      expect(rankOpportunities(ranked, 'edge').map(o => o.marketId)).toEqual([1, 3, 2])
+    })
+  })
+
+  describe('GET /api/markets/arbitrage', () => {
+    beforeEach(async () => {
+      cache.clear()
+      vi.mocked(opinionClient.getOrderbook).mockReset()
+
+      const client = new InMemoryRedisClient()
+      memoryClient.current = client
+
+      const stored: MarketData[] = [market(1), market(2)].map(m => ({ ...m, id: String(m.id), childMarkets: '[]' }))
+      await client.setMarketSnapshot(stored, prices({ 'yes-1': 0.4, 'no-1': 0.5, 'yes-2': 0.3, 'no-2': 0.65 }))
+      await client.indexMarkets(stored)
+      await client.set(REDIS_KEYS.LAST_SYNC, String(Date.now()))
+    })
+
+    it('should return opportunities with best-level size from the top candidates', async () => {
+      vi.mocked(opinionClient.getOrderbook).mockImplementation(async tokenId =>
+        book(tokenId, [], [['0.5', tokenId === 'yes-1' ? '12' : '30']]))
+
+      const response = await arbitrageGET(new NextRequest('http://localhost/api/markets/arbitrage?fee=1&books=1'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toMatchObject({ scanned: 2, feePct: 1, source: 'snapshot' })
+      expect(data.opportunities.map((o: ArbitrageOpportunity) => [o.marketId, o.netEdgePct, o.bestLevelSize]))
+        .toEqual([[1, 8, 12], [2, 3, null]])
+      expect(opinionClient.getOrderbook).toHaveBeenCalledTimes(2)
+    })
+
+    it('should keep scanning when an orderbook fetch fails', async () => {
+      vi.mocked(opinionClient.getOrderbook).mockRejectedValue(new Error('timeout'))
+
+      const response = await arbitrageGET(new NextRequest('http://localhost/api/markets/arbitrage?sort=size'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.opportunities.every((o: ArbitrageOpportunity) => o.bestLevelSize === null)).toBe(true)
+    })
+
+    it('should return 400 for invalid parameters', async () => {
+      expect((await arbitrageGET(new NextRequest('http://localhost/api/markets/arbitrage?fee=50'))).status).toBe(400)
+      expect((await arbitrageGET(new NextRequest('http://localhost/api/markets/arbitrage?sort=random'))).status).toBe(400)
+    })
+  })
+})
+
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST as backtestPOST } from '@/app/api/backtest/route'
+import { findEntry, maxExposure, parseBacktestConfig, runBacktest, settleTrade, slippageBpsAt } from '@/lib/backtest'
+import { APIError } from '@/lib/errorHandler'
+import { InMemoryRedisClient } from '@/lib/redis'
+import { BacktestConfig, BacktestReport, BacktestTrade, ResolvedMarket, ResolvedPricePath } from '@/lib/types'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+const CUTOFF = 1_700_000_000
+const HOUR = 3600
+
+const resolved = (id: number, won: boolean, extra: Partial<ResolvedMarket> = {}): ResolvedMarket => ({
+  id,
+  title: `Market ${id}`,
+  marketType: 0,
+  status: 'resolved',
+  cutoffAt: CUTOFF,
+  resolvedAt: CUTOFF + HOUR,
+  winningTokenId: won ? `yes-${id}` : `no-${id}`,
+  winningOutcome: won ? 'YES' : 'NO',
+  volume24h: '1000',
+  outcomes: [
+    { marketId: id, label: 'YES', tokenId: `yes-${id}`, finalPrice: null, won },
+    { marketId: id, label: 'NO', tokenId: `no-${id}`, finalPrice: null, won: !won }
+  ],
+  archivedAt: (CUTOFF + HOUR) * 1000,
+  ...extra
+})
+
+// Hourly YES path ending an hour before cutoff
+const yesPath = (id: number, prices: number[]): ResolvedPricePath => ({
+  [`yes-${id}`]: prices.map((p, i) => ({ t: CUTOFF - (prices.length - i) * HOUR, p: String(p) }))
+})
+
+const momentum = (extra: Partial<BacktestConfig> = {}): BacktestConfig => parseBacktestConfig({
+  rule: { type: 'momentum', lookbackHours: 2, minMovePp: 10 },
+  feePct: 0,
+  slippage: { model: 'fixed', bps: 0 },
+  ...extra
+})
+
+describe('Backtesting', () => {
+  it('should validate configs and fill in defaults', () => {
+    expect(parseBacktestConfig({ rule: { type: 'arbitrage' }, feePct: 2 })).toEqual({
+      rule: { type: 'arbitrage', minEdgePct: 2 },
+      stakeUsd: 100,
+      feePct: 2,
+      slippage: { model: 'fixed', bps: 50 },
+      from: undefined,
+      to: undefined
+    })
+    expect(momentum().rule).toEqual({ type: 'momentum', lookbackHours: 2, minMovePp: 10, direction: 'up' })
+
+    const badBodies = [
+      null,
+      { rule: { type: 'martingale' } },
+      { rule: { type: 'fade', lookbackHours: 6, minMovePp: 10 } },
+      { rule: { type: 'arbitrage' }, slippage: { model: 'vwap' } },
+      { rule: { type: 'arbitrage' }, from: 200, to: 100 }
+    ]
+    badBodies.forEach(body => {
+      expect(() => parseBacktestConfig(body)).toThrow(APIError)
+    })
+  })
+
+  it('should enter on the first move that clears the threshold', () => {
+    const path = yesPath(1, [0.4, 0.42, 0.48, 0.55, 0.7])
+    const config = momentum()
+
+    expect(findEntry(config.rule, resolved(1, true), path)).toEqual({
+      side: 'YES',
+      t: CUTOFF - 2 * HOUR,
+      price: 0.55,
+      signal: 'YES up 13pp in 2h'
+    })
+    expect(findEntry({ type: 'momentum', lookbackHours: 2, minMovePp: 10, direction: 'down' }, resolved(1, true), path)).toBeNull()
+    // Points after cutoff are never traded
+    expect(findEntry(config.rule, resolved(1, true, { cutoffAt: CUTOFF - 3 * HOUR }), path)).toBeNull()
+  })
+
+  it('should buy the underpriced side and fade late moves', () => {
+    const path: ResolvedPricePath = {
+      'yes-1': [{ t: CUTOFF - 30 * HOUR, p: '0.5' }, { t: CUTOFF - 10 * HOUR, p: '0.45' }, { t: CUTOFF - 5 * HOUR, p: '0.65' }],
+      'no-1': [{ t: CUTOFF - 30 * HOUR, p: '0.5' }, { t: CUTOFF - 10 * HOUR, p: '0.45' }]
+    }
+
+    expect(findEntry({ type: 'arbitrage', minEdgePct: 5 }, resolved(1, true), path)).toMatchObject({
+      side: 'YES',
+      t: CUTOFF - 10 * HOUR,
+      price: 0.45,
+      signal: 'YES + NO off by -10%'
+    })
+    expect(findEntry({ type: 'fade', lookbackHours: 6, minMovePp: 10, withinHours: 6 }, resolved(1, true), path)).toMatchObject({
+      side: 'NO',
+      t: CUTOFF - 5 * HOUR,
+      price: 0.45 // NO path is stale-but-latest at entry
+    })
+    expect(findEntry({ type: 'fade', lookbackHours: 6, minMovePp: 10, withinHours: 4 }, resolved(1, true), path)).toBeNull()
+  })
+
+  it('should charge fixed or book slippage and settle at the outcome', () => {
+    const books = [{ t: CUTOFF - 2 * HOUR, bestBid: 0.49, bestAsk: 0.51, spreadBps: 400, slippageBps: 30 }]
+
+    expect(slippageBpsAt({ model: 'fixed', bps: 25 }, books, CUTOFF)).toBe(25)
+    expect(slippageBpsAt({ model: 'book', fallbackBps: 75 }, books, CUTOFF - HOUR)).toBe(230)
+    expect(slippageBpsAt({ model: 'book', fallbackBps: 75 }, books, CUTOFF)).toBe(75) // snapshot too old
+
+    const config = parseBacktestConfig({ rule: { type: 'arbitrage' }, stakeUsd: 100, feePct: 1 })
+    const entry = { side: 'YES' as const, t: CUTOFF - HOUR, price: 0.5, signal: 'test' }
+    const won = settleTrade(resolved(1, true), entry, config, 200)
+    const lost = settleTrade(resolved(1, false), entry, config, 200)
+
+    expect(won).toMatchObject({ fillPrice: 0.51, fee: 1, shares: 194.1176, payout: 194.12, pnl: 94.12, won: true })
+    expect(lost).toMatchObject({ payout: 0, pnl: -100, won: false })
+
+    // A NO entry is filled against the NO book
+    const fallingYes = new Map([[5, yesPath(5, [0.7, 0.65, 0.5])]])
+    const outcomeBooks = new Map([
+      ['yes-5', [{ t: CUTOFF - HOUR, bestBid: 0.49, bestAsk: 0.51, spreadBps: 400, slippageBps: 0 }]],
+      ['no-5', [{ t: CUTOFF - HOUR, bestBid: 0.495, bestAsk: 0.505, spreadBps: 100, slippageBps: 10 }]]
+    ])
+    const report = runBacktest([resolved(5, false)], fallingYes, outcomeBooks, parseBacktestConfig({
+      rule: { type: 'momentum', lookbackHours: 2, minMovePp: 10, direction: 'down' },
+      feePct: 0,
+      slippage: { model: 'book', fallbackBps: 0 }
+    }))
+    expect(report.tradeLog.map(trade => [trade.side, trade.slippageBps])).toEqual([['NO', 60]])
+  })
+
+  it('should report PnL, hit rate and peak exposure over the archive', () => {
+    const markets = [
+      resolved(1, true),
+      resolved(2, false, { resolvedAt: CUTOFF + 10 * HOUR }),
+      resolved(3, true, { status: 'failed', winningTokenId: null }),
+      resolved(4, true, { marketType: 1 })
+    ]
+    const paths = new Map([1, 2, 3, 4].map(id => [id, yesPath(id, [0.3, 0.35, 0.5])]))
+    const report = runBacktest(markets, paths, new Map(), momentum(), 123)
+
+    expect(report).toMatchObject({
+      marketsTested: 2,
+      trades: 2,
+      wins: 1,
+      hitRate: 0.5,
+      totalStaked: 200,
+      totalFees: 0,
+      pnl: 0, // 200 shares at 0.5 each: one position pays 200, the other nothing
+      roiPct: 0,
+      maxExposure: 200,
+      avgHoldingHours: 6.5,
+      generatedAt: 123
+    })
+    expect(report.tradeLog.map(trade => [trade.marketId, trade.side, trade.won])).toEqual([[1, 'YES', true], [2, 'YES', false]])
+
+    const trade = (entryTime: number, exitTime: number) => ({ entryTime, exitTime, stake: 100 }) as BacktestTrade
+    expect(maxExposure([trade(0, 10), trade(10, 20), trade(15, 30)])).toBe(200)
+  })
+
+  describe('API route', () => {
+    const post = (body: unknown) => backtestPOST(new NextRequest('http://localhost/api/backtest', {
+      method: 'POST',
+      body: JSON.stringify(body)
+    }))
+
+    beforeEach(async () => {
+      const client = new InMemoryRedisClient()
+      memoryClient.current = client
+      await client.saveResolvedMarket(resolved(1, true), yesPath(1, [0.3, 0.35, 0.5]))
+      await client.saveResolvedMarket(resolved(2, false, { resolvedAt: CUTOFF + 10 * HOUR }), yesPath(2, [0.3, 0.35, 0.5]))
+      await client.appendBookSnapshots(new Map([
+        ['yes-1', { t: CUTOFF - HOUR, bestBid: 0.49, bestAsk: 0.51, spreadBps: 400, slippageBps: 0 }]
+      ]), 86400)
+    })
+
+    it('should run a backtest over the stored archive and orderbook history', async () => {
+      const body = { rule: { type: 'momentum', lookbackHours: 2, minMovePp: 10 }, feePct: 0, slippage: { model: 'book', fallbackBps: 0 } }
+      const report: BacktestReport = await (await post(body)).json()
+
+      expect(report.trades).toBe(2)
+      expect(report.tradeLog.map(trade => [trade.marketId, trade.slippageBps])).toEqual([[1, 200], [2, 0]])
+
+      const windowed: BacktestReport = await (await post({ ...body, to: CUTOFF + HOUR })).json()
+      expect(windowed.marketsTested).toBe(1)
+
+      expect((await post({ rule: { type: 'momentum' } })).status).toBe(400)
+      memoryClient.current = null
+      expect((await post(body)).status).toBe(503)
+    })
+  })
+})
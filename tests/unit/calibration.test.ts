@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as calibrationGET } from '@/app/api/analytics/calibration/route'
+import { collectForecasts, computeCalibration, forecastAt, reliabilityBuckets, scoreForecasts } from '@/lib/calibration'
+import { InMemoryRedisClient } from '@/lib/redis'
+import cache from '@/lib/cache'
+import { CalibrationResponse, ResolvedMarket, ResolvedPricePath } from '@/lib/types'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+const CUTOFF = 1_700_000_000
+const DAY = 86400
+
+const resolved = (id: number, won: boolean, volume24h: string = '500', extra: Partial<ResolvedMarket> = {}): ResolvedMarket => ({
+  id,
+  title: `Market ${id}`,
+  marketType: 0,
+  status: 'resolved',
+  cutoffAt: CUTOFF,
+  resolvedAt: CUTOFF + 3600,
+  winningTokenId: won ? `yes-${id}` : `no-${id}`,
+  winningOutcome: won ? 'YES' : 'NO',
+  volume24h,
+  outcomes: [
+    { marketId: id, label: 'YES', tokenId: `yes-${id}`, finalPrice: null, won },
+    { marketId: id, label: 'NO', tokenId: `no-${id}`, finalPrice: null, won: !won }
+  ],
+  archivedAt: (CUTOFF + 3600) * 1000,
+  ...extra
+})
+
+// YES price 7 days and 1 day before cutoff
+const path = (id: number, weekBefore: string, dayBefore: string): ResolvedPricePath => ({
+  [`yes-${id}`]: [{ t: CUTOFF - 7 * DAY, p: weekBefore }, { t: CUTOFF - DAY, p: dayBefore }],
+  [`no-${id}`]: [{ t: CUTOFF - DAY, p: String(1 - parseFloat(dayBefore)) }]
+})
+
+describe('Calibration', () => {
+  it('should only use prices close enough to the horizon', () => {
+    const points = [{ t: 100, p: '0.4' }, { t: 200, p: '0.6' }]
+
+    expect(forecastAt(points, 150)).toBe(0.4)
+    expect(forecastAt(points, 50)).toBeNull()
+    expect(forecastAt(points, 200 + DAY + 1)).toBeNull()
+  })
+
+  it('should score forecasts with Brier and log loss', () => {
+    const forecast = (probability: number, won: boolean) => ({ marketId: 1, tokenId: 'yes-1', probability, won, volume: 0 })
+
+    expect(scoreForecasts([forecast(0.8, true), forecast(0.3, false)])).toEqual({
+      count: 2,
+      brier: 0.065, // (0.04 + 0.09) / 2
+      logLoss: Number(((-Math.log(0.8) - Math.log(0.7)) / 2).toFixed(4))
+    })
+    expect(scoreForecasts([forecast(1, false)]).logLoss).toBeCloseTo(-Math.log(0.001), 3)
+    expect(scoreForecasts([])).toEqual({ count: 0, brier: null, logLoss: null })
+  })
+
+  it('should bucket forecasts by price decile', () => {
+    const forecasts = [0.05, 0.72, 0.78, 1].map((probability, i) => ({ marketId: i, tokenId: `t${i}`, probability, won: i !== 1, volume: 0 }))
+    const buckets = reliabilityBuckets(forecasts)
+
+    expect(buckets).toHaveLength(10)
+    expect(buckets[0]).toMatchObject({ lower: 0, upper: 0.1, count: 1, meanForecast: 0.05, observedFrequency: 1 })
+    expect(buckets[7]).toMatchObject({ count: 2, meanForecast: 0.75, observedFrequency: 0.5 })
+    expect(buckets[9]).toMatchObject({ count: 1, meanForecast: 1 })
+    expect(buckets[5]).toMatchObject({ count: 0, meanForecast: null, observedFrequency: null })
+  })
+
+  it('should take YES forecasts from binary markets and every outcome of categorical ones', () => {
+    const categorical = resolved(3, true, '500', {
+      marketType: 1,
+      winningTokenId: 'yes-31',
+      outcomes: [
+        { marketId: 31, label: 'A', tokenId: 'yes-31', finalPrice: null, won: true },
+        { marketId: 32, label: 'B', tokenId: 'yes-32', finalPrice: null, won: false }
+      ]
+    })
+    const paths = new Map<number, ResolvedPricePath>([
+      [1, path(1, '0.6', '0.9')],
+      [3, { 'yes-31': [{ t: CUTOFF - DAY, p: '0.7' }], 'yes-32': [{ t: CUTOFF - DAY, p: '0.3' }] }]
+    ])
+    const failed = resolved(4, false, '500', { status: 'failed', winningTokenId: null })
+
+    expect(collectForecasts([resolved(1, true), categorical, failed], paths, DAY).map(f => [f.tokenId, f.probability, f.won])).toEqual([
+      ['yes-1', 0.9, true],
+      ['yes-31', 0.7, true],
+      ['yes-32', 0.3, false]
+    ])
+    expect(collectForecasts([resolved(1, true), categorical], paths, 7 * DAY).map(f => f.tokenId)).toEqual(['yes-1'])
+  })
+
+  it('should break scores down by horizon and volume tier', () => {
+    const markets = [resolved(1, true, '500'), resolved(2, false, '50000')]
+    const paths = new Map([[1, path(1, '0.5', '0.9')], [2, path(2, '0.5', '0.2')]])
+    const calibration = computeCalibration(markets, paths, 123)
+
+    expect(calibration.markets).toBe(2)
+    expect(calibration.horizons.map(h => [h.horizon, h.count, h.brier])).toEqual([['1d', 2, 0.025], ['7d', 2, 0.25], ['30d', 0, null]])
+    expect(calibration.horizons[0].tiers.map(t => [t.tier, t.count, t.brier])).toEqual([
+      ['<$1k', 1, 0.01],
+      ['$1k-10k', 0, null],
+      ['$10k-100k', 1, 0.04],
+      ['$100k+', 0, null]
+    ])
+  })
+
+  describe('API route', () => {
+    beforeEach(async () => {
+      cache.clear()
+      const client = new InMemoryRedisClient()
+      memoryClient.current = client
+      await client.saveResolvedMarket(resolved(1, true), path(1, '0.5', '0.9'))
+      await client.saveResolvedMarket(resolved(2, false, '500', { marketType: 1, outcomes: [] }), {})
+    })
+
+    it('should compute calibration over the archive with filters', async () => {
+      const get = (query: string) => calibrationGET(new NextRequest(`http://localhost/api/analytics/calibration?${query}`))
+      const all: CalibrationResponse = await (await get('')).json()
+      const categorical: CalibrationResponse = await (await get('type=1')).json()
+
+      expect(all.markets).toBe(2)
+      expect(all.horizons[0]).toMatchObject({ horizon: '1d', count: 1, brier: 0.01 })
+      expect(categorical.horizons[0].count).toBe(0)
+      expect((await get('type=5')).status).toBe(400)
+
+      memoryClient.current = null
+      cache.clear()
+      expect((await get('')).status).toBe(503)
+    })
+  })
+})
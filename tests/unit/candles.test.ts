@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as candlesGET } from '@/app/api/charts/candles/route'
+import { buildCandles, planCandleSources } from '@/lib/candles'
+import { InMemoryRedisClient, SeriesTier } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getPriceHistory: vi.fn()
+  }
+}))
+
+const tiers: SeriesTier[] = [
+  { resolution: 'raw', bucketSeconds: 0, retentionSeconds: 86400 },
+  { resolution: '5m', bucketSeconds: 300, retentionSeconds: 7 * 86400 },
+  { resolution: '1h', bucketSeconds: 3600, retentionSeconds: 90 * 86400 }
+]
+
+const describeSource = (source: ReturnType<typeof planCandleSources>[number]) =>
+  source.kind === 'series' ? source.tier.resolution : `upstream:${source.interval}`
+
+describe('Candles', () => {
+  describe('buildCandles', () => {
+    const base = 1_700_000_400 // aligned to 5m
+
+    it('should aggregate open, high, low, close and count per bucket', () => {
+      const candles = buildCandles([
+        { t: base + 60, p: '0.52' },
+        { t: base, p: '0.50' },
+        { t: base + 120, p: '0.48' },
+        { t: base + 300, p: '0.55' }
+      ], '5m')
+
+      expect(candles).toEqual([
+        { t: base, o: 0.5, h: 0.52, l: 0.48, c: 0.48, n: 3 },
+        { t: base + 300, o: 0.55, h: 0.55, l: 0.55, c: 0.55, n: 1 }
+      ])
+    })
+
+    it('should forward-fill or skip empty buckets', () => {
+      const points = [{ t: base, p: '0.5' }, { t: base + 900, p: '0.6' }]
+
+      expect(buildCandles(points, '5m', { gap: 'skip' }).map(c => c.t)).toEqual([base, base + 900])
+      expect(buildCandles(points, '5m', { gap: 'ffill' })).toEqual([
+        { t: base, o: 0.5, h: 0.5, l: 0.5, c: 0.5, n: 1 },
+        { t: base + 300, o: 0.5, h: 0.5, l: 0.5, c: 0.5, n: 0 },
+        { t: base + 600, o: 0.5, h: 0.5, l: 0.5, c: 0.5, n: 0 },
+        { t: base + 900, o: 0.6, h: 0.6, l: 0.6, c: 0.6, n: 1 }
+      ])
+    })
+
+    it('should drop points outside the range or with invalid prices', () => {
+      const candles = buildCandles([
+        { t: base - 60, p: '0.1' },
+        { t: base, p: '1.5' },
+        { t: base + 30, p: '0.4' }
+      ], '1m', { from: base })
+
+      expect(candles).toEqual([{ t: base, o: 0.4, h: 0.4, l: 0.4, c: 0.4, n: 1 }])
+    })
+  })
+
+  describe('planCandleSources', () => {
+    const now = 1_700_000_000
+
+    it('should prefer the finest synced tier that covers the range', () => {
+      expect(planCandleSources('1m', now - 3600, tiers, now).map(describeSource)).toEqual(['raw'])
+      expect(planCandleSources('15m', now - 3 * 86400, tiers, now).map(describeSource)).toEqual(['5m'])
+      expect(planCandleSources('1h', now - 3600, tiers, now).map(describeSource))
+        .toEqual(['raw', '5m', '1h', 'upstream:1h'])
+    })
+
+    it('should fall back to upstream history beyond series retention', () => {
+      expect(planCandleSources('1d', now - 365 * 86400, tiers, now).map(describeSource))
+        .toEqual(['upstream:1h', 'upstream:1d'])
+      expect(planCandleSources('5m', now - 30 * 86400, tiers, now)).toEqual([])
+    })
+  })
+
+  describe('GET /api/charts/candles', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(() => {
+      cache.clear()
+      vi.mocked(opinionClient.getPriceHistory).mockReset()
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+    })
+
+    it('should build candles from the synced series without calling upstream', async () => {
+      const now = Math.floor(Date.now() / 1000)
+      const start = Math.floor((now - 1800) / 300) * 300
+      await client.appendPriceSeries([{ tokenId: 'tok', price: '0.4', timestamp: 0 }], start, tiers)
+      await client.appendPriceSeries([{ tokenId: 'tok', price: '0.6', timestamp: 0 }], start + 30, tiers)
+
+      const response = await candlesGET(new NextRequest(`http://localhost/api/charts/candles?tokenId=tok&resolution=5m&from=${now - 3600}`))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toMatchObject({ source: 'snapshot', sourceResolution: 'raw', gap: 'skip' })
+      expect(data.candles[0]).toEqual({ t: start, o: 0.4, h: 0.6, l: 0.4, c: 0.6, n: 2 })
+      expect(opinionClient.getPriceHistory).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to upstream history when no series data exists', async () => {
+      const now = Math.floor(Date.now() / 1000)
+      const hour = Math.floor(now / 3600) * 3600 - 7200
+      vi.mocked(opinionClient.getPriceHistory).mockResolvedValue([
+        { t: hour, p: '0.3' },
+        { t: hour + 3600, p: '0.35' }
+      ])
+
+      const response = await candlesGET(new NextRequest('http://localhost/api/charts/candles?tokenId=tok&resolution=4h'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toMatchObject({ source: 'upstream', sourceResolution: '1h' })
+      expect(opinionClient.getPriceHistory).toHaveBeenCalledWith('tok', '1h')
+    })
+
+    it('should return 404 without data and 400 for invalid parameters', async () => {
+      vi.mocked(opinionClient.getPriceHistory).mockResolvedValue([])
+
+      expect((await candlesGET(new NextRequest('http://localhost/api/charts/candles?tokenId=tok'))).status).toBe(404)
+      expect((await candlesGET(new NextRequest('http://localhost/api/charts/candles?tokenId=tok&resolution=2m'))).status).toBe(400)
+      expect((await candlesGET(new NextRequest('http://localhost/api/charts/candles?tokenId=tok&gap=zero'))).status).toBe(400)
+      expect((await candlesGET(new NextRequest('http://localhost/api/charts/candles?tokenId=tok&resolution=1m&from=0'))).status).toBe(400)
+    })
+  })
+})
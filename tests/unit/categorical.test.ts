@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as categoricalGET } from '@/app/api/markets/categorical/route'
+import { GET as marketCategoricalGET } from '@/app/api/markets/[id]/categorical/route'
+import { analyzeCategorical, normalizePrices, priceAt } from '@/lib/categorical'
+import { InMemoryRedisClient, REDIS_KEYS } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { Market, MarketData, PriceData } from '@/lib/types'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getMarkets: vi.fn(),
+    getMarketDetail: vi.fn(),
+    getMultiplePrices: vi.fn(),
+    fetchPriceHistory: vi.fn()
+  }
+}))
+
+const NOW = 1_700_000_000
+
+const child = (id: number, cutoffAt: number = NOW + 86400): Market => ({
+  id,
+  title: `Outcome ${id}`,
+  yesTokenId: `yes-${id}`,
+  noTokenId: `no-${id}`,
+  cutoffAt,
+  status: 'activated',
+  volume24h: '10',
+  marketType: 0
+})
+
+const parent = (id: number, children: Market[]): Market => ({
+  id,
+  title: `Parent ${id}`,
+  yesTokenId: '',
+  noTokenId: '',
+  cutoffAt: NOW + 86400,
+  status: 'activated',
+  volume24h: '1000',
+  marketType: 1,
+  childMarkets: children
+})
+
+const prices = (entries: Array<[string, string]>, timestamp: number = NOW * 1000): Map<string, PriceData> =>
+  new Map(entries.map(([tokenId, price]) => [tokenId, { tokenId, price, timestamp }]))
+
+describe('Categorical analytics', () => {
+  it('should normalize YES prices and report overround, entropy and favourite margin', () => {
+    const market = parent(10, [child(1), child(2), child(3)])
+    const analytics = analyzeCategorical(market, prices([['yes-1', '0.6'], ['yes-2', '0.3'], ['yes-3', '0.2']]), new Map(), NOW)
+
+    expect(analytics).not.toBeNull()
+    expect(analytics!.outcomes.map(outcome => [outcome.marketId, outcome.probability])).toEqual([
+      [1, 0.5455],
+      [2, 0.2727],
+      [3, 0.1818]
+    ])
+    expect(analytics!.priceSum).toBe(1.1)
+    expect(analytics!.overroundPct).toBe(10)
+    expect(analytics!.favouriteMarginPct).toBe(27.27)
+    expect(analytics!.entropy).toBe(1.4354)
+    expect(analytics!.normalizedEntropy).toBe(0.9056)
+    expect(analytics!.shift1h).toBeNull()
+  })
+
+  it('should leave unpriced and closed outcomes out of the distribution', () => {
+    const market = parent(10, [child(1), child(2), child(3), child(4, NOW - 60)])
+    const analytics = analyzeCategorical(market, prices([['yes-1', '0.45'], ['yes-2', '0.45'], ['yes-4', '0.9']]), new Map(), NOW)!
+
+    expect(analytics.outcomes.map(outcome => outcome.marketId)).toEqual([1, 2, 3])
+    expect(analytics.outcomes[2]).toMatchObject({ probability: null, yesPrice: null })
+    expect(analytics.priced).toBe(2)
+    expect(analytics.overroundPct).toBe(-10)
+    expect(analytics.normalizedEntropy).toBe(1)
+    expect(analyzeCategorical(child(5), new Map(), new Map(), NOW)).toBeNull()
+  })
+
+  it('should measure how the distribution moved over 1h and 24h', () => {
+    const market = parent(10, [child(1), child(2)])
+    const history = new Map([
+      ['yes-1', [{ t: NOW - 90_000, p: '0.2' }, { t: NOW - 7200, p: '0.4' }, { t: NOW - 1800, p: '0.55' }]],
+      ['yes-2', [{ t: NOW - 90_000, p: '0.8' }, { t: NOW - 7200, p: '0.6' }]]
+    ])
+    const analytics = analyzeCategorical(market, prices([['yes-1', '0.6'], ['yes-2', '0.4']]), history, NOW)!
+
+    expect(analytics.outcomes[0]).toMatchObject({ marketId: 1, shift1h: 20, shift24h: 40 })
+    expect(analytics.outcomes[1]).toMatchObject({ marketId: 2, shift1h: -20, shift24h: -40 })
+    expect(analytics.shift1h).toBe(20)
+    expect(analytics.shift24h).toBe(40)
+  })
+
+  it('should read the last price at or before a time', () => {
+    const points = [{ t: 200, p: '0.7' }, { t: 100, p: '0.5' }]
+
+    expect(priceAt(points, 50)).toBeNull()
+    expect(priceAt(points, 150)).toBe(0.5)
+    expect(priceAt(points, 300)).toBe(0.7)
+    expect(normalizePrices([0, null, 0])).toEqual([null, null, null])
+  })
+
+  describe('API routes', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(async () => {
+      cache.clear()
+      vi.mocked(opinionClient.getMarketDetail).mockReset()
+      vi.mocked(opinionClient.getMultiplePrices).mockReset()
+      vi.mocked(opinionClient.fetchPriceHistory).mockReset()
+
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+
+      const now = Math.floor(Date.now() / 1000)
+      const toStored = (market: Market): MarketData => ({
+        ...market,
+        id: String(market.id),
+        childMarkets: JSON.stringify(market.childMarkets || [])
+      })
+      const stored = [
+        parent(10, [child(1, now + 86400), child(2, now + 86400)]),
+        { ...parent(20, [child(3, now + 86400), child(4, now + 86400)]), volume24h: '50' },
+        child(5, now + 86400)
+      ].map(market => toStored({ ...market, cutoffAt: now + 86400 }))
+
+      await client.setMarketSnapshot(stored, prices([['yes-1', '0.7'], ['yes-2', '0.3'], ['yes-3', '0.5'], ['yes-5', '0.5']], Date.now()))
+      await client.indexMarkets(stored)
+      await client.set(REDIS_KEYS.LAST_SYNC, String(Date.now()))
+      await client.appendPriceSeries([...prices([['yes-1', '0.5'], ['yes-2', '0.5']]).values()], now - 7200)
+    })
+
+    it('should list categorical parents with shifts from synced series', async () => {
+      const response = await categoricalGET(new NextRequest('http://localhost/api/markets/categorical'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.source).toBe('snapshot')
+      expect(data.markets.map((market: { marketId: number }) => market.marketId)).toEqual([10, 20])
+      expect(data.markets[0].outcomes[0]).toMatchObject({ marketId: 1, probability: 0.7, shift1h: 20, shift24h: null })
+      expect(data.markets[1]).toMatchObject({ priced: 1, favouriteMarginPct: null })
+      expect(opinionClient.fetchPriceHistory).not.toHaveBeenCalled()
+    })
+
+    it('should filter by ids and validate them', async () => {
+      const data = await (await categoricalGET(new NextRequest('http://localhost/api/markets/categorical?ids=20,5'))).json()
+
+      expect(data.markets.map((market: { marketId: number }) => market.marketId)).toEqual([20])
+      expect((await categoricalGET(new NextRequest('http://localhost/api/markets/categorical?ids=1,abc'))).status).toBe(400)
+    })
+
+    it('should fill missing prices and history live for a single parent', async () => {
+      vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(prices([['yes-4', '0.25']]))
+      vi.mocked(opinionClient.fetchPriceHistory).mockResolvedValue([])
+
+      const response = await marketCategoricalGET(new NextRequest('http://localhost/api/markets/20/categorical'), { params: { id: '20' } })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.outcomes.map((outcome: { marketId: number; probability: number }) => [outcome.marketId, outcome.probability])).toEqual([
+        [3, 0.6667],
+        [4, 0.3333]
+      ])
+      expect(opinionClient.getMultiplePrices).toHaveBeenCalledWith(['yes-4'])
+      expect(vi.mocked(opinionClient.fetchPriceHistory).mock.calls.map(([tokenId]) => tokenId).sort()).toEqual(['yes-3', 'yes-4'])
+    })
+
+    it('should reject binary and unknown markets', async () => {
+      const get = (id: string) => marketCategoricalGET(new NextRequest(`http://localhost/api/markets/${id}/categorical`), { params: { id } })
+
+      expect((await get('5')).status).toBe(400)
+      expect((await get('99')).status).toBe(404)
+      expect((await get('abc')).status).toBe(400)
+    })
+  })
+})
+
@@ -6,6 +6,9 @@ import { GET as priceHistoryGET } from '@/app/api/charts/price-history/route'
 import { opinionClient } from '@/lib/opinionClient'
 import cache from '@/lib/cache'
 import { InputValidator, APIError, ErrorType } from '@/lib/errorHandler'
+import { Market, MarketPage } from '@/lib/types'
+
+const page = (markets: Partial<Market>[]): MarketPage => ({ markets: markets as Market[], total: markets.length, failed: false })
 
 /**
  * Unit tests for edge cases
@@ -36,7 +39,7 @@ describe('Edge Cases Unit Tests', () => {
   describe('Empty Data Response Handling', () => {
     it('should handle empty markets array gracefully', async () => {
       // Mock empty markets response
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([])
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([]))
 
       const request = new NextRequest('http://localhost/api/markets/movers?timeframe=1h')
       const response = await moversGET(request)
@@ -47,8 +50,8 @@ describe('Edge Cases Unit Tests', () => {
     })
 
     it('should handle null/undefined markets response', async () => {
-      // Mock null response - endpoint should degrade gracefully and return empty array
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue(null as any)
+      // Mock a failed upstream page - endpoint should degrade gracefully and return empty array
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [], total: 0, failed: true })
 
       const request = new NextRequest('http://localhost/api/markets/movers?timeframe=1h')
       const response = await moversGET(request)
@@ -60,7 +63,7 @@ describe('Edge Cases Unit Tests', () => {
 
     it('should handle empty price history arrays', async () => {
       // Mock markets but empty price history
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([{
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([{
         id: 1,
         title: 'Test Market',
         yesTokenId: 'yes-1',
@@ -68,7 +71,7 @@ describe('Edge Cases Unit Tests', () => {
         cutoffAt: Date.now() / 1000 + 3600,
         status: 'activated',
         volume24h: '1000'
-      }])
+      }]))
 
       vi.mocked(opinionClient.getLatestPrice).mockResolvedValue({
         tokenId: 'test',
@@ -87,7 +90,7 @@ describe('Edge Cases Unit Tests', () => {
     })
 
     it('should handle missing price data fields', async () => {
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([{
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([{
         id: 1,
         title: 'Test Market',
         yesTokenId: 'yes-1',
@@ -95,7 +98,7 @@ describe('Edge Cases Unit Tests', () => {
         cutoffAt: Date.now() / 1000 + 3600,
         status: 'activated',
         volume24h: '1000'
-      }])
+      }]))
 
       // Mock price response with missing fields
       vi.mocked(opinionClient.getLatestPrice).mockResolvedValue({
@@ -126,7 +129,7 @@ describe('Edge Cases Unit Tests', () => {
 
     it('should handle malformed market data', async () => {
       // Mock markets with missing required fields
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([{
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([{
         id: null as any,
         title: '',
         yesTokenId: '',
@@ -134,7 +137,7 @@ describe('Edge Cases Unit Tests', () => {
         cutoffAt: null as any,
         status: '',
         volume24h: ''
-      }])
+      }]))
 
       const request = new NextRequest('http://localhost/api/markets/movers?timeframe=1h')
       const response = await moversGET(request)
@@ -178,7 +181,7 @@ describe('Edge Cases Unit Tests', () => {
         
         for (const timeframe of caseVariations) {
           // Mock successful markets response for valid cases
-          vi.mocked(opinionClient.getMarkets).mockResolvedValue([])
+          vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([]))
           
           const request = new NextRequest(`http://localhost/api/markets/movers?timeframe=${timeframe}`)
           const response = await moversGET(request)
@@ -210,7 +213,7 @@ describe('Edge Cases Unit Tests', () => {
 
       it('should handle hours parameter boundary values', async () => {
         // Mock successful markets response for valid cases
-        vi.mocked(opinionClient.getMarkets).mockResolvedValue([])
+        vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([]))
         
         // Test boundary values
         const boundaryTests = [
@@ -356,7 +359,7 @@ describe('Edge Cases Unit Tests', () => {
     })
 
     it('should handle network timeout during price fetching', async () => {
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([{
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([{
         id: 1,
         title: 'Test Market',
         yesTokenId: 'yes-1',
@@ -364,7 +367,7 @@ describe('Edge Cases Unit Tests', () => {
         cutoffAt: Date.now() / 1000 + 3600,
         status: 'activated',
         volume24h: '1000'
-      }])
+      }]))
 
       vi.mocked(opinionClient.getLatestPrice).mockRejectedValue(new Error('Network timeout'))
 
@@ -378,7 +381,7 @@ describe('Edge Cases Unit Tests', () => {
     })
 
     it('should handle timeout during price history fetching', async () => {
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([{
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([{
         id: 1,
         title: 'Test Market',
         yesTokenId: 'yes-1',
@@ -386,7 +389,7 @@ describe('Edge Cases Unit Tests', () => {
         cutoffAt: Date.now() / 1000 + 3600,
         status: 'activated',
         volume24h: '1000'
-      }])
+      }]))
 
       vi.mocked(opinionClient.getLatestPrice).mockResolvedValue({
         tokenId: 'test',
@@ -455,7 +458,7 @@ describe('Edge Cases Unit Tests', () => {
 
     it('should handle partial network failures across multiple endpoints', async () => {
       // Mock different failure scenarios for different endpoints
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([{
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([{
         id: 1,
         title: 'Test Market',
         yesTokenId: 'yes-1',
@@ -463,7 +466,7 @@ describe('Edge Cases Unit Tests', () => {
         cutoffAt: Date.now() / 1000 + 3600,
         status: 'activated',
         volume24h: '1000'
-      }])
+      }]))
 
       let callCount = 0
       vi.mocked(opinionClient.getLatestPrice).mockImplementation(async () => {
@@ -501,7 +504,7 @@ describe('Edge Cases Unit Tests', () => {
     })
 
     it('should handle invalid price values', async () => {
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([{
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([{
         id: 1,
         title: 'Test Market',
         yesTokenId: 'yes-1',
@@ -509,7 +512,7 @@ describe('Edge Cases Unit Tests', () => {
         cutoffAt: Date.now() / 1000 + 3600,
         status: 'activated',
         volume24h: '1000'
-      }])
+      }]))
 
       // Mock invalid price responses
       vi.mocked(opinionClient.getLatestPrice).mockImplementation(async (tokenId) => ({
@@ -528,7 +531,7 @@ describe('Edge Cases Unit Tests', () => {
     })
 
     it('should handle extremely large numbers', async () => {
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([{
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([{
         id: 1,
         title: 'Test Market',
         yesTokenId: 'yes-1',
@@ -536,7 +539,7 @@ describe('Edge Cases Unit Tests', () => {
         cutoffAt: Date.now() / 1000 + 3600,
         status: 'activated',
         volume24h: Number.MAX_SAFE_INTEGER.toString()
-      }])
+      }]))
 
       vi.mocked(opinionClient.getLatestPrice).mockResolvedValue({
         tokenId: 'test',
@@ -554,7 +557,7 @@ describe('Edge Cases Unit Tests', () => {
     })
 
     it('should handle null and undefined values in API responses', async () => {
-      vi.mocked(opinionClient.getMarkets).mockResolvedValue([{
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue(page([{
         id: 1,
         title: null as any,
         yesTokenId: undefined as any,
@@ -562,7 +565,7 @@ describe('Edge Cases Unit Tests', () => {
         cutoffAt: null as any,
         status: undefined as any,
         volume24h: null as any
-      }])
+      }]))
 
       const request = new NextRequest('http://localhost/api/markets/movers?timeframe=1h')
       const response = await moversGET(request)
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as historyBatchGET } from '@/app/api/history/batch/route'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    fetchPriceHistory: vi.fn()
+  }
+}))
+
+const batch = (query: string) => historyBatchGET(new NextRequest(`http://localhost/api/history/batch?${query}`))
+
+describe('GET /api/history/batch', () => {
+  beforeEach(() => {
+    cache.clear()
+    vi.mocked(opinionClient.fetchPriceHistory).mockReset()
+  })
+
+  it('should dedupe tokens and key each series by tokenId', async () => {
+    vi.mocked(opinionClient.fetchPriceHistory).mockImplementation(async tokenId =>
+      tokenId === 'yes-1' ? [{ t: 1, p: '0.4' }] : [])
+
+    const response = await batch('tokenIds=yes-1,no-1,yes-1&interval=1d')
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toEqual({ interval: '1d', histories: { 'yes-1': [{ t: 1, p: '0.4' }], 'no-1': [] }, errors: {} })
+    expect(opinionClient.fetchPriceHistory).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report failing tokens without failing the batch', async () => {
+    vi.mocked(opinionClient.fetchPriceHistory).mockImplementation(async tokenId => {
+      if (tokenId === 'no-1') throw new Error('upstream down')
+      return [{ t: 1, p: '0.4' }]
+    })
+
+    const data = await (await batch('tokenIds=yes-1,no-1')).json()
+
+    expect(data.histories).toEqual({ 'yes-1': [{ t: 1, p: '0.4' }] })
+    expect(data.errors).toEqual({ 'no-1': 'upstream down' })
+  })
+
+  it('should cache each series independently and retry only the failures', async () => {
+    vi.mocked(opinionClient.fetchPriceHistory)
+      .mockResolvedValueOnce([{ t: 1, p: '0.4' }])
+      .mockRejectedValueOnce(new Error('timeout'))
+    await batch('tokenIds=yes-1,no-1')
+
+    vi.mocked(opinionClient.fetchPriceHistory).mockResolvedValue([{ t: 2, p: '0.6' }])
+    const data = await (await batch('tokenIds=no-1,yes-1,yes-2')).json()
+
+    expect(data.histories['yes-1']).toEqual([{ t: 1, p: '0.4' }])
+    expect(data.errors).toEqual({})
+    expect(vi.mocked(opinionClient.fetchPriceHistory).mock.calls.slice(2).map(([tokenId]) => tokenId).sort()).toEqual(['no-1', 'yes-2'])
+  })
+
+  it('should validate tokens and interval', async () => {
+    expect((await batch('interval=1h')).status).toBe(400)
+    expect((await batch('tokenIds=yes-1&interval=5m')).status).toBe(400)
+    expect((await batch('tokenIds=bad token')).status).toBe(400)
+    expect((await batch(`tokenIds=${Array.from({ length: 101 }, (_, i) => `t${i}`).join(',')}`)).status).toBe(400)
+  })
+})
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as liquidityGET } from '@/app/api/markets/[id]/liquidity/route'
+import { GET as marketsListGET } from '@/app/api/markets/list/route'
+import { summarizeOrderbook, estimateSlippage, toLiquidityColumns } from '@/lib/liquidity'
+import { InMemoryRedisClient, REDIS_KEYS } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { MarketData, Orderbook, PriceData } from '@/lib/types'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getMarkets: vi.fn(),
+    getMultiplePrices: vi.fn(),
+    getMarketDetail: vi.fn(),
+    getOrderbook: vi.fn()
+  }
+}))
+
+const book = (tokenId: string, bids: Array<[string, string]>, asks: Array<[string, string]>): Orderbook => ({
+  market: 'm',
+  tokenId,
+  timestamp: Date.now(),
+  bids: bids.map(([price, size]) => ({ price, size })),
+  asks: asks.map(([price, size]) => ({ price, size }))
+})
+
+// Mid 0.50, spread 0.02
+const yesBook = book(
+  'yes-1',
+  [['0.49', '100'], ['0.47', '200'], ['0.40', '1000']],
+  [['0.51', '100'], ['0.53', '200'], ['0.60', '1000']]
+)
+
+describe('Liquidity analytics', () => {
+  describe('summarizeOrderbook', () => {
+    it('should compute best prices, mid and spread in bps', () => {
+      const summary = summarizeOrderbook(yesBook)
+
+      expect(summary).toMatchObject({ bestBid: 0.49, bestAsk: 0.51, mid: 0.5, spread: 0.02, spreadBps: 400 })
+    })
+
+    it('should report depth within 1, 2 and 5 cents of mid', () => {
+      const [oneCent, twoCents, fiveCents] = summarizeOrderbook(yesBook).depth
+
+      expect(oneCent).toMatchObject({ cents: 1, bidSize: 100, askSize: 100, bidNotional: 49, askNotional: 51 })
+      expect(twoCents).toMatchObject({ cents: 2, bidSize: 100, askSize: 100 })
+      expect(fiveCents).toMatchObject({ cents: 5, bidSize: 300, askSize: 300, bidNotional: 143, askNotional: 157 })
+    })
+
+    it('should handle one-sided and empty books', () => {
+      const oneSided = summarizeOrderbook(book('t', [], [['0.6', '10']]))
+      expect(oneSided).toMatchObject({ bestBid: null, bestAsk: 0.6, mid: null, spreadBps: null, depth: [] })
+
+      const empty = summarizeOrderbook(book('t', [], []))
+      expect(empty.slippage.every(estimate => estimate.avgPrice === null && estimate.filledNotional === 0)).toBe(true)
+    })
+  })
+
+  describe('estimateSlippage', () => {
+    it('should stay at the best price while the top level covers the notional', () => {
+      expect(estimateSlippage(yesBook.asks, 'buy', 51)).toMatchObject({ filledNotional: 51, shares: 100, avgPrice: 0.51, slippageBps: 0 })
+    })
+
+    it('should walk deeper levels for larger notionals', () => {
+      // 51 at 0.51 (100 shares) + 53 at 0.53 (100 shares) -> avg 0.52
+      const buy = estimateSlippage(yesBook.asks, 'buy', 104)
+      expect(buy).toMatchObject({ shares: 200, avgPrice: 0.52 })
+      expect(buy.slippageBps).toBeCloseTo(196.08, 1)
+
+      const sell = estimateSlippage(yesBook.bids, 'sell', 49 + 47)
+      expect(sell).toMatchObject({ shares: 200, avgPrice: 0.48 })
+    })
+
+    it('should report a partial fill when the book is too thin', () => {
+      const buy = estimateSlippage(book('t', [], [['0.5', '10']]).asks, 'buy', 100)
+      expect(buy).toMatchObject({ notional: 100, filledNotional: 5, shares: 10 })
+    })
+  })
+
+  it('should condense a summary into list columns', () => {
+    expect(toLiquidityColumns(summarizeOrderbook(yesBook, 51))).toEqual({
+      spreadBps: 400,
+      depthNotional: 100,
+      slippageBps: 0
+    })
+  })
+
+  describe('API routes', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(async () => {
+      cache.clear()
+      vi.mocked(opinionClient.getOrderbook).mockReset()
+      vi.mocked(opinionClient.getMarketDetail).mockReset()
+
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+
+      const cutoffAt = Math.floor(Date.now() / 1000) + 86400
+      const stored: MarketData[] = [1, 2].map(id => ({
+        id: String(id),
+        title: `Market ${id}`,
+        yesTokenId: `yes-${id}`,
+        noTokenId: `no-${id}`,
+        cutoffAt,
+        status: 'activated',
+        volume24h: String(id * 100),
+        marketType: 0,
+        childMarkets: '[]'
+      }))
+      const prices = new Map<string, PriceData>(stored.flatMap(market => [
+        [market.yesTokenId, { tokenId: market.yesTokenId, price: '0.5', timestamp: Date.now() }],
+        [market.noTokenId, { tokenId: market.noTokenId, price: '0.5', timestamp: Date.now() }]
+      ] as Array<[string, PriceData]>))
+
+      await client.setMarketSnapshot(stored, prices)
+      await client.indexMarkets(stored)
+      await client.set(REDIS_KEYS.LAST_SYNC, String(Date.now()))
+    })
+
+    it('should summarise both books of a synced binary market', async () => {
+      vi.mocked(opinionClient.getOrderbook).mockImplementation(async tokenId =>
+        tokenId === 'yes-1' ? yesBook : null)
+
+      const response = await liquidityGET(
+        new NextRequest('http://localhost/api/markets/1/liquidity?notional=51'),
+        { params: { id: '1' } }
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toMatchObject({ marketId: 1, notional: 51 })
+      expect(data.tokens.map((token: { label: string }) => token.label)).toEqual(['YES', 'NO'])
+      expect(data.tokens[0]).toMatchObject({ tokenId: 'yes-1', spreadBps: 400 })
+      expect(data.tokens[1]).toMatchObject({ tokenId: 'no-1', bestBid: null, bestAsk: null })
+      expect(opinionClient.getMarketDetail).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 for unknown markets and 400 for invalid input', async () => {
+      vi.mocked(opinionClient.getMarketDetail).mockResolvedValue(null)
+
+      const missing = await liquidityGET(new NextRequest('http://localhost/api/markets/99/liquidity'), { params: { id: '99' } })
+      expect(missing.status).toBe(404)
+
+      const badNotional = await liquidityGET(new NextRequest('http://localhost/api/markets/1/liquidity?notional=0'), { params: { id: '1' } })
+      expect(badNotional.status).toBe(400)
+    })
+
+    it('should attach stored liquidity columns to the market list', async () => {
+      await client.setLiquidity([summarizeOrderbook(yesBook)], 90)
+
+      const response = await marketsListGET(new NextRequest('http://localhost/api/markets/list'))
+      const data = await response.json()
+      const byId = new Map(data.markets.map((market: { id: number }) => [market.id, market]))
+
+      expect(byId.get(1)).toMatchObject({ liquidity: { spreadBps: 400, depthNotional: 100 } })
+      expect(byId.get(2)).not.toHaveProperty('liquidity')
+    })
+
+    it('should expire stored liquidity after its TTL', async () => {
+      const now = Date.now()
+      await client.setLiquidity([summarizeOrderbook(yesBook)], 90)
+      expect((await client.getLiquidity(['yes-1'])).size).toBe(1)
+
+      const realNow = Date.now
+      Date.now = () => now + 91000
+      try {
+        expect((await client.getLiquidity(['yes-1'])).size).toBe(0)
+      } finally {
+        Date.now = realNow
+      }
+    })
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  InMemoryRedisClient,
+  createRedisClient,
+  planMarketIndexUpdate,
+  planMarketQuery,
+  isDirectMarketQuery,
+  REDIS_KEYS
+} from '../../lib/redis'
+import { MarketData } from '../../lib/types'
+
+// Upstash pipeline mock that records queued commands and replays canned results
+const pipelineCommands: Array<[string, ...unknown[]]> = []
+const pipelineResults: unknown[][] = []
+
+vi.mock('@upstash/redis', () => ({
+  Redis: vi.fn(() => ({
+    pipeline: vi.fn(() => {
+      const pipeline: Record<string, unknown> = {}
+      ;['zrange', 'zcount', 'smembers', 'hgetall'].forEach(command => {
+        pipeline[command] = vi.fn((...args: unknown[]) => {
+          pipelineCommands.push([command, ...args])
+          return pipeline
+        })
+      })
+      pipeline.exec = vi.fn(async () => pipelineResults.shift() || [])
+      return pipeline
+    })
+  }))
+}))
+
+const market = (id: string, overrides: Partial<MarketData> = {}): MarketData => ({
+  id,
+  title: `Market ${id}`,
+  yesTokenId: `yes-${id}`,
+  noTokenId: `no-${id}`,
+  cutoffAt: 1_000 + Number(id) * 100,
+  status: 'activated',
+  volume24h: String(Number(id) * 10),
+  marketType: 0,
+  ...overrides
+})
+
+describe('Market registry', () => {
+  describe('planMarketIndexUpdate', () => {
+    it('should prune markets that left the active list', () => {
+      const plan = planMarketIndexUpdate([market('1')], ['1', '2'], new Map([
+        [REDIS_KEYS.MARKETS_BY_STATUS('activated'), ['1', '2']]
+      ]))
+
+      expect(plan.removedIds).toEqual(['2'])
+      expect(plan.facetRemovals.get(REDIS_KEYS.MARKETS_BY_STATUS('activated'))).toEqual(['2'])
+    })
+
+    it('should keep missing markets when pruning is disabled', () => {
+      const plan = planMarketIndexUpdate([market('1')], ['1', '2'], new Map(), false)
+
+      expect(plan.removedIds).toEqual([])
+    })
+
+    it('should move markets between status sets', () => {
+      const plan = planMarketIndexUpdate([market('1', { status: 'resolved' })], ['1'], new Map([
+        [REDIS_KEYS.MARKETS_BY_STATUS('activated'), ['1']]
+      ]))
+
+      expect(plan.facetRemovals.get(REDIS_KEYS.MARKETS_BY_STATUS('activated'))).toEqual(['1'])
+      expect(plan.facetAdds.get(REDIS_KEYS.MARKETS_BY_STATUS('resolved'))).toEqual(['1'])
+    })
+  })
+
+  describe('planMarketQuery', () => {
+    it('should default to volume descending and page in Redis without filters', () => {
+      const plan = planMarketQuery({ offset: 20, limit: 10 })
+
+      expect(plan.indexKey).toBe(REDIS_KEYS.MARKETS_BY_VOLUME)
+      expect(plan.rev).toBe(true)
+      expect(isDirectMarketQuery(plan)).toBe(true)
+    })
+
+    it('should range the cutoff index and intersect facets', () => {
+      const byCutoff = planMarketQuery({ sortBy: 'cutoff', cutoffFrom: 10, cutoffTo: 20 })
+      expect(byCutoff).toMatchObject({ indexKey: REDIS_KEYS.MARKETS_BY_CUTOFF, min: 10, max: 20, rev: false })
+      expect(isDirectMarketQuery(byCutoff)).toBe(true)
+
+      const filtered = planMarketQuery({ status: 'activated', cutoffFrom: 10 })
+      expect(filtered.facetKeys).toEqual([REDIS_KEYS.MARKETS_BY_STATUS('activated')])
+      expect(filtered.cutoffRange).toEqual([10, '+inf'])
+      expect(isDirectMarketQuery(filtered)).toBe(false)
+    })
+  })
+
+  describe('InMemoryRedisClient', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(async () => {
+      client = new InMemoryRedisClient()
+      const markets = [
+        market('1'),
+        market('2', { marketType: 1 }),
+        market('3', { status: 'resolved' }),
+        market('4')
+      ]
+      await client.setMarketSnapshot(markets, new Map())
+      await client.indexMarkets(markets)
+    })
+
+    it('should list registry markets without scanning keys', async () => {
+      await client.set('market:unrelated', 'value')
+
+      expect((await client.getAllMarkets()).map(m => m.id).sort()).toEqual(['1', '2', '3', '4'])
+    })
+
+    it('should page markets sorted by volume', async () => {
+      const result = await client.queryMarkets({ offset: 1, limit: 2 })
+
+      expect(result.total).toBe(4)
+      expect(result.markets.map(m => m.id)).toEqual(['3', '2'])
+    })
+
+    it('should filter by status, type and cutoff range', async () => {
+      const activated = await client.queryMarkets({ status: 'activated', sortBy: 'cutoff' })
+      expect(activated.markets.map(m => m.id)).toEqual(['1', '2', '4'])
+
+      const categorical = await client.queryMarkets({ marketType: 1 })
+      expect(categorical.markets.map(m => m.id)).toEqual(['2'])
+
+      const endingSoon = await client.queryMarkets({ status: 'activated', cutoffFrom: 1_150, cutoffTo: 1_350 })
+      expect(endingSoon.markets.map(m => m.id)).toEqual(['2'])
+      expect(endingSoon.total).toBe(1)
+    })
+
+    it('should remove pruned markets from every index', async () => {
+      await client.indexMarkets([market('1'), market('2', { marketType: 1, status: 'resolved' })])
+
+      expect(await client.getMarket('4')).toBeNull()
+      expect((await client.queryMarkets()).markets.map(m => m.id)).toEqual(['2', '1'])
+      expect((await client.queryMarkets({ status: 'activated' })).markets.map(m => m.id)).toEqual(['1'])
+      expect((await client.queryMarkets({ status: 'resolved' })).markets.map(m => m.id)).toEqual(['2'])
+    })
+  })
+
+  describe('UpstashRedisClient', () => {
+    beforeEach(() => {
+      pipelineCommands.length = 0
+      process.env.UPSTASH_REDIS_REST_URL = 'https://test-redis.upstash.io'
+      process.env.UPSTASH_REDIS_REST_TOKEN = 'test-token'
+    })
+
+    it('should page by volume with ZRANGE BYSCORE REV and fetch only that page', async () => {
+      // Upstash deserializes numeric members, so IDs come back as numbers
+      pipelineResults.push([[2, 1], 4], [market('2'), market('1')])
+
+      const result = await createRedisClient().queryMarkets({ offset: 1, limit: 2 })
+
+      expect(pipelineCommands).toEqual([
+        ['zrange', REDIS_KEYS.MARKETS_BY_VOLUME, '+inf', '-inf', { byScore: true, rev: true, offset: 1, count: 2 }],
+        ['zcount', REDIS_KEYS.MARKETS_BY_VOLUME, '-inf', '+inf'],
+        ['hgetall', REDIS_KEYS.MARKET('2')],
+        ['hgetall', REDIS_KEYS.MARKET('1')]
+      ])
+      expect(result.total).toBe(4)
+      expect(result.markets.map(m => m.id)).toEqual(['2', '1'])
+    })
+  })
+})
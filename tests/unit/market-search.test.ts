@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as marketSearchGET } from '@/app/api/markets/search/route'
+import { tokenize, scoreMarket, parseMarketSearchParams, searchMarkets } from '@/lib/marketSearch'
+import { InMemoryRedisClient, REDIS_KEYS } from '@/lib/redis'
+import cache from '@/lib/cache'
+import { Market, MarketData, PriceData } from '@/lib/types'
+import { buildMarket, memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getMarkets: vi.fn(),
+    getMultiplePrices: vi.fn()
+  }
+}))
+
+const nowSeconds = Math.floor(Date.now() / 1000)
+
+const market = (id: number, title: string, overrides: Partial<Market> = {}): Market =>
+  buildMarket(id, { title, cutoffAt: nowSeconds + id * 3600, ...overrides })
+
+const markets: Market[] = [
+  market(1, 'Will Bitcoin reach $100k?', { rules: 'Resolves using the Coinbase BTC-USD price' }),
+  market(2, 'Fed rate cut in March?', { rules: 'Resolves YES if the FOMC announces a cut' }),
+  market(3, 'Bitcoin ETF approved?'),
+  market(4, 'Who wins the election?', {
+    marketType: 1,
+    childMarkets: [market(41, 'Candidate Alpha'), market(42, 'Candidate Beta')]
+  })
+]
+
+const priceMap = new Map<string, PriceData>(
+  [1, 2, 3, 4].flatMap(id => [
+    [`yes-${id}`, { tokenId: `yes-${id}`, price: String(id / 10), timestamp: Date.now() }],
+    [`no-${id}`, { tokenId: `no-${id}`, price: String(1 - id / 10), timestamp: Date.now() }]
+  ] as Array<[string, PriceData]>)
+)
+
+const search = (query: string) =>
+  searchMarkets(markets, priceMap, parseMarketSearchParams(new URLSearchParams(query)))
+
+describe('Market search', () => {
+  describe('Matching', () => {
+    it('should tokenize case and accent insensitively', () => {
+      expect(tokenize('Will BTC hit $100k in Zürich?')).toEqual(['will', 'btc', 'hit', '100k', 'in', 'zurich'])
+    })
+
+    it('should rank title matches above rules matches and require every token', () => {
+      expect(scoreMarket(markets[0], ['bitcoin'])).toBeGreaterThan(scoreMarket(markets[0], ['coinbase']))
+      expect(scoreMarket(markets[0], ['bitcoin', 'fomc'])).toBe(0)
+      expect(scoreMarket(markets[0], ['bitc'])).toBeGreaterThan(0)
+    })
+
+    it('should match categorical outcome titles', () => {
+      expect(search('q=beta').matches.map(m => m.market.id)).toEqual([4])
+    })
+  })
+
+  describe('Filters and sorting', () => {
+    it('should filter by type, volume, cutoff and price', () => {
+      expect(search('type=1').matches.map(m => m.market.id)).toEqual([4])
+      expect(search('minVolume=200&maxVolume=300').matches.map(m => m.market.id)).toEqual([3, 2])
+      expect(search(`cutoffTo=${nowSeconds + 2 * 3600}`).matches.map(m => m.market.id)).toEqual([2, 1])
+      expect(search('minPrice=0.25').matches.map(m => m.market.id)).toEqual([4, 3])
+    })
+
+    it('should sort by the requested key and order', () => {
+      expect(search('sort=cutoff').matches.map(m => m.market.id)).toEqual([1, 2, 3, 4])
+      expect(search('sort=price&order=asc').matches.map(m => m.market.id)).toEqual([1, 2, 3, 4])
+      expect(search('q=bitcoin').matches.map(m => m.market.id)).toEqual([3, 1])
+    })
+
+    it('should reject invalid parameters', () => {
+      expect(() => parseMarketSearchParams(new URLSearchParams('sort=random'))).toThrow('Invalid sort')
+      expect(() => parseMarketSearchParams(new URLSearchParams('minPrice=2'))).toThrow('Invalid minPrice')
+      expect(() => parseMarketSearchParams(new URLSearchParams('type=5'))).toThrow('Invalid type')
+    })
+  })
+
+  describe('Cursor pagination', () => {
+    it('should walk every match exactly once', () => {
+      const first = search('limit=3')
+      expect(first.total).toBe(4)
+      expect(first.nextCursor).not.toBeNull()
+
+      const second = search(`limit=3&cursor=${first.nextCursor}`)
+      expect(second.matches.map(m => m.market.id)).toEqual([1])
+      expect(second.nextCursor).toBeNull()
+    })
+
+    it('should reject cursors from a different query', () => {
+      const { nextCursor } = search('limit=1')
+      expect(() => parseMarketSearchParams(new URLSearchParams(`limit=1&q=fed&cursor=${nextCursor}`))).toThrow('Invalid cursor')
+      expect(() => parseMarketSearchParams(new URLSearchParams('cursor=not-a-cursor'))).toThrow('Invalid cursor')
+    })
+  })
+
+  describe('GET /api/markets/search', () => {
+    beforeEach(async () => {
+      cache.clear()
+      const client = new InMemoryRedisClient()
+      memoryClient.current = client
+
+      const stored: MarketData[] = markets.map(m => ({
+        ...m,
+        id: String(m.id),
+        childMarkets: JSON.stringify(m.childMarkets || [])
+      }))
+      await client.setMarketSnapshot(stored, priceMap)
+      await client.indexMarkets(stored)
+      await client.set(REDIS_KEYS.LAST_SYNC, String(Date.now()))
+    })
+
+    it('should search every synced market with prices and relevance', async () => {
+      const response = await marketSearchGET(new NextRequest('http://localhost/api/markets/search?q=coinbase'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.source).toBe('snapshot')
+      expect(data.markets).toHaveLength(1)
+      expect(data.markets[0]).toMatchObject({ id: 1, yesPrice: 0.1 })
+      expect(data.markets[0].score).toBeGreaterThan(0)
+    })
+
+    it('should return 400 for an invalid cursor', async () => {
+      const response = await marketSearchGET(new NextRequest('http://localhost/api/markets/search?cursor=bogus'))
+
+      expect(response.status).toBe(400)
+    })
+  })
+})
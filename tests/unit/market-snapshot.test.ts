@@ -0,0 +1,247 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as marketsListGET } from '@/app/api/markets/list/route'
+import { GET as endingSoonGET } from '@/app/api/markets/ending-soon/route'
+import { loadMarketSnapshot, loadMarketPage, buildMarketsWithPrices } from '@/lib/snapshot'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { InMemoryRedisClient, REDIS_KEYS } from '@/lib/redis'
+import { SyncService } from '@/lib/sync'
+import { Market, MarketData, PriceData } from '@/lib/types'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getMarkets: vi.fn(),
+    getMultiplePrices: vi.fn(),
+    getLatestPrice: vi.fn()
+  }
+}))
+
+const nowSeconds = Math.floor(Date.now() / 1000)
+
+const storedMarkets: MarketData[] = [
+  {
+    id: '1',
+    title: 'Low volume market',
+    yesTokenId: 'yes-1',
+    noTokenId: 'no-1',
+    cutoffAt: nowSeconds + 3600,
+    status: 'activated',
+    volume24h: '100',
+    marketType: 0
+  },
+  {
+    id: '2',
+    title: 'High volume market',
+    yesTokenId: 'yes-2',
+    noTokenId: 'no-2',
+    cutoffAt: nowSeconds + 7200,
+    status: 'activated',
+    volume24h: '5000',
+    marketType: 0
+  },
+  {
+    id: '3',
+    title: 'Expired market',
+    yesTokenId: 'yes-3',
+    noTokenId: 'no-3',
+    cutoffAt: nowSeconds - 60,
+    status: 'activated',
+    volume24h: '9000',
+    marketType: 0
+  }
+]
+
+const priceMap = new Map<string, PriceData>([
+  ['yes-1', { tokenId: 'yes-1', price: '0.40', timestamp: Date.now() }],
+  ['no-1', { tokenId: 'no-1', price: '0.60', timestamp: Date.now() }],
+  ['yes-2', { tokenId: 'yes-2', price: '0.75', timestamp: Date.now() }],
+  ['no-2', { tokenId: 'no-2', price: '0.25', timestamp: Date.now() }]
+])
+
+const activeIds = async (client: InMemoryRedisClient) =>
+  (await client.getAllMarkets()).map(market => String(market.id)).sort()
+
+const seedSnapshot = async (lastSync: number | null, markets: MarketData[] = storedMarkets) => {
+  const client = new InMemoryRedisClient()
+  memoryClient.current = client
+
+  await client.setMarketSnapshot(markets, priceMap)
+  await client.indexMarkets(markets)
+  if (lastSync === null) {
+    await client.del(REDIS_KEYS.LAST_SYNC)
+  } else {
+    await client.set(REDIS_KEYS.LAST_SYNC, String(lastSync))
+  }
+  return client
+}
+
+describe('Market snapshot read path', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    cache.clear()
+  })
+
+  it('should load a fresh snapshot with prices for all tokens', async () => {
+    await seedSnapshot(Date.now() - 5000)
+
+    const snapshot = await loadMarketSnapshot(90000)
+
+    expect(snapshot).not.toBeNull()
+    expect(snapshot!.markets.map(market => market.id)).toEqual([3, 2, 1])
+    expect(snapshot!.ageMs).toBeGreaterThanOrEqual(5000)
+    expect(snapshot!.prices.get('yes-2')?.price).toBe('0.75')
+  })
+
+  it('should accept child markets already deserialized by the Redis client', async () => {
+    const children = [{ id: 11, title: 'Child', yesTokenId: 'yes-11', noTokenId: 'no-11', cutoffAt: 0, status: 'activated', volume24h: '1', marketType: 0 }]
+    await seedSnapshot(Date.now(), [
+      { ...storedMarkets[0], marketType: 1, childMarkets: JSON.stringify(children) },
+      { ...storedMarkets[1], marketType: 1, childMarkets: children }
+    ])
+
+    const snapshot = await loadMarketSnapshot(90000)
+
+    expect(snapshot?.markets.map(market => market.childMarkets)).toEqual([children, children])
+  })
+
+  it('should return null when the snapshot is stale', async () => {
+    await seedSnapshot(Date.now() - 120000)
+
+    expect(await loadMarketSnapshot(90000)).toBeNull()
+  })
+
+  it('should return null when no sync has run yet', async () => {
+    await seedSnapshot(null)
+
+    expect(await loadMarketSnapshot(90000)).toBeNull()
+  })
+
+  it('should load only the requested page and its prices', async () => {
+    await seedSnapshot(Date.now())
+
+    const page = await loadMarketPage({ sortBy: 'volume', offset: 1, limit: 1 }, 90000)
+
+    expect(page?.total).toBe(3)
+    expect(page?.markets.map(market => market.id)).toEqual([2])
+    expect(Array.from(page!.prices.keys()).sort()).toEqual(['no-2', 'yes-2'])
+  })
+
+  it('should skip markets with out-of-range prices', () => {
+    const badPrices = new Map(priceMap)
+    badPrices.set('yes-1', { tokenId: 'yes-1', price: '1.5', timestamp: Date.now() })
+
+    const { markets, errors } = buildMarketsWithPrices(
+      [{ id: 1, title: 'Bad', yesTokenId: 'yes-1', noTokenId: 'no-1', cutoffAt: 0, status: 'activated', volume24h: '0', marketType: 0 }],
+      badPrices,
+      nowSeconds
+    )
+
+    expect(markets).toHaveLength(0)
+    expect(errors).toEqual(['Market 1: Invalid prices'])
+  })
+
+  it('should serve /api/markets/list from the snapshot without calling Opinion API', async () => {
+    await seedSnapshot(Date.now() - 5000)
+
+    const response = await marketsListGET(new NextRequest('http://localhost/api/markets/list?page=1'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.source).toBe('snapshot')
+    expect(data.snapshotAgeMs).toBeGreaterThanOrEqual(5000)
+    expect(data.total).toBe(2)
+    expect(data.markets.map((m: { id: number }) => m.id)).toEqual([2, 1])
+    expect(data.markets[0].yesPrice).toBe(0.75)
+    expect(opinionClient.getMarkets).not.toHaveBeenCalled()
+    expect(opinionClient.getMultiplePrices).not.toHaveBeenCalled()
+  })
+
+  it('should filter /api/markets/list by market type', async () => {
+    await seedSnapshot(Date.now(), [storedMarkets[0], { ...storedMarkets[1], marketType: 1 }])
+
+    const response = await marketsListGET(new NextRequest('http://localhost/api/markets/list?page=1&type=1'))
+    const data = await response.json()
+
+    expect(data.markets.map((m: { id: number }) => m.id)).toEqual([2])
+    expect(data.total).toBe(1)
+  })
+
+  it('should serve /api/markets/ending-soon from the cutoff index', async () => {
+    await seedSnapshot(Date.now())
+
+    const response = await endingSoonGET(new NextRequest('http://localhost/api/markets/ending-soon?hours=3'))
+    const data = await response.json()
+
+    expect(data.map((m: { marketId: number }) => m.marketId)).toEqual([1, 2])
+    expect(data[1].yesPrice).toBe(0.75)
+    expect(opinionClient.getMarkets).not.toHaveBeenCalled()
+    expect(opinionClient.getLatestPrice).not.toHaveBeenCalled()
+  })
+
+  it('should fall back to live Opinion API calls when the snapshot is stale', async () => {
+    await seedSnapshot(Date.now() - 600000)
+    vi.mocked(opinionClient.getMarkets).mockResolvedValue({
+      markets: [{
+        id: 7,
+        title: 'Live market',
+        yesTokenId: 'yes-1',
+        noTokenId: 'no-1',
+        cutoffAt: nowSeconds + 3600,
+        status: 'activated',
+        volume24h: '10',
+        marketType: 0
+      }],
+      total: 1,
+      failed: false
+    })
+    vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(priceMap)
+
+    const response = await marketsListGET(new NextRequest('http://localhost/api/markets/list?page=1'))
+    const data = await response.json()
+
+    expect(data.source).toBe('live')
+    expect(data.markets).toHaveLength(1)
+    expect(opinionClient.getMarkets).toHaveBeenCalledTimes(1)
+  })
+
+  it('should count only the filtered page when the live fallback filters by type', async () => {
+    const live = (id: number, marketType: number): Market =>
+      ({ id, title: `Market ${id}`, yesTokenId: 'yes-1', noTokenId: 'no-1', cutoffAt: nowSeconds + 3600, status: 'activated', volume24h: '10', marketType })
+    vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [live(7, 0), live(8, 1), live(9, 0)], total: 250, failed: false })
+    vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(priceMap)
+
+    const binary = await (await marketsListGET(new NextRequest('http://localhost/api/markets/list?page=1&type=0'))).json()
+    expect([binary.source, binary.total, binary.partial, binary.markets.map((m: { id: number }) => m.id)]).toEqual(['live', 2, true, [7, 9]])
+
+    const all = await (await marketsListGET(new NextRequest('http://localhost/api/markets/list?page=1'))).json()
+    expect([all.total, all.partial]).toEqual([250, undefined])
+  })
+
+  it('should not prune the registry when a middle page of the sync fails', async () => {
+    const client = await seedSnapshot(Date.now())
+    const live = (id: number): Market =>
+      ({ id, title: `Market ${id}`, yesTokenId: `yes-${id}`, noTokenId: `no-${id}`, cutoffAt: nowSeconds + 3600, status: 'activated', volume24h: '10', marketType: 0 })
+    const service = new SyncService({ batchSize: 2, liquidityMarkets: 0, volatilityMarkets: 0, portfolioIntervalSeconds: 0, resolutionMarkets: 0, tradeMarkets: 0 })
+    vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(new Map())
+    vi.mocked(opinionClient.getMarkets)
+      .mockResolvedValueOnce({ markets: [live(1), live(4)], total: 5, failed: false })
+      .mockResolvedValueOnce({ markets: [], total: 5, failed: true })
+      .mockResolvedValueOnce({ markets: [live(5)], total: 5, failed: false })
+
+    await service.performSync()
+
+    expect(opinionClient.getMarkets).toHaveBeenCalledTimes(3)
+    expect(await activeIds(client)).toEqual(['1', '2', '3', '4', '5'])
+    expect(await client.getMarket('2')).not.toBeNull()
+
+    // A complete cycle prunes what left the active list
+    vi.mocked(opinionClient.getMarkets).mockResolvedValueOnce({ markets: [live(1)], total: 1, failed: false })
+    await service.performSync()
+
+    expect(await activeIds(client)).toEqual(['1'])
+  })
+})
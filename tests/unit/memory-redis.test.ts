@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  InMemoryRedisClient,
+  getRedisClient,
+  resetRedisClient,
+  REDIS_KEYS,
+  SeriesTier
+} from '../../lib/redis'
+
+const tiers: SeriesTier[] = [
+  { resolution: 'raw', bucketSeconds: 0, retentionSeconds: 3600 },
+  { resolution: '5m', bucketSeconds: 300, retentionSeconds: 86400 }
+]
+
+describe('InMemoryRedisClient', () => {
+  let client: InMemoryRedisClient
+
+  beforeEach(() => {
+    client = new InMemoryRedisClient()
+  })
+
+  describe('Basic operations', () => {
+    it('should get, set and delete string values', async () => {
+      await client.set('key', 'value')
+      expect(await client.get('key')).toBe('value')
+
+      await client.del('key')
+      expect(await client.get('key')).toBeNull()
+      expect(await client.ping()).toBe('PONG')
+    })
+
+    it('should expire values after their TTL', async () => {
+      const now = Date.now()
+      await client.set('ttl-key', 'value', 10)
+
+      const realNow = Date.now
+      Date.now = () => now + 11000
+      try {
+        expect(await client.get('ttl-key')).toBeNull()
+      } finally {
+        Date.now = realNow
+      }
+    })
+
+    it('should match keys with glob patterns', async () => {
+      await client.set('price:a', '1')
+      await client.set('price:b', '2')
+      await client.setMarket('1', { id: '1', title: 'Market' })
+
+      expect(await client.keys('price:*')).toEqual(['price:a', 'price:b'])
+      expect(await client.keys('market:?')).toEqual(['market:1'])
+    })
+  })
+
+  describe('Market and price operations', () => {
+    it('should write a snapshot readable through the same methods as Upstash', async () => {
+      const markets = [{ id: '1', title: 'First' }, { id: '2', title: 'Second' }]
+      await client.setMarketSnapshot(
+        markets,
+        new Map([['tok-1', { tokenId: 'tok-1', price: '0.42', timestamp: 1 }]])
+      )
+      await client.indexMarkets(markets)
+
+      expect(await client.getMarket('1')).toEqual({ id: '1', title: 'First' })
+      expect(await client.getMarket('missing')).toBeNull()
+      expect(await client.getAllMarkets()).toHaveLength(2)
+      expect((await client.getPrice('tok-1'))?.price).toBe('0.42')
+      expect((await client.getPrices(['tok-1', 'tok-2'])).size).toBe(1)
+      expect(await client.get(REDIS_KEYS.LAST_SYNC)).not.toBeNull()
+    })
+  })
+
+  describe('Price time series', () => {
+    it('should keep one point per bucket and trim by retention', async () => {
+      const base = 1_700_000_100
+      await client.appendPriceSeries([{ tokenId: 'tok', price: '0.5', timestamp: 0 }], base, tiers)
+      await client.appendPriceSeries([{ tokenId: 'tok', price: '0.6', timestamp: 0 }], base + 30, tiers)
+
+      expect(await client.getPriceSeries('tok', { resolution: 'raw' })).toEqual([
+        { t: base, p: '0.5' },
+        { t: base + 30, p: '0.6' }
+      ])
+      expect(await client.getPriceSeries('tok', { resolution: '5m' })).toEqual([{ t: base, p: '0.6' }])
+
+      await client.appendPriceSeries([{ tokenId: 'tok', price: '0.7', timestamp: 0 }], base + 7200, tiers)
+      const raw = await client.getPriceSeries('tok', { resolution: 'raw' })
+      expect(raw).toEqual([{ t: base + 7200, p: '0.7' }])
+    })
+
+    it('should filter batch queries by time range', async () => {
+      await client.appendPriceSeries([{ tokenId: 'a', price: '0.1', timestamp: 0 }], 100, tiers)
+      await client.appendPriceSeries([{ tokenId: 'a', price: '0.2', timestamp: 0 }], 200, tiers)
+
+      const series = await client.getPriceSeriesBatch(['a', 'b'], { from: 150, to: 250, resolution: 'raw' })
+      expect(series.get('a')).toEqual([{ t: 200, p: '0.2' }])
+      expect(series.get('b')).toEqual([])
+    })
+  })
+
+  describe('Persistence', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-redis-'))
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should restore data written before a restart', async () => {
+      const persistPath = path.join(dir, 'store.json')
+      const first = new InMemoryRedisClient({ persistPath })
+      await first.set('key', 'value')
+      await first.appendPriceSeries([{ tokenId: 'tok', price: '0.5', timestamp: 0 }], 100, tiers)
+      await first.flush()
+
+      const second = new InMemoryRedisClient({ persistPath })
+      expect(await second.get('key')).toBe('value')
+      expect(await second.getPriceSeries('tok', { resolution: 'raw' })).toEqual([{ t: 100, p: '0.5' }])
+    })
+  })
+})
+
+describe('getRedisClient', () => {
+  const originalEnv = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+    resetRedisClient()
+  })
+
+  it('should fall back to the in-process store without Upstash credentials', () => {
+    delete process.env.UPSTASH_REDIS_REST_URL
+    delete process.env.UPSTASH_REDIS_REST_TOKEN
+    resetRedisClient()
+
+    const client = getRedisClient()
+    expect(client).toBeInstanceOf(InMemoryRedisClient)
+    expect(getRedisClient()).toBe(client)
+  })
+
+  it('should return null when storage is disabled', () => {
+    process.env.REDIS_DRIVER = 'none'
+    resetRedisClient()
+
+    expect(getRedisClient()).toBeNull()
+  })
+})
@@ -5,7 +5,7 @@ import { NextRequest } from 'next/server'
 // Mock the dependencies
 vi.mock('@/lib/opinionClient', () => ({
   opinionClient: {
-    getMarkets: vi.fn().mockResolvedValue([]),
+    getMarkets: vi.fn().mockResolvedValue({ markets: [], total: 0, failed: false }),
     getLatestPrice: vi.fn(),
     getPriceHistory: vi.fn()
   }
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as moversGET } from '@/app/api/markets/movers/route'
+import { collectMoverCandidates, computeMover, rankMovers, windowVolatility } from '@/lib/movers'
+import { InMemoryRedisClient, REDIS_KEYS } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { Market, MarketData, MarketMover, PriceData } from '@/lib/types'
+import { buildMarket, memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getMarkets: vi.fn(),
+    getLatestPrice: vi.fn(),
+    getPriceHistory: vi.fn()
+  }
+}))
+
+const NOW = 1_700_000_000
+
+const market = (id: number, extra: Partial<Market> = {}): Market => buildMarket(id, { cutoffAt: NOW + 86400, ...extra })
+
+const prices = (entries: Array<[string, string]>, timestamp: number = NOW * 1000): Map<string, PriceData> =>
+  new Map(entries.map(([tokenId, price]) => [tokenId, { tokenId, price, timestamp }]))
+
+const mover = (marketId: number, priceChangePct: number, zScore: number | null = null): MarketMover => ({
+  marketId,
+  marketTitle: `Market ${marketId}`,
+  marketPrice: 0.5,
+  priceChangePct,
+  volume24h: '100',
+  yesTokenId: `yes-${marketId}`,
+  noTokenId: `no-${marketId}`,
+  yesPrice: 0.5,
+  noPrice: 0.5,
+  zScore
+})
+
+describe('Market movers', () => {
+  it('should compare the market price with the window start and normalise by volatility', () => {
+    const history = new Map([
+      ['yes-1', [0.5, 0.52, 0.5, 0.52, 0.5].map((p, i) => ({ t: NOW - 4 * 3600 + i * 3600, p: String(p) }))],
+      ['no-1', [{ t: NOW - 4 * 3600, p: '0.5' }]]
+    ])
+    const result = computeMover({ market: market(1) }, prices([['yes-1', '0.6'], ['no-1', '0.4']]), history, 4 * 3600, NOW)!
+
+    expect(result.marketPrice).toBeCloseTo(0.6)
+    expect(result.priceChangePct).toBeCloseTo(0.2) // 0.5 -> 0.6 on both YES and NO-as-YES
+    expect(result.zScore).toBeCloseTo(0.1 / windowVolatility(history.get('yes-1')!, 4 * 3600)!, 1)
+    expect(computeMover({ market: market(2) }, new Map(), history, 3600, NOW)).toBeNull()
+  })
+
+  it('should estimate volatility only from enough non-flat history', () => {
+    const flat = [0, 1, 2, 3].map(i => ({ t: i * 3600, p: '0.5' }))
+    const moving = [0.5, 0.6, 0.5, 0.6].map((p, i) => ({ t: i * 3600, p: String(p) }))
+
+    expect(windowVolatility(flat, 3600)).toBeNull()
+    expect(windowVolatility(moving.slice(0, 3), 3600)).toBeNull()
+    expect(windowVolatility(moving, 4 * 3600)).toBeCloseTo(2 * windowVolatility(moving, 3600)!)
+  })
+
+  it('should split gainers and losers and rank by absolute change or z-score', () => {
+    const movers = [mover(1, 0.1, 1), mover(2, -0.3, -0.5), mover(3, 0.2, null), mover(4, 0, 0)]
+
+    expect(rankMovers(movers, 'all', 'change').map(m => m.marketId)).toEqual([3, 1, 4, 2])
+    expect(rankMovers(movers, 'gainers', 'change').map(m => m.marketId)).toEqual([3, 1])
+    expect(rankMovers(movers, 'losers', 'change').map(m => m.marketId)).toEqual([2])
+    expect(rankMovers(movers, 'absolute', 'change').map(m => m.marketId)).toEqual([2, 3, 1, 4])
+    expect(rankMovers(movers, 'absolute', 'zscore').map(m => m.marketId)).toEqual([1, 2, 4])
+  })
+
+  it('should include open categorical outcomes only when asked', () => {
+    const parent = market(10, {
+      marketType: 1,
+      yesTokenId: '',
+      noTokenId: '',
+      childMarkets: [market(11), market(12, { cutoffAt: NOW - 60 })]
+    })
+
+    expect(collectMoverCandidates([market(1), parent], false, NOW).map(c => c.market.id)).toEqual([1])
+    expect(collectMoverCandidates([market(1), parent], true, NOW)).toEqual([
+      { market: market(1) },
+      { market: { ...market(11), title: 'Market 10: Market 11' }, parentMarketId: 10 }
+    ])
+  })
+
+  describe('API route', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(async () => {
+      cache.clear()
+      vi.mocked(opinionClient.getMarkets).mockReset()
+      vi.mocked(opinionClient.getLatestPrice).mockReset()
+      vi.mocked(opinionClient.getPriceHistory).mockReset()
+
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+
+      const now = Math.floor(Date.now() / 1000)
+      const toStored = (entry: Market): MarketData => ({
+        ...entry,
+        id: String(entry.id),
+        cutoffAt: now + 86400,
+        childMarkets: JSON.stringify((entry.childMarkets || []).map(child => ({ ...child, cutoffAt: now + 86400 })))
+      })
+      const stored = [
+        market(1),
+        market(2),
+        market(10, { marketType: 1, yesTokenId: '', noTokenId: '', childMarkets: [market(11)] })
+      ].map(toStored)
+
+      await client.setMarketSnapshot(stored, prices([
+        ['yes-1', '0.6'], ['no-1', '0.4'],
+        ['yes-2', '0.3'], ['no-2', '0.7'],
+        ['yes-11', '0.8'], ['no-11', '0.2']
+      ], Date.now()))
+      await client.indexMarkets(stored)
+      await client.set(REDIS_KEYS.LAST_SYNC, String(Date.now()))
+
+      // 30 minutes ago every token traded at 0.5
+      const halfHourAgo = prices(['1', '2', '11'].flatMap(id => [[`yes-${id}`, '0.5'], [`no-${id}`, '0.5']] as Array<[string, string]>))
+      await client.appendPriceSeries([...halfHourAgo.values()], now - 1800)
+    })
+
+    const get = (query: string) => moversGET(new NextRequest(`http://localhost/api/markets/movers?${query}`))
+
+    it('should compute movers from synced series without upstream calls', async () => {
+      const response = await get('timeframe=15m')
+      const data: MarketMover[] = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.map(m => [m.marketId, Number(m.priceChangePct.toFixed(2))])).toEqual([[1, 0.2], [2, -0.4]])
+      expect(opinionClient.getMarkets).not.toHaveBeenCalled()
+      expect(opinionClient.getPriceHistory).not.toHaveBeenCalled()
+    })
+
+    it('should apply direction, children and volume filters', async () => {
+      const losers: MarketMover[] = await (await get('timeframe=4h&direction=losers')).json()
+      const withChildren: MarketMover[] = await (await get('timeframe=7d&direction=absolute&children=1')).json()
+      const busy: MarketMover[] = await (await get('minVolume=150&children=true')).json()
+
+      expect(losers.map(m => m.marketId)).toEqual([2])
+      expect(withChildren.map(m => [m.marketId, m.parentMarketId])).toEqual([[11, 10], [2, undefined], [1, undefined]])
+      expect(busy.map(m => m.marketId)).toEqual([11, 2])
+    })
+
+    it('should exclude markets without synced liquidity under a liquidity floor', async () => {
+      const data: MarketMover[] = await (await get('minLiquidity=1')).json()
+
+      expect(data).toEqual([])
+    })
+
+    it('should validate the options', async () => {
+      expect((await get('timeframe=2h')).status).toBe(400)
+      expect((await get('direction=up')).status).toBe(400)
+      expect((await get('rank=volume')).status).toBe(400)
+      expect((await get('minVolume=-1')).status).toBe(400)
+      expect((await get('limit=0')).status).toBe(400)
+    })
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as diagnosticsGET } from '@/app/api/diagnostics/route'
+import { OpinionClient } from '@/lib/opinionClient'
+import { getSchemaDiagnostics, resetSchemaDiagnostics } from '@/lib/opinionSchemas'
+import { z } from 'zod'
+import { numeric, optional, safeParse } from '@/lib/schema'
+import { DiagnosticsResponse } from '@/lib/types'
+
+const json = (body: unknown) => new Response(JSON.stringify(body))
+
+const market = (id: number, extra: Record<string, unknown> = {}) => ({
+  marketId: id,
+  marketTitle: `Market ${id}`,
+  yesTokenId: `yes-${id}`,
+  noTokenId: `no-${id}`,
+  cutoffAt: 1_700_000_000,
+  statusEnum: 'Activated',
+  volume24h: '1234.5',
+  marketType: 0,
+  ...extra
+})
+
+const stats = (endpoint: string) => getSchemaDiagnostics().endpoints.find(entry => entry.endpoint === endpoint)!
+
+describe('Opinion response schemas', () => {
+  it('should parse typed values and report the first offending path', () => {
+    const schema = z.object({
+      list: z.array(z.object({ price: numeric(), label: optional(z.string()), id: z.union([z.string(), z.number()]) }))
+    })
+
+    expect(safeParse(schema, { list: [{ price: 0.5, id: 1, extra: true }, { price: ' 0.25 ', label: null, id: 'a' }] })).toEqual({
+      success: true,
+      data: { list: [{ price: '0.5', label: undefined, id: 1 }, { price: '0.25', label: undefined, id: 'a' }] }
+    })
+
+    const failed = safeParse(schema, { list: [{ price: '0.5', id: 1 }, { price: 'n/a', id: 2 }] })
+    expect(failed.success).toBe(false)
+    if (!failed.success) {
+      expect([failed.error.path, failed.error.message]).toEqual(['list[1].price', 'list[1].price: expected numeric string, received string'])
+    }
+    expect(safeParse(schema, { list: {} }).success).toBe(false)
+  })
+
+  describe('OpinionClient boundary', () => {
+    let fetchMock: ReturnType<typeof vi.fn>
+    let client: OpinionClient
+
+    beforeEach(() => {
+      resetSchemaDiagnostics()
+      fetchMock = vi.fn()
+      vi.stubGlobal('fetch', fetchMock)
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      client = new OpinionClient()
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      vi.restoreAllMocks()
+    })
+
+    it('should count a drifted price instead of reading it as a price', async () => {
+      fetchMock
+        .mockResolvedValueOnce(json({ code: 0, result: { tokenId: 'a', price: '0.42', timestamp: 1_700_000_000_000 } }))
+        .mockResolvedValueOnce(json({ code: 0, result: { tokenId: 'b', lastPrice: '0.42', timestamp: 1_700_000_000_000 } }))
+        .mockResolvedValueOnce(json({ code: 500, msg: 'token not found', result: null }))
+
+      expect(await client.getLatestPrice('a')).toEqual({ tokenId: 'a', price: '0.42', timestamp: 1_700_000_000_000, status: 'ok', source: 'live' })
+      expect((await client.getLatestPrice('b')).price).toBe('0')
+      expect((await client.getLatestPrice('c')).price).toBe('0')
+
+      // API errors are not schema drift
+      expect(stats('latestPrice')).toMatchObject({ validated: 2, violations: 1 })
+      expect(stats('latestPrice').samples[0]).toMatchObject({ path: 'result.price', sample: expect.stringContaining('lastPrice') })
+      // Samples keep field names and types only
+      expect(stats('latestPrice').samples[0].sample).not.toContain('0.42')
+      expect(JSON.parse(stats('latestPrice').samples[0].sample)).toEqual({ code: 'number', result: { tokenId: 'string', lastPrice: 'string', timestamp: 'number' } })
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('[OpinionSchema] latestPrice response violates schema: result.price'))
+    })
+
+    it('should drop drifted list items and keep the rest of the page', async () => {
+      fetchMock.mockResolvedValueOnce(json({
+        code: 0,
+        result: {
+          total: 2,
+          list: [
+            market(1, { childMarkets: [{ marketId: 11, marketTitle: 'A', yesTokenId: 'y11', noTokenId: 'n11', volume: 50 }] }),
+            market(2, { marketId: '2' })
+          ]
+        }
+      }))
+
+      const { markets, total, failed } = await client.getMarkets(1, 3, 2)
+
+      expect([total, failed]).toEqual([2, true])
+      expect(markets).toHaveLength(1)
+      expect(markets[0]).toMatchObject({ id: 1, status: 'Activated', volume24h: '1234.5', childMarkets: [{ id: 11, volume24h: '50', status: 'unknown' }] })
+      expect(stats('markets')).toMatchObject({ validated: 3, violations: 1 })
+      expect(stats('markets').samples[0].path).toBe('marketId')
+    })
+
+    it('should serve violation counts from the diagnostics endpoint', async () => {
+      fetchMock.mockImplementation(async () => json({ code: 0, result: { bids: [{ price: '0.5', size: '10' }], asks: 'none' } }))
+      expect(await client.getOrderbook('a')).toBeNull()
+      expect(await client.getOrderbook('b')).toBeNull()
+
+      const data: DiagnosticsResponse = await (await diagnosticsGET(new NextRequest('http://localhost/api/diagnostics'))).json()
+
+      expect(data.totalViolations).toBe(2)
+      expect(data.schema.find(entry => entry.endpoint === 'orderbook')).toMatchObject({ validated: 2, violations: 2 })
+      expect(data.schema.map(entry => entry.endpoint)).toEqual(['markets', 'marketDetail', 'latestPrice', 'priceHistory', 'orderbook', 'positions', 'trades'])
+      expect(console.warn).toHaveBeenCalledTimes(1) // logged once per path
+    })
+  })
+})
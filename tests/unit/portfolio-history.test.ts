@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as historyGET } from '@/app/api/user/portfolio/history/route'
+import { GET as walletsGET, POST as walletsPOST, DELETE as walletsDELETE } from '@/app/api/user/portfolio/wallets/route'
+import { buildHistorySeries, recordPortfolioSnapshots, snapshotWallet } from '@/lib/portfolioHistory'
+import { InMemoryRedisClient } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { PortfolioHistoryPoint, PriceData, UserPosition } from '@/lib/types'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getUserPositions: vi.fn()
+  }
+}))
+
+const WALLET = '0x' + 'a'.repeat(40)
+
+const position = (tokenId: string, shares: number, averageCost: number): UserPosition => ({
+  tokenId,
+  marketId: 1,
+  marketTitle: 'Market 1',
+  outcome: 'YES',
+  sharesOwned: String(shares),
+  averageCost: String(averageCost),
+  currentValueInQuoteToken: '0',
+  unrealizedPnl: '0',
+  unrealizedPnlPercent: '0'
+})
+
+const prices = (entries: Array<[string, string]>): Map<string, PriceData> =>
+  new Map(entries.map(([tokenId, price]) => [tokenId, { tokenId, price, timestamp: 0 }]))
+
+const point = (t: number, value: number, unrealizedPnl: number, realizedPnl = 0): PortfolioHistoryPoint =>
+  ({ t, value, costBasis: value - unrealizedPnl, unrealizedPnl, realizedPnl, positions: 1 })
+
+describe('Portfolio history', () => {
+  it('should value a snapshot and estimate realized PnL from sold shares', () => {
+    const first = snapshotWallet(WALLET, [position('yes-1', 100, 0.4), position('yes-2', 10, 0.5)], prices([['yes-1', '0.5'], ['yes-2', '0.5']]), null, 1000)
+    expect(first.point).toEqual({ t: 1000, value: 55, costBasis: 45, unrealizedPnl: 10, realizedPnl: 0, positions: 2 })
+
+    // Sold 40 of yes-1 at 0.6 (+8), yes-2 disappeared and is no longer quoted: last seen 0.5 (0)
+    const second = snapshotWallet(WALLET, [position('yes-1', 60, 0.4)], prices([['yes-1', '0.6']]), first.state, 2000)
+    expect(second.point).toMatchObject({ value: 36, unrealizedPnl: 12, realizedPnl: 8, positions: 1 })
+    expect(second.state.tokens).toEqual({ 'yes-1': { shares: 60, averageCost: 0.4, price: 0.6 } })
+
+    // yes-1 resolved to 0 and was redeemed: the 60 shares exit at 0, not at the last seen 0.6
+    const third = snapshotWallet(WALLET, [], prices([['yes-1', '0']]), second.state, 3000)
+    expect(third.point).toMatchObject({ value: 0, realizedPnl: -16 })
+  })
+
+  it('should sum wallets per snapshot and measure drawdown on total PnL', () => {
+    const { points, maxDrawdown, maxDrawdownPct } = buildHistorySeries([
+      [point(1, 100, 10), point(2, 100, 20), point(3, 100, 5)],
+      [point(2, 50, 0), point(3, 50, -5)]
+    ])
+
+    expect(points.map(p => [p.t, p.value, p.totalPnl, p.drawdown])).toEqual([
+      [1, 100, 10, 0],
+      [2, 150, 20, 0],
+      [3, 150, 0, 20]
+    ])
+    expect(maxDrawdown).toBe(20)
+    expect(maxDrawdownPct).toBeCloseTo(13.33, 2) // 20 of 150 cost basis
+  })
+
+  it('should carry a wallet over a round its snapshot failed', () => {
+    const { points, maxDrawdown } = buildHistorySeries([
+      [point(1, 100, 10), point(3, 100, 10)],
+      [point(1, 50, 5), point(2, 50, 5), point(3, 50, 5)]
+    ])
+
+    expect(points.map(p => [p.t, p.value, p.totalPnl])).toEqual([[1, 150, 15], [2, 150, 15], [3, 150, 15]])
+    expect(maxDrawdown).toBe(0)
+  })
+
+  describe('tracking', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(() => {
+      cache.clear()
+      vi.mocked(opinionClient.getUserPositions).mockReset()
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+    })
+
+    it('should record snapshots for tracked wallets and carry state forward', async () => {
+      await client.addTrackedWallets([WALLET])
+      vi.mocked(opinionClient.getUserPositions)
+        .mockResolvedValueOnce([position('yes-1', 100, 0.4)])
+        .mockResolvedValueOnce([])
+
+      const now = Date.now()
+      expect(await recordPortfolioSnapshots(prices([['yes-1', '0.5']]), now - 1000)).toBe(1)
+      expect(await recordPortfolioSnapshots(prices([['yes-1', '0.7']]), now)).toBe(1)
+
+      const history = await client.getPortfolioHistory(WALLET, 0, now)
+      expect(history.map(p => p.realizedPnl)).toEqual([0, 30])
+    })
+
+    it('should register wallets and serve their history', async () => {
+      const added = await walletsPOST(new NextRequest('http://localhost/api/user/portfolio/wallets', {
+        method: 'POST',
+        body: JSON.stringify({ address: WALLET.toUpperCase().replace('0X', '0x') })
+      }))
+      expect(added.status).toBe(201)
+      expect(await (await walletsGET(new NextRequest('http://localhost/api/user/portfolio/wallets'))).json()).toEqual({ wallets: [WALLET] })
+
+      const now = Date.now()
+      await client.appendPortfolioSnapshot(WALLET, point(now - 60000, 100, 10), { realizedPnl: 0, tokens: {} }, 86400)
+
+      const response = await historyGET(new NextRequest(`http://localhost/api/user/portfolio/history?address=${WALLET}&range=24h`))
+      const data = await response.json()
+      expect(data).toMatchObject({ wallets: [WALLET], untracked: [], range: '24h' })
+      expect(data.points).toHaveLength(1)
+
+      expect((await historyGET(new NextRequest(`http://localhost/api/user/portfolio/history?address=${WALLET}&range=1y`))).status).toBe(400)
+
+      const removed = await walletsDELETE(new NextRequest(`http://localhost/api/user/portfolio/wallets?address=${WALLET}`))
+      expect(removed.status).toBe(200)
+      expect((await walletsDELETE(new NextRequest(`http://localhost/api/user/portfolio/wallets?address=${WALLET}`))).status).toBe(404)
+    })
+  })
+})
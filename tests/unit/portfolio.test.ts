@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as portfolioGET } from '@/app/api/user/portfolio/route'
+import { buildPortfolio, parseWalletAddresses, valuePosition } from '@/lib/portfolio'
+import { InMemoryRedisClient, REDIS_KEYS } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { PriceData, UserPosition } from '@/lib/types'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getUserPositions: vi.fn(),
+    getMultiplePrices: vi.fn()
+  }
+}))
+
+const WALLET_A = '0x' + 'a'.repeat(40)
+const WALLET_B = '0x' + 'b'.repeat(40)
+
+const position = (
+  tokenId: string,
+  marketId: number,
+  outcome: 'YES' | 'NO',
+  shares: number,
+  averageCost: number,
+  rootMarketTitle?: string
+): UserPosition => ({
+  tokenId,
+  marketId,
+  marketTitle: `Market ${marketId}`,
+  rootMarketTitle,
+  outcome,
+  sharesOwned: String(shares),
+  averageCost: String(averageCost),
+  currentValueInQuoteToken: String(shares * averageCost),
+  unrealizedPnl: '0',
+  unrealizedPnlPercent: '0'
+})
+
+const prices = (entries: Array<[string, string]>): Map<string, PriceData> =>
+  new Map(entries.map(([tokenId, price]) => [tokenId, { tokenId, price, timestamp: 0 }]))
+
+describe('Portfolio analytics', () => {
+  it('should validate and dedupe wallet addresses', () => {
+    expect(parseWalletAddresses(`${WALLET_A}, ${WALLET_A.toUpperCase().replace('0X', '0x')},${WALLET_B}`)).toHaveLength(2)
+    expect(() => parseWalletAddresses('')).toThrow('Missing address')
+    expect(() => parseWalletAddresses('0x123')).toThrow('Invalid wallet address')
+  })
+
+  it('should value positions at the quoted price and fall back to the reported value', () => {
+    const quoted = valuePosition(WALLET_A, position('yes-1', 1, 'YES', 100, 0.4), prices([['yes-1', '0.6']]), 'snapshot')
+    expect(quoted).toMatchObject({ shares: 100, price: 0.6, priceSource: 'snapshot', costBasis: 40, value: 60, pnl: 20, pnlPct: 50 })
+
+    const reported = valuePosition(WALLET_A, { ...position('no-1', 1, 'NO', 50, 0.5), currentValueInQuoteToken: '20' }, new Map(), 'live')
+    expect(reported).toMatchObject({ price: 0.4, priceSource: 'position', value: 20, pnl: -5 })
+
+    // A failed fetch is priced at 0 but is not a quote; a real zero price is
+    const failed = new Map([['yes-1', { tokenId: 'yes-1', price: '0', timestamp: 0, status: 'error' as const }]])
+    expect(valuePosition(WALLET_A, position('yes-1', 1, 'YES', 100, 0.4), failed, 'snapshot')).toMatchObject({ price: 0.4, priceSource: 'position', value: 40 })
+    expect(valuePosition(WALLET_A, position('yes-1', 1, 'YES', 100, 0.4), prices([['yes-1', '0']]), 'live')).toMatchObject({ price: 0, priceSource: 'live', value: 0 })
+  })
+
+  it('should roll positions up into markets, categorical parents, payouts and concentration', () => {
+    const quotes = prices([['yes-1', '0.6'], ['no-1', '0.4'], ['yes-2', '0.5'], ['no-3', '0.7']])
+    const positions = [
+      valuePosition(WALLET_A, position('yes-1', 1, 'YES', 100, 0.5), quotes, 'snapshot'),
+      valuePosition(WALLET_B, position('no-1', 1, 'NO', 50, 0.4), quotes, 'snapshot'),
+      valuePosition(WALLET_A, position('yes-2', 2, 'YES', 100, 0.3, 'Who wins?'), quotes, 'snapshot'),
+      valuePosition(WALLET_A, position('no-3', 3, 'NO', 100, 0.6, 'Who wins?'), quotes, 'snapshot')
+    ]
+
+    const portfolio = buildPortfolio(positions)
+
+    // Market 1: cost 50 + 20 = 70, value 60 + 20 = 80
+    expect(portfolio.markets.find(market => market.marketId === 1)).toMatchObject({
+      costBasis: 70,
+      value: 80,
+      positions: 2,
+      payouts: [{ outcome: 'YES', payout: 100, pnl: 30 }, { outcome: 'NO', payout: 50, pnl: -20 }]
+    })
+
+    // Parent: cost 30 + 60 = 90, value 50 + 70 = 120
+    expect(portfolio.parents).toEqual([expect.objectContaining({
+      key: 'Who wins?',
+      costBasis: 90,
+      value: 120,
+      payouts: [
+        { outcome: 'Market 2', payout: 200, pnl: 110 },
+        { outcome: 'Market 3', payout: 0, pnl: -90 },
+        { outcome: 'Any other outcome', payout: 100, pnl: 10 }
+      ]
+    })])
+
+    expect(portfolio.totals).toEqual({ costBasis: 160, value: 200, pnl: 40, pnlPct: 25, positions: 4 })
+    // Two bets: 80/200 and 120/200
+    expect(portfolio.concentration).toEqual({ hhi: 0.52, largestPct: 60 })
+  })
+
+  describe('GET /api/user/portfolio', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(async () => {
+      cache.clear()
+      vi.mocked(opinionClient.getUserPositions).mockReset()
+      vi.mocked(opinionClient.getMultiplePrices).mockReset()
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+
+      await client.setPrice('yes-1', { tokenId: 'yes-1', price: '0.6', timestamp: Date.now() })
+      await client.set(REDIS_KEYS.LAST_SYNC, String(Date.now()))
+    })
+
+    it('should combine wallets using synced prices and live prices for uncovered tokens', async () => {
+      vi.mocked(opinionClient.getUserPositions).mockImplementation(async wallet =>
+        wallet === WALLET_A ? [position('yes-1', 1, 'YES', 100, 0.5)] : [position('yes-9', 9, 'YES', 10, 0.5)])
+      vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(prices([['yes-9', '0.8']]))
+
+      const response = await portfolioGET(new NextRequest(`http://localhost/api/user/portfolio?address=${WALLET_A},${WALLET_B}`))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.wallets).toEqual([WALLET_A, WALLET_B])
+      expect(data.positions.map((p: { priceSource: string }) => p.priceSource)).toEqual(['snapshot', 'live'])
+      expect(data.totals).toMatchObject({ value: 68, costBasis: 55 })
+      expect(opinionClient.getMultiplePrices).toHaveBeenCalledWith(['yes-9'])
+    })
+
+    it('should report failing wallets without failing the portfolio', async () => {
+      vi.mocked(opinionClient.getUserPositions).mockImplementation(async wallet => {
+        if (wallet === WALLET_B) throw new Error('upstream down')
+        return [position('yes-1', 1, 'YES', 100, 0.5)]
+      })
+
+      const response = await portfolioGET(new NextRequest(`http://localhost/api/user/portfolio?address=${WALLET_A},${WALLET_B}`))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.errors).toEqual([{ wallet: WALLET_B, message: 'upstream down' }])
+      expect(data.totals.positions).toBe(1)
+
+      // The failed wallet is not cached as empty; the healthy one comes from the positions cache
+      await portfolioGET(new NextRequest(`http://localhost/api/user/portfolio?address=${WALLET_A},${WALLET_B}`))
+      expect(vi.mocked(opinionClient.getUserPositions).mock.calls.map(([wallet]) => wallet)).toEqual([WALLET_A, WALLET_B, WALLET_B])
+    })
+
+    it('should quote tokens the sync failed to price live', async () => {
+      await client.setPrice('yes-1', { tokenId: 'yes-1', price: '0', timestamp: Date.now(), status: 'error' })
+      vi.mocked(opinionClient.getUserPositions).mockResolvedValue([position('yes-1', 1, 'YES', 100, 0.5)])
+      vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(prices([['yes-1', '0.7']]))
+
+      const data = await (await portfolioGET(new NextRequest(`http://localhost/api/user/portfolio?address=${WALLET_A}`))).json()
+
+      expect(opinionClient.getMultiplePrices).toHaveBeenCalledWith(['yes-1'])
+      expect(data.positions[0]).toMatchObject({ price: 0.7, priceSource: 'live', value: 70 })
+    })
+
+    it('should reject invalid addresses', async () => {
+      expect((await portfolioGET(new NextRequest('http://localhost/api/user/portfolio?address=abc'))).status).toBe(400)
+    })
+  })
+})
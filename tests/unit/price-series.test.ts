@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  createRedisClient,
+  getSeriesTiers,
+  selectSeriesTier,
+  seriesBucketStart,
+  encodeSeriesMember,
+  decodeSeriesMember,
+  REDIS_KEYS,
+  SeriesTier
+} from '../../lib/redis'
+
+// Pipeline mock that records every queued command
+const pipelineCommands: Array<[string, ...unknown[]]> = []
+let pipelineResults: unknown[] = []
+
+const createPipeline = () => {
+  const pipeline: Record<string, unknown> = {}
+  ;['zadd', 'zremrangebyscore', 'zrange'].forEach(command => {
+    pipeline[command] = vi.fn((...args: unknown[]) => {
+      pipelineCommands.push([command, ...args])
+      return pipeline
+    })
+  })
+  pipeline.exec = vi.fn(async () => pipelineResults)
+  return pipeline
+}
+
+vi.mock('@upstash/redis', () => ({
+  Redis: vi.fn(() => ({
+    pipeline: vi.fn(() => createPipeline())
+  }))
+}))
+
+const tiers: SeriesTier[] = [
+  { resolution: 'raw', bucketSeconds: 0, retentionSeconds: 86400 },
+  { resolution: '5m', bucketSeconds: 300, retentionSeconds: 7 * 86400 },
+  { resolution: '1h', bucketSeconds: 3600, retentionSeconds: 90 * 86400 }
+]
+
+describe('Price time series', () => {
+  beforeEach(() => {
+    pipelineCommands.length = 0
+    pipelineResults = []
+    process.env.UPSTASH_REDIS_REST_URL = 'https://test-redis.upstash.io'
+    process.env.UPSTASH_REDIS_REST_TOKEN = 'test-token'
+  })
+
+  describe('Tier helpers', () => {
+    it('should read retention from environment variables', () => {
+      process.env.PRICE_SERIES_RAW_RETENTION_HOURS = '6'
+      const envTiers = getSeriesTiers()
+      delete process.env.PRICE_SERIES_RAW_RETENTION_HOURS
+
+      expect(envTiers.map(tier => tier.resolution)).toEqual(['raw', '5m', '1h'])
+      expect(envTiers[0].retentionSeconds).toBe(6 * 3600)
+      expect(envTiers[1].retentionSeconds).toBe(7 * 86400)
+    })
+
+    it('should select the finest tier whose retention covers the query start', () => {
+      const now = 1_700_000_000
+      expect(selectSeriesTier({ from: now - 3600 }, tiers, now).resolution).toBe('raw')
+      expect(selectSeriesTier({ from: now - 3 * 86400 }, tiers, now).resolution).toBe('5m')
+      expect(selectSeriesTier({ from: now - 30 * 86400 }, tiers, now).resolution).toBe('1h')
+      expect(selectSeriesTier({ from: now - 365 * 86400 }, tiers, now).resolution).toBe('1h')
+      expect(selectSeriesTier({ resolution: '5m' }, tiers, now).resolution).toBe('5m')
+    })
+
+    it('should align timestamps to bucket starts', () => {
+      expect(seriesBucketStart(1_700_000_123, tiers[0])).toBe(1_700_000_123)
+      expect(seriesBucketStart(1_700_000_123, tiers[1])).toBe(1_700_000_100)
+      expect(seriesBucketStart(1_700_000_123, tiers[2])).toBe(1_699_999_200)
+    })
+
+    it('should round-trip series members', () => {
+      expect(decodeSeriesMember(encodeSeriesMember(1_700_000_000, '0.625'))).toEqual({ t: 1_700_000_000, p: '0.625' })
+      expect(decodeSeriesMember('garbage')).toBeNull()
+    })
+  })
+
+  describe('UpstashRedisClient', () => {
+    it('should append each price to every tier and trim by retention', async () => {
+      const client = createRedisClient()
+      const timestamp = 1_700_000_123
+
+      await client.appendPriceSeries([{ tokenId: 'tok-1', price: '0.55', timestamp: 0 }], timestamp, tiers)
+
+      const fiveMinuteKey = REDIS_KEYS.PRICE_SERIES('tok-1', '5m')
+      expect(pipelineCommands).toContainEqual(['zremrangebyscore', fiveMinuteKey, 1_700_000_100, 1_700_000_100])
+      expect(pipelineCommands).toContainEqual(['zadd', fiveMinuteKey, { score: 1_700_000_100, member: '1700000100:0.55' }])
+      expect(pipelineCommands).toContainEqual(['zremrangebyscore', fiveMinuteKey, '-inf', timestamp - 7 * 86400 - 1])
+      expect(pipelineCommands.filter(([command]) => command === 'zadd')).toHaveLength(3)
+    })
+
+    it('should query series for many tokens in one pipeline', async () => {
+      const client = createRedisClient()
+      pipelineResults = [['100:0.5', '130:0.52'], []]
+
+      const series = await client.getPriceSeriesBatch(['tok-1', 'tok-2'], { from: 100, to: 200, resolution: 'raw' })
+
+      expect(pipelineCommands).toEqual([
+        ['zrange', REDIS_KEYS.PRICE_SERIES('tok-1', 'raw'), 100, 200, { byScore: true }],
+        ['zrange', REDIS_KEYS.PRICE_SERIES('tok-2', 'raw'), 100, 200, { byScore: true }]
+      ])
+      expect(series.get('tok-1')).toEqual([{ t: 100, p: '0.5' }, { t: 130, p: '0.52' }])
+      expect(series.get('tok-2')).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as marketsListGET } from '@/app/api/markets/list/route'
+import { GET as endingSoonGET } from '@/app/api/markets/ending-soon/route'
+import { combinedPriceStatus, knownPrice } from '@/lib/prices'
+import { computeMover } from '@/lib/movers'
+import { SyncService } from '@/lib/sync'
+import { InMemoryRedisClient } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { EndingSoonMarket, Market, MarketListResponse, PriceData } from '@/lib/types'
+import { buildMarket, memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getMarkets: vi.fn(),
+    getMultiplePrices: vi.fn()
+  }
+}))
+
+const NOW = 1_700_000_000_000
+
+const market = (id: number): Market => buildMarket(id, { cutoffAt: NOW / 1000 + 3600, volume24h: String(id * 1000) })
+
+const ok = (tokenId: string, price: string): PriceData => ({ tokenId, price, timestamp: NOW, status: 'ok', source: 'live' })
+const failed = (tokenId: string, status: 'error' | 'missing' = 'error'): PriceData =>
+  ({ tokenId, price: '0', timestamp: NOW, status, source: 'live' })
+
+const priceMap = (entries: PriceData[]) => new Map(entries.map(priceData => [priceData.tokenId, priceData]))
+
+describe('Price status', () => {
+  it('should tell failed fetches apart from zero prices', async () => {
+    const { OpinionClient } = await vi.importActual<typeof import('@/lib/opinionClient')>('@/lib/opinionClient')
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ code: 0, result: { price: '0', timestamp: NOW } })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ code: 0, result: null })))
+      .mockRejectedValueOnce(new Error('socket hang up')))
+
+    const client = new OpinionClient()
+    const [zero, missing, error] = [await client.getLatestPrice('a'), await client.getLatestPrice('b'), await client.getLatestPrice('c')]
+
+    expect([zero.status, zero.source, knownPrice(zero)]).toEqual(['ok', 'live', 0])
+    expect([missing.status, knownPrice(missing)]).toEqual(['missing', null])
+    expect([error.status, error.price, knownPrice(error)]).toEqual(['error', '0', null])
+    expect(knownPrice({ tokenId: 'legacy', price: '0.4', timestamp: NOW })).toBe(0.4)
+
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should combine row statuses and flag stale movers', () => {
+    expect(combinedPriceStatus([ok('a', '0.5'), { ...ok('b', '0.5'), status: 'stale' }])).toBe('stale')
+    expect(combinedPriceStatus([{ ...ok('a', '0.5'), status: 'stale' }, failed('b')])).toBe('error')
+    expect(combinedPriceStatus([ok('a', '0.5'), undefined])).toBe('missing')
+
+    const candidate = { market: market(1) }
+    expect(computeMover(candidate, priceMap([failed('yes-1'), ok('no-1', '0.5')]), new Map(), 3600, NOW / 1000)).toBeNull()
+    expect(computeMover(candidate, priceMap([{ ...ok('yes-1', '0.4'), status: 'stale' }, ok('no-1', '0.6')]), new Map(), 3600, NOW / 1000))
+      .toMatchObject({ yesPrice: 0.4, noPrice: 0.6, priceStatus: 'stale' })
+    // NO derived from YES carries the NO side's status
+    expect(computeMover(candidate, priceMap([ok('yes-1', '0.4'), failed('no-1')]), new Map(), 3600, NOW / 1000))
+      .toMatchObject({ noPrice: 0.6, priceStatus: 'error' })
+    expect(computeMover(candidate, priceMap([ok('yes-1', '0.4')]), new Map(), 3600, NOW / 1000))
+      .toMatchObject({ noPrice: 0.6, priceStatus: 'missing' })
+    expect(computeMover(candidate, priceMap([ok('yes-1', '0.4'), ok('no-1', '0.6')]), new Map(), 3600, NOW / 1000))
+      .not.toHaveProperty('priceStatus')
+  })
+
+  describe('sync and routes', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(() => {
+      cache.clear()
+      vi.mocked(opinionClient.getMarkets).mockReset()
+      vi.mocked(opinionClient.getMultiplePrices).mockReset()
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should carry failed prices over as stale and keep unknown ones out of the feeds', async () => {
+      const service = new SyncService({ liquidityMarkets: 0, volatilityMarkets: 0, portfolioIntervalSeconds: 0, resolutionMarkets: 0, tradeMarkets: 0 })
+      const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(NOW)
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [market(1), market(2)], total: 2, failed: false })
+      vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(priceMap([ok('yes-1', '0.4'), ok('no-1', '0.6'), ok('yes-2', '0.7'), ok('no-2', '0.3')]))
+      await service.performSync()
+
+      nowSpy.mockReturnValue(NOW + 30000)
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [market(1), market(2), market(3)], total: 3, failed: false })
+      vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(priceMap([
+        failed('yes-1'), ok('no-1', '0.65'), ok('yes-2', '0.72'), ok('no-2', '0.28'), failed('yes-3', 'missing'), failed('no-3')
+      ]))
+      const result = await service.performSync()
+
+      expect(result.pricesUpdated).toBe(3)
+      expect(await client.getPrice('yes-1')).toMatchObject({ price: '0.4', status: 'stale', source: 'cache', timestamp: NOW })
+      // Never-priced tokens leave no placeholder behind
+      expect(await client.getPrice('yes-3')).toBeNull()
+      expect(await client.getPrice('no-3')).toBeNull()
+      // Only fresh prices reach the time series
+      expect((await client.getPriceSeries('yes-1')).map(point => point.p)).toEqual(['0.4'])
+      expect(await client.getPriceSeries('yes-3')).toEqual([])
+
+      const list: MarketListResponse = await (await marketsListGET(new NextRequest('http://localhost/api/markets/list?page=1'))).json()
+      expect(list.markets.map(row => [row.id, row.yesPrice, row.noPrice, row.priceStatus])).toEqual([
+        [3, null, null, 'missing'],
+        [2, 0.72, 0.28, undefined],
+        [1, 0.4, 0.65, 'stale']
+      ])
+
+      const endingSoon: EndingSoonMarket[] = await (await endingSoonGET(new NextRequest('http://localhost/api/markets/ending-soon?hours=24'))).json()
+      expect(endingSoon.map(row => [row.marketId, row.yesPrice, row.priceStatus])).toEqual([[1, 0.4, 'stale'], [2, 0.72, undefined]])
+    })
+  })
+})
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as streamGET } from '@/app/api/stream/route'
+import { buildTokenMarketIndex, diffBooks, diffPrices, filterStreamEvent, formatSSE, bookSignature, streamPoller } from '@/lib/stream'
+import { applyHistoryDeltas, applyPriceDeltas } from '@/lib/usePriceStream'
+import { InMemoryRedisClient } from '@/lib/redis'
+import { SyncService } from '@/lib/sync'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { Market, Orderbook, PriceData, StreamEvent } from '@/lib/types'
+import { buildMarket, memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getMarkets: vi.fn(),
+    getMultiplePrices: vi.fn(),
+    getOrderbook: vi.fn()
+  }
+}))
+
+const market = (id: number, childMarkets?: Market[]): Market => buildMarket(id, { marketType: childMarkets ? 1 : 0, childMarkets })
+
+const priceMap = (entries: Array<[string, string]>): Map<string, PriceData> =>
+  new Map(entries.map(([tokenId, price]) => [tokenId, { tokenId, price, timestamp: 0 }]))
+
+const book = (tokenId: string, bid: string, ask: string): Orderbook => ({
+  market: 'm',
+  tokenId,
+  timestamp: 0,
+  bids: [{ price: bid, size: '100' }, { price: '0.30', size: '50' }],
+  asks: [{ price: ask, size: '100' }]
+})
+
+describe('Price stream', () => {
+  describe('diffs', () => {
+    const index = buildTokenMarketIndex([market(1), market(2, [market(21)])])
+
+    it('should map child tokens to their parent market', () => {
+      expect(index.get('yes-1')).toBe(1)
+      expect(index.get('yes-21')).toBe(2)
+    })
+
+    it('should report changed prices only, ignoring unseen tokens and failed fetches', () => {
+      const previous = new Map([['yes-1', '0.5'], ['no-1', '0.5'], ['yes-21', '0.3']])
+      const prices = priceMap([['yes-1', '0.55'], ['no-1', '0.5'], ['yes-2', '0.4']])
+      prices.set('yes-21', { tokenId: 'yes-21', price: '0', timestamp: 0, status: 'error' })
+      const deltas = diffPrices(previous, prices, index)
+
+      expect(deltas).toEqual([{ marketId: 1, tokenId: 'yes-1', price: '0.55' }])
+    })
+
+    it('should report orderbooks whose top levels moved', () => {
+      const before = book('yes-1', '0.49', '0.51')
+      const previous = new Map([['yes-1', bookSignature(before)]])
+
+      expect(diffBooks(previous, new Map([['yes-1', before]]), index)).toEqual([])
+
+      const [delta] = diffBooks(previous, new Map([['yes-1', book('yes-1', '0.50', '0.51')]]), index)
+      expect(delta).toMatchObject({ marketId: 1, tokenId: 'yes-1', bestBid: 0.5, bestAsk: 0.51 })
+      expect(delta.bids.map(level => level.price)).toEqual(['0.50', '0.30'])
+    })
+  })
+
+  it('should filter events by market and format SSE frames', () => {
+    const event: StreamEvent = {
+      seq: 7,
+      prices: [{ marketId: 1, tokenId: 'yes-1', price: '0.6' }, { marketId: 2, tokenId: 'yes-2', price: '0.4' }],
+      books: []
+    }
+
+    expect(filterStreamEvent(event, new Set([2]))?.prices).toEqual([event.prices[1]])
+    expect(filterStreamEvent(event, new Set([3]))).toBeNull()
+    expect(filterStreamEvent(event, null)).toEqual(event)
+    expect(filterStreamEvent(event, null, new Set(['yes-1']))?.prices).toEqual([event.prices[0]])
+    expect(filterStreamEvent(event, new Set([2]), new Set(['yes-1']))?.prices).toEqual(event.prices)
+    expect(formatSSE('delta', { a: 1 }, 7)).toBe('id: 7\nevent: delta\ndata: {"a":1}\n\n')
+  })
+
+  it('should apply price deltas to list rows and keep unchanged rows', () => {
+    const rows = [
+      { id: 1, yesTokenId: 'yes-1', noTokenId: 'no-1', yesPrice: 0.5, noPrice: 0.5 },
+      { id: 2, yesTokenId: 'yes-2', noTokenId: 'no-2', yesPrice: 0, noPrice: 0, childMarketsPreview: [{ yesTokenId: 'yes-21', yesPrice: 0.3 }] }
+    ]
+
+    const updated = applyPriceDeltas(rows, [
+      { marketId: 1, tokenId: 'no-1', price: '0.45' },
+      { marketId: 2, tokenId: 'yes-21', price: '0.35' }
+    ])
+
+    expect(updated[0]).toMatchObject({ yesPrice: 0.5, noPrice: 0.45 })
+    expect(updated[1].childMarketsPreview).toEqual([{ yesTokenId: 'yes-21', yesPrice: 0.35 }])
+    expect(applyPriceDeltas(rows, [{ marketId: 9, tokenId: 'yes-9', price: '0.1' }])).toBe(rows)
+  })
+
+  it('should append streamed prices to cached history batches', () => {
+    const batch = { interval: '1h', histories: { 'yes-1': [{ t: 100, p: '0.5' }, { t: 200, p: '0.55' }] }, errors: {} }
+
+    expect(applyHistoryDeltas(batch, [{ marketId: 1, tokenId: 'yes-1', price: '0.6' }], 200).histories['yes-1'])
+      .toEqual([{ t: 100, p: '0.5' }, { t: 200, p: '0.6' }])
+    expect(applyHistoryDeltas(batch, [{ marketId: 2, tokenId: 'yes-2', price: '0.6' }], 300)).toBe(batch)
+  })
+
+  describe('change feed', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(() => {
+      cache.clear()
+      vi.mocked(opinionClient.getMarkets).mockReset()
+      vi.mocked(opinionClient.getMultiplePrices).mockReset()
+      vi.mocked(opinionClient.getOrderbook).mockReset()
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should keep events after a sequence within the retention window', async () => {
+      const now = Date.now()
+      await client.appendStreamEvent({ seq: now - 400000, prices: [], books: [] }, 300)
+      await client.appendStreamEvent({ seq: now - 1000, prices: [], books: [] }, 300)
+      await client.appendStreamEvent({ seq: now, prices: [], books: [] }, 300)
+
+      expect((await client.getStreamEvents(0)).map(event => event.seq)).toEqual([now - 1000, now])
+      expect((await client.getStreamEvents(now - 1000)).map(event => event.seq)).toEqual([now])
+    })
+
+    it('should publish only what changed between sync cycles', async () => {
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [market(1), market(2)], total: 2, failed: false })
+      vi.mocked(opinionClient.getOrderbook).mockImplementation(async tokenId => book(tokenId, '0.49', '0.51'))
+      vi.mocked(opinionClient.getMultiplePrices).mockResolvedValueOnce(
+        priceMap([['yes-1', '0.5'], ['no-1', '0.5'], ['yes-2', '0.4'], ['no-2', '0.6']])
+      )
+
+      const service = new SyncService({ liquidityMarkets: 1 })
+      const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000)
+      await service.performSync()
+      expect(await client.getStreamEvents(0)).toEqual([])
+
+      cache.clear()
+      vi.mocked(opinionClient.getMultiplePrices).mockResolvedValueOnce(
+        priceMap([['yes-1', '0.5'], ['no-1', '0.5'], ['yes-2', '0.45'], ['no-2', '0.55']])
+      )
+      vi.mocked(opinionClient.getOrderbook).mockImplementation(async tokenId => book(tokenId, '0.50', '0.51'))
+      nowSpy.mockReturnValue(1_700_000_030_000)
+      await service.performSync()
+
+      const events = await client.getStreamEvents(0)
+      expect(events).toHaveLength(1)
+      expect(events[0].seq).toBe(1_700_000_030_000)
+      expect(events[0].prices.map(delta => delta.tokenId).sort()).toEqual(['no-2', 'yes-2'])
+      expect(events[0].books).toEqual([expect.objectContaining({ marketId: 2, tokenId: 'yes-2', bestBid: 0.5 })])
+    })
+  })
+
+  describe('GET /api/stream', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(() => {
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+    })
+
+    it('should reject invalid market filters and report a missing Redis', async () => {
+      expect((await streamGET(new NextRequest('http://localhost/api/stream?markets=1,abc'))).status).toBe(400)
+      expect((await streamGET(new NextRequest('http://localhost/api/stream?tokens=yes-1,a%20b'))).status).toBe(400)
+
+      memoryClient.current = null
+      expect((await streamGET(new NextRequest('http://localhost/api/stream'))).status).toBe(503)
+    })
+
+    it('should stream deltas for subscribed markets after the last event id', async () => {
+      const seq = Date.now()
+      await client.appendStreamEvent({
+        seq,
+        prices: [{ marketId: 1, tokenId: 'yes-1', price: '0.6' }, { marketId: 2, tokenId: 'yes-2', price: '0.4' }],
+        books: []
+      }, 300)
+
+      const controller = new AbortController()
+      const response = await streamGET(new NextRequest('http://localhost/api/stream?markets=1', {
+        headers: { 'last-event-id': '0' },
+        signal: controller.signal
+      }))
+      expect(response.headers.get('content-type')).toBe('text/event-stream')
+
+      const reader = response.body!.getReader()
+      const decoder = new TextDecoder()
+      let received = ''
+      while (!received.includes('event: delta')) {
+        const { value, done } = await reader.read()
+        if (done) break
+        received += decoder.decode(value)
+      }
+      controller.abort()
+      await reader.cancel()
+
+      expect(received).toContain('event: ready')
+      expect(received).toContain(`id: ${seq}\nevent: delta`)
+      expect(received).toContain('"tokenId":"yes-1"')
+      expect(received).not.toContain('"tokenId":"yes-2"')
+    })
+
+    it('should feed every open stream from one shared poll', async () => {
+      const open = async (query: string) => {
+        const controller = new AbortController()
+        const response = await streamGET(new NextRequest(`http://localhost/api/stream?${query}`, { signal: controller.signal }))
+        return { controller, reader: response.body!.getReader() }
+      }
+      const readUntil = async (reader: ReadableStreamDefaultReader<Uint8Array>, text: string) => {
+        const decoder = new TextDecoder()
+        let received = ''
+        while (!received.includes(text)) {
+          const { value, done } = await reader.read()
+          if (done) break
+          received += decoder.decode(value)
+        }
+        return received
+      }
+
+      const byMarket = await open('markets=1')
+      const byToken = await open('tokens=yes-11')
+      await readUntil(byMarket.reader, 'event: ready')
+      await readUntil(byToken.reader, 'event: ready')
+      expect(streamPoller.subscriberCount).toBe(2)
+
+      await client.appendStreamEvent({
+        seq: Date.now() + 1000,
+        prices: [{ marketId: 1, tokenId: 'yes-1', price: '0.6' }, { marketId: 10, tokenId: 'yes-11', price: '0.2' }],
+        books: []
+      }, 300)
+      const reads = vi.spyOn(client, 'getStreamEvents')
+      await streamPoller.poll()
+
+      expect(reads).toHaveBeenCalledTimes(1)
+      const [marketFrames, tokenFrames] = await Promise.all([
+        readUntil(byMarket.reader, 'event: delta'),
+        readUntil(byToken.reader, 'event: delta')
+      ])
+      expect(marketFrames).toContain('"tokenId":"yes-1"')
+      expect(marketFrames).not.toContain('"tokenId":"yes-11"')
+      expect(tokenFrames).toContain('"tokenId":"yes-11"')
+      expect(tokenFrames).not.toContain('"tokenId":"yes-1"')
+
+      for (const { controller, reader } of [byMarket, byToken]) {
+        controller.abort()
+        await reader.cancel()
+      }
+      expect(streamPoller.subscriberCount).toBe(0)
+    })
+  })
+})
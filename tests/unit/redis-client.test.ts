@@ -143,6 +143,20 @@ describe('Redis Client', () => {
       expect(result).toEqual(testPrice)
     })
 
+    it('should read prices Upstash returns already parsed', async () => {
+      mockRedis.get.mockResolvedValue(testPrice)
+      expect(await redisClient.getPrice(testPrice.tokenId)).toEqual(testPrice)
+
+      const other: PriceData = { tokenId: 'test-token-2', price: '0.35', timestamp: testPrice.timestamp, status: 'stale' }
+      const pipeline = { get: vi.fn(), exec: vi.fn().mockResolvedValue([testPrice, JSON.stringify(other), null]) }
+      mockRedis.pipeline.mockReturnValueOnce(pipeline as unknown as ReturnType<typeof mockRedis.pipeline>)
+
+      const prices = await redisClient.getPrices([testPrice.tokenId, other.tokenId, 'non-existent'])
+
+      expect(pipeline.get).toHaveBeenCalledTimes(3)
+      expect(Array.from(prices.values())).toEqual([testPrice, other])
+    })
+
     it('should return null for non-existent price', async () => {
       mockRedis.get.mockResolvedValue(null)
 
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as resolvedGET } from '@/app/api/markets/resolved/route'
+import { buildResolvedMarket, normalizeMarketStatus } from '@/lib/resolution'
+import { SyncService } from '@/lib/sync'
+import { InMemoryRedisClient } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { Market, PriceData, ResolvedMarket, ResolvedMarketsResponse } from '@/lib/types'
+import { buildMarket, memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getMarkets: vi.fn(),
+    getMultiplePrices: vi.fn(),
+    getMarketDetail: vi.fn(),
+    fetchPriceHistory: vi.fn()
+  }
+}))
+
+const NOW = 1_700_000_000
+
+const market = (id: number, extra: Partial<Market> = {}): Market =>
+  buildMarket(id, { cutoffAt: NOW + 86400, status: 'Activated', volume24h: '1000', ...extra })
+
+const priceMap = (entries: Array<[string, string]>): Map<string, PriceData> =>
+  new Map(entries.map(([tokenId, price]) => [tokenId, { tokenId, price, timestamp: NOW * 1000 }]))
+
+describe('Market resolution', () => {
+  it('should normalize Opinion status enums and codes', () => {
+    expect(['Activated', 'Resolving', 'Resolved', 'Failed', 4, '5', 'Deleted', undefined].map(normalizeMarketStatus))
+      .toEqual(['activated', 'resolving', 'resolved', 'failed', 'resolved', 'failed', 'unknown', 'unknown'])
+  })
+
+  it('should archive the winning side and the last price before cutoff', () => {
+    const tracked = market(1, { cutoffAt: NOW, yesLabel: 'Above' })
+    const path = {
+      'yes-1': [{ t: NOW - 7200, p: '0.7' }, { t: NOW - 3600, p: '0.82' }, { t: NOW + 3600, p: '0.99' }],
+      'no-1': [{ t: NOW - 3600, p: '0.18' }]
+    }
+    const archived = buildResolvedMarket(tracked, { ...tracked, status: 'Resolved', resultTokenId: 'yes-1', resolvedAt: NOW + 7200 }, path, (NOW + 9000) * 1000)
+
+    expect(archived).toMatchObject({ status: 'resolved', resolvedAt: NOW + 7200, winningTokenId: 'yes-1', winningOutcome: 'Above' })
+    expect(archived.outcomes.map(outcome => [outcome.label, outcome.finalPrice, outcome.won])).toEqual([['Above', 0.82, true], ['NO', 0.18, false]])
+
+    const failed = buildResolvedMarket(tracked, { ...tracked, status: 'Failed' }, {}, (NOW + 9000) * 1000)
+    expect(failed).toMatchObject({ status: 'failed', winningTokenId: null, resolvedAt: NOW + 9000 })
+  })
+
+  it('should pick the categorical outcome whose result token is its YES token', () => {
+    const parent = market(10, { marketType: 1, yesTokenId: '', noTokenId: '', childMarkets: [market(11), market(12)] })
+    const detail = { ...parent, status: 'Resolved', childMarkets: [market(11, { resultTokenId: 'no-11' }), market(12, { resultTokenId: 'yes-12' })] }
+    const archived = buildResolvedMarket(parent, detail, {}, NOW * 1000)
+
+    expect(archived.winningOutcome).toBe('Market 12')
+    expect(archived.outcomes.map(outcome => [outcome.marketId, outcome.tokenId, outcome.won])).toEqual([[11, 'yes-11', false], [12, 'yes-12', true]])
+  })
+
+  describe('sync tracking and API route', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(() => {
+      cache.clear()
+      vi.mocked(opinionClient.getMarkets).mockReset()
+      vi.mocked(opinionClient.getMultiplePrices).mockReset()
+      vi.mocked(opinionClient.getMarketDetail).mockReset()
+      vi.mocked(opinionClient.fetchPriceHistory).mockReset()
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should follow markets that leave the active list until Opinion reports them resolved', async () => {
+      const service = new SyncService({ liquidityMarkets: 0, volatilityMarkets: 0, portfolioIntervalSeconds: 0, resolutionIntervalSeconds: 60 })
+      const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(NOW * 1000)
+      vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(priceMap([['yes-1', '0.5'], ['no-1', '0.5'], ['yes-2', '0.9'], ['no-2', '0.1']]))
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [market(1), market(2)], total: 2, failed: false })
+      await service.performSync()
+
+      // Market 2 drops out of the active list, then resolves YES on the next pass
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [market(1)], total: 1, failed: false })
+      vi.mocked(opinionClient.getMarketDetail).mockResolvedValue({ ...market(2), status: 'Resolving' })
+      nowSpy.mockReturnValue((NOW + 30) * 1000)
+      await service.performSync()
+      expect(await client.getResolvedMarkets()).toEqual([])
+
+      vi.mocked(opinionClient.getMarketDetail).mockResolvedValue({ ...market(2), status: 'Resolved', resultTokenId: 'yes-2' })
+      nowSpy.mockReturnValue((NOW + 120) * 1000)
+      await service.performSync()
+
+      const archived = await client.getResolvedMarkets()
+      expect(archived).toHaveLength(1)
+      expect(archived[0]).toMatchObject({ id: 2, status: 'resolved', winningOutcome: 'YES', resolvedAt: NOW + 120 })
+      expect(opinionClient.getMarketDetail).toHaveBeenCalledWith(2, false)
+      expect(opinionClient.fetchPriceHistory).not.toHaveBeenCalled() // the synced series covered both tokens
+
+      const paths = await client.getResolvedPricePaths([2])
+      expect(paths.get(2)?.['yes-2']?.length).toBeGreaterThan(0)
+      expect(await client.getDueResolutions((NOW + 3600) * 1000, 10)).toEqual([])
+    })
+
+    it('should stop following markets that come back to the active list or are still open upstream', async () => {
+      const service = new SyncService({ liquidityMarkets: 0, volatilityMarkets: 0, portfolioIntervalSeconds: 0, resolutionIntervalSeconds: 60 })
+      const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(NOW * 1000)
+      vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(priceMap([['yes-1', '0.5'], ['no-1', '0.5']]))
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [market(1), market(2), market(3)], total: 3, failed: false })
+      await service.performSync()
+
+      // Markets 2 and 3 drop out; 2 comes back and 3 is still trading according to Opinion
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [market(1)], total: 1, failed: false })
+      nowSpy.mockReturnValue((NOW + 30) * 1000)
+      await service.performSync()
+      expect((await client.getDueResolutions((NOW + 30) * 1000, 10)).map(tracked => tracked.id)).toEqual([2, 3])
+
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [market(1), market(2)], total: 2, failed: false })
+      vi.mocked(opinionClient.getMarketDetail).mockResolvedValue(market(3))
+      nowSpy.mockReturnValue((NOW + 90) * 1000)
+      await service.performSync()
+
+      expect(opinionClient.getMarketDetail).toHaveBeenCalledTimes(1)
+      expect(opinionClient.getMarketDetail).toHaveBeenCalledWith(3, false)
+      expect(await client.getDueResolutions((NOW + 86400 * 30) * 1000, 10)).toEqual([])
+      expect(await client.getResolvedMarkets()).toEqual([])
+    })
+
+    it('should filter and page the archive', async () => {
+      const archive = (id: number, resolvedAt: number, extra: Partial<ResolvedMarket> = {}): ResolvedMarket => ({
+        id,
+        title: `Market ${id}`,
+        marketType: 0,
+        status: 'resolved',
+        cutoffAt: resolvedAt - 3600,
+        resolvedAt,
+        winningTokenId: `yes-${id}`,
+        winningOutcome: 'YES',
+        volume24h: '100',
+        outcomes: [
+          { marketId: id, label: 'YES', tokenId: `yes-${id}`, finalPrice: 0.8, won: true },
+          { marketId: id, label: 'NO', tokenId: `no-${id}`, finalPrice: 0.2, won: false }
+        ],
+        archivedAt: resolvedAt * 1000,
+        ...extra
+      })
+      await client.saveResolvedMarket(archive(1, NOW), { 'yes-1': [{ t: NOW - 3600, p: '0.8' }] })
+      await client.saveResolvedMarket(archive(2, NOW + 10, { title: 'Rain in Paris' }), {})
+      await client.saveResolvedMarket(archive(3, NOW + 20, { status: 'failed', winningTokenId: null, winningOutcome: null, outcomes: [] }), {})
+
+      const get = async (query: string) => (await resolvedGET(new NextRequest(`http://localhost/api/markets/resolved?${query}`))).json()
+
+      const all: ResolvedMarketsResponse = await get('')
+      expect(all.markets.map(m => m.id)).toEqual([3, 2, 1])
+      expect((await get('status=resolved&winner=yes') as ResolvedMarketsResponse).markets.map(m => m.id)).toEqual([2, 1])
+      expect((await get('q=paris') as ResolvedMarketsResponse).markets.map(m => m.id)).toEqual([2])
+      expect((await get(`to=${NOW}&path=true`) as ResolvedMarketsResponse).markets[0].pricePath).toEqual({ 'yes-1': [{ t: NOW - 3600, p: '0.8' }] })
+
+      const second: ResolvedMarketsResponse = await get('limit=2&page=2')
+      expect([second.total, second.markets.map(m => m.id)]).toEqual([3, [1]])
+      expect((await resolvedGET(new NextRequest('http://localhost/api/markets/resolved?status=open'))).status).toBe(400)
+    })
+  })
+})
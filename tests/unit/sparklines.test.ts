@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as sparklinesGET } from '@/app/api/charts/sparklines/route'
+import { GET as priceHistoryGET } from '@/app/api/charts/price-history/route'
+import { buildSparkline } from '@/lib/historySource'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { PriceHistoryPoint } from '@/lib/types'
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getPriceHistory: vi.fn()
+  }
+}))
+
+const hourly = (from: number, prices: number[]): PriceHistoryPoint[] =>
+  prices.map((price, i) => ({ t: from + i * 3600, p: String(price) }))
+
+describe('Sparklines', () => {
+  beforeEach(() => {
+    cache.clear()
+    vi.mocked(opinionClient.getPriceHistory).mockReset()
+  })
+
+  it('should keep the last price per bucket inside the window', () => {
+    const history = [...hourly(0, [0.1, 0.2, 0.3, 0.4]), { t: 100_000, p: '0.9' }, { t: 7200, p: 'bad' }]
+    const sparkline = buildSparkline('yes-1', history, 0, 4 * 3600, 2)
+
+    expect(sparkline.timestamps).toEqual([3600, 3 * 3600])
+    expect(sparkline.prices).toEqual([0.2, 0.4])
+    expect(sparkline.change).toBe(0.2)
+    expect(buildSparkline('yes-1', [], 0, 3600, 10)).toEqual({ tokenId: 'yes-1', timestamps: [], prices: [], change: null })
+  })
+
+  it('should serve many tokens in one request and return empty series without history', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    vi.mocked(opinionClient.getPriceHistory).mockImplementation(async tokenId =>
+      tokenId === 'yes-1' ? hourly(now - 10 * 3600, [0.5, 0.55, 0.6]) : [])
+
+    const response = await sparklinesGET(new NextRequest('http://localhost/api/charts/sparklines?tokenIds=yes-1,yes-2&range=24h'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.sparklines.map((s: { tokenId: string; prices: number[] }) => [s.tokenId, s.prices])).toEqual([
+      ['yes-1', [0.5, 0.55, 0.6]],
+      ['yes-2', []]
+    ])
+    expect(opinionClient.getPriceHistory).toHaveBeenCalledWith('yes-1', '1h')
+  })
+
+  it('should share cached history with the price history chart', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    vi.mocked(opinionClient.getPriceHistory).mockResolvedValue(hourly(now - 3600, [0.4, 0.5]))
+
+    await sparklinesGET(new NextRequest('http://localhost/api/charts/sparklines?tokenIds=yes-1,no-1&range=7d'))
+    const chart = await priceHistoryGET(new NextRequest('http://localhost/api/charts/price-history?yesTokenId=yes-1&noTokenId=no-1&interval=1h'))
+
+    expect(chart.status).toBe(200)
+    expect(opinionClient.getPriceHistory).toHaveBeenCalledTimes(2)
+  })
+
+  it('should validate the request', async () => {
+    const get = (query: string) => sparklinesGET(new NextRequest(`http://localhost/api/charts/sparklines?${query}`))
+
+    expect((await get('')).status).toBe(400)
+    expect((await get(`tokenIds=${Array.from({ length: 51 }, (_, i) => `t${i}`).join(',')}`)).status).toBe(400)
+    expect((await get('tokenIds=yes-1&range=1y')).status).toBe(400)
+    expect((await get('tokenIds=yes-1&points=1')).status).toBe(400)
+  })
+})
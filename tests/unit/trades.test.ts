@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as tradesGET } from '@/app/api/markets/[id]/trades/route'
+import { resolveTradeTokens, summarizeTrades, takeNewTrades } from '@/lib/trades'
+import { SyncService } from '@/lib/sync'
+import { InMemoryRedisClient } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { Market, MarketTradesResponse, PriceData, Trade } from '@/lib/types'
+import { buildMarket, memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/opinionClient')>()
+  return {
+    OpinionClient: actual.OpinionClient,
+    opinionClient: {
+      getMarkets: vi.fn(),
+      getMultiplePrices: vi.fn(),
+      getMarketTrades: vi.fn()
+    }
+  }
+})
+
+const NOW = 1_700_000_000_000
+
+const market = (id: number, extra: Partial<Market> = {}): Market =>
+  buildMarket(id, { cutoffAt: NOW / 1000 + 86400, status: 'Activated', volume24h: '1000', ...extra })
+
+const trade = (id: string, timestamp: number, extra: Partial<Trade> = {}): Trade => ({
+  id,
+  marketId: 1,
+  tokenId: 'yes-1',
+  outcome: 'YES',
+  side: 'buy',
+  price: 0.5,
+  shares: 100,
+  notional: 50,
+  fee: 0,
+  timestamp,
+  ...extra
+})
+
+const page = (trades: Trade[]) => ({ trades, total: trades.length, page: 1, limit: 50 })
+
+describe('Trades', () => {
+  it('should map Opinion trade lists and return an empty page on errors', async () => {
+    const { OpinionClient } = await vi.importActual<typeof import('@/lib/opinionClient')>('@/lib/opinionClient')
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({
+        errno: 0,
+        result: {
+          total: 12,
+          list: [
+            { txHash: '0xabc', marketId: 7, side: 'Sell', outcome: 'NO', price: '0.35', shares: '200', usdAmount: '70', fee: '0.7', userAddress: '0xw', createdAt: 1_700_000_000 },
+            { marketId: 7, side: 'Buy', outcomeSide: 1, price: '0.6', shares: '0', createdAt: 1_700_000_100 }
+          ]
+        }
+      })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ errno: 10001, errmsg: 'not found', result: null })))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const client = new OpinionClient()
+    const trades = await client.getMarketTrades(7, 2, 10)
+
+    expect(String(fetchMock.mock.calls[0][0])).toContain('/trade/market/7?page=2&limit=10')
+    expect(trades).toEqual({
+      trades: [{
+        id: '0xabc',
+        marketId: 7,
+        tokenId: '',
+        outcome: 'NO',
+        side: 'sell',
+        price: 0.35,
+        shares: 200,
+        notional: 70,
+        fee: 0.7,
+        wallet: '0xw',
+        timestamp: 1_700_000_000_000
+      }],
+      total: 12,
+      page: 2,
+      limit: 10
+    })
+    const wallet = '0x' + 'c'.repeat(40)
+    expect(await client.getUserTrades(wallet, 1, 20, 7)).toEqual({ trades: [], total: 0, page: 1, limit: 20 })
+    expect(String(fetchMock.mock.calls[1][0])).toContain(`/trade/user/${wallet}?page=1&limit=20&marketId=7`)
+    await expect(client.getUserTrades('../market/7')).rejects.toThrow('Invalid walletAddress')
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    vi.unstubAllGlobals()
+  })
+
+  it('should only hand over trades missing from the previous page', () => {
+    const seenIds = new Map<number, Set<string>>()
+
+    expect(takeNewTrades(new Map([[1, [trade('a', NOW)]]]), seenIds)).toEqual({ unseen: [trade('a', NOW)], fresh: [] }) // baseline
+    const { unseen, fresh } = takeNewTrades(new Map([[1, [trade('b', NOW + 2000), trade('c', NOW + 1000), trade('d', NOW), trade('a', NOW)]]]), seenIds)
+    // d shares a's timestamp but is a different transaction
+    expect([unseen.map(t => t.id), fresh.map(t => t.id)]).toEqual([['d', 'c', 'b'], ['d', 'c', 'b']])
+    expect(takeNewTrades(new Map([[1, [trade('b', NOW + 2000)]]]), seenIds)).toEqual({ unseen: [], fresh: [] })
+    expect(seenIds.get(1)).toEqual(new Set(['b']))
+  })
+
+  it('should resolve outcome tokens and summarise volume and VWAP', () => {
+    const labelled = market(1, { yesLabel: 'Above' })
+    const resolved = resolveTradeTokens([trade('a', NOW, { tokenId: '', outcome: 'above' }), trade('b', NOW, { tokenId: '', outcome: 'NO' })], labelled)
+    expect(resolved.map(t => t.tokenId)).toEqual(['yes-1', 'no-1'])
+
+    expect(summarizeTrades([
+      trade('a', NOW, { price: 0.4, shares: 100, notional: 40 }),
+      trade('b', NOW, { side: 'sell', price: 0.6, shares: 300, notional: 180 })
+    ])).toEqual({ count: 2, buys: 1, sells: 1, shares: 400, notional: 220, vwap: 0.55 })
+    expect(summarizeTrades([]).vwap).toBeNull()
+  })
+
+  describe('sync stage and API route', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(() => {
+      cache.clear()
+      vi.mocked(opinionClient.getMarkets).mockReset()
+      vi.mocked(opinionClient.getMultiplePrices).mockReset()
+      vi.mocked(opinionClient.getMarketTrades).mockReset()
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should store trades and report large new ones as whale events', async () => {
+      const service = new SyncService({ liquidityMarkets: 0, volatilityMarkets: 0, portfolioIntervalSeconds: 0, resolutionMarkets: 0, tradeMarkets: 5 })
+      const prices = new Map<string, PriceData>([['yes-1', { tokenId: 'yes-1', price: '0.5', timestamp: NOW }], ['no-1', { tokenId: 'no-1', price: '0.5', timestamp: NOW }]])
+      const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(NOW)
+      vi.mocked(opinionClient.getMarkets).mockResolvedValue({ markets: [market(1)], total: 1, failed: false })
+      vi.mocked(opinionClient.getMultiplePrices).mockResolvedValue(prices)
+      // An old large trade is part of the baseline and never reported
+      vi.mocked(opinionClient.getMarketTrades).mockResolvedValue(page([trade('old', NOW - 60000, { shares: 50000, tokenId: '' })]))
+      await service.performSync()
+
+      const large = trade('large', NOW + 10000, { side: 'sell', price: 0.6, shares: 10000, notional: 6000 })
+      vi.mocked(opinionClient.getMarketTrades).mockResolvedValue(page([large, trade('old', NOW - 60000, { shares: 50000, tokenId: '' })]))
+      nowSpy.mockReturnValue(NOW + 30000)
+      await service.performSync()
+
+      expect(opinionClient.getMarketTrades).toHaveBeenCalledWith(1, 1, 50)
+      expect((await client.getTrades(1, 0)).map(t => [t.id, t.tokenId])).toEqual([['large', 'yes-1'], ['old', 'yes-1']])
+      const whales = await client.getWhaleEvents(0)
+      expect(whales.filter(event => event.kind === 'large_trade')).toEqual([
+        expect.objectContaining({ marketId: 1, tokenId: 'yes-1', side: 'sell', size: 10000, notional: 6000, timestamp: NOW + 10000 })
+      ])
+    })
+
+    it('should serve stored trades and fall back to Opinion for other markets', async () => {
+      await client.appendTrades([trade('a', NOW), trade('b', NOW + 1000), trade('c', NOW + 2000)], 86400)
+      vi.mocked(opinionClient.getMarketTrades).mockResolvedValue({ ...page([trade('live', NOW, { marketId: 2 })]), total: 40 })
+      const get = (id: string, query: string = '') =>
+        tradesGET(new NextRequest(`http://localhost/api/markets/${id}/trades?${query}`), { params: { id } })
+
+      const stored: MarketTradesResponse = await (await get('1', 'limit=2&page=1')).json()
+      expect([stored.source, stored.total, stored.trades.map(t => t.id), stored.summary.count]).toEqual(['stored', 3, ['c', 'b'], 2])
+      const recent: MarketTradesResponse = await (await get('1', `since=${NOW + 1000}`)).json()
+      expect([recent.total, recent.trades.map(t => t.id)]).toEqual([2, ['c', 'b']])
+      // Nothing newer than since is an empty stored page, not a live fetch
+      const none: MarketTradesResponse = await (await get('1', `since=${NOW + 5000}`)).json()
+      expect([none.source, none.total, none.trades]).toEqual(['stored', 0, []])
+      expect(opinionClient.getMarketTrades).not.toHaveBeenCalled()
+
+      const live: MarketTradesResponse = await (await get('2')).json()
+      expect([live.source, live.total, live.trades.map(t => t.id)]).toEqual(['live', 40, ['live']])
+      expect(opinionClient.getMarketTrades).toHaveBeenCalledWith(2, 1, 50)
+      const liveRecent: MarketTradesResponse = await (await get('2', `since=${NOW + 1}`)).json()
+      expect([liveRecent.source, liveRecent.total, liveRecent.trades]).toEqual(['live', 0, []])
+
+      expect((await get('abc')).status).toBe(400)
+      expect((await get('1', 'limit=500')).status).toBe(400)
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as marketsListGET } from '@/app/api/markets/list/route'
+import { GET as marketVolatilityGET } from '@/app/api/markets/[id]/volatility/route'
+import { computeVolatility, logit, realizedVolatility } from '@/lib/volatility'
+import { InMemoryRedisClient, REDIS_KEYS } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { MarketData, MarketListResponse, PriceData, PriceHistoryPoint } from '@/lib/types'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getMarkets: vi.fn(),
+    getMultiplePrices: vi.fn(),
+    getMarketDetail: vi.fn(),
+    fetchPriceHistory: vi.fn()
+  }
+}))
+
+const NOW = 1_700_000_000
+
+const hourly = (from: number, prices: number[]): PriceHistoryPoint[] =>
+  prices.map((price, i) => ({ t: from + i * 3600, p: String(price) }))
+
+describe('Volatility', () => {
+  it('should measure moves in logit space so moves near the bounds count for more', () => {
+    const series = (a: number, b: number, c: number) => [{ t: 0, p: a }, { t: 1, p: b }, { t: 2, p: c }]
+
+    expect(realizedVolatility(series(0.02, 0.03, 0.02), 0)!).toBeGreaterThan(realizedVolatility(series(0.5, 0.51, 0.5), 0)! * 5)
+    expect(realizedVolatility(series(0.5, 0.6, 0.5), 0)).toBeCloseTo(Math.sqrt(2) * logit(0.6), 4)
+    expect(realizedVolatility(series(0.5, 0.6, 0.5), 1)).toBeNull()
+    expect(Number.isFinite(logit(0)) && Number.isFinite(logit(1))).toBe(true)
+  })
+
+  it('should summarise drawdown, jumps and hourly moves over the lookback', () => {
+    const points = [{ t: NOW - 8 * 86400, p: '0.1' }, ...hourly(NOW - 4 * 3600, [0.5, 0.6, 0.45, 0.47, 0.52])]
+    const stats = computeVolatility('yes-1', points, NOW)
+
+    expect(stats.points).toBe(5) // the 8 day old point is outside the lookback
+    expect(stats.maxDrawdown).toBe(0.15)
+    expect(stats.jumpsPerDay).toBe(18) // 3 moves of 5+ cents over 4 hours
+    expect(stats.avgAbsMovePerHour).toBe(0.08) // (0.1 + 0.15 + 0.02 + 0.05) / 4
+    expect(stats.vol1h).toBeNull()
+    expect(stats.vol24h).toBe(stats.vol7d)
+    expect(computeVolatility('yes-2', [], NOW)).toMatchObject({ vol24h: null, maxDrawdown: null, jumpsPerDay: null, points: 0 })
+  })
+
+  describe('API routes', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(async () => {
+      cache.clear()
+      vi.mocked(opinionClient.getMarketDetail).mockReset()
+      vi.mocked(opinionClient.fetchPriceHistory).mockReset()
+
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+
+      const cutoffAt = Math.floor(Date.now() / 1000) + 86400
+      const stored: MarketData[] = [1, 2, 3].map(id => ({
+        id: String(id),
+        title: `Market ${id}`,
+        yesTokenId: `yes-${id}`,
+        noTokenId: `no-${id}`,
+        cutoffAt,
+        status: 'activated',
+        volume24h: String(id * 100),
+        marketType: 0,
+        childMarkets: '[]'
+      }))
+      const prices = new Map<string, PriceData>(stored.flatMap(market => [
+        [market.yesTokenId, { tokenId: market.yesTokenId, price: '0.5', timestamp: Date.now() }],
+        [market.noTokenId, { tokenId: market.noTokenId, price: '0.5', timestamp: Date.now() }]
+      ] as Array<[string, PriceData]>))
+
+      await client.setMarketSnapshot(stored, prices)
+      await client.indexMarkets(stored)
+      await client.set(REDIS_KEYS.LAST_SYNC, String(Date.now()))
+    })
+
+    it('should attach volatility columns and sort the list by them', async () => {
+      const now = Math.floor(Date.now() / 1000)
+      await client.setVolatility([
+        computeVolatility('yes-1', hourly(now - 5 * 3600, [0.5, 0.7, 0.4, 0.6, 0.5]), now),
+        computeVolatility('yes-2', hourly(now - 5 * 3600, [0.5, 0.51, 0.5, 0.51, 0.5]), now)
+      ], 900)
+
+      const list = (query: string) => marketsListGET(new NextRequest(`http://localhost/api/markets/list?${query}`))
+      const byVolume: MarketListResponse = await (await list('')).json()
+      const byVolatility: MarketListResponse = await (await list('sort=vol24h')).json()
+      const calmestFirst: MarketListResponse = await (await list('sort=vol24h&order=asc')).json()
+
+      expect(byVolume.markets.map(market => market.id)).toEqual([3, 2, 1])
+      expect(byVolume.markets[2].volatility?.vol24h).toBeGreaterThan(0)
+      expect(byVolatility.markets.map(market => market.id)).toEqual([1, 2, 3])
+      expect(calmestFirst.markets.map(market => market.id)).toEqual([2, 1, 3])
+      expect((await list('sort=spread')).status).toBe(400)
+      expect((await list('sort=vol7d&order=up')).status).toBe(400)
+    })
+
+    it('should compute per market volatility from synced series, falling back to Opinion history', async () => {
+      const now = Math.floor(Date.now() / 1000)
+      for (const [i, price] of [0.5, 0.6, 0.5, 0.6].entries()) {
+        await client.appendPriceSeries([{ tokenId: 'yes-1', price: String(price), timestamp: 0 }], now - (4 - i) * 600)
+      }
+      vi.mocked(opinionClient.fetchPriceHistory).mockResolvedValue(hourly(now - 3 * 3600, [0.2, 0.25, 0.2]))
+
+      const synced = await (await marketVolatilityGET(new NextRequest('http://localhost/api/markets/1/volatility'), { params: { id: '1' } })).json()
+      const upstream = await (await marketVolatilityGET(new NextRequest('http://localhost/api/markets/2/volatility'), { params: { id: '2' } })).json()
+
+      expect(synced.tokens).toHaveLength(1)
+      expect(synced.tokens[0]).toMatchObject({ tokenId: 'yes-1', marketId: 1, label: 'YES', points: 4, jumpsPerDay: expect.any(Number) })
+      expect(synced.tokens[0].vol1h).toBeCloseTo(Math.sqrt(3) * logit(0.6), 3)
+      expect(opinionClient.fetchPriceHistory).toHaveBeenCalledTimes(1)
+      expect(upstream.tokens[0]).toMatchObject({ tokenId: 'yes-2', points: 3, maxDrawdown: 0.05 })
+    })
+
+    it('should reject unknown markets', async () => {
+      vi.mocked(opinionClient.getMarketDetail).mockResolvedValue(null)
+
+      expect((await marketVolatilityGET(new NextRequest('http://localhost/api/markets/99/volatility'), { params: { id: '99' } })).status).toBe(404)
+      expect((await marketVolatilityGET(new NextRequest('http://localhost/api/markets/x/volatility'), { params: { id: 'x' } })).status).toBe(400)
+    })
+  })
+})
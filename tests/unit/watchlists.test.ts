@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as listWatchlistsGET, POST as createWatchlistPOST } from '@/app/api/watchlists/route'
+import { GET as watchlistGET, PATCH as watchlistPATCH, DELETE as watchlistDELETE } from '@/app/api/watchlists/[id]/route'
+import { GET as positionsGET } from '@/app/api/user/positions/route'
+import { applyWatchlistUpdate, parseWatchlistInput } from '@/lib/watchlists'
+import { InputValidator } from '@/lib/errorHandler'
+import { InMemoryRedisClient } from '@/lib/redis'
+import { opinionClient } from '@/lib/opinionClient'
+import cache from '@/lib/cache'
+import { memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+vi.mock('@/lib/opinionClient', () => ({
+  opinionClient: {
+    getUserPositions: vi.fn()
+  }
+}))
+
+const WALLET_A = '0x' + 'a'.repeat(40)
+const WALLET_B = '0x' + 'b'.repeat(40)
+
+const request = (path: string, method = 'GET', body?: unknown) =>
+  new NextRequest(`http://localhost${path}`, { method, body: body === undefined ? undefined : JSON.stringify(body) })
+
+describe('Watchlists', () => {
+  it('should validate addresses and owners', () => {
+    expect(InputValidator.validateAddress(` ${WALLET_A} `)).toBe(WALLET_A)
+    expect(() => InputValidator.validateAddress('0x123')).toThrow('Invalid address')
+    expect(() => InputValidator.validateAddress(null)).toThrow('Missing address')
+    expect(InputValidator.validateOwner('session:abc-1')).toBe('session:abc-1')
+    expect(() => InputValidator.validateOwner('has spaces')).toThrow('Invalid owner')
+  })
+
+  it('should normalize wallets and markets and validate updates', () => {
+    const watchlist = parseWatchlistInput({
+      owner: 'alice',
+      name: ' Funds ',
+      wallets: [WALLET_A.toUpperCase().replace('0X', '0x'), WALLET_A],
+      marketIds: [1, '2', 1]
+    }, 1000)
+    expect(watchlist).toMatchObject({ owner: 'alice', name: 'Funds', wallets: [WALLET_A], marketIds: [1, 2], createdAt: 1000 })
+
+    expect(() => parseWatchlistInput({ owner: 'alice', name: '' })).toThrow('Invalid name')
+    expect(() => parseWatchlistInput({ owner: 'alice', name: 'x', wallets: ['abc'] })).toThrow('Invalid wallet address')
+    expect(() => parseWatchlistInput({ owner: 'alice', name: 'x', wallets: Array.from({ length: 11 }, (_, i) => '0x' + String(i).padStart(40, '0')) }))
+      .toThrow('Too many wallets')
+
+    const updated = applyWatchlistUpdate(watchlist, { wallets: [WALLET_B] }, 2000)
+    expect(updated).toMatchObject({ name: 'Funds', wallets: [WALLET_B], marketIds: [1, 2], updatedAt: 2000 })
+    expect(() => applyWatchlistUpdate(watchlist, { marketIds: [0] })).toThrow('Invalid marketId')
+  })
+
+  describe('API routes', () => {
+    let client: InMemoryRedisClient
+
+    beforeEach(() => {
+      cache.clear()
+      vi.mocked(opinionClient.getUserPositions).mockReset()
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+    })
+
+    it('should create, list, update and delete watchlists per owner', async () => {
+      const created = await createWatchlistPOST(request('/api/watchlists', 'POST', { owner: 'alice', name: 'Funds', wallets: [WALLET_A] }))
+      expect(created.status).toBe(201)
+      const { id } = await created.json()
+      const params = { params: { id } }
+
+      const listed = await (await listWatchlistsGET(request('/api/watchlists?owner=alice'))).json()
+      expect(listed.watchlists.map((list: { id: string }) => list.id)).toEqual([id])
+      expect((await (await listWatchlistsGET(request('/api/watchlists?owner=bob'))).json()).watchlists).toEqual([])
+
+      const patched = await watchlistPATCH(request(`/api/watchlists/${id}?owner=alice`, 'PATCH', { marketIds: [7] }), params)
+      expect(await patched.json()).toMatchObject({ wallets: [WALLET_A], marketIds: [7] })
+
+      // Lists are scoped to their owner
+      expect((await watchlistGET(request(`/api/watchlists/${id}?owner=bob`), params)).status).toBe(404)
+      expect((await watchlistGET(request(`/api/watchlists/${id}`), params)).status).toBe(400)
+
+      expect((await watchlistDELETE(request(`/api/watchlists/${id}?owner=alice`, 'DELETE'), params)).status).toBe(200)
+      expect((await watchlistGET(request(`/api/watchlists/${id}?owner=alice`), params)).status).toBe(404)
+    })
+
+    it('should return 503 without Redis', async () => {
+      memoryClient.current = null
+      expect((await listWatchlistsGET(request('/api/watchlists?owner=alice'))).status).toBe(503)
+    })
+
+    it('should reject invalid addresses on /api/user/positions', async () => {
+      vi.mocked(opinionClient.getUserPositions).mockResolvedValue([])
+
+      expect((await positionsGET(request('/api/user/positions?address=not-a-wallet'))).status).toBe(400)
+      expect(await (await positionsGET(request('/api/user/positions'))).json()).toEqual([])
+      expect((await positionsGET(request(`/api/user/positions?address=${WALLET_A}`))).status).toBe(200)
+      expect(opinionClient.getUserPositions).toHaveBeenCalledTimes(1)
+    })
+  })
+})
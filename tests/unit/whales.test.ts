@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as whalesGET } from '@/app/api/events/whales/route'
+import { detectWhaleEvents, recordWhaleEvents, WhaleThresholds } from '@/lib/whales'
+import { InMemoryRedisClient } from '@/lib/redis'
+import { Market, Orderbook, PriceData, WhaleEvent } from '@/lib/types'
+import { buildMarket, memoryClient } from '@/tests/helpers'
+
+vi.mock('@/lib/redis', async (importOriginal) => (await import('@/tests/helpers')).mockRedisModule(importOriginal))
+
+const NOW = 1_700_000_000_000
+
+const THRESHOLDS: WhaleThresholds = { volumeJumpUsd: 10000, volumeJumpRatio: 0.2, levelNotionalUsd: 5000, tradeNotionalUsd: 5000 }
+
+const market = (id: number, volume24h: string, extra: Partial<Market> = {}): Market =>
+  buildMarket(id, { cutoffAt: NOW / 1000 + 86400, volume24h, ...extra })
+
+const prices = (entries: Array<[string, string]>): Map<string, PriceData> =>
+  new Map(entries.map(([tokenId, price]) => [tokenId, { tokenId, price, timestamp: NOW }]))
+
+const book = (tokenId: string, bids: Array<[string, string]>, asks: Array<[string, string]>): Orderbook => ({
+  market: tokenId,
+  tokenId,
+  timestamp: NOW,
+  bids: bids.map(([price, size]) => ({ price, size })),
+  asks: asks.map(([price, size]) => ({ price, size }))
+})
+
+const baseInput = {
+  markets: [] as Market[],
+  prices: new Map<string, PriceData>(),
+  previousPrices: new Map<string, string>(),
+  previousVolumes: new Map<number, number>(),
+  books: new Map<string, Orderbook>(),
+  previousBooks: new Map<string, Orderbook>(),
+  nowMs: NOW
+}
+
+describe('Whale detection', () => {
+  it('should flag volume jumps that are large in both dollars and relative terms', () => {
+    const events = detectWhaleEvents({
+      ...baseInput,
+      markets: [market(1, '30000'), market(2, '1000000'), market(3, '12000'), market(4, '90000')],
+      prices: prices([['yes-1', '0.6'], ['yes-4', '0.3']]),
+      previousPrices: new Map([['yes-1', '0.55'], ['yes-4', '0.3']]),
+      previousVolumes: new Map([[1, 15000], [2, 980000], [3, 1000]])
+    }, THRESHOLDS)
+
+    // 2 added 20k but under 20% of its volume, 3 has no YES price move to give it a side, 4 has no baseline
+    expect(events.map(event => [event.marketId, event.side, event.notional])).toEqual([
+      [1, 'buy', 15000],
+      [3, null, 11000]
+    ])
+    expect(events[0]).toMatchObject({ kind: 'volume_spike', marketTitle: 'Market 1', timestamp: NOW })
+  })
+
+  it('should only take a volume spike side from a price fetched this cycle', () => {
+    const spike = (priceData: PriceData) => detectWhaleEvents({
+      ...baseInput,
+      markets: [market(1, '30000')],
+      prices: new Map([['yes-1', priceData]]),
+      previousPrices: new Map([['yes-1', '0.55']]),
+      previousVolumes: new Map([[1, 15000]])
+    }, THRESHOLDS)[0].side
+
+    expect(spike({ tokenId: 'yes-1', price: '0', timestamp: NOW, status: 'ok' })).toBe('sell') // resolved to 0
+    expect(spike({ tokenId: 'yes-1', price: '0', timestamp: NOW, status: 'error' })).toBeNull()
+    expect(spike({ tokenId: 'yes-1', price: '0.6', timestamp: NOW - 60000, status: 'stale' })).toBeNull()
+  })
+
+  it('should flag book levels where a large size was added or pulled', () => {
+    const events = detectWhaleEvents({
+      ...baseInput,
+      markets: [market(1, '0'), market(10, '0', { marketType: 1, yesTokenId: '', noTokenId: '', childMarkets: [market(11, '0')] })],
+      previousBooks: new Map([
+        ['yes-1', book('yes-1', [['0.50', '1000'], ['0.49', '20000']], [['0.52', '500']])],
+        ['yes-11', book('yes-11', [], [['0.80', '100']])]
+      ]),
+      books: new Map([
+        ['yes-1', book('yes-1', [['0.50', '13000'], ['0.48', '5000']], [['0.52', '500']])],
+        ['yes-11', book('yes-11', [], [['0.80', '8000']])],
+        ['yes-99', book('yes-99', [['0.5', '100000']], [])]
+      ])
+    }, THRESHOLDS)
+
+    expect(events.map(event => [event.tokenId, event.side, event.action, event.price, event.size, event.notional])).toEqual([
+      ['yes-1', 'bid', 'pulled', 0.49, 20000, 9800],
+      ['yes-11', 'ask', 'added', 0.8, 7900, 6320],
+      ['yes-1', 'bid', 'added', 0.5, 12000, 6000]
+    ])
+    expect(events[1]).toMatchObject({ marketId: 10, marketTitle: 'Market 10: Market 11' })
+  })
+
+  it('should flag trades above the size threshold when a trade feed is supplied', () => {
+    const events = detectWhaleEvents({
+      ...baseInput,
+      markets: [market(1, '0')],
+      trades: [
+        { marketId: 1, tokenId: 'yes-1', side: 'sell', size: 10000, price: 0.6, timestamp: NOW - 5000 },
+        { marketId: 1, tokenId: 'yes-1', side: 'buy', size: 1000, price: 0.6, timestamp: NOW - 4000 }
+      ]
+    }, THRESHOLDS)
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({ kind: 'large_trade', side: 'sell', size: 10000, notional: 6000, timestamp: NOW - 5000 })
+  })
+
+  describe('API route', () => {
+    let client: InMemoryRedisClient
+
+    const event = (id: string, marketId: number, kind: WhaleEvent['kind'], notional: number, ageMs: number): WhaleEvent => ({
+      id,
+      kind,
+      marketId,
+      marketTitle: `Market ${marketId}`,
+      side: null,
+      size: notional,
+      notional,
+      timestamp: Date.now() - ageMs
+    })
+
+    beforeEach(async () => {
+      client = new InMemoryRedisClient()
+      memoryClient.current = client
+      await client.addWhaleEvents([
+        event('a', 1, 'volume_spike', 20000, 60_000),
+        event('b', 2, 'book_level', 6000, 30_000),
+        event('c', 1, 'book_level', 9000, 2 * 86400 * 1000)
+      ], 7 * 86400)
+    })
+
+    const get = (query: string) => whalesGET(new NextRequest(`http://localhost/api/events/whales?${query}`))
+
+    it('should list recent events newest first with filters', async () => {
+      const all = await (await get('')).json()
+      const market1 = await (await get(`marketId=1&since=${Date.now() - 3 * 86400 * 1000}`)).json()
+      const large = await (await get('kind=volume_spike&minNotional=10000')).json()
+
+      expect(all.events.map((e: WhaleEvent) => e.id)).toEqual(['b', 'a'])
+      expect(market1.events.map((e: WhaleEvent) => e.id)).toEqual(['a', 'c'])
+      expect(large.events.map((e: WhaleEvent) => e.id)).toEqual(['a'])
+      expect((await get('kind=transfer')).status).toBe(400)
+      expect((await get('marketId=abc')).status).toBe(400)
+    })
+
+    it('should record detected events and answer 503 without Redis', async () => {
+      const recorded = await recordWhaleEvents({
+        ...baseInput,
+        nowMs: Date.now(),
+        markets: [market(5, '50000')],
+        previousVolumes: new Map([[5, 10000]])
+      })
+
+      expect(recorded).toHaveLength(1)
+      expect((await (await get('marketId=5')).json()).events).toHaveLength(1)
+
+      memoryClient.current = null
+      expect((await get('')).status).toBe(503)
+    })
+  })
+})